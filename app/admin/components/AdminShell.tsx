@@ -0,0 +1,88 @@
+'use client';
+
+import Link from 'next/link';
+import AuthForm from '../../form/components/AuthForm';
+import { authService } from '../../../src/services/auth';
+
+export type AdminAccess = 'checking' | 'signed-out' | 'forbidden' | 'granted';
+
+/**
+ * Access state implied by an admin API response status, if any
+ */
+export const accessFromStatus = (status: number): AdminAccess | null => {
+  if (status === 401) return 'signed-out';
+  if (status === 403) return 'forbidden';
+  return null;
+};
+
+const NAV_LINKS = [
+  { href: '/admin', label: 'Signups' },
+  { href: '/admin/terminals', label: 'Terminals' },
+  { href: '/admin/webhooks', label: 'Webhooks' },
+];
+
+interface AdminShellProps {
+  title: string;
+  access: AdminAccess;
+  onSignedIn: () => void;
+  onSignedOut: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Sign-in and admin role gate with the console header and navigation
+ */
+export default function AdminShell({
+  title,
+  access,
+  onSignedIn,
+  onSignedOut,
+  children,
+}: AdminShellProps) {
+  const signOut = () => authService.signOut().then(onSignedOut);
+
+  if (access === 'signed-out') {
+    return (
+      <div className="max-w-md mx-auto">
+        <h1 className="text-2xl font-bold mb-4">{title}</h1>
+        <AuthForm onAuthenticated={onSignedIn} />
+      </div>
+    );
+  }
+
+  if (access === 'forbidden') {
+    return (
+      <div className="max-w-md mx-auto bg-white p-6 rounded-lg shadow-md text-center">
+        <h1 className="text-2xl font-bold mb-2">Admin access required</h1>
+        <p className="text-gray-600 mb-4">
+          Your account does not have access to the admin console.
+        </p>
+        <button type="button" className="text-blue-600 hover:underline" onClick={signOut}>
+          Sign in with a different account
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-baseline gap-6">
+          <h1 className="text-2xl font-bold">{title}</h1>
+          <nav className="flex gap-4 text-sm">
+            {NAV_LINKS.map(link => (
+              <Link key={link.href} href={link.href} className="text-blue-600 hover:underline">
+                {link.label}
+              </Link>
+            ))}
+          </nav>
+        </div>
+        <button type="button" className="text-sm text-blue-600 hover:underline" onClick={signOut}>
+          Sign out
+        </button>
+      </div>
+
+      {children}
+    </div>
+  );
+}
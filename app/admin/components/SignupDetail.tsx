@@ -0,0 +1,149 @@
+'use client';
+
+import { AddressMap } from '../../form/components/AddressMap';
+import { AdminSignupRecord } from '../../../src/services/admin';
+import { findBank } from '../../../src/utils/bankDirectory';
+import {
+  formatBusinessCategory,
+  isMerchantType,
+  MERCHANT_TYPE_LABELS,
+} from '../../../src/utils/businessCategories';
+import { getCountryProfile } from '../../../src/utils/countryProfiles';
+import {
+  DOCUMENT_REQUIREMENT_LABELS,
+  getMissingDocuments,
+  KYC_DOCUMENT_LABELS,
+} from '../../../src/utils/kycDocuments';
+import SignupStatusPanel from './SignupStatusPanel';
+
+interface SignupDetailProps {
+  signup: AdminSignupRecord;
+  onClose: () => void;
+  onStatusChanged: () => void;
+}
+
+// Shown separately or not useful to reviewers
+const HIDDEN_FIELDS = ['documents', 'latitude', 'longitude', 'status', 'status_history'];
+
+const formatLabel = (key: string) =>
+  key.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+
+const formatValue = (key: string, value: unknown) => {
+  if (key === 'business_type' && typeof value === 'string') return formatBusinessCategory(value);
+  // Applicants can type a bank the directory doesn't list, so point those out for checking
+  if (key === 'bank_name' && typeof value === 'string' && value && !findBank(value)) {
+    return `${value} (not in the bank directory)`;
+  }
+  if (key === 'merchant_type' && isMerchantType(value)) return MERCHANT_TYPE_LABELS[value];
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Full signup record with document previews and location map
+ */
+export default function SignupDetail({ signup, onClose, onStatusChanged }: SignupDetailProps) {
+  const latitude = typeof signup.latitude === 'number' ? signup.latitude : null;
+  const longitude = typeof signup.longitude === 'number' ? signup.longitude : null;
+  const documents = signup.documents || [];
+  const missingDocuments =
+    signup.account_type === 'business' || signup.account_type === 'merchant'
+      ? getMissingDocuments(
+          getCountryProfile(signup.country),
+          signup.account_type,
+          documents.map(document => ({
+            type: document.document_type,
+            file_path: document.file_path,
+          }))
+        )
+      : [];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">{signup.name}</h2>
+          <p className="text-sm text-gray-500">@{signup.username}</p>
+        </div>
+        <button type="button" onClick={onClose} className="text-sm text-blue-600 hover:underline">
+          Close
+        </button>
+      </div>
+
+      <SignupStatusPanel signup={signup} onStatusChanged={onStatusChanged} />
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        {Object.entries(signup)
+          .filter(([key]) => !HIDDEN_FIELDS.includes(key))
+          .map(([key, value]) => (
+            <div key={key} className="col-span-2 sm:col-span-1">
+              <dt className="text-xs font-medium text-gray-500">{formatLabel(key)}</dt>
+              <dd className="text-gray-800 break-words">{formatValue(key, value)}</dd>
+            </div>
+          ))}
+      </dl>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Documents</h3>
+        {missingDocuments.length > 0 && (
+          <p className="text-sm text-red-600 mb-2">
+            Missing:{' '}
+            {missingDocuments.map(missing => DOCUMENT_REQUIREMENT_LABELS[missing]).join(', ')}
+          </p>
+        )}
+        {documents.length > 0 ? (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {documents.map(document => (
+              <li key={document.id}>
+                <p className="text-xs font-medium text-gray-500 mb-1">
+                  {KYC_DOCUMENT_LABELS[document.document_type] || document.document_type}
+                </p>
+                {document.reused_by.length > 0 && (
+                  <p className="text-xs text-red-600 mb-1" title={document.reused_by.join(', ')}>
+                    Same file sent with {document.reused_by.length} other signup
+                    {document.reused_by.length === 1 ? '' : 's'} - possible document fraud
+                  </p>
+                )}
+                {document.preview_url && document.file_path.endsWith('.pdf') ? (
+                  <a
+                    href={document.preview_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Open PDF
+                  </a>
+                ) : document.preview_url ? (
+                  <a href={document.preview_url} target="_blank" rel="noopener noreferrer">
+                    {/* Signed URLs expire after a few minutes, so next/image caching doesn't help here */}
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={document.preview_url}
+                      alt={`${KYC_DOCUMENT_LABELS[document.document_type]} for ${signup.name}`}
+                      className="max-h-64 rounded border border-gray-200"
+                    />
+                  </a>
+                ) : (
+                  <p className="text-sm text-gray-500">Preview unavailable</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No documents uploaded</p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Location</h3>
+        {latitude !== null && longitude !== null ? (
+          <AddressMap latitude={latitude} longitude={longitude} />
+        ) : (
+          <p className="text-sm text-gray-500">No coordinates provided</p>
+        )}
+      </div>
+    </div>
+  );
+}
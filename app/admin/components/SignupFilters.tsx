@@ -0,0 +1,101 @@
+'use client';
+
+import { AdminSignupListQuery, SIGNUP_STATUSES } from '../../../src/types';
+import { formatSignupStatus } from '../../../src/utils/signupStatus';
+
+export type SignupFilterValues = Pick<
+  AdminSignupListQuery,
+  'account_type' | 'wants_terminal' | 'status' | 'from' | 'to'
+>;
+
+interface SignupFiltersProps {
+  value: SignupFilterValues;
+  onChange: (value: SignupFilterValues) => void;
+}
+
+const selectClass =
+  'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Filter controls for the admin signup list
+ */
+export default function SignupFilters({ value, onChange }: SignupFiltersProps) {
+  const update = (changes: Partial<SignupFilterValues>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="flex flex-wrap gap-3 items-end">
+      <label className="flex flex-col text-xs font-medium text-gray-600">
+        Account type
+        <select
+          className={selectClass}
+          value={value.account_type || ''}
+          onChange={e =>
+            update({
+              account_type: (e.target.value || undefined) as SignupFilterValues['account_type'],
+            })
+          }
+        >
+          <option value="">All</option>
+          <option value="personal">Personal</option>
+          <option value="business">Professional</option>
+          <option value="merchant">Merchant</option>
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs font-medium text-gray-600">
+        Terminal
+        <select
+          className={selectClass}
+          value={value.wants_terminal === undefined ? '' : String(value.wants_terminal)}
+          onChange={e =>
+            update({
+              wants_terminal: e.target.value === '' ? undefined : e.target.value === 'true',
+            })
+          }
+        >
+          <option value="">All</option>
+          <option value="true">Wants terminal</option>
+          <option value="false">No terminal</option>
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs font-medium text-gray-600">
+        Status
+        <select
+          className={selectClass}
+          value={value.status || ''}
+          onChange={e =>
+            update({ status: (e.target.value || undefined) as SignupFilterValues['status'] })
+          }
+        >
+          <option value="">All</option>
+          {SIGNUP_STATUSES.map(status => (
+            <option key={status} value={status}>
+              {formatSignupStatus(status)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs font-medium text-gray-600">
+        From
+        <input
+          type="date"
+          className={selectClass}
+          value={value.from || ''}
+          onChange={e => update({ from: e.target.value || undefined })}
+        />
+      </label>
+
+      <label className="flex flex-col text-xs font-medium text-gray-600">
+        To
+        <input
+          type="date"
+          className={selectClass}
+          value={value.to || ''}
+          onChange={e => update({ to: e.target.value || undefined })}
+        />
+      </label>
+    </div>
+  );
+}
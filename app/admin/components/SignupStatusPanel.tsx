@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { adminService, AdminSignupRecord } from '../../../src/services/admin';
+import { SignupStatus } from '../../../src/types';
+import {
+  formatSignupStatus,
+  REASON_REQUIRED_STATUSES,
+  SIGNUP_STATUS_TRANSITIONS,
+} from '../../../src/utils/signupStatus';
+
+interface SignupStatusPanelProps {
+  signup: AdminSignupRecord;
+  onStatusChanged: () => void;
+}
+
+const ACTION_LABELS: Record<SignupStatus, string> = {
+  submitted: 'Submitted',
+  under_review: 'Start review',
+  needs_info: 'Request info',
+  approved: 'Approve',
+  rejected: 'Reject',
+  onboarded: 'Mark onboarded',
+};
+
+/**
+ * Current status, allowed next steps and the audit trail for a signup
+ */
+export default function SignupStatusPanel({ signup, onStatusChanged }: SignupStatusPanelProps) {
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nextStatuses = SIGNUP_STATUS_TRANSITIONS[signup.status] || [];
+
+  const handleTransition = async (status: SignupStatus) => {
+    if (REASON_REQUIRED_STATUSES.includes(status) && !reason.trim()) {
+      setError(`Add a reason to ${ACTION_LABELS[status].toLowerCase()}`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    const response = await adminService.updateStatus(signup.id, {
+      status,
+      from: signup.status,
+      ...(reason.trim() ? { reason: reason.trim() } : {}),
+    });
+
+    setIsSaving(false);
+
+    if (!response.success) {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to update status');
+      // Someone else changed it - show the current state
+      if (response.code === 'stale_status') onStatusChanged();
+      return;
+    }
+
+    setReason('');
+    onStatusChanged();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-medium text-gray-700">Status</h3>
+        <span className="px-2 py-0.5 rounded bg-gray-100 text-xs font-medium text-gray-700 capitalize">
+          {formatSignupStatus(signup.status)}
+        </span>
+      </div>
+
+      {nextStatuses.length > 0 && (
+        <div className="space-y-2">
+          <textarea
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            rows={2}
+            placeholder="Reason (required to request info or reject)"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            {nextStatuses.map(status => (
+              <button
+                key={status}
+                type="button"
+                disabled={isSaving}
+                onClick={() => handleTransition(status)}
+                className={`px-3 py-1.5 rounded text-sm text-white disabled:opacity-50 ${
+                  status === 'rejected'
+                    ? 'bg-red-600 hover:bg-red-700'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {ACTION_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {signup.status_history.length > 0 && (
+        <ol className="border-l border-gray-200 pl-4 space-y-2 text-sm">
+          {signup.status_history.map(change => (
+            <li key={`${change.created_at}-${change.to_status}`}>
+              <p className="text-gray-800 capitalize">
+                {change.from_status ? `${formatSignupStatus(change.from_status)} → ` : ''}
+                {formatSignupStatus(change.to_status)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(change.created_at).toLocaleString()}
+                {change.actor ? ` · ${change.actor}` : ''}
+              </p>
+              {change.reason && <p className="text-gray-600">{change.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { AdminSignupListQuery, AdminSignupSummary, SignupStatus } from '../../../src/types';
+import { formatSignupStatus } from '../../../src/utils/signupStatus';
+
+type SortColumn = AdminSignupListQuery['sort'];
+
+interface SignupTableProps {
+  rows: AdminSignupSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  sort: SortColumn;
+  order: AdminSignupListQuery['order'];
+  isLoading: boolean;
+  selectedId: string | null;
+  onSort: (column: SortColumn) => void;
+  onPageChange: (page: number) => void;
+  onSelect: (id: string) => void;
+}
+
+const COLUMNS: { key: keyof AdminSignupSummary; label: string; sortable?: SortColumn }[] = [
+  { key: 'created_at', label: 'Submitted', sortable: 'created_at' },
+  { key: 'name', label: 'Name', sortable: 'name' },
+  { key: 'username', label: 'Username', sortable: 'username' },
+  { key: 'account_type', label: 'Type', sortable: 'account_type' },
+  { key: 'business_name', label: 'Business' },
+  { key: 'wants_terminal', label: 'Terminal' },
+  { key: 'status', label: 'Status', sortable: 'status' },
+];
+
+const formatCell = (row: AdminSignupSummary, key: keyof AdminSignupSummary) => {
+  const value = row[key];
+  if (key === 'created_at') return new Date(value as string).toLocaleString();
+  if (key === 'wants_terminal') return value ? 'Yes' : 'No';
+  if (key === 'status') return formatSignupStatus(value as SignupStatus);
+  return value ?? '—';
+};
+
+/**
+ * Sortable, paged list of signups
+ */
+export default function SignupTable({
+  rows,
+  total,
+  page,
+  pageSize,
+  sort,
+  order,
+  isLoading,
+  selectedId,
+  onSort,
+  onPageChange,
+  onSelect,
+}: SignupTableProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div>
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {COLUMNS.map(column => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  className="px-3 py-2 text-left font-medium text-gray-600"
+                  aria-sort={
+                    column.sortable && sort === column.sortable
+                      ? order === 'asc'
+                        ? 'ascending'
+                        : 'descending'
+                      : undefined
+                  }
+                >
+                  {column.sortable ? (
+                    <button
+                      type="button"
+                      className="hover:text-blue-600"
+                      onClick={() => onSort(column.sortable as SortColumn)}
+                    >
+                      {column.label}
+                      {sort === column.sortable && (order === 'asc' ? ' ▲' : ' ▼')}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {rows.map(row => (
+              <tr
+                key={row.id}
+                onClick={() => onSelect(row.id)}
+                className={`cursor-pointer hover:bg-blue-50 ${
+                  selectedId === row.id ? 'bg-blue-50' : ''
+                }`}
+              >
+                {COLUMNS.map(column => (
+                  <td key={column.key} className="px-3 py-2 whitespace-nowrap text-gray-700">
+                    {formatCell(row, column.key)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {!isLoading && rows.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length} className="px-3 py-6 text-center text-gray-500">
+                  No signups match these filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-3 text-sm text-gray-600">
+        <span>
+          {total} signup{total === 1 ? '' : 's'}
+          {isLoading && ' · Loading...'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="px-3 py-1 border rounded disabled:opacity-50"
+            disabled={page <= 1 || isLoading}
+            onClick={() => onPageChange(page - 1)}
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="px-3 py-1 border rounded disabled:opacity-50"
+            disabled={page >= pageCount || isLoading}
+            onClick={() => onPageChange(page + 1)}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
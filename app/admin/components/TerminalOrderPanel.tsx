@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { adminService } from '../../../src/services/admin';
+import { AdminTerminalOrder, TerminalOrderStatus } from '../../../src/types';
+import {
+  formatTerminalOrderStatus,
+  normalizeSerialNumbers,
+  TERMINAL_MODEL_LABELS,
+  TERMINAL_ORDER_TRANSITIONS,
+  validateTerminalOrderTransition,
+} from '../../../src/utils/terminalOrders';
+
+interface TerminalOrderPanelProps {
+  order: AdminTerminalOrder;
+  onClose: () => void;
+  onStatusChanged: () => void;
+}
+
+const ACTION_LABELS: Record<TerminalOrderStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approve',
+  shipped: 'Mark shipped',
+  delivered: 'Mark delivered',
+  activated: 'Mark activated',
+};
+
+/**
+ * Order details, next fulfillment step and history
+ * Shipping asks for one serial number per terminal
+ */
+export default function TerminalOrderPanel({
+  order,
+  onClose,
+  onStatusChanged,
+}: TerminalOrderPanelProps) {
+  const [serials, setSerials] = useState<string[]>([]);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSerials(Array.from({ length: order.quantity }, () => ''));
+    setTrackingNumber('');
+    setNote('');
+    setError(null);
+  }, [order.id, order.quantity, order.status]);
+
+  const nextStatuses = TERMINAL_ORDER_TRANSITIONS[order.status];
+  const needsSerials = nextStatuses.includes('shipped');
+  const history = order.terminal_order_events
+    .slice()
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const handleTransition = async (status: TerminalOrderStatus) => {
+    const serialNumbers = status === 'shipped' ? normalizeSerialNumbers(serials) : [];
+    const invalid = validateTerminalOrderTransition(order, status, serialNumbers);
+    if (invalid === 'serials_required') {
+      setError(`Enter ${order.quantity} serial number${order.quantity === 1 ? '' : 's'}`);
+      return;
+    }
+    if (invalid === 'invalid_serials') {
+      setError('Serial numbers must be unique and use only letters, digits and dashes');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    const response = await adminService.updateTerminalOrder(order.id, {
+      status,
+      from: order.status,
+      ...(status === 'shipped' ? { serial_numbers: serialNumbers } : {}),
+      ...(status === 'shipped' && trackingNumber.trim()
+        ? { tracking_number: trackingNumber.trim() }
+        : {}),
+      ...(note.trim() ? { note: note.trim() } : {}),
+    });
+
+    setIsSaving(false);
+
+    if (!response.success) {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to update order');
+      // Someone else changed it - show the current state
+      if (response.code === 'stale_status') onStatusChanged();
+      return;
+    }
+
+    onStatusChanged();
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">
+            {order.signups?.business_name || order.signups?.name || 'Terminal order'}
+          </h2>
+          {order.signups && <p className="text-sm text-gray-500">{order.signups.phone}</p>}
+        </div>
+        <button type="button" onClick={onClose} className="text-sm text-gray-500 hover:underline">
+          Close
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-2 text-sm">
+        <dt className="text-gray-500">Terminals</dt>
+        <dd className="col-span-2">
+          {order.quantity} × {TERMINAL_MODEL_LABELS[order.model]}
+        </dd>
+        <dt className="text-gray-500">Ship to</dt>
+        <dd className="col-span-2">
+          {order.shipping_address || order.signups?.business_address || '—'}
+          {!order.shipping_address && order.signups?.business_address && (
+            <span className="text-xs text-gray-500"> (business address)</span>
+          )}
+        </dd>
+        <dt className="text-gray-500">Status</dt>
+        <dd className="col-span-2 capitalize">{formatTerminalOrderStatus(order.status)}</dd>
+        {order.serial_numbers.length > 0 && (
+          <>
+            <dt className="text-gray-500">Serials</dt>
+            <dd className="col-span-2">{order.serial_numbers.join(', ')}</dd>
+          </>
+        )}
+        {order.tracking_number && (
+          <>
+            <dt className="text-gray-500">Tracking</dt>
+            <dd className="col-span-2">{order.tracking_number}</dd>
+          </>
+        )}
+      </dl>
+
+      {nextStatuses.length > 0 && (
+        <div className="space-y-2 border-t border-gray-100 pt-4">
+          {needsSerials && (
+            <>
+              {serials.map((serial, index) => (
+                <input
+                  key={index}
+                  type="text"
+                  value={serial}
+                  onChange={e =>
+                    setSerials(current =>
+                      current.map((value, i) => (i === index ? e.target.value : value))
+                    )
+                  }
+                  placeholder={`Serial number ${index + 1}`}
+                  className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                />
+              ))}
+              <input
+                type="text"
+                value={trackingNumber}
+                onChange={e => setTrackingNumber(e.target.value)}
+                placeholder="Tracking number (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+              />
+            </>
+          )}
+          <textarea
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            rows={2}
+            placeholder="Note (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            {nextStatuses.map(status => (
+              <button
+                key={status}
+                type="button"
+                disabled={isSaving}
+                onClick={() => handleTransition(status)}
+                className="px-3 py-1.5 rounded text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {ACTION_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {history.length > 0 && (
+        <ol className="border-l border-gray-200 pl-4 space-y-2 text-sm">
+          {history.map(change => (
+            <li key={`${change.created_at}-${change.to_status}`}>
+              <p className="text-gray-800 capitalize">
+                {change.from_status ? `${formatTerminalOrderStatus(change.from_status)} → ` : ''}
+                {formatTerminalOrderStatus(change.to_status)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(change.created_at).toLocaleString()}
+                {change.actor ? ` · ${change.actor}` : ''}
+              </p>
+              {change.note && <p className="text-gray-600">{change.note}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import {
+  AdminTerminalOrder,
+  TERMINAL_ORDER_STATUSES,
+  TerminalOrderStatus,
+} from '../../../src/types';
+import {
+  formatTerminalOrderStatus,
+  TERMINAL_MODEL_LABELS,
+} from '../../../src/utils/terminalOrders';
+
+interface TerminalOrderTableProps {
+  rows: AdminTerminalOrder[];
+  total: number;
+  page: number;
+  pageSize: number;
+  status: TerminalOrderStatus | '';
+  isLoading: boolean;
+  selectedId: string | null;
+  onStatusChange: (status: TerminalOrderStatus | '') => void;
+  onPageChange: (page: number) => void;
+  onSelect: (order: AdminTerminalOrder) => void;
+}
+
+/**
+ * Terminal order queue, oldest first
+ */
+export default function TerminalOrderTable({
+  rows,
+  total,
+  page,
+  pageSize,
+  status,
+  isLoading,
+  selectedId,
+  onStatusChange,
+  onPageChange,
+  onSelect,
+}: TerminalOrderTableProps) {
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">{total} orders</p>
+        <select
+          value={status}
+          onChange={e => onStatusChange(e.target.value as TerminalOrderStatus | '')}
+          className="px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          <option value="">All statuses</option>
+          {TERMINAL_ORDER_STATUSES.map(value => (
+            <option key={value} value={value} className="capitalize">
+              {formatTerminalOrderStatus(value)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading…</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No terminal orders.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="py-1">Business</th>
+              <th className="py-1">Terminals</th>
+              <th className="py-1">Status</th>
+              <th className="py-1">Requested</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(order => (
+              <tr
+                key={order.id}
+                onClick={() => onSelect(order)}
+                className={`cursor-pointer hover:bg-gray-50 ${
+                  order.id === selectedId ? 'bg-blue-50' : ''
+                }`}
+              >
+                <td className="py-2">
+                  {order.signups?.business_name || order.signups?.name || order.signup_id}
+                </td>
+                <td className="py-2">
+                  {order.quantity} × {TERMINAL_MODEL_LABELS[order.model]}
+                </td>
+                <td className="py-2 capitalize">{formatTerminalOrderStatus(order.status)}</td>
+                <td className="py-2">{new Date(order.created_at).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => onPageChange(page - 1)}
+            className="text-blue-600 disabled:text-gray-400"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500">
+            Page {page} of {pageCount}
+          </span>
+          <button
+            type="button"
+            disabled={page >= pageCount}
+            onClick={() => onPageChange(page + 1)}
+            className="text-blue-600 disabled:text-gray-400"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from '../../../src/types';
+
+interface WebhookDeliveriesProps {
+  deliveries: WebhookDelivery[];
+  endpoints: WebhookEndpoint[];
+  status: WebhookDeliveryStatus | '';
+  onStatusChange: (status: WebhookDeliveryStatus | '') => void;
+  onRetry: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800',
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+/**
+ * Delivery log with each attempt's response
+ */
+export default function WebhookDeliveries({
+  deliveries,
+  endpoints,
+  status,
+  onStatusChange,
+  onRetry,
+}: WebhookDeliveriesProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const endpointUrl = (id: string) => endpoints.find(endpoint => endpoint.id === id)?.url || id;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Deliveries</h2>
+        <select
+          value={status}
+          onChange={e => onStatusChange(e.target.value as WebhookDeliveryStatus | '')}
+          className="px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          <option value="">All statuses</option>
+          {Object.keys(STATUS_STYLES).map(value => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-gray-500">No deliveries.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="py-1">Event</th>
+              <th className="py-1">Endpoint</th>
+              <th className="py-1">Status</th>
+              <th className="py-1">Attempts</th>
+              <th className="py-1">Created</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {deliveries.map(delivery => (
+              <Fragment key={delivery.id}>
+                <tr
+                  className="cursor-pointer hover:bg-gray-50"
+                  onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                >
+                  <td className="py-2">{delivery.event_type}</td>
+                  <td className="py-2 max-w-xs truncate">{endpointUrl(delivery.endpoint_id)}</td>
+                  <td className="py-2">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[delivery.status]}`}
+                    >
+                      {delivery.status}
+                    </span>
+                  </td>
+                  <td className="py-2">{delivery.attempts}</td>
+                  <td className="py-2">{formatTime(delivery.created_at)}</td>
+                  <td className="py-2 text-right">
+                    {delivery.status === 'dead' && (
+                      <button
+                        type="button"
+                        onClick={e => {
+                          e.stopPropagation();
+                          onRetry(delivery.id);
+                        }}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === delivery.id && (
+                  <tr>
+                    <td colSpan={6} className="bg-gray-50 px-3 py-2">
+                      {delivery.status === 'pending' && (
+                        <p className="text-xs text-gray-600 mb-1">
+                          Next attempt {formatTime(delivery.next_attempt_at)}
+                        </p>
+                      )}
+                      {delivery.webhook_delivery_attempts.length === 0 ? (
+                        <p className="text-xs text-gray-500">Not attempted yet</p>
+                      ) : (
+                        <ul className="text-xs space-y-1">
+                          {delivery.webhook_delivery_attempts
+                            .slice()
+                            .sort((a, b) => a.attempted_at.localeCompare(b.attempted_at))
+                            .map(attempt => (
+                              <li key={attempt.attempted_at}>
+                                {formatTime(attempt.attempted_at)} —{' '}
+                                {attempt.status_code
+                                  ? `HTTP ${attempt.status_code}`
+                                  : 'no response'}
+                                {attempt.error ? ` (${attempt.error})` : ''}
+                                {attempt.duration_ms !== null ? ` · ${attempt.duration_ms} ms` : ''}
+                              </li>
+                            ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { adminService } from '../../../src/services/admin';
+import { WEBHOOK_EVENTS, WebhookEndpoint, WebhookEvent } from '../../../src/types';
+
+interface WebhookEndpointsProps {
+  endpoints: WebhookEndpoint[];
+  onChanged: () => void;
+}
+
+/**
+ * Registered subscriber endpoints, with a form to add one
+ */
+export default function WebhookEndpoints({ endpoints, onChanged }: WebhookEndpointsProps) {
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['signup.created']);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents(current =>
+      current.includes(event) ? current.filter(e => e !== event) : [...current, event]
+    );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    const response = await adminService.createWebhook({ url, description, events });
+
+    setIsSaving(false);
+    if (!response.success || !response.data) {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to create webhook');
+      return;
+    }
+
+    setCreatedSecret(response.data.secret);
+    setUrl('');
+    setDescription('');
+    onChanged();
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    const response = await adminService.updateWebhook(endpoint.id, { active: !endpoint.active });
+    if (!response.success) {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to update webhook');
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800">Endpoints</h2>
+
+      {endpoints.length === 0 ? (
+        <p className="text-sm text-gray-500">No endpoints registered yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {endpoints.map(endpoint => (
+            <li key={endpoint.id} className="py-2 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-800 break-all">{endpoint.url}</p>
+                {endpoint.description && (
+                  <p className="text-xs text-gray-500">{endpoint.description}</p>
+                )}
+                <p className="text-xs text-gray-500">{endpoint.events.join(', ')}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleToggleActive(endpoint)}
+                className={`shrink-0 px-2 py-1 rounded text-xs font-medium ${
+                  endpoint.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {endpoint.active ? 'Active - pause' : 'Paused - resume'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {createdSecret && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded p-3 text-sm">
+          <p className="font-medium text-yellow-800">
+            Signing secret - copy it now, it won&apos;t be shown again
+          </p>
+          <code className="block mt-1 break-all text-yellow-900">{createdSecret}</code>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-2 border-t border-gray-100 pt-4">
+        <h3 className="text-sm font-medium text-gray-700">Add endpoint</h3>
+        <input
+          type="url"
+          required
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          placeholder="https://crm.example.com/webhooks/flash"
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+        <input
+          type="text"
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+        <div className="flex flex-wrap gap-4 text-sm">
+          {WEBHOOK_EVENTS.map(event => (
+            <label key={event} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => toggleEvent(event)}
+              />
+              {event}
+            </label>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSaving || events.length === 0}
+          className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add endpoint
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import AdminShell, { AdminAccess, accessFromStatus } from './components/AdminShell';
+import SignupDetail from './components/SignupDetail';
+import SignupFilters, { SignupFilterValues } from './components/SignupFilters';
+import SignupTable from './components/SignupTable';
+import { adminService, AdminSignupPage, AdminSignupRecord } from '../../src/services/admin';
+import { AdminSignupListQuery } from '../../src/types';
+
+const PAGE_SIZE = 25;
+
+/**
+ * Admin review console for signups
+ * Requires a Supabase user with the admin role (see db/admin-console.sql)
+ */
+export default function AdminPage() {
+  const [access, setAccess] = useState<AdminAccess>('checking');
+  const [filters, setFilters] = useState<SignupFilterValues>({});
+  const [sort, setSort] = useState<AdminSignupListQuery['sort']>('created_at');
+  const [order, setOrder] = useState<AdminSignupListQuery['order']>('desc');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<AdminSignupPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<AdminSignupRecord | null>(null);
+
+  const loadSignups = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await adminService.listSignups({
+      ...filters,
+      sort,
+      order,
+      page,
+      pageSize: PAGE_SIZE,
+    });
+
+    const denied = accessFromStatus(response.status);
+    if (denied) {
+      setAccess(denied);
+    } else if (!response.success || !response.data) {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to load signups');
+    } else {
+      setAccess('granted');
+      setResult(response.data);
+    }
+
+    setIsLoading(false);
+  }, [filters, sort, order, page]);
+
+  useEffect(() => {
+    loadSignups();
+  }, [loadSignups]);
+
+  const handleFiltersChange = (next: SignupFilterValues) => {
+    setFilters(next);
+    setPage(1);
+  };
+
+  const handleSort = (column: AdminSignupListQuery['sort']) => {
+    if (column === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(column);
+      setOrder(column === 'created_at' ? 'desc' : 'asc');
+    }
+    setPage(1);
+  };
+
+  const handleSelect = async (id: string) => {
+    const response = await adminService.getSignup(id);
+    if (response.success && response.data) {
+      setSelected(response.data);
+    } else {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to load signup');
+    }
+  };
+
+  const handleStatusChanged = () => {
+    if (selected) handleSelect(selected.id);
+    loadSignups();
+  };
+
+  return (
+    <AdminShell
+      title="Signup Review"
+      access={access}
+      onSignedIn={loadSignups}
+      onSignedOut={() => setAccess('signed-out')}
+    >
+      <SignupFilters value={filters} onChange={handleFiltersChange} />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className={`grid gap-4 ${selected ? 'lg:grid-cols-2' : ''}`}>
+        <SignupTable
+          rows={result?.rows || []}
+          total={result?.total || 0}
+          page={page}
+          pageSize={PAGE_SIZE}
+          sort={sort}
+          order={order}
+          isLoading={isLoading || access === 'checking'}
+          selectedId={selected?.id || null}
+          onSort={handleSort}
+          onPageChange={setPage}
+          onSelect={handleSelect}
+        />
+
+        {selected && (
+          <SignupDetail
+            signup={selected}
+            onClose={() => setSelected(null)}
+            onStatusChanged={handleStatusChanged}
+          />
+        )}
+      </div>
+    </AdminShell>
+  );
+}
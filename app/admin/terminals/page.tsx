@@ -0,0 +1,95 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import AdminShell, { AdminAccess, accessFromStatus } from '../components/AdminShell';
+import TerminalOrderPanel from '../components/TerminalOrderPanel';
+import TerminalOrderTable from '../components/TerminalOrderTable';
+import { adminService, TerminalOrderPage } from '../../../src/services/admin';
+import { TerminalOrderStatus } from '../../../src/types';
+
+/**
+ * Terminal order fulfillment
+ */
+export default function TerminalsPage() {
+  const [access, setAccess] = useState<AdminAccess>('checking');
+  const [status, setStatus] = useState<TerminalOrderStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<TerminalOrderPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await adminService.listTerminalOrders({
+      ...(status ? { status } : {}),
+      page,
+    });
+
+    const denied = accessFromStatus(response.status);
+    if (denied) {
+      setAccess(denied);
+    } else if (!response.success || !response.data) {
+      setError(
+        typeof response.error === 'string' ? response.error : 'Unable to load terminal orders'
+      );
+    } else {
+      setAccess('granted');
+      setResult(response.data);
+    }
+
+    setIsLoading(false);
+  }, [status, page]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const handleStatusChange = (next: TerminalOrderStatus | '') => {
+    setStatus(next);
+    setPage(1);
+  };
+
+  // Keep the panel on the refreshed row so it shows the new status
+  const selected = result?.rows.find(order => order.id === selectedId) || null;
+
+  return (
+    <AdminShell
+      title="Terminal Orders"
+      access={access}
+      onSignedIn={loadOrders}
+      onSignedOut={() => setAccess('signed-out')}
+    >
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className={`grid gap-4 ${selected ? 'lg:grid-cols-2' : ''}`}>
+        <TerminalOrderTable
+          rows={result?.rows || []}
+          total={result?.total || 0}
+          page={result?.page || page}
+          pageSize={result?.pageSize || 25}
+          status={status}
+          isLoading={isLoading || access === 'checking'}
+          selectedId={selectedId}
+          onStatusChange={handleStatusChange}
+          onPageChange={setPage}
+          onSelect={order => setSelectedId(order.id)}
+        />
+
+        {selected && (
+          <TerminalOrderPanel
+            order={selected}
+            onClose={() => setSelectedId(null)}
+            onStatusChanged={loadOrders}
+          />
+        )}
+      </div>
+    </AdminShell>
+  );
+}
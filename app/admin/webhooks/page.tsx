@@ -0,0 +1,84 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import AdminShell, { AdminAccess, accessFromStatus } from '../components/AdminShell';
+import WebhookDeliveries from '../components/WebhookDeliveries';
+import WebhookEndpoints from '../components/WebhookEndpoints';
+import { adminService } from '../../../src/services/admin';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from '../../../src/types';
+
+/**
+ * Webhook subscribers and delivery attempts
+ */
+export default function WebhooksPage() {
+  const [access, setAccess] = useState<AdminAccess>('checking');
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+
+    const [endpointsResponse, deliveriesResponse] = await Promise.all([
+      adminService.listWebhooks(),
+      adminService.listWebhookDeliveries(status ? { status } : {}),
+    ]);
+
+    const denied = accessFromStatus(endpointsResponse.status);
+    if (denied) {
+      setAccess(denied);
+      return;
+    }
+
+    setAccess('granted');
+    if (endpointsResponse.success && endpointsResponse.data) setEndpoints(endpointsResponse.data);
+    if (deliveriesResponse.success && deliveriesResponse.data) {
+      setDeliveries(deliveriesResponse.data.rows);
+    } else {
+      setError('Unable to load deliveries');
+    }
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRetry = async (id: string) => {
+    const response = await adminService.retryWebhookDelivery(id);
+    if (!response.success) {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to retry delivery');
+    }
+    load();
+  };
+
+  return (
+    <AdminShell
+      title="Webhooks"
+      access={access}
+      onSignedIn={load}
+      onSignedOut={() => setAccess('signed-out')}
+    >
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="lg:col-span-1">
+          <WebhookEndpoints endpoints={endpoints} onChanged={load} />
+        </div>
+        <div className="lg:col-span-2">
+          <WebhookDeliveries
+            deliveries={deliveries}
+            endpoints={endpoints}
+            status={status}
+            onStatusChange={setStatus}
+            onRetry={handleRetry}
+          />
+        </div>
+      </div>
+    </AdminShell>
+  );
+}
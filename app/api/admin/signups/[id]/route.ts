@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../../lib/auth-middleware';
+import { getSignupDocuments } from '../../../../../lib/signup-documents';
+import { getSignupStatusHistory } from '../../../../../lib/signup-status';
+import { getSupabaseAdmin } from '../../../../../lib/supabase-admin';
+import { logger } from '../../../../../src/utils/logger';
+
+/**
+ * Full signup record for the admin review console (adminService.getSignup)
+ * Includes the verification documents, each with a short-lived signed preview URL, and the
+ * status history.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+const getSignup = (id: string) => async (_req: AuthenticatedRequest) => {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const { data, error } = await supabase.from('signups').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      logger.error('Error loading signup', error);
+      return NextResponse.json({ success: false, error: 'Unable to load signup' }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Signup not found' }, { status: 404 });
+    }
+
+    const [documents, statusHistory] = await Promise.all([
+      getSignupDocuments(supabase, data),
+      getSignupStatusHistory(supabase, id),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...data, documents, status_history: statusHistory },
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in admin signup route', error);
+    return NextResponse.json({ success: false, error: 'Unable to load signup' }, { status: 500 });
+  }
+};
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  return requireAdmin(req, getSignup(params.id));
+}
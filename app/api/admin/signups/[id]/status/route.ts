@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../../../lib/auth-middleware';
+import { withCSRF } from '../../../../../../lib/csrf';
+import { describeActor, transitionSignupStatus } from '../../../../../../lib/signup-status';
+import { getSupabaseAdmin } from '../../../../../../lib/supabase-admin';
+import { isSignupStatus, SignupStatusError } from '../../../../../../src/utils/signupStatus';
+import { logger } from '../../../../../../src/utils/logger';
+
+/**
+ * Move a signup through the review workflow (adminService.updateStatus)
+ *
+ * Body: { status, reason?, from?, csrf_token }
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+const ERRORS: Record<SignupStatusError, { status: number; message: string }> = {
+  invalid_status: { status: 400, message: 'Unknown status' },
+  reason_required: { status: 400, message: 'A reason is required for this status' },
+  not_found: { status: 404, message: 'Signup not found' },
+  invalid_transition: { status: 409, message: 'This status change is not allowed' },
+  stale_status: { status: 409, message: 'This signup was updated by someone else' },
+};
+
+const updateStatus = (id: string) => async (req: AuthenticatedRequest) => {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const body = await req.json();
+
+    const result = await transitionSignupStatus(supabase, {
+      signupId: id,
+      to: body.status,
+      actor: describeActor(req.auth.principal!),
+      reason: typeof body.reason === 'string' ? body.reason : null,
+      ...(isSignupStatus(body.from) ? { expectedFrom: body.from } : {}),
+    });
+
+    if (!result.success) {
+      const { status, message } = ERRORS[result.error];
+      return NextResponse.json(
+        { success: false, error: message, code: result.error, data: { status: result.from } },
+        { status }
+      );
+    }
+
+    logger.info('Signup status changed', { id, from: result.from, to: result.to });
+
+    return NextResponse.json({ success: true, data: { status: result.to } });
+  } catch (error) {
+    logger.error('Unexpected error in signup status route', error);
+    return NextResponse.json({ success: false, error: 'Unable to update status' }, { status: 500 });
+  }
+};
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  return withCSRF(request => requireAdmin(request, updateStatus(params.id)))(req);
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../lib/admin-auth';
+import { listSignups, parseSignupListQuery } from '../../../../lib/admin-signups';
+import { AuthenticatedRequest } from '../../../../lib/auth-middleware';
+import { getSupabaseAdmin } from '../../../../lib/supabase-admin';
+import { logger } from '../../../../src/utils/logger';
+
+/**
+ * Signup list for the admin review console (adminService.listSignups)
+ *
+ * Query: account_type, wants_terminal, status, from, to, sort, order, page, pageSize
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+async function handleList(req: AuthenticatedRequest) {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const query = parseSignupListQuery(new URL(req.url).searchParams);
+    const { data, error, count } = await listSignups(supabase, query);
+
+    if (error) {
+      logger.error('Error listing signups', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to load signups' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { rows: data || [], total: count || 0, page: query.page, pageSize: query.pageSize },
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in admin signups route', error);
+    return NextResponse.json({ success: false, error: 'Unable to load signups' }, { status: 500 });
+  }
+}
+
+export const GET = (req: Request) => requireAdmin(req, handleList);
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../../../lib/auth-middleware';
+import { withCSRF } from '../../../../../../lib/csrf';
+import { describeActor } from '../../../../../../lib/signup-status';
+import { getSupabaseAdmin } from '../../../../../../lib/supabase-admin';
+import { transitionTerminalOrder } from '../../../../../../lib/terminal-orders';
+import {
+  isTerminalOrderStatus,
+  TerminalOrderError,
+} from '../../../../../../src/utils/terminalOrders';
+import { logger } from '../../../../../../src/utils/logger';
+
+/**
+ * Move a terminal order through fulfillment (adminService.updateTerminalOrder)
+ *
+ * Body: { status, serial_numbers?, tracking_number?, note?, from?, csrf_token }
+ * serial_numbers is required when shipping, one per terminal.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+const ERRORS: Record<TerminalOrderError, { status: number; message: string }> = {
+  invalid_status: { status: 400, message: 'Unknown status' },
+  serials_required: { status: 400, message: 'Enter one serial number per terminal' },
+  invalid_serials: {
+    status: 400,
+    message: 'Serial numbers must be unique and use only letters, digits and dashes',
+  },
+  not_found: { status: 404, message: 'Terminal order not found' },
+  invalid_transition: { status: 409, message: 'This status change is not allowed' },
+  serial_in_use: { status: 409, message: 'A serial number is already assigned to another order' },
+  stale_status: { status: 409, message: 'This order was updated by someone else' },
+};
+
+const updateOrder = (id: string) => async (req: AuthenticatedRequest) => {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const body = await req.json();
+
+    const result = await transitionTerminalOrder(supabase, {
+      orderId: id,
+      to: body.status,
+      actor: describeActor(req.auth.principal!),
+      serialNumbers: body.serial_numbers,
+      trackingNumber: typeof body.tracking_number === 'string' ? body.tracking_number : null,
+      note: typeof body.note === 'string' ? body.note : null,
+      ...(isTerminalOrderStatus(body.from) ? { expectedFrom: body.from } : {}),
+    });
+
+    if (!result.success) {
+      const { status, message } = ERRORS[result.error];
+      return NextResponse.json(
+        { success: false, error: message, code: result.error, data: { status: result.from } },
+        { status }
+      );
+    }
+
+    logger.info('Terminal order status changed', { id, from: result.from, to: result.to });
+
+    return NextResponse.json({ success: true, data: { status: result.to } });
+  } catch (error) {
+    logger.error('Unexpected error in terminal order status route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to update terminal order' },
+      { status: 500 }
+    );
+  }
+};
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  return withCSRF(request => requireAdmin(request, updateOrder(params.id)))(req);
+}
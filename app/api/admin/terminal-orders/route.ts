@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../lib/auth-middleware';
+import { getSupabaseAdmin } from '../../../../lib/supabase-admin';
+import { listTerminalOrders, TERMINAL_ORDER_PAGE_SIZE } from '../../../../lib/terminal-orders';
+import { isTerminalOrderStatus } from '../../../../src/utils/terminalOrders';
+import { logger } from '../../../../src/utils/logger';
+
+/**
+ * Terminal order queue for the admin console (adminService.listTerminalOrders)
+ *
+ * Query: status, page
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+async function handleList(req: AuthenticatedRequest) {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const params = new URL(req.url).searchParams;
+    const status = params.get('status');
+    const page = Math.max(parseInt(params.get('page') || '1', 10) || 1, 1);
+
+    const { data, error, count } = await listTerminalOrders(supabase, {
+      ...(isTerminalOrderStatus(status) ? { status } : {}),
+      page,
+    });
+
+    if (error) {
+      logger.error('Error listing terminal orders', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to load terminal orders' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { rows: data || [], total: count || 0, page, pageSize: TERMINAL_ORDER_PAGE_SIZE },
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in terminal orders route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to load terminal orders' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = (req: Request) => requireAdmin(req, handleList);
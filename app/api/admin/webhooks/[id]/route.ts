@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../../lib/auth-middleware';
+import { withCSRF } from '../../../../../lib/csrf';
+import { getSupabaseAdmin } from '../../../../../lib/supabase-admin';
+import { isWebhookEvent } from '../../../../../lib/webhooks';
+import { logger } from '../../../../../src/utils/logger';
+
+/**
+ * Pause, resume or change the events of a webhook endpoint
+ *
+ * Body: { active?, events?, csrf_token }
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+const updateEndpoint = (id: string) => async (req: AuthenticatedRequest) => {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const body = await req.json();
+    const update: { active?: boolean; events?: string[] } = {};
+
+    if (typeof body.active === 'boolean') update.active = body.active;
+    if (Array.isArray(body.events)) {
+      const events = body.events.filter(isWebhookEvent);
+      if (events.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'Select at least one event' },
+          { status: 400 }
+        );
+      }
+      update.events = Array.from(new Set(events));
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ success: false, error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .update(update)
+      .eq('id', id)
+      .select('id, url, description, events, active, created_at')
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error updating webhook endpoint', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to update webhook' },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    logger.error('Unexpected error in admin webhook route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to update webhook' },
+      { status: 500 }
+    );
+  }
+};
+
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  return withCSRF(request => requireAdmin(request, updateEndpoint(params.id)))(req);
+}
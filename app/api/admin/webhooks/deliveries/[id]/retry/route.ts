@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../../../../lib/auth-middleware';
+import { withCSRF } from '../../../../../../../lib/csrf';
+import { getSupabaseAdmin } from '../../../../../../../lib/supabase-admin';
+import { logger } from '../../../../../../../src/utils/logger';
+
+/**
+ * Requeue a dead webhook delivery with a fresh set of attempts
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+const retryDelivery = (id: string) => async (_req: AuthenticatedRequest) => {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'dead')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error requeueing webhook delivery', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to retry delivery' },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'Only dead deliveries can be retried' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Delivery requeued' });
+  } catch (error) {
+    logger.error('Unexpected error in webhook retry route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to retry delivery' },
+      { status: 500 }
+    );
+  }
+};
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  return withCSRF(request => requireAdmin(request, retryDelivery(params.id)))(req);
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../../lib/auth-middleware';
+import { getSupabaseAdmin } from '../../../../../lib/supabase-admin';
+import { logger } from '../../../../../src/utils/logger';
+
+/**
+ * Recent webhook deliveries with their attempts, newest first
+ *
+ * Query: status, endpoint_id, page, pageSize
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+const DELIVERY_STATUSES = ['pending', 'processing', 'delivered', 'dead'];
+const PAGE_SIZE_MAX = 100;
+
+async function handleList(req: AuthenticatedRequest) {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const params = new URL(req.url).searchParams;
+    const status = params.get('status');
+    const endpointId = params.get('endpoint_id');
+    const page = Math.max(parseInt(params.get('page') || '1', 10) || 1, 1);
+    const pageSize = Math.min(
+      Math.max(parseInt(params.get('pageSize') || '25', 10) || 25, 1),
+      PAGE_SIZE_MAX
+    );
+
+    let query = supabase
+      .from('webhook_deliveries')
+      .select(
+        'id, endpoint_id, event_type, signup_id, status, attempts, next_attempt_at, last_status_code, last_error, delivered_at, created_at, webhook_delivery_attempts(status_code, error, duration_ms, attempted_at)',
+        { count: 'exact' }
+      );
+
+    if (status && DELIVERY_STATUSES.includes(status)) query = query.eq('status', status);
+    if (endpointId) query = query.eq('endpoint_id', endpointId);
+
+    const start = (page - 1) * pageSize;
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(start, start + pageSize - 1);
+
+    if (error) {
+      logger.error('Error listing webhook deliveries', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to load deliveries' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: { rows: data || [], total: count || 0, page, pageSize } },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in webhook deliveries route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to load deliveries' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = (req: Request) => requireAdmin(req, handleList);
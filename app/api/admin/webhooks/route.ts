@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../lib/admin-auth';
+import { AuthenticatedRequest } from '../../../../lib/auth-middleware';
+import { withCSRF } from '../../../../lib/csrf';
+import { getSupabaseAdmin } from '../../../../lib/supabase-admin';
+import { generateWebhookSecret, parseWebhookEndpointInput } from '../../../../lib/webhooks';
+import { logger } from '../../../../src/utils/logger';
+
+/**
+ * Webhook subscriber registry for the admin console
+ *
+ * GET lists endpoints (without secrets). POST registers one and returns its signing
+ * secret - the only time the secret is shown.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+const ENDPOINT_COLUMNS = 'id, url, description, events, active, created_at';
+
+const configError = () =>
+  NextResponse.json(
+    { success: false, error: 'Server configuration error. Please contact support.' },
+    { status: 500 }
+  );
+
+async function handleList(_req: AuthenticatedRequest) {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return configError();
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select(ENDPOINT_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error listing webhook endpoints', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to load webhooks' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: data || [] },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in admin webhooks route', error);
+    return NextResponse.json({ success: false, error: 'Unable to load webhooks' }, { status: 500 });
+  }
+}
+
+async function handleCreate(req: AuthenticatedRequest) {
+  try {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return configError();
+
+    const parsed = parseWebhookEndpointInput(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    const secret = generateWebhookSecret();
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({ ...parsed.data, secret })
+      .select(ENDPOINT_COLUMNS)
+      .single();
+
+    if (error) {
+      logger.error('Error creating webhook endpoint', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to create webhook' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('Webhook endpoint registered', { id: data.id, events: parsed.data.events });
+
+    return NextResponse.json(
+      { success: true, data: { endpoint: data, secret } },
+      { status: 201, headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in admin webhooks route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to create webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = (req: Request) => requireAdmin(req, handleList);
+export const POST = withCSRF(req => requireAdmin(req, handleCreate));
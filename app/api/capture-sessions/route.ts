@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { withCSRF } from '../../../lib/csrf';
+import { requireAuth, AuthenticatedRequest } from '../../../lib/auth-middleware';
+import {
+  captureSessionLimiter,
+  createCaptureSession,
+  getCaptureSession,
+} from '../../../lib/capture-sessions';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import { isKycDocumentType } from '../../../src/utils/kycDocuments';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Phone capture sessions, desktop side (captureService in src/services/capture.ts)
+ *
+ * POST opens a session for one document type and returns its secret for the QR code; GET
+ * ?id= polls it until the phone has uploaded. The phone side is /api/capture.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+const configurationError = () =>
+  NextResponse.json(
+    { success: false, error: 'Server configuration error. Please contact support.' },
+    { status: 500 }
+  );
+
+async function handleCreate(req: AuthenticatedRequest) {
+  try {
+    const subject = req.auth.principal?.subject || '';
+    const limit = captureSessionLimiter.check(subject);
+    if (!limit.allowed) {
+      logger.warn('Capture sessions rate limited', { method: req.auth.principal?.method });
+      return NextResponse.json(
+        { success: false, error: 'Too many attempts. Please try again later.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': Math.ceil(limit.retryAfterMs / 1000).toString() },
+        }
+      );
+    }
+
+    let body: { documentType?: unknown } | null;
+    try {
+      body = await req.json();
+    } catch (error) {
+      body = null;
+    }
+    const documentType = body?.documentType;
+    if (!isKycDocumentType(documentType)) {
+      return NextResponse.json(
+        { success: false, error: 'Provide a document type' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return configurationError();
+
+    const { session, secret } = await createCaptureSession(supabase, subject, documentType);
+    logger.info('Capture session opened', { documentType: session.documentType });
+
+    return NextResponse.json(
+      { success: true, data: { ...session, secret } },
+      { status: 201, headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error opening capture session', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to start phone capture' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleStatus(req: AuthenticatedRequest) {
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'Provide a session id' }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return configurationError();
+
+    const session = await getCaptureSession(supabase, req.auth.principal?.subject || '', id);
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { success: true, data: session },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error loading capture session', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to load phone capture' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCSRF(req => requireAuth(req, handleCreate));
+export const GET = (req: Request) => requireAuth(req, handleStatus);
@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import { withCSRF } from '../../../lib/csrf';
+import {
+  CaptureSessionError,
+  claimCaptureSession,
+  completeCaptureSession,
+  lookupCaptureSession,
+  readCaptureSecret,
+} from '../../../lib/capture-sessions';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import { UploadConfirmationError, UploadTicketError } from '../../../lib/upload-tickets';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Phone capture, phone side (app/capture/page.tsx)
+ *
+ * Authorised by the session secret from the QR code (`Authorization: Capture <secret>`)
+ * rather than a signed-in caller. GET says which document to photograph, POST issues the
+ * session's one upload ticket and PUT completes the session once the upload has finished.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+const CLAIM_ERRORS: Record<
+  CaptureSessionError | UploadTicketError,
+  { status: number; message: string }
+> = {
+  unknown_session: { status: 404, message: 'This link is not valid' },
+  expired: { status: 410, message: 'This link has expired' },
+  used: { status: 409, message: 'This link has already been used' },
+  invalid_request: { status: 400, message: 'Provide a content type and size' },
+  unsupported_type: { status: 415, message: 'Documents must be uploaded as JPEG images' },
+  too_large: { status: 413, message: 'File is too large' },
+};
+
+// Anything wrong with the uploaded file itself
+const UNUSABLE_UPLOAD = { status: 422, message: 'The photo could not be used' };
+
+const COMPLETE_ERRORS: Record<
+  CaptureSessionError | UploadConfirmationError,
+  { status: number; message: string }
+> = {
+  unknown_session: CLAIM_ERRORS.unknown_session,
+  expired: CLAIM_ERRORS.expired,
+  used: CLAIM_ERRORS.used,
+  not_uploaded: { status: 409, message: 'The photo has not finished uploading' },
+  unknown_upload: UNUSABLE_UPLOAD,
+  mismatch: UNUSABLE_UPLOAD,
+  unsupported_format: UNUSABLE_UPLOAD,
+  corrupt: UNUSABLE_UPLOAD,
+  truncated: UNUSABLE_UPLOAD,
+  polyglot: UNUSABLE_UPLOAD,
+  bad_dimensions: UNUSABLE_UPLOAD,
+};
+
+type SupabaseAdmin = NonNullable<ReturnType<typeof getSupabaseAdmin>>;
+
+/**
+ * Run a handler with the session secret and the admin client
+ */
+const withCaptureContext =
+  (handler: (req: Request, secret: string, supabase: SupabaseAdmin) => Promise<NextResponse>) =>
+  async (req: Request) => {
+    const secret = readCaptureSecret(req);
+    if (!secret) {
+      return NextResponse.json(
+        { success: false, error: CLAIM_ERRORS.unknown_session.message },
+        { status: 401 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      return await handler(req, secret, supabase);
+    } catch (error) {
+      logger.error('Unexpected error in capture route', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to process phone capture' },
+        { status: 500 }
+      );
+    }
+  };
+
+const lookup = withCaptureContext(async (_req, secret, supabase) => {
+  const session = await lookupCaptureSession(supabase, secret);
+  if (!session) {
+    const { status, message } = CLAIM_ERRORS.unknown_session;
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+
+  // The id is what the desktop polls with - the phone only needs to know what to photograph
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        documentType: session.documentType,
+        status: session.status,
+        expiresAt: session.expiresAt,
+      },
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+});
+
+const claim = withCaptureContext(async (req, secret, supabase) => {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (error) {
+    body = null;
+  }
+
+  const claimed = await claimCaptureSession(supabase, secret, body);
+  if (!claimed.success) {
+    const { status, message } = CLAIM_ERRORS[claimed.error];
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+
+  logger.info('Capture session claimed');
+  return NextResponse.json(
+    { success: true, data: claimed.data },
+    { status: 201, headers: { 'Cache-Control': 'no-store' } }
+  );
+});
+
+const complete = withCaptureContext(async (_req, secret, supabase) => {
+  const completed = await completeCaptureSession(supabase, secret);
+  if (!completed.success) {
+    logger.warn('Capture session not completed', { reason: completed.error });
+    const { status, message } = COMPLETE_ERRORS[completed.error];
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+
+  logger.info('Capture session completed', { documentType: completed.data.documentType });
+  return NextResponse.json({ success: true, data: { status: completed.data.status } });
+});
+
+export const GET = lookup;
+export const POST = withCSRF(claim);
+export const PUT = withCSRF(complete);
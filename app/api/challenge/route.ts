@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { withCSRF } from '../../../lib/csrf';
+import { getChallengeProvider } from '../../../lib/challenge';
+import { signGuestToken } from '../../../lib/guest-token';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Bot challenge for guest sign-in (challengeService)
+ *
+ * GET issues a proof-of-work puzzle when the self-hosted provider is configured.
+ * POST verifies the solution or widget token server-side and returns a guest token
+ * for `Authorization: Guest <token>`.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+// Every request must get a fresh puzzle
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const provider = getChallengeProvider();
+
+    if (!provider.issue) {
+      return NextResponse.json(
+        { success: false, error: `The ${provider.name} provider does not issue challenges` },
+        { status: 404 }
+      );
+    }
+
+    const issued = await provider.issue();
+
+    return NextResponse.json(
+      { success: true, data: { provider: provider.name, ...issued } },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Error issuing challenge', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to issue challenge' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleVerify(request: Request) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.response !== 'string' || !body.response) {
+      return NextResponse.json(
+        { success: false, error: 'Challenge response is required' },
+        { status: 400 }
+      );
+    }
+
+    const provider = getChallengeProvider();
+    const remoteIp = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null;
+    const result = await provider.verify(body.response, remoteIp);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    const { token, payload } = signGuestToken(provider.name);
+
+    logger.info('Challenge passed', { provider: provider.name, userId: payload.sub });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Verification successful',
+      data: { token, userId: payload.sub, expires: payload.exp },
+    });
+  } catch (error) {
+    logger.error('Error verifying challenge', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to verify challenge' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCSRF(handleVerify);
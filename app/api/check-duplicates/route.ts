@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { checkAuth } from '../../../lib/auth-middleware';
+import { withCSRF } from '../../../lib/csrf';
+import {
+  checkSignupDuplicates,
+  duplicateCheckLimiters,
+  normalizeDuplicateCheckInput,
+} from '../../../lib/duplicate-check';
+import { getClientIp } from '../../../lib/rate-limit';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Duplicate check for the signup form (checkDuplicates in src/services/duplicateCheck.ts)
+ *
+ * Answers only "is this value taken" per field, so the signups table never needs anon
+ * read access. Rate limited per IP and per caller on that IP to slow down enumeration. The
+ * caller is the signed-in principal when there is one; a CSRF cookie can't tell callers
+ * apart, as a new one is issued to anyone who asks.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+async function handleCheck(request: Request) {
+  try {
+    const ip = getClientIp(request);
+    const { principal } = (await checkAuth(request)).auth;
+    const ipResult = duplicateCheckLimiters.ip.check(ip);
+    const callerResult = duplicateCheckLimiters.caller.check(
+      `${ip}|${principal ? `${principal.method}:${principal.subject}` : 'anonymous'}`
+    );
+
+    if (!ipResult.allowed || !callerResult.allowed) {
+      const retryAfter = Math.ceil(
+        Math.max(ipResult.retryAfterMs, callerResult.retryAfterMs) / 1000
+      );
+      logger.warn('Duplicate check rate limited', { byIp: !ipResult.allowed });
+      return NextResponse.json(
+        { success: false, error: 'Too many checks. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    const input = normalizeDuplicateCheckInput(await request.json());
+
+    if (!input.username && !input.phone && !input.email) {
+      return NextResponse.json(
+        { success: false, error: 'Provide a username, phone or email to check' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const result = await checkSignupDuplicates(supabase, input);
+
+    if (!result.success) {
+      logger.error('Duplicate check failed', result.error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to check for duplicates' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    logger.error('Unexpected error in duplicate check', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to check for duplicates' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCSRF(handleCheck);
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { CSRF_TOKEN_MAX_AGE, generateCSRFToken, setCSRFCookie } from '../../../lib/csrf';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Issues a CSRF token for csrfService.getToken
+ *
+ * Sets the token as an HttpOnly cookie and returns the same value in the body so
+ * the client can echo it back as csrf_token (double submit cookie pattern).
+ */
+
+// Every request must get a fresh token
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const token = generateCSRFToken();
+    const expires = Date.now() + CSRF_TOKEN_MAX_AGE * 1000;
+
+    const response = NextResponse.json(
+      { success: true, data: { token, expires } },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+    setCSRFCookie(response, token);
+
+    return response;
+  } catch (error) {
+    logger.error('Error issuing CSRF token', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to issue CSRF token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import { withCSRF } from '../../../lib/csrf';
+import { requireAuth, AuthenticatedRequest } from '../../../lib/auth-middleware';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import { createSignupDraft, isSignupDraft, SignupDraft } from '../../../src/utils/signupDraft';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Server-side signup drafts (draftService in src/services/draft.ts)
+ *
+ * Drafts are keyed by the caller's verified phone number, so only phone-verified
+ * callers (PhoneAuth, or Supabase users with a confirmed phone) can use them.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+type DraftRow = {
+  current_step: number;
+  data: SignupDraft['values'];
+  updated_at: string;
+  expires_at: string;
+};
+
+type SupabaseAdmin = NonNullable<ReturnType<typeof getSupabaseAdmin>>;
+
+/**
+ * Run a handler with the caller's verified phone and the admin client
+ */
+const withDraftContext =
+  (
+    handler: (
+      req: AuthenticatedRequest,
+      phone: string,
+      supabase: SupabaseAdmin
+    ) => Promise<NextResponse>
+  ) =>
+  async (req: AuthenticatedRequest) => {
+    const phone = req.auth.principal?.phone;
+    if (!phone) {
+      return NextResponse.json(
+        { success: false, error: 'Saved drafts require a verified phone number' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      return await handler(req, phone, supabase);
+    } catch (error) {
+      logger.error('Unexpected error in drafts route', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to process draft' },
+        { status: 500 }
+      );
+    }
+  };
+
+const loadDraft = withDraftContext(async (_req, phone, supabase) => {
+  const { data, error } = await supabase
+    .from('signup_drafts')
+    .select('current_step, data, updated_at, expires_at')
+    .eq('phone', phone)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error loading draft', error);
+    return NextResponse.json({ success: false, error: 'Unable to load draft' }, { status: 500 });
+  }
+
+  const row = data as DraftRow | null;
+  const draft: SignupDraft | null = row
+    ? {
+        currentStep: row.current_step,
+        values: row.data,
+        updatedAt: new Date(row.updated_at).getTime(),
+        expiresAt: new Date(row.expires_at).getTime(),
+      }
+    : null;
+
+  return NextResponse.json(
+    { success: true, data: draft },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+});
+
+const saveDraft = withDraftContext(async (req, phone, supabase) => {
+  const body = await req.json();
+
+  // Re-sanitize on the server so excluded fields never reach the database
+  const draft = createSignupDraft(body.currentStep, body.values || {});
+  if (!isSignupDraft(draft)) {
+    return NextResponse.json({ success: false, error: 'Invalid draft' }, { status: 400 });
+  }
+
+  const { error } = await supabase.from('signup_drafts').upsert({
+    phone,
+    current_step: draft.currentStep,
+    data: draft.values,
+    updated_at: new Date(draft.updatedAt).toISOString(),
+    expires_at: new Date(draft.expiresAt).toISOString(),
+  });
+
+  if (error) {
+    logger.error('Error saving draft', error);
+    return NextResponse.json({ success: false, error: 'Unable to save draft' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, data: draft });
+});
+
+const discardDraft = withDraftContext(async (_req, phone, supabase) => {
+  const { error } = await supabase.from('signup_drafts').delete().eq('phone', phone);
+
+  if (error) {
+    logger.error('Error discarding draft', error);
+    return NextResponse.json({ success: false, error: 'Unable to discard draft' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, message: 'Draft discarded' });
+});
+
+export const GET = (req: Request) => requireAuth(req, loadDraft);
+export const PUT = withCSRF(req => requireAuth(req, saveDraft));
+export const DELETE = withCSRF(req => requireAuth(req, discardDraft));
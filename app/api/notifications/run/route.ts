@@ -0,0 +1,50 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { runOutboxWorkers } from '../../../../lib/outbox-workers';
+import { logger } from '../../../../src/utils/logger';
+
+/**
+ * Run one batch of the outbox workers: signup emails, then webhook deliveries
+ *
+ * Called by scripts/notification-worker.js with `Authorization: Bearer
+ * <NOTIFICATION_WORKER_SECRET>`, next to a server build of the app.
+ *
+ * Not available in the static export build (app/api is removed before export); there the
+ * scheduled workflow runs lib/outbox-workers.ts directly.
+ */
+
+export const dynamic = 'force-dynamic';
+
+const isAuthorized = (request: Request, secret: string) => {
+  const provided = (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  // Hash both sides so the comparison doesn't leak the secret's length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return !!provided && timingSafeEqual(digest(provided), digest(secret));
+};
+
+export async function POST(request: Request) {
+  const secret = process.env.NOTIFICATION_WORKER_SECRET;
+  if (!secret) {
+    logger.error('NOTIFICATION_WORKER_SECRET is not set');
+    return NextResponse.json(
+      { success: false, error: 'Server configuration error. Please contact support.' },
+      { status: 500 }
+    );
+  }
+
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { emails, webhooks } = await runOutboxWorkers();
+  const failed = [emails, webhooks].filter(run => run === null).length;
+
+  return NextResponse.json(
+    {
+      success: failed === 0,
+      data: { emails, webhooks },
+      ...(failed > 0 ? { error: 'Notification worker run failed' } : {}),
+    },
+    { status: failed > 0 ? 500 : 200 }
+  );
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { withCSRF } from '../../../../lib/csrf';
+import { issueOtp, normalizePhone, otpSendLimiter, OTP_TTL_MS } from '../../../../lib/otp';
+import { getClientIp } from '../../../../lib/rate-limit';
+import { getSmsProvider } from '../../../../lib/sms-provider';
+import { logger } from '../../../../src/utils/logger';
+
+/**
+ * Sends a one-time verification code to a phone number (phoneAuthService.sendCode)
+ *
+ * Only a hash of the code is stored; resends are limited by a cooldown and an hourly cap per
+ * number, and sends from one client IP by otpSendLimiter.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+async function handleSend(request: Request) {
+  try {
+    const body = await request.json();
+    const phone = typeof body.phone === 'string' ? normalizePhone(body.phone) : null;
+
+    if (!phone) {
+      return NextResponse.json(
+        { success: false, error: 'A valid phone number with country code is required' },
+        { status: 400 }
+      );
+    }
+
+    const ipResult = otpSendLimiter.check(getClientIp(request));
+    if (!ipResult.allowed) {
+      const retryAfter = Math.ceil(ipResult.retryAfterMs / 1000);
+      logger.warn('Verification code sends rate limited by IP');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many verification codes requested. Please try again later.',
+        },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    const result = await issueOtp(phone, code =>
+      getSmsProvider().send({
+        to: phone,
+        body: `Your verification code is ${code}. It expires in ${OTP_TTL_MS / 60000} minutes.`,
+      })
+    );
+
+    if (!result.success) {
+      const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            result.error === 'cooldown'
+              ? `Please wait ${retryAfter} seconds before requesting another code`
+              : 'Too many verification codes requested. Please try again later.',
+        },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    logger.info('Verification code sent', { phone: phone.substring(0, 4) + '***' });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Verification code sent',
+      data: { phone, expires: result.expiresAt },
+    });
+  } catch (error) {
+    logger.error('Error sending verification code', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to send verification code' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCSRF(handleSend);
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { withCSRF } from '../../../../lib/csrf';
+import { normalizePhone, verifyOtp } from '../../../../lib/otp';
+import { signPhoneAuthToken } from '../../../../lib/phone-auth-token';
+import { logger } from '../../../../src/utils/logger';
+
+/**
+ * Checks a verification code and issues a signed phone auth token (phoneAuthService.verifyCode)
+ *
+ * The token is sent as `Authorization: PhoneAuth <token>` and verified with verifyPhoneAuthToken.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+const VERIFY_ERRORS: Record<string, { message: string; status: number }> = {
+  not_found: { message: 'No pending verification. Please request a new code.', status: 400 },
+  expired: { message: 'Verification code expired. Please request a new code.', status: 400 },
+  too_many_attempts: {
+    message: 'Too many incorrect attempts. Please request a new code.',
+    status: 429,
+  },
+  invalid_code: { message: 'Invalid verification code. Please try again.', status: 400 },
+};
+
+async function handleVerify(request: Request) {
+  try {
+    const body = await request.json();
+    const phone = typeof body.phone === 'string' ? normalizePhone(body.phone) : null;
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+
+    if (!phone || !/^[0-9]{6}$/.test(code)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid phone number and 6-digit code are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await verifyOtp(phone, code);
+
+    if (!result.success) {
+      const { message, status } = VERIFY_ERRORS[result.error] ?? {
+        message: 'Verification failed',
+        status: 400,
+      };
+      return NextResponse.json(
+        {
+          success: false,
+          error: message,
+          ...(result.attemptsRemaining !== undefined
+            ? { data: { attemptsRemaining: result.attemptsRemaining } }
+            : {}),
+        },
+        { status }
+      );
+    }
+
+    const { token, payload } = signPhoneAuthToken(phone);
+
+    logger.info('Phone verification successful', { userId: payload.sub });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Phone number verified',
+      data: { token, userId: payload.sub, phone: payload.phone, expires: payload.exp },
+    });
+  } catch (error) {
+    logger.error('Error verifying code', error);
+    return NextResponse.json({ success: false, error: 'Unable to verify code' }, { status: 500 });
+  }
+}
+
+export const POST = withCSRF(handleVerify);
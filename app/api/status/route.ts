@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getApplicantStatus } from '../../../lib/applicant-status';
+import { requireAuth, AuthenticatedRequest } from '../../../lib/auth-middleware';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * The caller's own applications (applicantStatusService.load)
+ *
+ * Requires a Supabase session or a verified phone - guest tokens don't identify an applicant.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+async function handleStatus(req: AuthenticatedRequest) {
+  try {
+    const result = await getApplicantStatus(req);
+
+    if (!result.success) {
+      return result.error === 'phone_required'
+        ? NextResponse.json(
+            { success: false, error: 'Verify your phone number to check your application' },
+            { status: 403 }
+          )
+        : NextResponse.json(
+            { success: false, error: 'Server configuration error. Please contact support.' },
+            { status: 500 }
+          );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in status route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to load your application' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = (req: Request) => requireAuth(req, handleStatus);
@@ -0,0 +1,265 @@
+import { NextResponse } from 'next/server';
+import { getSignupFormSchema } from '../../../lib/validators';
+import { withCSRF } from '../../../lib/csrf';
+import {
+  requireAuth,
+  AuthenticatedRequest,
+  phoneMatchesPrincipal,
+} from '../../../lib/auth-middleware';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import { isChallengeFresh } from '../../../lib/challenge';
+import {
+  discardSignup,
+  findReusedDocuments,
+  saveSignupDocuments,
+} from '../../../lib/signup-documents';
+import { saveTerminalOrderDetails, toTerminalOrderDetails } from '../../../lib/terminal-orders';
+import { confirmUploads } from '../../../lib/upload-tickets';
+import { config } from '../../../src/config';
+import { createTranslator, DEFAULT_LOCALE } from '../../../src/i18n';
+import { ApiResponse, SignupFormData } from '../../../src/types';
+import { findBank } from '../../../src/utils/bankDirectory';
+import { getCountryProfile } from '../../../src/utils/countryProfiles';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Signup submission endpoint used by apiService.submitFormWithApi
+ *
+ * Requires a valid CSRF token (issued by /api/csrf) and an authenticated caller (any scheme
+ * registered in lib/auth-middleware), validates the body against the schema for the applicant's
+ * market (getSignupFormSchema) and writes with the service role key so the browser never needs
+ * insert rights on the signups table.
+ * Phone-verified callers must submit the phone number they verified, and guests must have
+ * passed a bot challenge within CHALLENGE_MAX_AGE_MS. Documents must have been uploaded by the
+ * same caller through /api/uploads.
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+// Responses are in English, like the schema messages (getSignupFormSchema's default locale)
+const t = createTranslator(DEFAULT_LOCALE);
+
+// Map unique constraint names to the field the applicant needs to change
+const DUPLICATE_FIELDS: Record<string, string> = {
+  signups_phone_key: 'phone number',
+  signups_email_key: 'email address',
+  signups_username_key: 'username',
+};
+
+/**
+ * Convert an optional coordinate that may arrive as '' or a string into a number
+ */
+const toCoordinate = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'string' ? parseFloat(value) : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Build the signups row from validated form data
+ * Only includes columns that exist in the signups table
+ */
+const toSignupRow = (data: SignupFormData, req: AuthenticatedRequest) => {
+  const latitude = toCoordinate(data.latitude);
+  const longitude = toCoordinate(data.longitude);
+
+  return {
+    username: data.username,
+    name: data.name,
+    phone: data.phone,
+    email: data.email || null,
+    account_type: data.account_type,
+    terms_accepted: data.terms_accepted,
+    country: getCountryProfile(data.country).code,
+    ...(data.business_name ? { business_name: data.business_name } : {}),
+    ...(data.business_address ? { business_address: data.business_address } : {}),
+    ...(data.business_type ? { business_type: data.business_type } : {}),
+    ...(data.business_description?.trim()
+      ? { business_description: data.business_description.trim() }
+      : {}),
+    ...(data.merchant_type ? { merchant_type: data.merchant_type } : {}),
+    ...(latitude !== undefined ? { latitude } : {}),
+    ...(longitude !== undefined ? { longitude } : {}),
+    ...(data.wants_terminal !== undefined ? { wants_terminal: !!data.wants_terminal } : {}),
+    // Aliases such as "NCB" are stored under the directory name
+    ...(data.bank_name ? { bank_name: findBank(data.bank_name)?.name || data.bank_name } : {}),
+    ...(data.bank_branch ? { bank_branch: data.bank_branch } : {}),
+    ...(data.bank_account_type ? { bank_account_type: data.bank_account_type } : {}),
+    ...(data.account_currency ? { account_currency: data.account_currency } : {}),
+    ...(data.bank_account_number ? { bank_account_number: data.bank_account_number } : {}),
+    // Link the row to the Supabase user so the owner RLS policy applies
+    ...(req.auth.principal?.method === 'supabase' ? { user_id: req.auth.principal.subject } : {}),
+    client_version: config.app.version,
+    submission_source: 'api',
+    submitted_at: new Date().toISOString(),
+    user_agent: req.headers.get('user-agent') || null,
+  };
+};
+
+async function handleSubmit(req: AuthenticatedRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Rules depend on the market the applicant signed up in
+    const parsed = getSignupFormSchema((body as { country?: unknown } | null)?.country).safeParse(
+      body
+    );
+
+    if (!parsed.success) {
+      logger.warn('Signup submission failed validation', {
+        fields: Object.keys(parsed.error.flatten().fieldErrors),
+      });
+      return NextResponse.json(
+        { success: false, error: parsed.error.flatten().fieldErrors as Record<string, string[]> },
+        { status: 400 }
+      );
+    }
+
+    // Guests must have passed a bot challenge recently
+    if (
+      req.auth.principal?.method === 'captcha' &&
+      !isChallengeFresh(req.auth.principal.verifiedAt)
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Verification expired. Please complete the verification again.' },
+        { status: 403 }
+      );
+    }
+
+    // Phone-verified callers can only submit for the number they verified
+    if (!phoneMatchesPrincipal(req.auth.principal, parsed.data.phone)) {
+      logger.warn('Signup phone does not match verified phone', {
+        method: req.auth.principal?.method,
+      });
+      return NextResponse.json(
+        { success: false, error: 'Phone number must match the number you verified' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const formData = parsed.data as SignupFormData;
+
+    // Only files the caller uploaded through an upload ticket can be attached
+    const confirmation = await confirmUploads(
+      supabase,
+      req.auth.principal?.subject || '',
+      formData.documents || []
+    );
+    if (!confirmation.success) {
+      logger.warn('Signup documents failed upload confirmation', {
+        reason: confirmation.error,
+      });
+      return NextResponse.json(
+        { success: false, error: { documents: [t('validation.documentInvalid')] } },
+        { status: 400 }
+      );
+    }
+
+    const row = toSignupRow(formData, req);
+    const { data, error } = await supabase
+      .from('signups')
+      .insert([row])
+      .select('id, created_at')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        const constraint = Object.keys(DUPLICATE_FIELDS).find(key => error.message?.includes(key));
+        const fieldName = constraint ? DUPLICATE_FIELDS[constraint] : 'phone number';
+        return NextResponse.json(
+          {
+            success: false,
+            error: `This ${fieldName} has already requested an upgrade. Please use a different ${fieldName} or contact support via WhatsApp at +1 (876) 290-9250 if you need to update your existing registration.`,
+          },
+          { status: 409 }
+        );
+      }
+
+      logger.supabase.dataSubmissionFailed('signups', error);
+      return NextResponse.json(
+        { success: false, error: 'Unable to save your signup. Please try again.' },
+        { status: 500 }
+      );
+    }
+
+    logger.supabase.dataSubmitted('signups', { id: data?.id });
+
+    // Documents go in their own table. A signup without them can't be reviewed, so it is
+    // discarded and the applicant asked to submit again
+    if (formData.documents?.length && data?.id) {
+      try {
+        await saveSignupDocuments(supabase, data.id, formData.documents, confirmation.hashes);
+      } catch (documentsError) {
+        logger.supabase.dataSubmissionFailed('signup_documents', documentsError);
+        try {
+          await discardSignup(supabase, data.id);
+        } catch (discardError) {
+          logger.error(`Unable to discard signup ${data.id} without documents`, discardError);
+        }
+        return NextResponse.json(
+          { success: false, error: 'Unable to save your documents. Please try again.' },
+          { status: 500 }
+        );
+      }
+    }
+
+    // The signup trigger already created the order - a failure here leaves the defaults
+    // (one terminal, shipped to the business address) for an admin to correct
+    if (formData.wants_terminal && data?.id) {
+      try {
+        await saveTerminalOrderDetails(supabase, data.id, toTerminalOrderDetails(formData));
+      } catch (orderError) {
+        logger.supabase.dataSubmissionFailed('terminal_orders', orderError);
+      }
+    }
+
+    // Reviewers see the flag on the signup; this is for alerting
+    if (formData.documents?.length && data?.id) {
+      try {
+        const reused = await findReusedDocuments(
+          supabase,
+          { id: data.id, user_id: row.user_id, phone: row.phone },
+          Object.values(confirmation.hashes)
+        );
+        if (reused.size > 0) {
+          logger.warn('Signup documents match files sent with other signups', {
+            id: data.id,
+            files: reused.size,
+          });
+        }
+      } catch (reuseError) {
+        logger.error('Unable to check signup documents for reuse', reuseError);
+      }
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Signup successful', data },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in submit route', error);
+    return NextResponse.json(
+      { success: false, error: 'Unexpected error processing submission' },
+      { status: 500 }
+    );
+  }
+}
+
+// A successful submission rotates the CSRF cookie so the token cannot be replayed
+export const POST = withCSRF(req => requireAuth(req, handleSubmit), { rotateOnSuccess: true });
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { withCSRF } from '../../../lib/csrf';
+import { requireAuth, AuthenticatedRequest } from '../../../lib/auth-middleware';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import {
+  issueUploadTicket,
+  parseUploadTicketRequest,
+  uploadTicketLimiter,
+  UploadTicketError,
+} from '../../../lib/upload-tickets';
+import { logger } from '../../../src/utils/logger';
+
+/**
+ * Upload tickets for verification documents (uploadService in src/services/uploads.ts)
+ *
+ * Returns a one-time signed upload URL for a new object path, so the browser never holds
+ * storage credentials. The ticket is tied to the caller; /api/submit only accepts documents
+ * the same caller uploaded through a ticket (confirmUploads in lib/upload-tickets.ts).
+ *
+ * Not available in the static export build (app/api is removed before export).
+ */
+
+export const dynamic = 'force-dynamic';
+
+const TICKET_ERRORS: Record<UploadTicketError, { status: number; message: string }> = {
+  invalid_request: { status: 400, message: 'Provide a document type, content type and size' },
+  unsupported_type: { status: 415, message: 'Documents must be uploaded as JPEG images' },
+  too_large: { status: 413, message: 'File is too large' },
+};
+
+async function handleTicket(req: AuthenticatedRequest) {
+  try {
+    const subject = req.auth.principal?.subject || '';
+    const limit = uploadTicketLimiter.check(subject);
+    if (!limit.allowed) {
+      logger.warn('Upload tickets rate limited', { method: req.auth.principal?.method });
+      return NextResponse.json(
+        { success: false, error: 'Too many uploads. Please try again later.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': Math.ceil(limit.retryAfterMs / 1000).toString() },
+        }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch (error) {
+      body = null;
+    }
+
+    const parsed = parseUploadTicketRequest(body);
+    if (!parsed.success) {
+      const { status, message } = TICKET_ERRORS[parsed.error];
+      return NextResponse.json({ success: false, error: message }, { status });
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) {
+      return NextResponse.json(
+        { success: false, error: 'Server configuration error. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    const ticket = await issueUploadTicket(supabase, subject, parsed.data);
+    logger.info('Upload ticket issued', { documentType: parsed.data.documentType });
+
+    return NextResponse.json(
+      { success: true, data: ticket },
+      { status: 201, headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Unexpected error issuing upload ticket', error);
+    return NextResponse.json(
+      { success: false, error: 'Unable to prepare the upload' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCSRF(req => requireAuth(req, handleTicket));
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Photograph your document | Flash',
+  robots: { index: false, follow: false },
+};
+
+export default function CaptureLayout({ children }: { children: React.ReactNode }) {
+  return <div className="py-4 px-2">{children}</div>;
+}
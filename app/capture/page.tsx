@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { MessageKey } from '../../src/i18n';
+import { useTranslation } from '../../src/i18n/I18nProvider';
+import { captureService } from '../../src/services/capture';
+import { uploadService } from '../../src/services/uploads';
+import { CaptureSessionStatus, KycDocumentType } from '../../src/types';
+import { ImageQualityIssue } from '../../src/utils/imageProcessing';
+import { prepareImageForUpload } from '../../src/utils/imageUpload';
+import { PREPARE_ERRORS, QUALITY_GUIDANCE } from '../form/components/FileUpload';
+
+type PageState =
+  'checking' | 'ready' | 'uploading' | 'done' | 'invalid' | 'expired' | 'used' | 'failed';
+
+interface Photo {
+  file: Blob;
+  preview: string;
+  issues: ImageQualityIssue[];
+}
+
+// Where a session the link points to leaves this page
+const SESSION_STATES: Record<CaptureSessionStatus, PageState> = {
+  pending: 'ready',
+  expired: 'expired',
+  uploading: 'used',
+  completed: 'used',
+};
+
+// Pages that only show a message
+const STATE_MESSAGES: Partial<Record<PageState, MessageKey>> = {
+  done: 'capture.done',
+  invalid: 'capture.invalidLink',
+  expired: 'capture.linkExpired',
+  used: 'capture.linkUsed',
+  failed: 'capture.failed',
+};
+
+/**
+ * Phone side of a capture session, opened from the QR code on the desktop form
+ * The session secret is the link's fragment. The photo is prepared like any other upload and
+ * sent with the session's one ticket; the desktop form picks it up from there.
+ */
+export default function CapturePage() {
+  const [state, setState] = useState<PageState>('checking');
+  const [secret, setSecret] = useState('');
+  const [documentType, setDocumentType] = useState<KycDocumentType | null>(null);
+  const [photo, setPhoto] = useState<Photo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const cameraRef = useRef<HTMLInputElement>(null);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    const fromLink = window.location.hash.slice(1);
+    if (!fromLink) {
+      setState('invalid');
+      return;
+    }
+
+    setSecret(fromLink);
+    captureService.lookup(fromLink).then(result => {
+      if (!result.success || !result.data) {
+        setState('invalid');
+        return;
+      }
+      setDocumentType(result.data.documentType);
+      setState(SESSION_STATES[result.data.status]);
+    });
+  }, []);
+
+  const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const original = event.target.files?.[0];
+    event.target.value = '';
+    if (!original) return;
+
+    setError(null);
+    const prepared = await prepareImageForUpload(original);
+    if (!prepared.success) {
+      setError(t(PREPARE_ERRORS[prepared.error]));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = e => {
+      if (e.target?.result) {
+        setPhoto({
+          file: prepared.file,
+          preview: e.target.result as string,
+          issues: prepared.issues,
+        });
+      }
+    };
+    reader.readAsDataURL(prepared.file);
+  };
+
+  const send = async () => {
+    if (!photo || !documentType) return;
+    setState('uploading');
+    setProgress(0);
+
+    const ticket = await captureService.requestTicket(secret, photo.file);
+    if (!ticket.success || !ticket.data) {
+      setState('failed');
+      return;
+    }
+
+    const upload = uploadService.uploadWithTicket(documentType, ticket.data, photo.file, {
+      onProgress: (sent, total) => setProgress(total > 0 ? Math.round((sent / total) * 100) : 100),
+    });
+    const uploaded = await upload.result;
+    if (!uploaded.success) {
+      setState('failed');
+      return;
+    }
+
+    const completed = await captureService.complete(secret);
+    setState(completed.success ? 'done' : 'failed');
+  };
+
+  const message = STATE_MESSAGES[state];
+  const documentLabel = documentType ? t(`document.${documentType}`) : '';
+
+  return (
+    <div className="max-w-md mx-auto bg-white p-6 rounded-xl shadow-md text-center">
+      {state === 'checking' && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {message && (
+        <p className={state === 'done' ? 'text-green-700' : 'text-gray-700'} role="status">
+          {t(message)}
+        </p>
+      )}
+
+      {(state === 'ready' || state === 'uploading') && (
+        <>
+          <h2 className="text-lg font-semibold text-gray-800 mb-2">
+            {t('capture.title', { document: documentLabel })}
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">{t('capture.instructions')}</p>
+
+          <input
+            ref={cameraRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={handlePhoto}
+            className="hidden"
+            aria-label={t('upload.inputLabel', { document: documentLabel })}
+          />
+
+          {photo && (
+            <img
+              src={photo.preview}
+              alt={t('upload.previewAlt', { document: documentLabel })}
+              className="max-h-64 mx-auto mb-4 rounded"
+            />
+          )}
+
+          {error && <p className="form-error mb-4">{error}</p>}
+          {photo && photo.issues.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm text-yellow-800 text-left">
+              <ul className="list-disc ml-5">
+                {photo.issues.map(issue => (
+                  <li key={issue}>{t(QUALITY_GUIDANCE[issue])}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {state === 'uploading' ? (
+            <div
+              className="h-2 bg-gray-200 rounded"
+              role="progressbar"
+              aria-label={t('upload.progress', { percent: progress })}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={progress}
+            >
+              <div
+                className="h-2 bg-blue-600 rounded transition-all"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          ) : (
+            <div className="flex flex-col gap-3">
+              {photo && (
+                <button
+                  type="button"
+                  onClick={send}
+                  className="px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  {t('capture.usePhoto')}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => cameraRef.current?.click()}
+                className={
+                  photo
+                    ? 'px-4 py-3 bg-blue-50 text-blue-600 border border-blue-200 rounded-md'
+                    : 'px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700'
+                }
+              >
+                {photo ? t('capture.retake') : t('capture.takePhoto')}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
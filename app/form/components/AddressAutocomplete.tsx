@@ -5,6 +5,7 @@ import { useFormContext } from 'react-hook-form';
 import { SignupFormData } from '../../../src/types/index';
 import { mapsLogger } from '../../../src/utils/mapsLogger';
 import { useGoogleMapsApi } from '../../../src/hooks/useGoogleMapsApi';
+import { useCountryProfile } from '../../../src/hooks/useCountryProfile';
 
 interface AddressAutocompleteProps {
   isRequired: boolean;
@@ -26,6 +27,11 @@ export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
     watch,
   } = useFormContext<SignupFormData>();
 
+  // Read by the place_changed listener, which is only registered once
+  const profile = useCountryProfile();
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
   // Track input element and autocomplete instance
   const inputRef = useRef<HTMLInputElement | null>(null);
   const autocompleteRef = useRef<google.maps.places.Autocomplete | null>(null);
@@ -148,11 +154,8 @@ export const AddressAutocomplete: React.FC<AddressAutocompleteProps> = ({
               // Update the address in the form
               setValue('business_address', manualAddress, { shouldValidate: true });
 
-              // For now, use center of relevant country/region as an approximation
-              // This is a fallback solution - ideally we would get the real coordinates
-              // You could enhance this with default coordinates for your target market
-              const defaultLat = 18.1096; // Jamaica center lat (example)
-              const defaultLng = -77.2975; // Jamaica center lng (example)
+              // Use the center of the applicant's market as an approximation
+              const { lat: defaultLat, lng: defaultLng } = profileRef.current.map.center;
 
               setValue('latitude', defaultLat, { shouldValidate: true });
               setValue('longitude', defaultLng, { shouldValidate: true });
@@ -8,6 +8,7 @@ import { useGoogleMapsApi } from '../../../src/hooks/useGoogleMapsApi';
 interface AddressMapProps {
   latitude: number | null;
   longitude: number | null;
+  zoom?: number;
   isExpanded?: boolean;
   toggleExpand?: () => void;
 }
@@ -27,6 +28,7 @@ const containerStyle = {
 export const AddressMap: React.FC<AddressMapProps> = ({
   latitude,
   longitude,
+  zoom = 15,
   isExpanded = true,
   toggleExpand,
 }) => {
@@ -220,7 +222,7 @@ export const AddressMap: React.FC<AddressMapProps> = ({
       <GoogleMap
         mapContainerStyle={containerStyle}
         center={center}
-        zoom={15}
+        zoom={zoom}
         onLoad={onLoad}
         onUnmount={onUnmount}
         options={{
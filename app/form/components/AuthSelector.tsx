@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import AuthForm from './AuthForm';
 import CaptchaAuth from './CaptchaAuth';
+import { config } from '../../../src/config';
 
 export type AuthMethod = 'email' | 'captcha';
 
@@ -114,7 +115,11 @@ export default function AuthSelector({ onAuthenticated }: AuthSelectorProps) {
         >
           {method === 'captcha' && (
             <div id="captcha-auth-panel" role="tabpanel" aria-labelledby="captcha-auth-tab">
-              <CaptchaAuth onAuthenticated={handleCaptchaAuth} />
+              <CaptchaAuth
+                onAuthenticated={handleCaptchaAuth}
+                provider={config.challenge.provider}
+                siteKey={config.challenge.siteKey}
+              />
             </div>
           )}
         </div>
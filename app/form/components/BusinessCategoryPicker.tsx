@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useCallback } from 'react';
+import { useFormContext } from 'react-hook-form';
+import { SignupFormData } from '../../../src/types';
+import {
+  getBusinessCategory,
+  searchBusinessCategories,
+} from '../../../src/utils/businessCategories';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
+import { Typeahead, TypeaheadOption } from './Typeahead';
+
+/**
+ * Typeahead for the business category (business_type)
+ * Applicants search by name or keyword and pick from the taxonomy, so only known
+ * category codes end up in the form
+ */
+export const BusinessCategoryPicker: React.FC = () => {
+  const {
+    register,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useFormContext<SignupFormData>();
+  const { t } = useTranslation();
+
+  const selected = getBusinessCategory(watch('business_type'));
+
+  const search = useCallback(
+    (query: string): TypeaheadOption[] =>
+      searchBusinessCategories(query).map(category => ({
+        value: category.code,
+        label: category.label,
+        detail: category.group,
+      })),
+    []
+  );
+
+  return (
+    <div>
+      {/* The category code is what gets validated and submitted */}
+      <input type="hidden" {...register('business_type')} />
+      <Typeahead
+        id="business_type"
+        selectedLabel={selected?.label || ''}
+        search={search}
+        onSelect={option =>
+          option
+            ? setValue('business_type', option.value, { shouldValidate: true, shouldDirty: true })
+            : setValue('business_type', '', { shouldDirty: true })
+        }
+        placeholder={t('business.categoryPlaceholder')}
+        emptyMessage={t('business.categoryEmpty')}
+        invalid={!!errors.business_type}
+      />
+
+      {errors.business_type && (
+        <p className="form-error" role="alert">
+          {errors.business_type.message?.toString()}
+        </p>
+      )}
+    </div>
+  );
+};
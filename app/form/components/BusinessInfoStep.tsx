@@ -1,7 +1,18 @@
 'use client';
 
+import { useState } from 'react';
 import { useFormContext } from 'react-hook-form';
-import { SignupFormData } from '../../../src/types';
+import { MERCHANT_TYPES, SignupFormData, TERMINAL_MODELS } from '../../../src/types';
+import {
+  BUSINESS_DESCRIPTION_MAX_LENGTH,
+  isBusinessCategoryCode,
+} from '../../../src/utils/businessCategories';
+import {
+  TERMINAL_MODEL_LABELS,
+  TERMINAL_ORDER_MAX_QUANTITY,
+} from '../../../src/utils/terminalOrders';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
+import { BusinessCategoryPicker } from './BusinessCategoryPicker';
 import { EnhancedAddressInput } from './EnhancedAddressInput';
 
 type StepProps = {
@@ -18,6 +29,9 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
   } = useFormContext<SignupFormData>();
 
   const accountType = watch('account_type');
+  // Terminals ship to the business address unless the applicant gives another one
+  const [shipElsewhere, setShipElsewhere] = useState(() => !!watch('terminal_shipping_address'));
+  const { t } = useTranslation();
 
   // For debugging
   console.log('💼 BusinessInfoStep rendering, accountType:', accountType);
@@ -50,6 +64,8 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
       // For merchants, business info is now required
       const businessName = watch('business_name');
       const businessAddress = watch('business_address');
+      const businessType = watch('business_type');
+      const businessDescription = watch('business_description');
 
       let isValid = true;
 
@@ -63,6 +79,16 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
         setValue('business_address', businessAddress || '', { shouldValidate: true });
       }
 
+      if (!isBusinessCategoryCode(businessType)) {
+        isValid = false;
+        setValue('business_type', businessType || '', { shouldValidate: true });
+      }
+
+      if ((businessDescription || '').length > BUSINESS_DESCRIPTION_MAX_LENGTH) {
+        isValid = false;
+        setValue('business_description', businessDescription, { shouldValidate: true });
+      }
+
       if (isValid) {
         // Make sure the terminal value is a proper boolean
         if (wantsTerminal !== undefined) {
@@ -74,6 +100,8 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
       // For professionals, business info is required
       const businessName = watch('business_name');
       const businessAddress = watch('business_address');
+      const businessType = watch('business_type');
+      const businessDescription = watch('business_description');
 
       let isValid = true;
 
@@ -87,6 +115,16 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
         setValue('business_address', businessAddress || '', { shouldValidate: true });
       }
 
+      if (!isBusinessCategoryCode(businessType)) {
+        isValid = false;
+        setValue('business_type', businessType || '', { shouldValidate: true });
+      }
+
+      if ((businessDescription || '').length > BUSINESS_DESCRIPTION_MAX_LENGTH) {
+        isValid = false;
+        setValue('business_description', businessDescription, { shouldValidate: true });
+      }
+
       if (isValid) {
         // Make sure the terminal value is a proper boolean
         if (wantsTerminal !== undefined) {
@@ -99,12 +137,12 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
 
   return (
     <div className="bg-white rounded-lg">
-      <h3 className="text-xl font-semibold text-gray-800 mb-6">Business Information</h3>
+      <h3 className="text-xl font-semibold text-gray-800 mb-6">{t('business.title')}</h3>
 
       {/* Business Name Field */}
       <div className="form-group mb-6">
         <label htmlFor="business_name" className="form-label">
-          Business Name
+          {t('business.name')}
           <span className="text-red-500 ml-1">*</span>
         </label>
         <div className="relative">
@@ -127,7 +165,7 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             id="business_name"
             {...register('business_name')}
             className="form-input input-with-icon"
-            placeholder="Your business name"
+            placeholder={t('business.namePlaceholder')}
             aria-required={isBusinessInfoRequired}
             aria-invalid={errors.business_name ? 'true' : 'false'}
           />
@@ -139,10 +177,62 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
         )}
       </div>
 
+      {/* Business Category */}
+      <div className="form-group mb-6">
+        <label htmlFor="business_type" className="form-label">
+          {t('business.category')}
+          <span className="text-red-500 ml-1">*</span>
+        </label>
+        <BusinessCategoryPicker />
+      </div>
+
+      {/* Business Description */}
+      <div className="form-group mb-6">
+        <label htmlFor="business_description" className="form-label">
+          {t('business.description')}
+        </label>
+        <textarea
+          id="business_description"
+          {...register('business_description')}
+          rows={3}
+          maxLength={BUSINESS_DESCRIPTION_MAX_LENGTH}
+          className="form-input"
+          placeholder={t('business.descriptionPlaceholder')}
+          aria-invalid={errors.business_description ? 'true' : 'false'}
+        />
+        <p className="mt-1 text-xs text-gray-500 text-right">
+          {(watch('business_description') || '').length}/{BUSINESS_DESCRIPTION_MAX_LENGTH}
+        </p>
+        {errors.business_description && (
+          <p className="form-error" role="alert">
+            {errors.business_description.message?.toString()}
+          </p>
+        )}
+      </div>
+
+      {/* Merchant Type */}
+      <div className="form-group mb-6">
+        <label htmlFor="merchant_type" className="form-label">
+          {t('business.merchantType')}
+        </label>
+        <select
+          id="merchant_type"
+          {...register('merchant_type', { setValueAs: value => value || undefined })}
+          className="form-input"
+        >
+          <option value="">{t('common.selectOne')}</option>
+          {MERCHANT_TYPES.map(type => (
+            <option key={type} value={type}>
+              {t(`merchantType.${type}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Enhanced Address Input with Integrated Map */}
       <div className="form-group">
         <label htmlFor="business_address" className="form-label">
-          Business Address
+          {t('business.address')}
           <span className="text-red-500 ml-1">*</span>
         </label>
 
@@ -177,7 +267,7 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
           </div>
           <div className="ml-3 text-sm">
             <label htmlFor="wants_terminal" className="font-medium text-gray-700 flex items-center">
-              Do you want a Flash Terminal?
+              {t('terminal.question')}
               <div className="relative ml-2 group">
                 <svg
                   className="w-4 h-4 text-gray-500 cursor-pointer"
@@ -195,15 +285,88 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
                   className="absolute left-0 bottom-6 w-64 p-3 text-xs bg-gray-700 text-white rounded shadow-lg
                      opacity-0 pointer-events-none group-hover:opacity-100 transition duration-150 ease-in-out z-50"
                 >
-                  A Flash Terminal is a smartdevice that can accept payment via Flash for your
-                  business and print receipts. A customer service representative will contact you if
-                  you check this box.
+                  {t('terminal.tooltip')}
                 </div>
               </div>
             </label>
           </div>
         </div>
 
+        {/* Terminal order details */}
+        {watch('wants_terminal') && (
+          <div className="mt-4 ml-7 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="terminal_quantity" className="form-label">
+                  {t('terminal.quantity')}
+                </label>
+                <select
+                  id="terminal_quantity"
+                  {...register('terminal_quantity', {
+                    setValueAs: value => (value === '' ? undefined : Number(value)),
+                  })}
+                  className="form-input"
+                >
+                  {Array.from({ length: TERMINAL_ORDER_MAX_QUANTITY }, (_, i) => i + 1).map(
+                    quantity => (
+                      <option key={quantity} value={quantity}>
+                        {quantity}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="terminal_model" className="form-label">
+                  {t('terminal.model')}
+                </label>
+                <select id="terminal_model" {...register('terminal_model')} className="form-input">
+                  {TERMINAL_MODELS.map(model => (
+                    <option key={model} value={model}>
+                      {TERMINAL_MODEL_LABELS[model]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!shipElsewhere}
+                  onChange={e => {
+                    setShipElsewhere(!e.target.checked);
+                    if (e.target.checked) setValue('terminal_shipping_address', '');
+                  }}
+                  className="w-4 h-4 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t('terminal.shipToBusiness')}
+              </label>
+              {shipElsewhere && (
+                <div className="mt-2">
+                  <label htmlFor="terminal_shipping_address" className="form-label">
+                    {t('terminal.shippingAddress')}
+                  </label>
+                  <textarea
+                    id="terminal_shipping_address"
+                    {...register('terminal_shipping_address')}
+                    rows={2}
+                    className="form-input"
+                    placeholder={t('terminal.shippingPlaceholder')}
+                    aria-invalid={errors.terminal_shipping_address ? 'true' : 'false'}
+                  />
+                  {errors.terminal_shipping_address && (
+                    <p className="form-error" role="alert">
+                      {errors.terminal_shipping_address.message?.toString()}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Debug display for terminal value - only visible in development */}
         {process.env.NODE_ENV === 'development' && (
           <div className="mt-1 text-xs text-gray-400">
@@ -219,7 +382,7 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
           type="button"
           onClick={() => setCurrentStep(3)}
           className="form-btn-secondary flex items-center"
-          aria-label="Go back to previous step"
+          aria-label={t('common.goBack')}
         >
           <svg className="mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path
@@ -229,7 +392,7 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
               d="M15 19l-7-7 7-7"
             />
           </svg>
-          <span>Back</span>
+          <span>{t('common.back')}</span>
         </button>
 
         <div className="flex space-x-3">
@@ -237,9 +400,9 @@ export const BusinessInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             type="button"
             onClick={validateAndContinue}
             className="form-btn flex items-center"
-            aria-label="Continue to next step"
+            aria-label={t('common.continueNext')}
           >
-            <span>Continue</span>
+            <span>{t('common.continue')}</span>
             <svg className="ml-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
             </svg>
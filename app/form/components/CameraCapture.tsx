@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
+import { KycDocumentType } from '../../../src/types';
+import {
+  CameraError,
+  captureDocument,
+  CapturedDocument,
+  openCamera,
+  stopCamera,
+} from '../../../src/utils/cameraCapture';
+import { fitDocumentGuide } from '../../../src/utils/imageProcessing';
+import { DOCUMENT_ASPECT_RATIOS } from '../../../src/utils/kycDocuments';
+
+type CameraState =
+  | { step: 'starting' }
+  | { step: 'live' }
+  | { step: 'capturing' }
+  | { step: 'review'; photo: CapturedDocument; preview: string };
+
+interface CameraCaptureProps {
+  // Photographed in this order, e.g. the front of an ID then its back
+  documents: readonly KycDocumentType[];
+  // Called with each confirmed photo, cropped but not yet prepared for upload
+  onCapture: (documentType: KycDocumentType, file: File) => void;
+  onClose: () => void;
+  // No camera to stream; the file picker is the way to go
+  onUnavailable: (error: CameraError) => void;
+}
+
+/**
+ * Photograph documents with this device's camera, inside a guide the shape of the document
+ * Each photo is cropped to the document (src/utils/cameraCapture.ts) and shown for a retake
+ * before it is handed on.
+ */
+export default function CameraCapture({
+  documents,
+  onCapture,
+  onClose,
+  onUnavailable,
+}: CameraCaptureProps) {
+  const [state, setState] = useState<CameraState>({ step: 'starting' });
+  const [index, setIndex] = useState(0);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const [failed, setFailed] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { t } = useTranslation();
+
+  const documentType = documents[index] as KycDocumentType;
+  const documentLabel = t(`document.${documentType}`);
+  const aspectRatio = DOCUMENT_ASPECT_RATIOS[documentType];
+
+  // The stream lives as long as this component, so retakes don't ask for the camera again
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let closed = false;
+
+    openCamera().then(opened => {
+      if (!opened.success) {
+        if (!closed) onUnavailable(opened.error);
+        return;
+      }
+      if (closed) {
+        stopCamera(opened.stream);
+        return;
+      }
+      stream = opened.stream;
+      if (videoRef.current) videoRef.current.srcObject = stream;
+    });
+
+    return () => {
+      closed = true;
+      if (stream) stopCamera(stream);
+    };
+    // Only on mount - a new camera per callback identity would prompt again
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleReady = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setFrameSize({ width: video.videoWidth, height: video.videoHeight });
+    setState(current => (current.step === 'starting' ? { step: 'live' } : current));
+  };
+
+  const take = async () => {
+    const video = videoRef.current;
+    if (!video || state.step !== 'live') return;
+    setState({ step: 'capturing' });
+    setFailed(false);
+
+    try {
+      const photo = await captureDocument(video, aspectRatio);
+      const reader = new FileReader();
+      reader.onload = e => {
+        if (e.target?.result) {
+          setState({ step: 'review', photo, preview: e.target.result as string });
+        }
+      };
+      reader.readAsDataURL(photo.file);
+    } catch (error) {
+      console.error('[📷] Could not capture a frame:', error);
+      setFailed(true);
+      setState({ step: 'live' });
+    }
+  };
+
+  const confirm = () => {
+    if (state.step !== 'review') return;
+    onCapture(documentType, state.photo.file);
+    if (index + 1 < documents.length) {
+      setIndex(index + 1);
+      setState({ step: 'live' });
+    } else {
+      onClose();
+    }
+  };
+
+  // Guide position as a share of the frame, so it scales with the video on screen
+  const guide = frameSize && fitDocumentGuide(frameSize.width, frameSize.height, aspectRatio);
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-md p-4 text-center text-sm">
+      {documents.length > 1 && (
+        <p className="text-xs text-gray-500 mb-1">
+          {t('camera.step', { current: index + 1, total: documents.length })}
+        </p>
+      )}
+      <p className="font-medium text-gray-800 mb-3">
+        {state.step === 'review'
+          ? t('camera.check', { document: documentLabel })
+          : t('camera.guide', { document: documentLabel })}
+      </p>
+
+      <div
+        className={`relative overflow-hidden rounded bg-black ${state.step === 'review' ? 'hidden' : ''}`}
+      >
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onLoadedMetadata={handleReady}
+          className="block w-full"
+          aria-label={t('camera.videoLabel')}
+        />
+        {guide && frameSize && (
+          <div
+            className="absolute border-2 border-dashed border-white rounded-lg pointer-events-none"
+            style={{
+              left: `${(guide.x / frameSize.width) * 100}%`,
+              top: `${(guide.y / frameSize.height) * 100}%`,
+              width: `${(guide.width / frameSize.width) * 100}%`,
+              height: `${(guide.height / frameSize.height) * 100}%`,
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+            }}
+            aria-hidden="true"
+          />
+        )}
+        {state.step === 'starting' && (
+          <p className="absolute inset-0 flex items-center justify-center text-white">
+            {t('camera.starting')}
+          </p>
+        )}
+      </div>
+
+      {state.step === 'review' && (
+        <>
+          <img
+            src={state.preview}
+            alt={t('upload.previewAlt', { document: documentLabel })}
+            className="max-h-64 mx-auto rounded"
+          />
+          {!state.photo.edgesFound && (
+            <p className="text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-2 mt-3">
+              {t('camera.edgesNotFound')}
+            </p>
+          )}
+        </>
+      )}
+
+      {failed && <p className="form-error mt-2">{t('camera.captureFailed')}</p>}
+
+      <div className="flex justify-center gap-3 mt-3">
+        {state.step === 'review' ? (
+          <>
+            <button
+              type="button"
+              onClick={() => setState({ step: 'live' })}
+              className="px-4 py-2 bg-blue-50 text-blue-600 border border-blue-200 rounded-md hover:bg-blue-100"
+            >
+              {t('capture.retake')}
+            </button>
+            <button
+              type="button"
+              onClick={confirm}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              {t('capture.usePhoto')}
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={take}
+            disabled={state.step !== 'live'}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {t('capture.takePhoto')}
+          </button>
+        )}
+      </div>
+      <button type="button" onClick={onClose} className="mt-3 text-gray-600 hover:underline">
+        {t('camera.close')}
+      </button>
+    </div>
+  );
+}
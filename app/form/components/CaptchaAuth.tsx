@@ -1,72 +1,170 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { logger } from '../../../src/utils/logger';
+import { challengeService, GuestSession } from '../../../src/services/challenge';
+import { ChallengeProviderName } from '../../../src/types';
 
 interface CaptchaAuthProps {
   onAuthenticated: (userId: string) => void;
+  // Selected by AuthSelector from config.challenge
+  provider: ChallengeProviderName;
+  siteKey?: string;
 }
 
-// Simple math captcha
-const generateCaptcha = () => {
-  const num1 = Math.floor(Math.random() * 10) + 1;
-  const num2 = Math.floor(Math.random() * 10) + 1;
-  return {
-    num1,
-    num2,
-    answer: num1 + num2,
-  };
+// hCaptcha and Turnstile expose the same explicit render API
+interface ChallengeWidgetApi {
+  render(
+    container: HTMLElement,
+    options: {
+      sitekey: string;
+      callback: (token: string) => void;
+      'expired-callback'?: () => void;
+      'error-callback'?: () => void;
+    }
+  ): string;
+  reset(widgetId?: string): void;
+}
+
+type WidgetProvider = 'hcaptcha' | 'turnstile';
+
+// Set by each provider's script once it loads
+declare global {
+  interface Window {
+    hcaptcha?: ChallengeWidgetApi;
+    turnstile?: ChallengeWidgetApi;
+  }
+}
+
+const WIDGET_SCRIPTS: Record<WidgetProvider, { src: string; global: WidgetProvider }> = {
+  hcaptcha: { src: 'https://js.hcaptcha.com/1/api.js?render=explicit', global: 'hcaptcha' },
+  turnstile: {
+    src: 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit',
+    global: 'turnstile',
+  },
+};
+
+/**
+ * Load a widget script once and resolve with its global API
+ */
+const loadWidgetApi = (provider: WidgetProvider): Promise<ChallengeWidgetApi> => {
+  const { src, global } = WIDGET_SCRIPTS[provider];
+  const existing = window[global];
+  if (existing) return Promise.resolve(existing);
+
+  return new Promise((resolve, reject) => {
+    let script = document.querySelector<HTMLScriptElement>(`script[src="${src}"]`);
+    if (!script) {
+      script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.defer = true;
+      document.head.appendChild(script);
+    }
+    script.addEventListener('load', () => {
+      const api = window[global];
+      if (api) resolve(api);
+      else reject(new Error(`${provider} script loaded without its API`));
+    });
+    script.addEventListener('error', () => reject(new Error(`Failed to load ${provider}`)));
+  });
 };
 
-export default function CaptchaAuth({ onAuthenticated }: CaptchaAuthProps) {
-  const [captcha] = useState(generateCaptcha());
-  const [userAnswer, setUserAnswer] = useState('');
+export default function CaptchaAuth({ onAuthenticated, provider, siteKey = '' }: CaptchaAuthProps) {
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  const widgetRef = useRef<HTMLDivElement>(null);
+  const widgetApiRef = useRef<{ api: ChallengeWidgetApi; id: string } | null>(null);
+
+  // Store the guest session and notify the parent component
+  const completeSession = (session: GuestSession) => {
+    localStorage.setItem(
+      'authenticatedUser',
+      JSON.stringify({
+        userId: session.userId,
+        authToken: session.token,
+        authenticated: true,
+        expires: session.expires,
+        method: 'captcha',
+      })
+    );
+
+    setIsComplete(true);
+    onAuthenticated(session.userId);
+
+    logger.info('Captcha authentication successful', { userId: session.userId, provider });
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  // Exchange a challenge response for a guest session
+  const verifyResponse = async (response: string) => {
     setIsSubmitting(true);
     setError(null);
 
-    // Validate the captcha
-    const parsedAnswer = parseInt(userAnswer, 10);
-
-    if (isNaN(parsedAnswer)) {
-      setError('Please enter a valid number');
+    try {
+      const result = await challengeService.verify(response);
+      if (!result.success || !result.session) {
+        setError(result.error || 'Verification failed. Please try again.');
+        widgetApiRef.current?.api.reset(widgetApiRef.current.id);
+        return;
+      }
+      completeSession(result.session);
+    } catch (err) {
+      setError('Authentication failed. Please try again.');
+      logger.error('Captcha authentication error', err);
+    } finally {
       setIsSubmitting(false);
-      return;
     }
+  };
 
-    if (parsedAnswer !== captcha.answer) {
-      setError('Incorrect answer, please try again');
-      setIsSubmitting(false);
+  // Render the hCaptcha / Turnstile widget
+  useEffect(() => {
+    if (provider === 'pow' || !widgetRef.current) return;
+
+    if (!siteKey) {
+      setError('Verification is not configured. Please use email sign-in.');
+      logger.error(`Missing site key for ${provider} challenge`);
       return;
     }
 
-    // Captcha is valid - create a guest user
+    let cancelled = false;
+    const container = widgetRef.current;
+
+    loadWidgetApi(provider)
+      .then(api => {
+        if (cancelled) return;
+        widgetApiRef.current = {
+          api,
+          id: api.render(container, {
+            sitekey: siteKey,
+            callback: token => verifyResponse(token),
+            'expired-callback': () => setError('Verification expired. Please try again.'),
+            'error-callback': () => setError('Verification failed to load. Please try again.'),
+          }),
+        };
+      })
+      .catch(err => {
+        setError('Verification failed to load. Please refresh the page.');
+        logger.error('Challenge widget error', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // verifyResponse only changes with props that also re-run this effect
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [provider, siteKey]);
+
+  // Solve the self-hosted proof of work
+  const handleProofOfWork = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
     try {
-      const userId = `guest_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-
-      // Store authenticated user info
-      localStorage.setItem(
-        'authenticatedUser',
-        JSON.stringify({
-          userId,
-          authenticated: true,
-          expires: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
-          method: 'captcha',
-        })
-      );
-
-      // Mark as complete and notify parent component
-      setIsComplete(true);
-      onAuthenticated(userId);
-
-      logger.info('Captcha authentication successful', { userId });
+      const response = await challengeService.solveProofOfWork();
+      await verifyResponse(response);
     } catch (err) {
-      setError('Authentication failed. Please try again.');
-      logger.error('Captcha authentication error', err);
-    } finally {
+      setError('Verification failed. Please try again.');
+      logger.error('Proof of work error', err);
       setIsSubmitting(false);
     }
   };
@@ -90,40 +188,29 @@ export default function CaptchaAuth({ onAuthenticated }: CaptchaAuthProps) {
         </div>
       )}
 
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label htmlFor="captcha" className="block text-sm font-medium text-gray-700 mb-1">
-            Please solve this simple math problem to continue:
-          </label>
-          <div className="p-4 bg-gray-50 rounded-md border border-gray-200 mb-3 text-center">
-            <span className="text-lg font-medium">
-              {captcha.num1} + {captcha.num2} = ?
-            </span>
+      {provider === 'pow' ? (
+        <form onSubmit={handleProofOfWork} className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Your browser will complete a short security check to continue.
+          </p>
+          <div>
+            <button
+              type="submit"
+              disabled={isSubmitting || isComplete}
+              className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+                isSubmitting || isComplete ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              {isSubmitting ? 'Verifying...' : isComplete ? 'Verified ✓' : 'Verify & Continue'}
+            </button>
           </div>
-          <input
-            id="captcha"
-            type="number"
-            value={userAnswer}
-            onChange={e => setUserAnswer(e.target.value)}
-            disabled={isSubmitting || isComplete}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            placeholder="Your answer"
-            required
-          />
-        </div>
-
-        <div>
-          <button
-            type="submit"
-            disabled={isSubmitting || !userAnswer || isComplete}
-            className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
-              isSubmitting || !userAnswer || isComplete ? 'opacity-70 cursor-not-allowed' : ''
-            }`}
-          >
-            {isSubmitting ? 'Verifying...' : isComplete ? 'Verified ✓' : 'Verify & Continue'}
-          </button>
+        </form>
+      ) : (
+        <div className="flex justify-center">
+          <div ref={widgetRef} />
+          {isSubmitting && <p className="text-sm text-gray-500 mt-2">Verifying...</p>}
         </div>
-      </form>
+      )}
 
       <div className="mt-4 text-center">
         <p className="text-xs text-gray-500">
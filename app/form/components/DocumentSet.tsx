@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useFormContext } from 'react-hook-form';
+import { KycDocumentType, SignupFormData } from '../../../src/types';
+import { useCountryProfile } from '../../../src/hooks/useCountryProfile';
+import { MessageKey } from '../../../src/i18n';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
+import { CameraError, isCameraSupported } from '../../../src/utils/cameraCapture';
+import { DocumentRequirement } from '../../../src/utils/countryProfiles';
+import {
+  DocumentRequirementOptions,
+  findMetOption,
+  getDocumentRequirements,
+} from '../../../src/utils/kycDocuments';
+import CameraCapture from './CameraCapture';
+import FileUpload from './FileUpload';
+
+const REQUIREMENT_HINTS: Partial<Record<DocumentRequirement, MessageKey>> = {
+  proof_of_address: 'documents.proofOfAddressHint',
+  business_registration: 'documents.businessRegistrationHint',
+};
+
+const CAMERA_ERRORS: Record<CameraError, MessageKey> = {
+  unsupported: 'camera.unavailable',
+  unavailable: 'camera.unavailable',
+  denied: 'camera.denied',
+};
+
+/**
+ * Verification documents for the applicant's account type and country
+ * Each requirement gets its own uploads; for identity the applicant first picks which ID.
+ */
+export default function DocumentSet() {
+  const {
+    formState: { errors },
+    getValues,
+    setValue,
+    watch,
+  } = useFormContext<SignupFormData>();
+  const accountType = watch('account_type');
+  const documents = watch('documents');
+  const isMerchant = accountType === 'merchant';
+  const profile = useCountryProfile();
+  const { t } = useTranslation();
+  const requirements = getDocumentRequirements(profile, accountType);
+
+  // Chosen option per requirement, defaulting to the one already uploaded
+  const [chosen, setChosen] = useState<Partial<Record<DocumentRequirement, string>>>({});
+
+  // Camera capture covers every document of a requirement's option, e.g. both sides of an ID
+  const [cameraSupported, setCameraSupported] = useState(false);
+  const [cameraFor, setCameraFor] = useState<DocumentRequirement | null>(null);
+  const [cameraFailure, setCameraFailure] = useState<{
+    requirement: DocumentRequirement;
+    error: CameraError;
+  } | null>(null);
+  const [captured, setCaptured] = useState<Partial<Record<KycDocumentType, File>>>({});
+
+  // After mount, so the server render and the first client render agree
+  useEffect(() => setCameraSupported(isCameraSupported()), []);
+
+  const openCamera = (requirement: DocumentRequirement) => {
+    setCameraFailure(null);
+    setCameraFor(requirement);
+  };
+
+  const chosenOption = (requirement: DocumentRequirementOptions) =>
+    requirement.options.find(option => option.value === chosen[requirement.requirement]) ||
+    findMetOption(requirement, documents) ||
+    requirement.options[0];
+
+  const handleChoose = (requirement: DocumentRequirementOptions, value: string) => {
+    setChosen(current => ({ ...current, [requirement.requirement]: value }));
+
+    // Uploads for the other forms of ID no longer count
+    const keep = requirement.options.find(option => option.value === value)?.documents || [];
+    const drop = requirement.options
+      .flatMap(option => option.documents)
+      .filter(type => !keep.includes(type));
+    setValue(
+      'documents',
+      (getValues('documents') || []).filter(document => !drop.includes(document.type)),
+      { shouldDirty: true }
+    );
+    // Nor do their photos, which would otherwise upload again when their option comes back
+    setCaptured(current => {
+      const kept = { ...current };
+      drop.forEach(type => delete kept[type]);
+      return kept;
+    });
+  };
+
+  return (
+    <div id="file-upload-section" className="mb-6">
+      <h4 className="text-md font-medium mb-2">
+        {t('documents.title')}
+        {isMerchant ? (
+          <span className="text-red-500 ml-1">*</span>
+        ) : (
+          <span className="text-gray-500 ml-1">{t('common.optional')}</span>
+        )}
+      </h4>
+      <div className="flex items-center mb-4 text-sm">
+        <p className="text-gray-700">{t('documents.instructions')}</p>
+        <div className="flex items-center">
+          <div className="relative ml-2 group">
+            <span className="cursor-help text-blue-500">
+              ⓘ
+              <div className="absolute bottom-full left-1/2 -translate-x-1/2 w-64 bg-gray-800 text-white text-xs rounded p-2 hidden group-hover:block z-10">
+                {t('upload.formats')}
+                <br />
+                {t('upload.maxSize')}
+                <br />
+                {t('upload.readable')}
+                <br />
+                <strong>
+                  {isMerchant ? t('upload.requiredForMerchants') : t('upload.optionalForPro')}
+                </strong>
+              </div>
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {requirements.map(requirement => {
+        const option = chosenOption(requirement);
+        const hint = REQUIREMENT_HINTS[requirement.requirement];
+
+        return (
+          <fieldset key={requirement.requirement} className="mb-4">
+            <legend className="form-label">
+              {t(`documents.${requirement.requirement}`)}
+              {requirement.required ? (
+                <span className="text-red-500 ml-1">*</span>
+              ) : (
+                <span className="text-gray-500 ml-1">{t('common.optional')}</span>
+              )}
+            </legend>
+
+            {requirement.requirement === 'identity' && (
+              <>
+                <p className="mb-2 text-xs text-gray-500">
+                  {t('documents.identityHint', {
+                    country: t(`country.${profile.code}`),
+                    documents: profile.idDocumentTypes
+                      .map(idDocument => t(`idDocument.${idDocument}`))
+                      .join(', '),
+                  })}
+                </p>
+                {requirement.options.length > 1 && (
+                  <div className="mb-3">
+                    <label htmlFor="identity_document" className="block text-sm text-gray-700 mb-1">
+                      {t('documents.identityChoice')}
+                    </label>
+                    <select
+                      id="identity_document"
+                      value={option?.value}
+                      onChange={e => handleChoose(requirement, e.target.value)}
+                      className="form-input"
+                    >
+                      {profile.idDocumentTypes.map(idDocument => (
+                        <option key={idDocument} value={idDocument}>
+                          {t(`idDocument.${idDocument}`)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </>
+            )}
+            {hint && <p className="mb-2 text-xs text-gray-500">{t(hint)}</p>}
+
+            {option && cameraFor === requirement.requirement ? (
+              <CameraCapture
+                key={option.value}
+                documents={option.documents}
+                onCapture={(documentType, file) =>
+                  setCaptured(current => ({ ...current, [documentType]: file }))
+                }
+                onClose={() => setCameraFor(null)}
+                onUnavailable={error => {
+                  setCameraFor(null);
+                  setCameraFailure({ requirement: requirement.requirement, error });
+                }}
+              />
+            ) : (
+              cameraSupported &&
+              !cameraFailure && (
+                <button
+                  type="button"
+                  onClick={() => openCamera(requirement.requirement)}
+                  className="mb-3 px-4 py-2 bg-blue-50 text-blue-600 border border-blue-200 rounded-md text-sm hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {t('camera.open')}
+                </button>
+              )
+            )}
+            {cameraFailure?.requirement === requirement.requirement && (
+              <p className="mb-3 text-sm text-gray-700" role="status">
+                {t(CAMERA_ERRORS[cameraFailure.error])}
+              </p>
+            )}
+
+            {option?.documents.map(documentType => (
+              <FileUpload
+                key={documentType}
+                documentType={documentType}
+                captured={captured[documentType]}
+              />
+            ))}
+          </fieldset>
+        );
+      })}
+
+      {errors.documents && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mt-3">
+          <p className="form-error font-medium flex items-center">
+            <svg
+              className="w-5 h-5 mr-2 text-red-500"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+              />
+            </svg>
+            {errors.documents.message?.toString()}
+          </p>
+        </div>
+      )}
+
+      {!!documents?.length && <p className="text-xs mt-2 text-gray-500">{t('upload.stored')}</p>}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { useFormContext } from 'react-hook-form';
 import { SignupFormData } from '../../../src/types/index';
 import { mapsLogger } from '../../../src/utils/mapsLogger';
 import { useGoogleMapsApi } from '../../../src/hooks/useGoogleMapsApi';
+import { useCountryProfile } from '../../../src/hooks/useCountryProfile';
+import { CountryProfile } from '../../../src/utils/countryProfiles';
 import { AddressMap } from './AddressMap';
 
 interface EnhancedAddressInputProps {
@@ -32,6 +34,12 @@ export const EnhancedAddressInput: React.FC<EnhancedAddressInputProps> = ({ isRe
   const [mapExpanded, setMapExpanded] = useState(true);
   const [addressSelected, setAddressSelected] = useState(false);
 
+  // Market the address should be in - read through a ref by the place_changed listener,
+  // which is only registered once
+  const profile = useCountryProfile();
+  const profileRef = useRef<CountryProfile>(profile);
+  profileRef.current = profile;
+
   // Current address value
   const currentAddress = watch('business_address');
   const latitude = watch('latitude');
@@ -94,6 +102,8 @@ export const EnhancedAddressInput: React.FC<EnhancedAddressInputProps> = ({ isRe
       // Create autocomplete instance with comprehensive fields
       const options: google.maps.places.AutocompleteOptions = {
         types: ['address'],
+        bounds: profileRef.current.map.bounds,
+        componentRestrictions: { country: profileRef.current.code.toLowerCase() },
         fields: [
           'address_components',
           'formatted_address',
@@ -150,9 +160,8 @@ export const EnhancedAddressInput: React.FC<EnhancedAddressInputProps> = ({ isRe
             const manualAddress = place.formatted_address || inputRef.current?.value || '';
 
             if (manualAddress) {
-              // Use default coordinates (center of target market)
-              const defaultLat = 18.1096; // Jamaica center lat
-              const defaultLng = -77.2975; // Jamaica center lng
+              // Use default coordinates (center of the applicant's market)
+              const { lat: defaultLat, lng: defaultLng } = profileRef.current.map.center;
 
               // IMPORTANT: Update the address field first to ensure it doesn't get replaced
               setValue('business_address', manualAddress, { shouldValidate: false });
@@ -250,6 +259,13 @@ export const EnhancedAddressInput: React.FC<EnhancedAddressInputProps> = ({ isRe
     };
   }, [isLoaded, setValue, watch]);
 
+  // Keep suggestions in the applicant's market when it changes after initialization
+  useEffect(() => {
+    if (!autocompleteRef.current) return;
+    autocompleteRef.current.setBounds(profile.map.bounds);
+    autocompleteRef.current.setComponentRestrictions({ country: profile.code.toLowerCase() });
+  }, [profile]);
+
   // Handle input changes to show user is typing
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Don't react to synthetic events from Google's autocomplete
@@ -497,6 +513,12 @@ export const EnhancedAddressInput: React.FC<EnhancedAddressInputProps> = ({ isRe
           <AddressMap
             latitude={latitude || null}
             longitude={longitude || null}
+            // Addresses pinned to the fallback point get a whole-market view
+            zoom={
+              latitude === profile.map.center.lat && longitude === profile.map.center.lng
+                ? profile.map.zoom
+                : undefined
+            }
             isExpanded={mapExpanded}
             toggleExpand={() => setMapExpanded(!mapExpanded)}
           />
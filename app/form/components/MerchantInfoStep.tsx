@@ -1,8 +1,30 @@
 'use client';
 
+import { useCallback } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { SignupFormData } from '../../../src/types';
-import FileUpload from './FileUpload';
+import { useCountryProfile } from '../../../src/hooks/useCountryProfile';
+import {
+  CURRENCY_LABELS,
+  findBank,
+  findBranch,
+  getSupportedCurrencies,
+  searchBanks,
+  searchBranches,
+} from '../../../src/utils/bankDirectory';
+import { getProfileBanks, isFieldRequired } from '../../../src/utils/countryProfiles';
+import { getMissingDocuments } from '../../../src/utils/kycDocuments';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
+import DocumentSet from './DocumentSet';
+import { Typeahead, TypeaheadOption } from './Typeahead';
+
+const BANKING_FIELDS = [
+  'bank_name',
+  'bank_branch',
+  'bank_account_type',
+  'account_currency',
+  'bank_account_number',
+] as const;
 
 type StepProps = {
   currentStep: number;
@@ -24,23 +46,95 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
   const isPro = accountType === 'business';
   const isMerchant = accountType === 'merchant';
 
+  const profile = useCountryProfile();
+  const { t } = useTranslation();
+  const branchRequired = isMerchant && isFieldRequired(profile, 'bank_branch');
+  const accountTypeRequired = isMerchant && isFieldRequired(profile, 'bank_account_type');
+
+  const bankName = watch('bank_name');
+  const bankBranch = watch('bank_branch');
+  const bank = findBank(bankName);
+  const branch = findBranch(bank, bankBranch);
+  const currencies = getSupportedCurrencies(bank, profile.currencies);
+
+  // The directory isn't exhaustive, so what the applicant typed can be used as it is. Banks
+  // only offer it when nothing listed matches, so a listed bank is always stored by one name.
+  const withTyped = useCallback(
+    (query: string, options: TypeaheadOption[]): TypeaheadOption[] => {
+      const typed = query.trim().replace(/\s+/g, ' ');
+      if (
+        typed.length < 2 ||
+        options.some(option => option.label.toLowerCase() === typed.toLowerCase())
+      ) {
+        return options;
+      }
+      return [
+        ...options.slice(0, 7),
+        { value: `typed:${typed}`, label: typed, detail: t('bank.notListed') },
+      ];
+    },
+    [t]
+  );
+
+  const searchBankOptions = useCallback(
+    (query: string): TypeaheadOption[] => {
+      const options = searchBanks(query, profile.code).map(match => ({
+        value: match.id,
+        label: match.name,
+        detail: match.shortName !== match.name ? match.shortName : undefined,
+      }));
+      return options.length > 0 ? options : withTyped(query, options);
+    },
+    [profile.code, withTyped]
+  );
+
+  const searchBranchOptions = useCallback(
+    (query: string): TypeaheadOption[] =>
+      withTyped(
+        query,
+        bank
+          ? searchBranches(bank, query).map(match => ({ value: match.name, label: match.name }))
+          : []
+      ),
+    [bank, withTyped]
+  );
+
   if (currentStep !== 5) return null;
 
+  const handleBankSelect = (option: TypeaheadOption | null) => {
+    const chosen = option ? findBank(option.label) : null;
+    setValue('bank_name', chosen?.name || option?.label || '', {
+      shouldValidate: !!option,
+      shouldDirty: true,
+    });
+
+    // Branch and currency only make sense for the bank they were chosen with
+    if (!findBranch(chosen, getValues('bank_branch'))) {
+      setValue('bank_branch', '', { shouldDirty: true });
+    }
+    const currency = getValues('account_currency');
+    if (currency && !getSupportedCurrencies(chosen, profile.currencies).includes(currency)) {
+      setValue('account_currency', '', { shouldDirty: true });
+    }
+  };
+
+  const handleBranchSelect = (option: TypeaheadOption | null) => {
+    setValue('bank_branch', option?.label || '', { shouldValidate: !!option, shouldDirty: true });
+  };
+
   const validateAndContinue = async () => {
-    // For Pro accounts, all fields are optional, so skip validation
+    // For Pro accounts, all fields are optional, but anything entered is still checked
     if (isPro) {
-      setCurrentStep(6);
+      if (!getValues('bank_name') || (await trigger([...BANKING_FIELDS]))) {
+        setCurrentStep(6);
+      }
       return;
     }
 
     // For Merchant accounts, validate all fields
-    const bankName = watch('bank_name');
-    const bankBranch = watch('bank_branch');
     const bankAccountType = watch('bank_account_type');
     const accountCurrency = watch('account_currency');
     const bankAccountNumber = watch('bank_account_number');
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars -- Used for validation
-    const idImageUrl = watch('id_image_url');
 
     let isValid = true;
 
@@ -50,12 +144,12 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
       isValid = false;
     }
 
-    if (!bankBranch || bankBranch.length < 2) {
+    if (branchRequired && (!bankBranch || bankBranch.length < 2)) {
       setValue('bank_branch', bankBranch || '', { shouldValidate: true });
       isValid = false;
     }
 
-    if (!bankAccountType || bankAccountType.length < 2) {
+    if (accountTypeRequired && (!bankAccountType || bankAccountType.length < 2)) {
       setValue('bank_account_type', bankAccountType || '', { shouldValidate: true });
       isValid = false;
     }
@@ -70,16 +164,15 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
       isValid = false;
     }
 
-    // Check if ID is uploaded - first ensure we're dealing with the right type
-    // Handle file input validation differently - check for a string URL that was set during upload
-    const idUrlValue = getValues('id_image_url');
-    const hasIdDocument = typeof idUrlValue === 'string' && idUrlValue.startsWith('http');
+    // Check the documents this market requires from merchants are all uploaded
+    const missingDocuments = getMissingDocuments(profile, 'merchant', getValues('documents'));
 
-    if (!hasIdDocument) {
-      // Set explicit error for ID image
-      setError('id_image_url', {
+    if (missingDocuments.length > 0) {
+      setError('documents', {
         type: 'manual',
-        message: 'You must upload an ID document before proceeding',
+        message: t('validation.documentsMissing', {
+          documents: missingDocuments.map(requirement => t(`documents.${requirement}`)).join(', '),
+        }),
       });
       isValid = false;
 
@@ -87,17 +180,11 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
       document.getElementById('file-upload-section')?.scrollIntoView({ behavior: 'smooth' });
     }
 
-    // Show validation errors for other fields
-    await trigger([
-      'bank_name',
-      'bank_branch',
-      'bank_account_type',
-      'account_currency',
-      'bank_account_number',
-    ]);
+    // Show validation errors for other fields, including the bank directory checks
+    const fieldsValid = await trigger([...BANKING_FIELDS]);
 
     // Only proceed if all validations pass
-    if (isValid) {
+    if (isValid && fieldsValid) {
       setCurrentStep(6);
     }
   };
@@ -109,24 +196,23 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
     setValue('bank_account_type', '');
     setValue('account_currency', '');
     setValue('bank_account_number', '');
-    setValue('id_image_url', '');
+    setValue('documents', []);
 
     setCurrentStep(6);
   };
 
   return (
     <div className="bg-white rounded-lg">
-      <h3 className="text-xl font-semibold text-gray-800 mb-6">Banking Information</h3>
+      <h3 className="text-xl font-semibold text-gray-800 mb-6">{t('bank.title')}</h3>
       <p className="text-sm text-gray-600 mb-6">
-        {isPro
-          ? 'Optionally provide your banking details. You can skip this step if you prefer.'
-          : 'Please provide your banking details to receive payments as a Merchant Flashpoint.'}
+        {isPro ? t('bank.introPro') : t('bank.introMerchant')}
       </p>
 
       <div className="form-group">
         <label htmlFor="bank_name" className="form-label">
-          Bank Name{isMerchant && <span className="text-red-500 ml-1">*</span>}
-          {isPro && <span className="text-gray-500 ml-1">(Optional)</span>}
+          {t('bank.name')}
+          {isMerchant && <span className="text-red-500 ml-1">*</span>}
+          {isPro && <span className="text-gray-500 ml-1">{t('common.optional')}</span>}
         </label>
         <div className="relative">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -144,13 +230,22 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
               />
             </svg>
           </div>
-          <input
+          {/* The bank's directory name, or the name as typed for unlisted banks */}
+          <input type="hidden" {...register('bank_name')} />
+          <Typeahead
             id="bank_name"
-            {...register('bank_name')}
-            className="form-input input-with-icon"
-            placeholder="Enter your bank name"
-            aria-required="true"
-            aria-invalid={errors.bank_name ? 'true' : 'false'}
+            selectedLabel={bank?.name || bankName || ''}
+            search={searchBankOptions}
+            onSelect={handleBankSelect}
+            inputClassName="form-input input-with-icon"
+            placeholder={t('bank.namePlaceholder', {
+              examples: getProfileBanks(profile)
+                .slice(0, 3)
+                .map(match => match.shortName)
+                .join(', '),
+            })}
+            emptyMessage={t('bank.nameEmpty')}
+            invalid={!!errors.bank_name}
           />
         </div>
         {errors.bank_name && (
@@ -162,8 +257,9 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
 
       <div className="form-group">
         <label htmlFor="bank_branch" className="form-label">
-          Bank Branch{isMerchant && <span className="text-red-500 ml-1">*</span>}
-          {isPro && <span className="text-gray-500 ml-1">(Optional)</span>}
+          {t('bank.branch')}
+          {branchRequired && <span className="text-red-500 ml-1">*</span>}
+          {!branchRequired && <span className="text-gray-500 ml-1">{t('common.optional')}</span>}
         </label>
         <div className="relative">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -187,13 +283,19 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
               />
             </svg>
           </div>
-          <input
+          <input type="hidden" {...register('bank_branch')} />
+          <Typeahead
+            // Start with an empty search whenever the bank changes
+            key={bankName || 'none'}
             id="bank_branch"
-            {...register('bank_branch')}
-            className="form-input input-with-icon"
-            placeholder="Enter your bank branch"
-            aria-required="true"
-            aria-invalid={errors.bank_branch ? 'true' : 'false'}
+            selectedLabel={branch?.name || bankBranch || ''}
+            search={searchBranchOptions}
+            onSelect={handleBranchSelect}
+            inputClassName="form-input input-with-icon"
+            placeholder={bankName ? t('bank.branchPlaceholder') : t('bank.branchNeedsBank')}
+            emptyMessage={t('bank.branchEmpty')}
+            invalid={!!errors.bank_branch}
+            disabled={!bankName}
           />
         </div>
         {errors.bank_branch && (
@@ -205,8 +307,11 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
 
       <div className="form-group">
         <label htmlFor="bank_account_type" className="form-label">
-          Account Type{isMerchant && <span className="text-red-500 ml-1">*</span>}
-          {isPro && <span className="text-gray-500 ml-1">(Optional)</span>}
+          {t('bank.accountType')}
+          {accountTypeRequired && <span className="text-red-500 ml-1">*</span>}
+          {!accountTypeRequired && (
+            <span className="text-gray-500 ml-1">{t('common.optional')}</span>
+          )}
         </label>
         <div className="relative">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -228,12 +333,12 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             id="bank_account_type"
             {...register('bank_account_type')}
             className="form-input input-with-icon appearance-none"
-            aria-required="true"
+            aria-required={accountTypeRequired}
             aria-invalid={errors.bank_account_type ? 'true' : 'false'}
           >
-            <option value="">Select account type</option>
-            <option value="checking">Checking</option>
-            <option value="savings">Savings</option>
+            <option value="">{t('bank.accountTypePlaceholder')}</option>
+            <option value="checking">{t('bank.checking')}</option>
+            <option value="savings">{t('bank.savings')}</option>
           </select>
           <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
             <svg
@@ -260,8 +365,9 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
 
       <div className="form-group">
         <label htmlFor="account_currency" className="form-label">
-          Currency{isMerchant && <span className="text-red-500 ml-1">*</span>}
-          {isPro && <span className="text-gray-500 ml-1">(Optional)</span>}
+          {t('bank.currency')}
+          {isMerchant && <span className="text-red-500 ml-1">*</span>}
+          {isPro && <span className="text-gray-500 ml-1">{t('common.optional')}</span>}
         </label>
         <div className="relative">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -286,13 +392,12 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             aria-required="true"
             aria-invalid={errors.account_currency ? 'true' : 'false'}
           >
-            <option value="">Select currency</option>
-            <option value="USD">USD - US Dollar</option>
-            <option value="EUR">EUR - Euro</option>
-            <option value="JMD">JMD - Jamaican Dollar</option>
-            <option value="KYD">KYD - Cayman Islands Dollar</option>
-            <option value="ANG">ANG - Netherlands Antillean Guilder</option>
-            <option value="XCG">XCG - Caribbean Guilder</option>
+            <option value="">{t('bank.currencyPlaceholder')}</option>
+            {currencies.map(code => (
+              <option key={code} value={code}>
+                {code} - {CURRENCY_LABELS[code]}
+              </option>
+            ))}
           </select>
           <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
             <svg
@@ -319,8 +424,9 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
 
       <div className="form-group">
         <label htmlFor="bank_account_number" className="form-label">
-          Account Number{isMerchant && <span className="text-red-500 ml-1">*</span>}
-          {isPro && <span className="text-gray-500 ml-1">(Optional)</span>}
+          {t('bank.accountNumber')}
+          {isMerchant && <span className="text-red-500 ml-1">*</span>}
+          {isPro && <span className="text-gray-500 ml-1">{t('common.optional')}</span>}
         </label>
         <div className="relative">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -342,7 +448,7 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             id="bank_account_number"
             {...register('bank_account_number')}
             className="form-input input-with-icon"
-            placeholder="Enter your account number"
+            placeholder={t('bank.accountNumberPlaceholder')}
             aria-required="true"
             aria-invalid={errors.bank_account_number ? 'true' : 'false'}
             type="text" // Don't use type="number" as it can strip leading zeros
@@ -353,20 +459,18 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             {errors.bank_account_number.message?.toString()}
           </p>
         )}
-        <p className="mt-1 text-xs text-gray-500">
-          Enter your complete account number without spaces or special characters
-        </p>
+        <p className="mt-1 text-xs text-gray-500">{t('bank.accountNumberHint')}</p>
       </div>
 
       {/* ID Upload Component */}
-      <FileUpload />
+      <DocumentSet />
 
       <div className="mt-8 flex justify-between">
         <button
           type="button"
           onClick={() => setCurrentStep(4)}
           className="form-btn-secondary flex items-center"
-          aria-label="Go back to previous step"
+          aria-label={t('common.goBack')}
         >
           <svg className="mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path
@@ -376,7 +480,7 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
               d="M15 19l-7-7 7-7"
             />
           </svg>
-          <span>Back</span>
+          <span>{t('common.back')}</span>
         </button>
 
         <div className="flex space-x-3">
@@ -385,9 +489,9 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
               type="button"
               onClick={handleSkip}
               className="form-btn-secondary flex items-center"
-              aria-label="Skip banking information"
+              aria-label={t('bank.skipLabel')}
             >
-              <span>Skip</span>
+              <span>{t('common.skip')}</span>
               <svg className="ml-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path
                   strokeLinecap="round"
@@ -402,9 +506,9 @@ export const MerchantInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             type="button"
             onClick={validateAndContinue}
             className="form-btn flex items-center"
-            aria-label="Continue to next step"
+            aria-label={t('common.continueNext')}
           >
-            <span>Continue</span>
+            <span>{t('common.continue')}</span>
             <svg className="ml-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
             </svg>
@@ -5,6 +5,7 @@ import { useFormContext } from 'react-hook-form';
 import { SignupFormData } from '../../../src/types';
 import { mapsLogger } from '../../../src/utils/mapsLogger';
 import { useGoogleMapsApi } from '../../../src/hooks/useGoogleMapsApi';
+import { useCountryProfile } from '../../../src/hooks/useCountryProfile';
 
 interface ModernAddressAutocompleteProps {
   isRequired: boolean;
@@ -25,6 +26,11 @@ export const ModernAddressAutocomplete: React.FC<ModernAddressAutocompleteProps>
     watch,
   } = useFormContext<SignupFormData>();
 
+  // Read by the place_changed listener, which is only registered once
+  const profile = useCountryProfile();
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
   // Container ref for the autocomplete element
   const containerRef = useRef<HTMLDivElement>(null);
   const [userTyping, setUserTyping] = useState(false);
@@ -147,9 +153,8 @@ export const ModernAddressAutocomplete: React.FC<ModernAddressAutocompleteProps>
               // Update the address in the form
               setValue('business_address', manualAddress, { shouldValidate: true });
 
-              // For now, use center of relevant country/region as an approximation
-              const defaultLat = 18.1096; // Jamaica center lat (example)
-              const defaultLng = -77.2975; // Jamaica center lng (example)
+              // Use the center of the applicant's market as an approximation
+              const { lat: defaultLat, lng: defaultLng } = profileRef.current.map.center;
 
               setValue('latitude', defaultLat, { shouldValidate: true });
               setValue('longitude', defaultLng, { shouldValidate: true });
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { logger } from '../../../src/utils/logger';
+import { phoneAuthService } from '../../../src/services/phoneAuth';
 import { parsePhoneNumberFromString, isValidPhoneNumber } from 'libphonenumber-js';
 
 interface PhoneAuthProps {
@@ -46,8 +47,6 @@ export default function PhoneAuth({ onAuthenticated }: PhoneAuthProps) {
   const [step, setStep] = useState<'phone' | 'verification'>('phone');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- Used in token creation
-  const [sessionId, setSessionId] = useState<string | null>(null);
 
   const {
     register,
@@ -72,44 +71,14 @@ export default function PhoneAuth({ onAuthenticated }: PhoneAuthProps) {
     setError(null);
 
     try {
-      // In a real implementation, this would call an API to send SMS
-      // For demo purposes, we'll simulate a successful response
       logger.info('Sending verification code to phone', {
         phone: data.phoneNumber.substring(0, 3) + '***', // Redact most of the number
       });
 
-      // Generate a verification code (in real app this would be sent via SMS)
-      // In test mode, use a fixed verification code (123456) for predictable testing
-      const isTestEnvironment =
-        process.env.NODE_ENV === 'test' ||
-        (typeof navigator !== 'undefined' && navigator.userAgent.includes('Playwright'));
-      const verificationCode = isTestEnvironment
-        ? '123456'
-        : Math.floor(100000 + Math.random() * 900000).toString();
-
-      const tempSessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-
-      // Store the verification code and session info in localStorage
-      // In production, this would be handled server-side with secure storage
-      localStorage.setItem(
-        'pendingVerification',
-        JSON.stringify({
-          phoneNumber: data.phoneNumber,
-          verificationCode,
-          sessionId: tempSessionId,
-          expires: Date.now() + 10 * 60 * 1000, // 10 minutes
-        })
-      );
-
-      setSessionId(tempSessionId);
-
-      // Alert with code for demo purposes (in real app, this would be sent via SMS)
-      // In test environments, don't show the alert to avoid blocking tests
-      if (!isTestEnvironment) {
-        alert(`For demo purposes, your verification code is: ${verificationCode}`);
-        console.log(`Development mode: Verification code is ${verificationCode}`);
-      } else {
-        console.log('TEST MODE: Verification code is 123456');
+      const result = await phoneAuthService.sendCode(data.phoneNumber);
+      if (!result.success) {
+        setError(result.error || 'Failed to send verification code');
+        return;
       }
 
       // Move to verification step
@@ -131,83 +100,38 @@ export default function PhoneAuth({ onAuthenticated }: PhoneAuthProps) {
     setIsSubmitting(true);
     setError(null);
 
-    // Debug information
-    console.log('Verification submission with data:', {
-      phoneNumber: data.phoneNumber,
-      verificationCodeEntered: data.verificationCode,
-      verificationCodeLength: data.verificationCode?.length,
-    });
-
     try {
-      // Retrieve stored verification info
-      const storedDataJson = localStorage.getItem('pendingVerification');
-      if (!storedDataJson) {
-        setError('Verification session expired. Please try again.');
-        setStep('phone');
-        return;
-      }
-
-      const storedData = JSON.parse(storedDataJson);
-
-      // Debug log to help troubleshooting
-      console.log('Retrieved verification data:', {
-        storedPhoneNumber: storedData.phoneNumber,
-        storedCode: storedData.verificationCode,
-        expires: new Date(storedData.expires).toLocaleTimeString(),
-        isExpired: storedData.expires < Date.now(),
-      });
-
-      // Check if verification has expired
-      if (storedData.expires < Date.now()) {
-        localStorage.removeItem('pendingVerification');
-        setError('Verification code expired. Please try again.');
-        setStep('phone');
-        return;
-      }
-
-      // Verify the code matches and phone number matches
       if (!data.verificationCode) {
         setError('Please enter the verification code.');
         return;
       }
 
-      if (data.verificationCode !== storedData.verificationCode) {
-        setError('Invalid verification code. Please try again.');
-        return;
-      }
-
-      if (data.phoneNumber !== storedData.phoneNumber) {
-        setError('Phone number mismatch. Please start over.');
-        setStep('phone');
+      const result = await phoneAuthService.verifyCode(data.phoneNumber, data.verificationCode);
+      if (!result.success || !result.session) {
+        setError(result.error || 'Invalid verification code. Please try again.');
         return;
       }
 
-      // Success! Generate a user session
-      const userId = `user_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-      const authToken = `phone_auth_${Math.random().toString(36).substring(2, 10)}_${Date.now()}`;
+      const { token, userId, phone, expires } = result.session;
 
-      // Store authenticated user info
+      // Store the signed token - the server verifies it on every API request
       localStorage.setItem(
         'authenticatedUser',
         JSON.stringify({
           userId,
-          phoneNumber: data.phoneNumber,
-          sessionId: storedData.sessionId,
-          authToken: authToken,
+          phoneNumber: phone,
+          authToken: token,
           authenticated: true,
-          expires: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
+          expires,
         })
       );
 
-      // Remove the pending verification
-      localStorage.removeItem('pendingVerification');
-
       // Notify parent component
-      onAuthenticated(userId, data.phoneNumber);
+      onAuthenticated(userId, phone);
 
       logger.info('Phone authentication successful', {
         userId,
-        phone: data.phoneNumber.substring(0, 3) + '***', // Redact most of the number
+        phone: phone.substring(0, 3) + '***', // Redact most of the number
       });
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
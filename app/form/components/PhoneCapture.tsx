@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
+import { captureService, OpenedCaptureSession } from '../../../src/services/capture';
+import { CaptureSessionStatus, KycDocumentType } from '../../../src/types';
+import { createQrCode, QR_QUIET_ZONE } from '../../../src/utils/qrCode';
+
+const POLL_INTERVAL_MS = 2000;
+
+type CaptureState =
+  | { step: 'idle' }
+  | { step: 'opening' }
+  | { step: 'expired' }
+  | { step: 'error' }
+  | { step: 'waiting'; session: OpenedCaptureSession; link: string };
+
+function QrCode({ value, label }: { value: string; label: string }) {
+  const drawing = useMemo(() => {
+    const matrix = createQrCode(value);
+    if (!matrix) return null;
+    return {
+      size: matrix.length + QR_QUIET_ZONE * 2,
+      path: matrix
+        .flatMap((row, y) =>
+          row.map((dark, x) => (dark ? `M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z` : ''))
+        )
+        .join(''),
+    };
+  }, [value]);
+  if (!drawing) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${drawing.size} ${drawing.size}`}
+      className="w-48 h-48 mx-auto bg-white"
+      role="img"
+      aria-label={label}
+      shapeRendering="crispEdges"
+    >
+      <path d={drawing.path} fill="#000" />
+    </svg>
+  );
+}
+
+interface PhoneCaptureProps {
+  documentType: KycDocumentType;
+  // Called with the object path once the phone has uploaded the document
+  onCaptured: (path: string) => void;
+}
+
+/**
+ * Photograph a document with a phone instead of this device
+ * Shows a QR code for a one-time capture session (src/services/capture.ts) and waits for
+ * the phone to upload.
+ */
+export default function PhoneCapture({ documentType, onCaptured }: PhoneCaptureProps) {
+  const [state, setState] = useState<CaptureState>({ step: 'idle' });
+  const [phoneStatus, setPhoneStatus] = useState<CaptureSessionStatus>('pending');
+  const { t } = useTranslation();
+  const documentLabel = t(`document.${documentType}`);
+
+  const open = async () => {
+    setState({ step: 'opening' });
+    const opened = await captureService.open(documentType);
+    if (!opened.success || !opened.data) {
+      setState({ step: 'error' });
+      return;
+    }
+    setPhoneStatus('pending');
+    setState({
+      step: 'waiting',
+      session: opened.data,
+      link: captureService.captureLink(opened.data.secret),
+    });
+  };
+
+  // Poll the session until the phone has uploaded or the code expires
+  const sessionId = state.step === 'waiting' ? state.session.id : null;
+  useEffect(() => {
+    if (!sessionId) return;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      const checked = await captureService.check(sessionId);
+      if (stopped) return;
+
+      const session = checked.success ? checked.data : undefined;
+      if (session?.status === 'completed' && session.path) {
+        setState({ step: 'idle' });
+        onCaptured(session.path);
+        return;
+      }
+      if (session?.status === 'expired') {
+        setState({ step: 'expired' });
+        return;
+      }
+      if (session) setPhoneStatus(session.status);
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [sessionId, onCaptured]);
+
+  if (state.step === 'idle' || state.step === 'opening' || state.step === 'error') {
+    return (
+      <div className="mt-2 text-sm">
+        <button
+          type="button"
+          onClick={open}
+          disabled={state.step === 'opening'}
+          className="text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          {t('capture.usePhone')}
+        </button>
+        {state.step === 'error' && <p className="form-error mt-1">{t('capture.openFailed')}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 border border-gray-200 rounded-md p-4 text-center text-sm">
+      {state.step === 'expired' ? (
+        <>
+          <p className="text-gray-700 mb-2">{t('capture.expired')}</p>
+          <button type="button" onClick={open} className="text-blue-600 hover:underline">
+            {t('capture.newCode')}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-700 mb-3">{t('capture.scan', { document: documentLabel })}</p>
+          <QrCode value={state.link} label={t('capture.qrLabel')} />
+          <p className="text-xs text-gray-500 mt-3">
+            {t('capture.expires', {
+              time: new Date(state.session.expiresAt).toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit',
+              }),
+            })}
+          </p>
+          <p className="text-gray-600 mt-2" role="status">
+            {phoneStatus === 'uploading' ? t('capture.phoneUploading') : t('capture.waiting')}
+          </p>
+        </>
+      )}
+      <button
+        type="button"
+        onClick={() => setState({ step: 'idle' })}
+        className="block mx-auto mt-3 text-gray-600 hover:underline"
+      >
+        {t('capture.useThisDevice')}
+      </button>
+    </div>
+  );
+}
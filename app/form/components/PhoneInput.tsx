@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useFormContext, Controller } from 'react-hook-form';
 import { parsePhoneNumberFromString, getExampleNumber, CountryCode } from 'libphonenumber-js';
 import examples from 'libphonenumber-js/examples.mobile.json';
+import { COUNTRY_PROFILES } from '../../../src/utils/countryProfiles';
 
 // Country codes for the phone number dropdown - with categories
 const COUNTRY_CODES = {
@@ -83,6 +84,13 @@ const COUNTRY_CODES = {
       example: '634-4321',
       format: 'XXX-XXXX',
     },
+    {
+      code: '+599',
+      label: 'Curaçao',
+      flag: '🇨🇼',
+      example: '9 518 1234',
+      format: 'X XXX XXXX',
+    },
     {
       code: '+1868',
       label: 'Trinidad',
@@ -452,9 +460,16 @@ const ALL_COUNTRY_CODES = [
   ...COUNTRY_CODES.africa,
 ];
 
+// Markets we operate in, listed first
+const MARKET_COUNTRY_CODES = Object.values(COUNTRY_PROFILES)
+  .map(profile => ALL_COUNTRY_CODES.find(country => country.code === profile.phone.callingCode))
+  .filter((country): country is (typeof ALL_COUNTRY_CODES)[number] => !!country);
+
 interface PhoneInputProps {
   name: string;
   label: string;
+  // Calling code selected before the applicant picks one, e.g. '+1876'
+  defaultCountryCode?: string;
   required?: boolean;
   placeholder?: string;
   helpText?: string;
@@ -463,6 +478,7 @@ interface PhoneInputProps {
 export default function PhoneInput({
   name,
   label,
+  defaultCountryCode = '+1',
   required = false,
   // These props are kept for API compatibility but not directly used
   placeholder: _placeholder = '',
@@ -477,7 +493,7 @@ export default function PhoneInput({
   } = useFormContext();
 
   // Store both parts of the phone number separately
-  const [countryCode, setCountryCode] = useState('+1');
+  const [countryCode, setCountryCode] = useState(defaultCountryCode);
   const [nationalNumber, setNationalNumber] = useState('');
   const [isFocused, setIsFocused] = useState(false);
 
@@ -672,6 +688,14 @@ export default function PhoneInput({
               onChange={handleCountryChange}
               aria-label="Country code"
             >
+              <optgroup label="Where we operate">
+                {MARKET_COUNTRY_CODES.map(country => (
+                  <option key={country.code} value={country.code}>
+                    {country.flag} {country.code}
+                  </option>
+                ))}
+              </optgroup>
+
               {/* Most Common */}
               <optgroup label="Most Common">
                 {COUNTRY_CODES.common.map(country => (
@@ -1,40 +1,93 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useForm, FormProvider } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { signupFormSchema } from '../../../lib/validators';
+import { getSignupFormSchema } from '../../../lib/validators';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
+import { makeZodErrorMap } from '../../../src/i18n/zodErrorMap';
 import { SignupFormData } from '../../../src/types';
 import { apiService } from '../../../src/services/api';
+import { draftService } from '../../../src/services/draft';
+import { SignupDraft } from '../../../src/utils/signupDraft';
 import { PersonalInfoStep, AccountTypeStep, TermsStep } from './Steps';
 import { BusinessInfoStep } from './BusinessInfoStep';
 import { MerchantInfoStep } from './MerchantInfoStep';
 import { UsernameStep } from './UsernameStep';
 import Image from 'next/image';
+import Link from 'next/link';
 import FlashIcon from '../../assets/flash_icon_transp.png';
 import { logger } from '../../../src/utils/logger';
+import { getMissingDocuments } from '../../../src/utils/kycDocuments';
+import { DEFAULT_TERMINAL_MODEL } from '../../../src/utils/terminalOrders';
+import {
+  countryFromPhone,
+  getCountryProfile,
+  isFieldRequired,
+  isSignupCountry,
+  resolveSignupCountry,
+} from '../../../src/utils/countryProfiles';
 import TestSubmit from './TestSubmit';
 
 // Import authentication component
 import AuthSelector from './AuthSelector';
 import { authService } from '../../../src/services/auth';
+import { uploadService } from '../../../src/services/uploads';
+
+const defaultValues: Partial<SignupFormData> = {
+  username: '',
+  account_type: 'business',
+  terms_accepted: false as unknown as true, // Cast to satisfy the validator
+  wants_terminal: false, // Initialize the terminal checkbox to unchecked explicitly
+  terminal_quantity: 1,
+  terminal_model: DEFAULT_TERMINAL_MODEL,
+};
+
+// ?country=KY picks the market; without it the market follows the applicant's phone number
+const getUrlCountry = () =>
+  typeof window === 'undefined'
+    ? null
+    : new URLSearchParams(window.location.search).get('country')?.toUpperCase() || null;
 
 export default function SignupForm() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
   const [, setSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
+  // Draft found on load, waiting for the user to continue or discard it
+  const [pendingDraft, setPendingDraft] = useState<SignupDraft | null>(null);
+  const [hasDraft, setHasDraft] = useState(false);
+  // Autosave starts once any existing draft has been resumed or discarded
+  const draftReady = useRef(false);
+  // Read by the resolver, so messages follow the language switcher without rebuilding the form
+  const { locale, t } = useTranslation();
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
 
   const methods = useForm<SignupFormData>({
-    resolver: zodResolver(signupFormSchema),
-    defaultValues: {
-      username: '',
-      account_type: 'business',
-      terms_accepted: false as unknown as true, // Cast to satisfy the validator
-      wants_terminal: false, // Initialize the terminal checkbox to unchecked explicitly
-    },
+    // Validate against the rules of the market currently selected in the form, with messages
+    // in the applicant's language
+    resolver: (values, context, options) =>
+      zodResolver(getSignupFormSchema(values.country, localeRef.current), {
+        errorMap: makeZodErrorMap(localeRef.current),
+      })(values, context, options),
+    defaultValues: { ...defaultValues, country: resolveSignupCountry(getUrlCountry()) },
   });
 
+  // Follow the phone number's market unless the URL chose one
+  useEffect(() => {
+    if (isSignupCountry(getUrlCountry())) return;
+
+    const subscription = methods.watch((values, { name }) => {
+      if (name !== 'phone') return;
+      const country = countryFromPhone(values.phone);
+      if (country && country !== values.country) {
+        methods.setValue('country', country);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [methods]);
+
   const { handleSubmit } = methods;
 
   // We'll remove the central nextStep function as each component now handles its own validation
@@ -174,14 +227,16 @@ export default function SignupForm() {
           return;
         }
 
-        if (!values.bank_branch) {
+        const profile = getCountryProfile(values.country);
+
+        if (!values.bank_branch && isFieldRequired(profile, 'bank_branch')) {
           methods.setError('bank_branch', { message: 'Bank branch is required' });
           setCurrentStep(5);
           isValid = false;
           return;
         }
 
-        if (!values.bank_account_type) {
+        if (!values.bank_account_type && isFieldRequired(profile, 'bank_account_type')) {
           methods.setError('bank_account_type', { message: 'Account type is required' });
           setCurrentStep(5);
           isValid = false;
@@ -202,13 +257,20 @@ export default function SignupForm() {
           return;
         }
 
-        // Check ID upload - it should be a URL string starting with http
-        const idUrlValue = values.id_image_url;
-        const hasIdDocument = typeof idUrlValue === 'string' && idUrlValue.startsWith('http');
-
-        if (!hasIdDocument) {
-          methods.setError('id_image_url', {
-            message: 'ID image is required for merchant accounts',
+        // Check the documents the market requires from merchants were uploaded
+        const missingDocuments = getMissingDocuments(
+          getCountryProfile(values.country),
+          'merchant',
+          values.documents
+        );
+
+        if (missingDocuments.length > 0) {
+          methods.setError('documents', {
+            message: t('validation.documentsMissing', {
+              documents: missingDocuments
+                .map(requirement => t(`documents.${requirement}`))
+                .join(', '),
+            }),
           });
           setCurrentStep(5);
           isValid = false;
@@ -254,6 +316,7 @@ export default function SignupForm() {
       });
 
       setSubmitSuccess(true);
+      draftService.discard();
     } catch (error) {
       logger.error('Error submitting form', error);
       // Show the specific error message to the user
@@ -290,12 +353,66 @@ export default function SignupForm() {
 
       // Normal authentication flow
       const isAuthed = await authService.isAuthenticated();
+      // Kept uploads from other sign-ins or past their ticket go before any step resumes one
+      await uploadService.purgePendingUploads();
       setIsAuthenticated(isAuthed);
     };
 
     checkAuth();
   }, []);
 
+  // Look for a saved draft once the user is authenticated
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let cancelled = false;
+    draftReady.current = false;
+
+    draftService.load().then(draft => {
+      if (cancelled) return;
+      if (draft) {
+        setPendingDraft(draft);
+        setHasDraft(true);
+      } else {
+        draftReady.current = true;
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
+
+  // Autosave whenever a step is passed - each step validates before moving on
+  useEffect(() => {
+    if (!isAuthenticated || !draftReady.current || currentStep === 1) return;
+
+    draftService.save(currentStep, methods.getValues()).then(() => setHasDraft(true));
+  }, [currentStep, isAuthenticated, methods]);
+
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+
+    methods.reset({
+      ...defaultValues,
+      country: resolveSignupCountry(getUrlCountry()),
+      ...pendingDraft.values,
+    });
+    setCurrentStep(pendingDraft.currentStep);
+    setPendingDraft(null);
+    draftReady.current = true;
+    logger.info('Resumed signup draft', { step: pendingDraft.currentStep });
+  };
+
+  const discardDraft = () => {
+    draftService.discard();
+    methods.reset({ ...defaultValues, country: resolveSignupCountry(getUrlCountry()) });
+    setCurrentStep(1);
+    setPendingDraft(null);
+    setHasDraft(false);
+    draftReady.current = true;
+  };
+
   // Handle successful authentication
   const handleAuthenticated = (userId?: string, identifier?: string) => {
     // If phone authentication provided a userId and phoneNumber, store in auth state
@@ -335,6 +452,13 @@ export default function SignupForm() {
             Congratulations! Your Flash upgrade request has been received. Our team is reviewing,
             and you will be notified via email or SMS within 1-3 business days.
           </p>
+          <p className="text-gray-700 mt-3">
+            You can check your application at any time on the{' '}
+            <Link href="/status" className="text-blue-600 hover:underline">
+              status page
+            </Link>
+            .
+          </p>
         </div>
 
         <div className="space-y-6">
@@ -415,6 +539,36 @@ export default function SignupForm() {
     );
   }
 
+  // Offer to continue a saved draft before showing the form
+  if (pendingDraft) {
+    return (
+      <div className="max-w-md mx-auto bg-white p-6 rounded-lg shadow-md">
+        <h2 className="text-2xl font-bold mb-2">Continue where you left off?</h2>
+        <p className="text-gray-600 mb-6">
+          You have an unfinished application from{' '}
+          {new Date(pendingDraft.updatedAt).toLocaleString()}. Bank account numbers are not saved,
+          so you&apos;ll need to enter yours again.
+        </p>
+        <div className="space-y-3">
+          <button
+            type="button"
+            onClick={resumeDraft}
+            className="w-full py-2 px-4 rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Continue application
+          </button>
+          <button
+            type="button"
+            onClick={discardDraft}
+            className="w-full py-2 px-4 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Discard draft and start over
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <FormProvider {...methods}>
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -524,6 +678,15 @@ export default function SignupForm() {
               >
                 Exit
               </button>
+              {hasDraft && (
+                <button
+                  type="button"
+                  onClick={discardDraft}
+                  className="ml-2 text-blue-600 hover:underline"
+                >
+                  Discard draft
+                </button>
+              )}
             </span>
           </div>
         </div>
@@ -3,7 +3,10 @@
 import { useState } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { SignupFormData } from '../../../src/types';
-import { checkPhoneExists, checkEmailExists } from '../../../src/services/duplicateCheck';
+import { checkDuplicates } from '../../../src/services/duplicateCheck';
+import { useCountryProfile } from '../../../src/hooks/useCountryProfile';
+import { isFieldRequired } from '../../../src/utils/countryProfiles';
+import { useTranslation } from '../../../src/i18n/I18nProvider';
 import PhoneInput from './PhoneInput';
 
 type StepProps = {
@@ -23,6 +26,9 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
   } = useFormContext<SignupFormData>();
 
   const [isChecking, setIsChecking] = useState(false);
+  const profile = useCountryProfile();
+  const { t } = useTranslation();
+  const emailRequired = isFieldRequired(profile, 'email');
 
   if (currentStep !== 2) return null;
 
@@ -48,8 +54,11 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
       isValid = false;
     }
 
-    // Email is optional but must be valid if provided
-    if (email && email.length > 0 && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    // Email is optional in some markets but must be valid if provided
+    if (emailRequired && !email) {
+      setValue('email', '', { shouldValidate: true });
+      isValid = false;
+    } else if (email && email.length > 0 && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
       setValue('email', email || '', { shouldValidate: true });
       isValid = false;
     }
@@ -66,29 +75,28 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
     setIsChecking(true);
 
     try {
-      // Check phone number
-      const phoneResult = await checkPhoneExists(phone);
-      if (phoneResult.exists) {
+      // Check phone number and email (if provided) in one request
+      const duplicates = await checkDuplicates({
+        phone,
+        ...(email && email.trim().length > 0 ? { email } : {}),
+      });
+
+      if (duplicates.phone) {
         setError('phone', {
           type: 'manual',
-          message:
-            'This phone number has already requested an upgrade. Please use a different number.',
+          message: t('personal.duplicatePhone'),
         });
         setIsChecking(false);
         return;
       }
 
-      // Check email if provided
-      if (email && email.trim().length > 0) {
-        const emailResult = await checkEmailExists(email);
-        if (emailResult.exists) {
-          setError('email', {
-            type: 'manual',
-            message: 'This email has already requested an upgrade. Please use a different email.',
-          });
-          setIsChecking(false);
-          return;
-        }
+      if (duplicates.email) {
+        setError('email', {
+          type: 'manual',
+          message: t('personal.duplicateEmail'),
+        });
+        setIsChecking(false);
+        return;
       }
 
       // All checks passed, proceed to next step
@@ -104,11 +112,11 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
 
   return (
     <div className="bg-white rounded-lg">
-      <h3 className="text-xl font-semibold text-gray-800 mb-6">Personal Information</h3>
+      <h3 className="text-xl font-semibold text-gray-800 mb-6">{t('personal.title')}</h3>
 
       <div className="form-group">
         <label htmlFor="name" className="form-label">
-          Full Name
+          {t('personal.name')}
           <span className="text-red-500 ml-1">*</span>
         </label>
         <div className="relative">
@@ -130,7 +138,7 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
           <input
             id="name"
             type="text"
-            placeholder="John Doe"
+            placeholder={t('personal.namePlaceholder')}
             {...register('name')}
             className="form-input input-with-icon"
             aria-required="true"
@@ -147,16 +155,21 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
       {/* Enhanced Phone Input component with international formatting */}
       <PhoneInput
         name="phone"
-        label="Phone Number"
+        label={t('personal.phone')}
+        defaultCountryCode={profile.phone.callingCode}
         required={true}
         placeholder="+1 (555) 123-4567"
-        helpText="Enter your phone number with country code"
+        helpText={t('personal.phoneHelp')}
       />
 
       <div className="form-group">
         <label htmlFor="email" className="form-label">
-          Email Address
-          <span className="text-gray-400 text-xs ml-2">(Optional)</span>
+          {t('personal.email')}
+          {emailRequired ? (
+            <span className="text-red-500 ml-1">*</span>
+          ) : (
+            <span className="text-gray-400 text-xs ml-2">{t('common.optional')}</span>
+          )}
         </label>
         <div className="relative">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -179,7 +192,8 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
             type="email"
             {...register('email')}
             className="form-input input-with-icon"
-            placeholder="your.email@example.com"
+            placeholder={t('personal.emailPlaceholder')}
+            aria-required={emailRequired}
             aria-invalid={errors.email ? 'true' : 'false'}
           />
         </div>
@@ -195,7 +209,7 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
           type="button"
           onClick={() => setCurrentStep(1)}
           className="form-btn-secondary flex items-center"
-          aria-label="Go back to previous step"
+          aria-label={t('common.goBack')}
         >
           <svg className="mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path
@@ -205,7 +219,7 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
               d="M15 19l-7-7 7-7"
             />
           </svg>
-          <span>Back</span>
+          <span>{t('common.back')}</span>
         </button>
         <button
           type="button"
@@ -214,9 +228,9 @@ export const PersonalInfoStep: React.FC<StepProps> = ({ currentStep, setCurrentS
           className={`form-btn flex items-center ${
             isChecking ? 'opacity-50 cursor-not-allowed' : ''
           }`}
-          aria-label="Continue to next step"
+          aria-label={t('common.continueNext')}
         >
-          <span>{isChecking ? 'Checking...' : 'Continue'}</span>
+          <span>{isChecking ? t('personal.checking') : t('common.continue')}</span>
           {!isChecking && (
             <svg className="ml-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -256,6 +270,7 @@ export const AccountTypeStep: React.FC<StepProps> = ({ currentStep, setCurrentSt
     formState: { errors },
     clearErrors,
   } = useFormContext<SignupFormData>();
+  const { t } = useTranslation();
 
   if (currentStep !== 3) return null;
 
@@ -270,15 +285,15 @@ export const AccountTypeStep: React.FC<StepProps> = ({ currentStep, setCurrentSt
 
   return (
     <div>
-      <h3 className="text-lg font-medium mb-4">Account Type</h3>
-      <p className="mb-4">What type of account would you like to create?</p>
+      <h3 className="text-lg font-medium mb-4">{t('accountType.title')}</h3>
+      <p className="mb-4">{t('accountType.question')}</p>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-5 mb-6">
         <button
           type="button"
           onClick={() => selectAccountType('business')}
           className="p-6 border border-gray-200 rounded-xl hover:border-blue-300 hover:bg-blue-50 focus:border-blue-500 transition-colors flex flex-col items-center justify-center shadow-sm hover:shadow group"
-          aria-label="Select Professional account type"
+          aria-label={t('accountType.proLabel')}
         >
           <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center mb-4 group-hover:bg-blue-200 transition-colors">
             <svg
@@ -295,9 +310,9 @@ export const AccountTypeStep: React.FC<StepProps> = ({ currentStep, setCurrentSt
               />
             </svg>
           </div>
-          <span className="font-medium mb-2 text-gray-800">Pro</span>
+          <span className="font-medium mb-2 text-gray-800">{t('accountType.pro')}</span>
           <span className="text-sm text-gray-500 text-center">
-            Accept payments as a Pro Flashpoint. Business Name & Address required
+            {t('accountType.proDescription')}
           </span>
         </button>
 
@@ -308,7 +323,7 @@ export const AccountTypeStep: React.FC<StepProps> = ({ currentStep, setCurrentSt
             selectAccountType('merchant');
           }}
           className="p-6 border border-gray-200 rounded-xl hover:border-blue-300 hover:bg-blue-50 focus:border-blue-500 transition-colors flex flex-col items-center justify-center shadow-sm hover:shadow group"
-          aria-label="Select Merchant account type"
+          aria-label={t('accountType.merchantLabel')}
         >
           <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center mb-4 group-hover:bg-blue-200 transition-colors">
             <svg
@@ -325,9 +340,9 @@ export const AccountTypeStep: React.FC<StepProps> = ({ currentStep, setCurrentSt
               />
             </svg>
           </div>
-          <span className="font-medium mb-2 text-gray-800">Merchant</span>
+          <span className="font-medium mb-2 text-gray-800">{t('accountType.merchant')}</span>
           <span className="text-sm text-gray-500 text-center">
-            Give rewards as a Merchant Flashpoint. ID and Bank account info required
+            {t('accountType.merchantDescription')}
           </span>
         </button>
       </div>
@@ -338,7 +353,7 @@ export const AccountTypeStep: React.FC<StepProps> = ({ currentStep, setCurrentSt
 
       <div className="flex justify-between mt-6">
         <button type="button" onClick={() => setCurrentStep(2)} className="form-btn-secondary">
-          Back
+          {t('common.back')}
         </button>
       </div>
     </div>
@@ -353,46 +368,39 @@ export const TermsStep: React.FC<StepProps> = ({ currentStep, setCurrentStep })
     setValue,
   } = useFormContext<SignupFormData>();
   const accountType = watch('account_type');
+  const { t } = useTranslation();
 
   if (currentStep !== 6) return null;
 
   return (
     <div className="bg-white rounded-lg">
-      <h3 className="text-xl font-semibold text-gray-800 mb-6">Terms and Conditions</h3>
+      <h3 className="text-xl font-semibold text-gray-800 mb-6">{t('terms.title')}</h3>
 
       <div className="bg-blue-50 p-6 rounded-lg mb-6 max-h-60 overflow-y-auto text-sm border border-blue-100 shadow-sm">
-        <p className="font-medium text-gray-800 mb-4">
-          By checking the box below, you agree to our Terms of Service and Privacy Policy.
-        </p>
-        <p className="mb-3 text-gray-700">These terms include:</p>
+        <p className="font-medium text-gray-800 mb-4">{t('terms.agreement')}</p>
+        <p className="mb-3 text-gray-700">{t('terms.include')}</p>
         <ul className="list-disc ml-5 space-y-2 text-gray-700">
-          <li>Flash will collect and store the information you provide.</li>
-          <li>You certify that the information provided is accurate and complete.</li>
-          <li>You authorize Flash to conduct necessary verification procedures.</li>
-          <li>
-            For merchant accounts, you agree to comply with all applicable laws and regulations
-            related to payment processing.
-          </li>
-          <li>
-            Flash may update these terms from time to time. You will be notified of any significant
-            changes.
-          </li>
+          <li>{t('terms.collect')}</li>
+          <li>{t('terms.accurate')}</li>
+          <li>{t('terms.verify')}</li>
+          <li>{t('terms.merchantCompliance')}</li>
+          <li>{t('terms.updates')}</li>
         </ul>
         <div className="mt-4 pt-4 border-t border-blue-200">
           <p className="text-gray-700">
-            For the complete terms, please visit our{' '}
+            {t('terms.completeTerms')}{' '}
             <a
               href="https://getflash.io/legal/terms.html"
               className="text-blue-600 hover:underline"
             >
-              Terms of Service
+              {t('common.termsOfService')}
             </a>{' '}
-            and{' '}
+            {t('terms.and')}{' '}
             <a
               href="https://getflash.io/legal/privacy.html"
               className="text-blue-600 hover:underline"
             >
-              Privacy Policy
+              {t('common.privacyPolicy')}
             </a>
             .
           </p>
@@ -418,11 +426,11 @@ export const TermsStep: React.FC<StepProps> = ({ currentStep, setCurrentStep })
                 htmlFor="terms_accepted"
                 className="font-medium text-gray-700 cursor-pointer group-hover:text-gray-900"
               >
-                I agree to the Terms of Service and Privacy Policy
+                {t('terms.accept')}
                 <span className="text-red-500 ml-1">*</span>
               </label>
               <p id="terms-description" className="text-gray-500 mt-1">
-                By checking this box, you are creating a legally binding agreement.
+                {t('terms.binding')}
               </p>
             </div>
           </div>
@@ -447,7 +455,7 @@ export const TermsStep: React.FC<StepProps> = ({ currentStep, setCurrentStep })
             }
           }}
           className="form-btn-secondary flex items-center"
-          aria-label="Go back to previous step"
+          aria-label={t('common.goBack')}
         >
           <svg className="mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path
@@ -457,13 +465,13 @@ export const TermsStep: React.FC<StepProps> = ({ currentStep, setCurrentStep })
               d="M15 19l-7-7 7-7"
             />
           </svg>
-          <span>Back</span>
+          <span>{t('common.back')}</span>
         </button>
 
         <button
           type="button" // Change to button type to handle submission manually
           className="form-btn group relative flex items-center"
-          aria-label="Submit signup form"
+          aria-label={t('terms.submitLabel')}
           onClick={() => {
             console.log('Submit button clicked');
 
@@ -485,7 +493,7 @@ export const TermsStep: React.FC<StepProps> = ({ currentStep, setCurrentStep })
           }}
         >
           <span className="flex items-center">
-            Submit Application
+            {t('terms.submit')}
             <svg
               className="ml-2 h-5 w-5 group-hover:translate-x-1 transition-transform"
               fill="none"
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useId, useMemo, useState } from 'react';
+
+const MAX_SUGGESTIONS = 8;
+
+export interface TypeaheadOption {
+  value: string;
+  label: string;
+  detail?: string;
+}
+
+type TypeaheadProps = {
+  id: string;
+  // Label of the current choice, '' when nothing is chosen
+  selectedLabel: string;
+  search: (query: string) => TypeaheadOption[];
+  // Called with null when the applicant edits the text after choosing
+  onSelect: (option: TypeaheadOption | null) => void;
+  placeholder?: string;
+  emptyMessage: React.ReactNode;
+  invalid?: boolean;
+  disabled?: boolean;
+  inputClassName?: string;
+};
+
+/**
+ * Text input with a list of suggestions the applicant must pick from
+ * Shared by the business category and bank pickers. The chosen value lives in the form
+ * (usually a hidden registered input); this only handles searching and picking.
+ * Remount with a new key to clear the text when the choice is reset from outside.
+ */
+export const Typeahead: React.FC<TypeaheadProps> = ({
+  id,
+  selectedLabel,
+  search,
+  onSelect,
+  placeholder,
+  emptyMessage,
+  invalid = false,
+  disabled = false,
+  inputClassName = 'form-input',
+}) => {
+  const listId = useId();
+  const [query, setQuery] = useState(selectedLabel);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Pick up choices restored from a saved draft
+  useEffect(() => {
+    if (selectedLabel) setQuery(selectedLabel);
+  }, [selectedLabel]);
+
+  const suggestions = useMemo(() => search(query).slice(0, MAX_SUGGESTIONS), [search, query]);
+
+  const choose = (option: TypeaheadOption) => {
+    onSelect(option);
+    setQuery(option.label);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => Math.min(index + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && isOpen) {
+      // Don't submit the form while picking
+      e.preventDefault();
+      const suggestion = suggestions[activeIndex];
+      if (suggestion) choose(suggestion);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        value={query}
+        disabled={disabled}
+        onChange={e => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(0);
+          // Typing invalidates the previous choice until an option is picked again
+          if (selectedLabel) onSelect(null);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+        placeholder={placeholder}
+        aria-expanded={isOpen}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={isOpen ? `${listId}-${activeIndex}` : undefined}
+        aria-invalid={invalid ? 'true' : 'false'}
+      />
+
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-auto bg-white border border-gray-200 rounded shadow-lg"
+        >
+          {suggestions.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">{emptyMessage}</li>
+          ) : (
+            suggestions.map((option, index) => (
+              <li
+                key={option.value}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={e => {
+                  e.preventDefault();
+                  choose(option);
+                }}
+                className={`px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? 'bg-blue-50' : ''
+                }`}
+              >
+                <span className="text-gray-800">{option.label}</span>
+                {option.detail && (
+                  <span className="ml-2 text-xs text-gray-500">{option.detail}</span>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
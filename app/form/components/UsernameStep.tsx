@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { SignupFormData } from '../../../src/types';
-import { checkUsernameExists } from '../../../src/services/duplicateCheck';
+import { checkDuplicates } from '../../../src/services/duplicateCheck';
 import Image from 'next/image';
 import FlashIcon from '../../assets/flash_icon_transp.png';
 
@@ -40,9 +40,9 @@ export const UsernameStep: React.FC<StepProps> = ({ currentStep, setCurrentStep
 
     try {
       // Check if username already exists in database
-      const { exists } = await checkUsernameExists(username.trim());
+      const duplicates = await checkDuplicates({ username: username.trim() });
 
-      if (exists) {
+      if (duplicates.username) {
         setError('username', {
           type: 'manual',
           message:
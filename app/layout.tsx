@@ -4,6 +4,8 @@ import Image from 'next/image';
 import FlashIcon from './assets/flash_icon_transp.png';
 import { config } from '../src/config';
 import DatabaseStatus from '../src/components/DatabaseStatus';
+import LocaleSwitcher from '../src/components/LocaleSwitcher';
+import { I18nProvider } from '../src/i18n/I18nProvider';
 
 export const metadata: Metadata = {
   title: 'Sign up for Flash',
@@ -32,54 +34,62 @@ export default function RootLayout({ children }: { children: React.ReactNode })
         <script src="/cf-handler.js" defer></script>
       </head>
       <body className="min-h-screen bg-gradient-to-b from-blue-50 to-white">
-        <div className="max-w-4xl mx-auto p-4">
-          <header className="mb-8 pt-8">
-            <div className="flex justify-center mb-6">
-              <div className="w-16 h-16 relative">
-                <Image
-                  src={FlashIcon}
-                  alt="Flash Icon"
-                  width={64}
-                  height={64}
-                  style={{ objectFit: 'contain' }}
-                  priority
-                />
+        {/* Language is picked in the browser, so it works in the static export */}
+        <I18nProvider>
+          <div className="max-w-4xl mx-auto p-4">
+            <header className="mb-8 pt-8">
+              <div className="flex justify-end">
+                <LocaleSwitcher />
               </div>
-            </div>
-            <h1 className="text-3xl font-bold text-center text-gray-800">Sign up for Flash</h1>
-          </header>
-          <main className="pb-12">{children}</main>
-          <footer className="mt-12 text-center text-gray-500 text-sm py-6 border-t border-gray-100">
-            <div className="max-w-md mx-auto">
-              <p className="mb-4">&copy; {new Date().getFullYear()} Flash. All rights reserved.</p>
-              <div className="flex justify-center space-x-4 text-xs">
-                <a
-                  href="https://getflash.io/legal/privacy.html"
-                  className="text-gray-500 hover:text-blue-600 transition-colors"
-                >
-                  Privacy Policy
-                </a>
-                <a
-                  href="https://getflash.io/legal/terms.html"
-                  className="text-gray-500 hover:text-blue-600 transition-colors"
-                >
-                  Terms of Service
-                </a>
-                <a
-                  href="https://docs.getflash.io"
-                  className="text-gray-500 hover:text-blue-600 transition-colors"
-                >
-                  Help Center
-                </a>
+              <div className="flex justify-center mb-6">
+                <div className="w-16 h-16 relative">
+                  <Image
+                    src={FlashIcon}
+                    alt="Flash Icon"
+                    width={64}
+                    height={64}
+                    style={{ objectFit: 'contain' }}
+                    priority
+                  />
+                </div>
               </div>
-              <div className="mt-4 flex items-center justify-center space-x-2">
-                <p className="text-xs text-gray-400">Version {config.app.version}</p>
-                <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                <p className="text-xs text-gray-400">Database Connected</p>
+              <h1 className="text-3xl font-bold text-center text-gray-800">Sign up for Flash</h1>
+            </header>
+            <main className="pb-12">{children}</main>
+            <footer className="mt-12 text-center text-gray-500 text-sm py-6 border-t border-gray-100">
+              <div className="max-w-md mx-auto">
+                <p className="mb-4">
+                  &copy; {new Date().getFullYear()} Flash. All rights reserved.
+                </p>
+                <div className="flex justify-center space-x-4 text-xs">
+                  <a
+                    href="https://getflash.io/legal/privacy.html"
+                    className="text-gray-500 hover:text-blue-600 transition-colors"
+                  >
+                    Privacy Policy
+                  </a>
+                  <a
+                    href="https://getflash.io/legal/terms.html"
+                    className="text-gray-500 hover:text-blue-600 transition-colors"
+                  >
+                    Terms of Service
+                  </a>
+                  <a
+                    href="https://docs.getflash.io"
+                    className="text-gray-500 hover:text-blue-600 transition-colors"
+                  >
+                    Help Center
+                  </a>
+                </div>
+                <div className="mt-4 flex items-center justify-center space-x-2">
+                  <p className="text-xs text-gray-400">Version {config.app.version}</p>
+                  <div className="w-2 h-2 rounded-full bg-green-500"></div>
+                  <p className="text-xs text-gray-400">Database Connected</p>
+                </div>
               </div>
-            </div>
-          </footer>
-        </div>
+            </footer>
+          </div>
+        </I18nProvider>
 
         {/* Database connection status indicator */}
         <DatabaseStatus />
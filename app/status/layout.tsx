@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Application Status | Flash',
+  robots: { index: false, follow: false },
+};
+
+export default function StatusLayout({ children }: { children: React.ReactNode }) {
+  return <div className="min-h-screen bg-gray-50 py-8 px-4">{children}</div>;
+}
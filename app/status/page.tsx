@@ -0,0 +1,218 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import PhoneAuth from '../form/components/PhoneAuth';
+import { applicantStatusService } from '../../src/services/applicantStatus';
+import {
+  ApplicantSignupStatus,
+  ApplicantTerminalOrder,
+  SignupStatus,
+  TERMINAL_ORDER_STATUSES,
+  TerminalOrderStatus,
+} from '../../src/types';
+import { TERMINAL_MODEL_LABELS } from '../../src/utils/terminalOrders';
+
+type PageState = 'checking' | 'verify' | 'loading' | 'ready';
+
+// What each status means for the applicant
+const STATUS_DESCRIPTIONS: Record<SignupStatus, { title: string; description: string }> = {
+  submitted: {
+    title: 'Received',
+    description: 'We have your application and it is waiting for review.',
+  },
+  under_review: {
+    title: 'In review',
+    description: 'Our team is reviewing your application.',
+  },
+  needs_info: {
+    title: 'Action needed',
+    description: 'We need a little more information before we can continue.',
+  },
+  approved: {
+    title: 'Approved',
+    description: 'Your application has been approved. We are setting up your account.',
+  },
+  rejected: {
+    title: 'Not approved',
+    description: 'Unfortunately we could not approve this application.',
+  },
+  onboarded: {
+    title: 'Active',
+    description: 'Your account is set up and ready to use.',
+  },
+};
+
+// What each terminal order status means for the applicant
+const TERMINAL_STATUS_DESCRIPTIONS: Record<TerminalOrderStatus, string> = {
+  requested: 'Requested - we will review it with your application.',
+  approved: 'Approved - your terminals are being prepared.',
+  shipped: 'Shipped - your terminals are on the way.',
+  delivered: 'Delivered - our team will help you activate them.',
+  activated: 'Activated - your terminals are ready to accept payments.',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+function TerminalOrderSummary({ order }: { order: ApplicantTerminalOrder }) {
+  const currentStep = TERMINAL_ORDER_STATUSES.indexOf(order.status);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        {order.quantity} × {TERMINAL_MODEL_LABELS[order.model]}, shipping to{' '}
+        {order.shipping_address || 'your business address'}
+      </p>
+      <ol className="flex gap-1" aria-label="Terminal order progress">
+        {TERMINAL_ORDER_STATUSES.map((status, index) => (
+          <li
+            key={status}
+            className={`flex-1 h-1.5 rounded ${index <= currentStep ? 'bg-blue-500' : 'bg-gray-200'}`}
+            title={status}
+          />
+        ))}
+      </ol>
+      <p className="text-sm text-gray-700">{TERMINAL_STATUS_DESCRIPTIONS[order.status]}</p>
+      {order.serial_numbers.length > 0 && (
+        <p className="text-xs text-gray-500">Serial numbers: {order.serial_numbers.join(', ')}</p>
+      )}
+      {order.tracking_number && (
+        <p className="text-xs text-gray-500">Tracking number: {order.tracking_number}</p>
+      )}
+      <p className="text-xs text-gray-500">Updated {formatDate(order.updated_at)}</p>
+    </div>
+  );
+}
+
+function ApplicationCard({ application }: { application: ApplicantSignupStatus }) {
+  const { title, description } = STATUS_DESCRIPTIONS[application.status];
+  const latestRequest = application.info_requests[0];
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm text-gray-500 capitalize">{application.account_type} account</p>
+          {application.business_name && (
+            <h2 className="text-lg font-semibold text-gray-800">{application.business_name}</h2>
+          )}
+          <p className="text-xs text-gray-500">Submitted {formatDate(application.created_at)}</p>
+        </div>
+        <span className="px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-sm font-medium">
+          {title}
+        </span>
+      </div>
+
+      <p className="text-gray-700">{description}</p>
+
+      {application.status === 'needs_info' && latestRequest && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded p-4">
+          <p className="text-sm font-medium text-yellow-800">Message from our team</p>
+          <p className="text-sm text-yellow-900 mt-1">{latestRequest.reason}</p>
+          <p className="text-xs text-yellow-700 mt-2">{formatDate(latestRequest.created_at)}</p>
+        </div>
+      )}
+
+      {application.status === 'rejected' && latestRequest && (
+        <p className="text-sm text-gray-600">
+          Earlier request from our team: {latestRequest.reason}
+        </p>
+      )}
+
+      {application.terminal.requested && (
+        <div className="border-t border-gray-100 pt-4">
+          <p className="text-sm font-medium text-gray-700 mb-1">Payment terminals</p>
+          {application.terminal.order ? (
+            <TerminalOrderSummary order={application.terminal.order} />
+          ) : (
+            <p className="text-sm text-gray-600">
+              Requested - we will review it with your application.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Applicant-facing application status
+ * Applicants verify their phone number again to see their applications
+ */
+export default function StatusPage() {
+  const [state, setState] = useState<PageState>('checking');
+  const [applications, setApplications] = useState<ApplicantSignupStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    setState('loading');
+    setError(null);
+
+    const response = await applicantStatusService.load();
+
+    if (response.status === 401 || response.status === 403) {
+      setState('verify');
+      return;
+    }
+
+    if (!response.success) {
+      setError(typeof response.error === 'string' ? response.error : 'Unable to load status');
+    }
+
+    setApplications(response.data || []);
+    setState('ready');
+  }, []);
+
+  useEffect(() => {
+    applicantStatusService.hasApplicantSession().then(hasSession => {
+      if (hasSession) {
+        loadStatus();
+      } else {
+        setState('verify');
+      }
+    });
+  }, [loadStatus]);
+
+  return (
+    <div className="max-w-xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold text-gray-800">Application status</h1>
+
+      {state === 'verify' && (
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <p className="text-gray-600 mb-4">
+            Verify the phone number you used on your application to see its status.
+          </p>
+          <PhoneAuth onAuthenticated={loadStatus} />
+        </div>
+      )}
+
+      {(state === 'checking' || state === 'loading') && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {state === 'ready' && error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {state === 'ready' && !error && applications.length === 0 && (
+        <div className="bg-white rounded-xl shadow-md p-6 text-center">
+          <p className="text-gray-700 mb-4">
+            We couldn&apos;t find an application for this account.
+          </p>
+          <Link href="/form" className="text-blue-600 hover:underline">
+            Start a new application
+          </Link>
+        </div>
+      )}
+
+      {state === 'ready' &&
+        applications.map(application => (
+          <ApplicationCard key={application.id} application={application} />
+        ))}
+    </div>
+  );
+}
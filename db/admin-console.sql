@@ -0,0 +1,35 @@
+-- Admin review console (/admin)
+-- Admins are Supabase users with app_metadata.role = 'admin'. app_metadata can only be
+-- changed with the service role key, unlike the old "email LIKE '%@admin.com'" check,
+-- which any user could satisfy by signing up with such an address.
+--
+-- Grant the role from the SQL editor:
+--   UPDATE auth.users
+--   SET raw_app_meta_data = raw_app_meta_data || '{"role": "admin"}'
+--   WHERE email = 'reviewer@example.com';
+
+-- Review status shown and filtered in the console
+ALTER TABLE signups
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'submitted';
+
+CREATE INDEX IF NOT EXISTS signups_created_at_idx ON signups (created_at DESC);
+CREATE INDEX IF NOT EXISTS signups_status_idx ON signups (status);
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$;
+
+-- Replace the email-suffix policy
+DROP POLICY IF EXISTS "Allow admin reads" ON signups;
+CREATE POLICY "Allow admin reads" ON signups FOR SELECT TO authenticated USING (is_admin());
+
+-- Admins can view ID documents
+DROP POLICY IF EXISTS "Allow admin downloads" ON storage.objects;
+CREATE POLICY "Allow admin downloads" ON storage.objects
+  FOR SELECT TO authenticated USING (
+    bucket_id = 'id_uploads' AND is_admin()
+  );
@@ -0,0 +1,40 @@
+-- Applicant status page (/status, GET /api/status)
+-- Requires db/signup-status.sql (signup_logs audit columns).
+-- Terminal orders for these signups are read from terminal_orders (db/terminal-orders.sql).
+
+-- Supabase users can read the status history of their own signups,
+-- alongside the existing "Allow reads for record owner" policy on signups
+DROP POLICY IF EXISTS "Allow owner status reads" ON signup_logs;
+CREATE POLICY "Allow owner status reads" ON signup_logs
+  FOR SELECT TO authenticated USING (
+    action = 'status_changed'
+    AND EXISTS (
+      SELECT 1 FROM signups WHERE signups.id = signup_logs.signup_id AND signups.user_id = auth.uid()
+    )
+  );
+
+-- Signups for a verified phone number (E.164), for applicants who signed in with PhoneAuth.
+-- Phone numbers are stored as entered, so compare digits only (see db/duplicate-check.sql).
+DROP FUNCTION IF EXISTS get_signups_by_phone(TEXT);
+CREATE FUNCTION get_signups_by_phone(p_phone TEXT)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  account_type TEXT,
+  business_name TEXT,
+  wants_terminal BOOLEAN,
+  status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, created_at, account_type, business_name, wants_terminal, status
+  FROM signups
+  WHERE regexp_replace(phone, '[^0-9+]', '', 'g') = p_phone
+  ORDER BY created_at DESC;
+$$;
+
+REVOKE ALL ON FUNCTION get_signups_by_phone(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_signups_by_phone(TEXT) TO service_role;
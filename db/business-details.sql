@@ -0,0 +1,28 @@
+-- Business category, description and merchant type (BusinessInfoStep)
+--
+-- business_type holds a merchant category code from src/utils/businessCategories.ts. The
+-- taxonomy lives in the app, so the database only checks the code's shape.
+
+ALTER TABLE signups
+ADD COLUMN IF NOT EXISTS business_type TEXT,
+ADD COLUMN IF NOT EXISTS business_description TEXT,
+ADD COLUMN IF NOT EXISTS merchant_type TEXT;
+
+ALTER TABLE signups DROP CONSTRAINT IF EXISTS signups_business_type_check;
+ALTER TABLE signups ADD CONSTRAINT signups_business_type_check CHECK (
+  business_type IS NULL OR business_type ~ '^[0-9]{4}$'
+);
+
+-- Keep in sync with BUSINESS_DESCRIPTION_MAX_LENGTH
+ALTER TABLE signups DROP CONSTRAINT IF EXISTS signups_business_description_check;
+ALTER TABLE signups ADD CONSTRAINT signups_business_description_check CHECK (
+  business_description IS NULL OR char_length(business_description) <= 500
+);
+
+-- Keep in sync with MERCHANT_TYPES in src/types.ts
+ALTER TABLE signups DROP CONSTRAINT IF EXISTS signups_merchant_type_check;
+ALTER TABLE signups ADD CONSTRAINT signups_merchant_type_check CHECK (
+  merchant_type IS NULL OR merchant_type IN ('storefront', 'online', 'mobile', 'storefront_online')
+);
+
+CREATE INDEX IF NOT EXISTS signups_business_type_idx ON signups (business_type);
@@ -0,0 +1,27 @@
+-- Phone capture sessions for verification documents (lib/capture-sessions.ts)
+--
+-- The desktop form opens a session for one document type and shows its link as a QR code;
+-- the phone uses the secret in the link to get one upload ticket for the desktop's caller.
+-- Only a hash of the secret is kept. Requires db/upload-tickets.sql.
+
+CREATE TABLE IF NOT EXISTS capture_sessions (
+  id UUID PRIMARY KEY,
+  -- AuthPrincipal.subject of the desktop caller; the upload ticket is issued to them
+  subject TEXT NOT NULL,
+  document_type TEXT NOT NULL,
+  -- SHA-256 of the secret in the link
+  secret_hash TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'uploading', 'completed')),
+  -- Set when the phone claims its upload ticket
+  object_path TEXT REFERENCES upload_tickets(object_path),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Only pending sessions expire; an upload in progress is bounded by its ticket
+  expires_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_capture_sessions_subject ON capture_sessions(subject, created_at);
+
+-- Service role only
+ALTER TABLE capture_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,17 @@
+-- File hashes for verification documents (lib/document-inspection.ts)
+--
+-- /api/submit reads every uploaded document before attaching it and stores its SHA-256. The
+-- admin console flags documents whose hash also appears on another signup, since the same
+-- ID or bill sent by different applicants is possible document fraud.
+-- Requires db/signup-documents.sql. Documents stored before this have no hash and are never
+-- flagged.
+
+ALTER TABLE signup_documents ADD COLUMN IF NOT EXISTS sha256 TEXT;
+
+ALTER TABLE signup_documents DROP CONSTRAINT IF EXISTS signup_documents_sha256_check;
+ALTER TABLE signup_documents
+  ADD CONSTRAINT signup_documents_sha256_check CHECK (sha256 ~ '^[0-9a-f]{64}$');
+
+-- findReusedDocuments looks documents up by hash
+CREATE INDEX IF NOT EXISTS idx_signup_documents_sha256 ON signup_documents(sha256)
+  WHERE sha256 IS NOT NULL;
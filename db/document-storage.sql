@@ -0,0 +1,62 @@
+-- Private storage for verification documents
+--
+-- Documents are stored as object paths inside the id_uploads bucket (config.supabase.storageBucket)
+-- and only ever shown through short-lived signed URLs the admin API creates. Earlier uploads
+-- saved public URLs, and some setups created the bucket as id-uploads; this script makes the
+-- bucket private, removes the public read policy and rewrites stored URLs to paths.
+-- Requires db/signup-documents.sql and db/admin-console.sql. Safe to run more than once.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('id_uploads', 'ID Document Uploads', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- supabase.sql let anyone read the bucket through the API
+DROP POLICY IF EXISTS "Allow public read" ON storage.objects;
+
+-- Applicants upload and read back their own files; admins read everything
+DROP POLICY IF EXISTS "Allow authenticated uploads" ON storage.objects;
+CREATE POLICY "Allow authenticated uploads" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (bucket_id = 'id_uploads' AND auth.uid() = owner);
+DROP POLICY IF EXISTS "Allow authenticated downloads" ON storage.objects;
+CREATE POLICY "Allow authenticated downloads" ON storage.objects
+  FOR SELECT TO authenticated USING (bucket_id = 'id_uploads' AND auth.uid() = owner);
+DROP POLICY IF EXISTS "Allow admin downloads" ON storage.objects;
+CREATE POLICY "Allow admin downloads" ON storage.objects
+  FOR SELECT TO authenticated USING (bucket_id = 'id_uploads' AND is_admin());
+
+-- The column only ever holds a path now
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'signup_documents' AND column_name = 'file_url'
+  ) THEN
+    ALTER TABLE signup_documents RENAME COLUMN file_url TO file_path;
+  END IF;
+END;
+$$;
+
+-- https://<project>.supabase.co/storage/v1/object/public/id_uploads/<path>, and the signed
+-- and authenticated forms of the same URL, become <path>. Uploaded file names are generated
+-- (hex and a timestamp), so there is nothing to URL-decode.
+UPDATE signup_documents
+SET file_path = substring(file_path FROM '/storage/v1/object/(?:public|sign|authenticated)/id_uploads/([^?]+)')
+WHERE file_path ~ '/storage/v1/object/(public|sign|authenticated)/id_uploads/[^?]+';
+
+-- Anything else that still looks like a URL (another bucket, or a development placeholder) has
+-- no file reviewers can open; report it rather than guess
+DO $$
+DECLARE
+  leftover INTEGER;
+BEGIN
+  SELECT count(*) INTO leftover FROM signup_documents WHERE file_path ~ '^[a-z]+://';
+  IF leftover > 0 THEN
+    RAISE NOTICE '% signup_documents rows still hold a URL instead of an id_uploads path', leftover;
+  END IF;
+END;
+$$;
+
+-- New rows must be paths; NOT VALID leaves the rows reported above alone
+ALTER TABLE signup_documents DROP CONSTRAINT IF EXISTS signup_documents_file_path_check;
+ALTER TABLE signup_documents
+  ADD CONSTRAINT signup_documents_file_path_check CHECK (file_path !~ '^[a-z]+://') NOT VALID;
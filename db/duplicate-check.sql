@@ -0,0 +1,35 @@
+-- Privacy-safe duplicate checks for the signup form (/api/check-duplicates)
+-- Returns one boolean per field so callers never see other applicants' rows.
+-- Inputs are expected normalized: lower-case username/email, E.164 phone.
+
+CREATE OR REPLACE FUNCTION check_signup_duplicates(
+  p_username TEXT DEFAULT NULL,
+  p_phone TEXT DEFAULT NULL,
+  p_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (username_taken BOOLEAN, phone_taken BOOLEAN, email_taken BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p_username IS NOT NULL AND EXISTS (
+      SELECT 1 FROM signups WHERE lower(trim(username)) = p_username
+    ),
+    p_phone IS NOT NULL AND EXISTS (
+      -- Stored numbers may contain spaces or dashes from older clients
+      SELECT 1 FROM signups WHERE regexp_replace(phone, '[^0-9+]', '', 'g') = p_phone
+    ),
+    p_email IS NOT NULL AND EXISTS (
+      SELECT 1 FROM signups WHERE lower(trim(email)) = p_email
+    );
+$$;
+
+-- Only the API route (service role) may call it, so rate limits can't be bypassed
+REVOKE ALL ON FUNCTION check_signup_duplicates(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_signup_duplicates(TEXT, TEXT, TEXT) TO service_role;
+
+CREATE INDEX IF NOT EXISTS signups_username_lower_idx ON signups (lower(trim(username)));
+CREATE INDEX IF NOT EXISTS signups_email_lower_idx ON signups (lower(trim(email)));
+CREATE INDEX IF NOT EXISTS signups_phone_digits_idx ON signups (regexp_replace(phone, '[^0-9+]', '', 'g'));
@@ -0,0 +1,120 @@
+-- Transactional outbox for signup emails (lib/notification-worker.ts)
+--
+-- notify_support() writes a pending signup_logs row in the same transaction as the signup
+-- insert. The worker (POST /api/notifications/run) claims due rows with FOR UPDATE SKIP LOCKED,
+-- sends the emails and marks each row sent, or schedules a retry until it gives up.
+-- Replaces the new-signup-email edge function polled by GitHub Actions.
+-- Requires db/signup-status.sql (signup_logs).
+
+ALTER TABLE signup_logs
+ADD COLUMN IF NOT EXISTS delivery_status TEXT
+  CHECK (delivery_status IN ('pending', 'processing', 'sent', 'failed')),
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+-- Messages already sent for the row, so a retry never sends them twice
+ADD COLUMN IF NOT EXISTS delivered TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS last_error TEXT,
+ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ;
+
+-- Rows logged before this migration were handled by the edge function and are left alone
+CREATE INDEX IF NOT EXISTS signup_logs_outbox_idx ON signup_logs (next_attempt_at)
+  WHERE delivery_status IN ('pending', 'processing');
+
+CREATE OR REPLACE FUNCTION notify_support()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.account_type IN ('business', 'merchant') THEN
+    INSERT INTO signup_logs (signup_id, action, details, delivery_status, next_attempt_at)
+    VALUES (
+      NEW.id,
+      'notification_needed',
+      jsonb_build_object(
+        'account_type', NEW.account_type,
+        'email', NEW.email,
+        'business_name', NEW.business_name,
+        'created_at', NEW.created_at
+      ),
+      'pending',
+      now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Lease up to p_limit due rows to a worker
+-- Rows whose lease ran out (a worker crashed mid-send) become claimable again.
+CREATE OR REPLACE FUNCTION claim_notifications(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF signup_logs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE signup_logs
+  SET delivery_status = 'processing',
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM signup_logs
+    WHERE (delivery_status = 'pending' AND next_attempt_at <= now())
+       OR (delivery_status = 'processing' AND locked_until < now())
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Finish a claimed row - p_retry_at NULL marks it failed for good
+-- Both return false if the worker no longer holds the lease.
+CREATE OR REPLACE FUNCTION complete_notification(p_id UUID, p_worker TEXT, p_delivered TEXT[])
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE signup_logs
+  SET delivery_status = 'sent', delivered = p_delivered, sent_at = now(),
+      locked_by = NULL, locked_until = NULL, last_error = NULL
+  WHERE id = p_id AND locked_by = p_worker AND delivery_status = 'processing';
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fail_notification(
+  p_id UUID,
+  p_worker TEXT,
+  p_delivered TEXT[],
+  p_error TEXT,
+  p_retry_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE signup_logs
+  SET delivery_status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE 'pending' END,
+      next_attempt_at = p_retry_at, delivered = p_delivered, last_error = p_error,
+      locked_by = NULL, locked_until = NULL
+  WHERE id = p_id AND locked_by = p_worker AND delivery_status = 'processing';
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_notifications(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION complete_notification(UUID, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION fail_notification(UUID, TEXT, TEXT[], TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notifications(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_notification(UUID, TEXT, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_notification(UUID, TEXT, TEXT[], TEXT, TIMESTAMPTZ) TO service_role;
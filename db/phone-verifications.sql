@@ -0,0 +1,98 @@
+-- Pending SMS verification codes for phone authentication (lib/otp.ts)
+-- Only an HMAC of the code is stored. Accessed with the service role key only.
+
+CREATE TABLE IF NOT EXISTS phone_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS phone_verifications_phone_created_at_idx
+ON phone_verifications (phone, created_at DESC);
+
+-- No policies: anon and authenticated roles have no access
+ALTER TABLE phone_verifications ENABLE ROW LEVEL SECURITY;
+
+DROP FUNCTION IF EXISTS increment_phone_verification_attempts(UUID);
+
+-- Count a guess and consume the code when it matches, checking the limit in the same
+-- statement, so concurrent guesses can neither skip the attempt limit nor use a code twice.
+-- Returns no row when the code is already consumed or out of attempts.
+CREATE OR REPLACE FUNCTION attempt_phone_verification(
+  p_id UUID,
+  p_code_hash TEXT,
+  p_max_attempts INTEGER
+)
+RETURNS TABLE (attempts_used INTEGER, matched BOOLEAN)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE phone_verifications
+  SET attempts = attempts + 1,
+      consumed_at = CASE WHEN code_hash = p_code_hash THEN now() END
+  WHERE id = p_id AND attempts < p_max_attempts AND consumed_at IS NULL
+  RETURNING attempts, consumed_at IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION attempt_phone_verification(UUID, TEXT, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION attempt_phone_verification(UUID, TEXT, INTEGER) TO service_role;
+
+-- Store a new code unless the number is in its resend cooldown or at its hourly cap. The
+-- per-number advisory lock holds until the insert commits, so parallel sends for one number
+-- are checked one after another and only one of them gets a code (and an SMS).
+-- status is 'issued' with the new row's id, or 'cooldown' / 'rate_limited' with how long to
+-- wait.
+CREATE OR REPLACE FUNCTION issue_phone_verification(
+  p_phone TEXT,
+  p_code_hash TEXT,
+  p_created_at TIMESTAMPTZ,
+  p_expires_at TIMESTAMPTZ,
+  p_cooldown_ms INTEGER,
+  p_max_per_hour INTEGER
+)
+RETURNS TABLE (status TEXT, verification_id UUID, retry_after_ms BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest TIMESTAMPTZ;
+  v_sent INTEGER;
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('phone_verifications:' || p_phone));
+
+  SELECT max(created_at) INTO v_latest FROM phone_verifications WHERE phone = p_phone;
+  IF v_latest > p_created_at - make_interval(secs => p_cooldown_ms / 1000.0) THEN
+    RETURN QUERY SELECT 'cooldown'::TEXT, NULL::UUID,
+      GREATEST(1, (p_cooldown_ms - EXTRACT(EPOCH FROM p_created_at - v_latest) * 1000)::BIGINT);
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_sent FROM phone_verifications
+  WHERE phone = p_phone AND created_at >= p_created_at - INTERVAL '1 hour';
+  IF v_sent >= p_max_per_hour THEN
+    RETURN QUERY SELECT 'rate_limited'::TEXT, NULL::UUID, (60 * 60 * 1000)::BIGINT;
+    RETURN;
+  END IF;
+
+  INSERT INTO phone_verifications (phone, code_hash, expires_at, created_at)
+  VALUES (p_phone, p_code_hash, p_expires_at, p_created_at)
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT 'issued'::TEXT, v_id, 0::BIGINT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION issue_phone_verification(TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_phone_verification(TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER)
+  TO service_role;
+
+COMMENT ON TABLE phone_verifications IS 'Hashed one-time codes for phone authentication';
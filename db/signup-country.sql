@@ -0,0 +1,13 @@
+-- Market each signup was made in (src/utils/countryProfiles.ts)
+--
+-- The form picks the country from ?country= or the applicant's phone number, and the submit
+-- route validates against that country's profile. Existing signups were all made in Jamaica.
+
+ALTER TABLE signups
+ADD COLUMN IF NOT EXISTS country TEXT NOT NULL DEFAULT 'JM';
+
+-- Keep in sync with SIGNUP_COUNTRIES in src/types.ts
+ALTER TABLE signups DROP CONSTRAINT IF EXISTS signups_country_check;
+ALTER TABLE signups ADD CONSTRAINT signups_country_check CHECK (country IN ('JM', 'KY', 'CW'));
+
+CREATE INDEX IF NOT EXISTS signups_country_idx ON signups (country, created_at);
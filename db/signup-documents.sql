@@ -0,0 +1,80 @@
+-- Verification documents uploaded with a signup (lib/signup-documents.ts)
+--
+-- One row per signup and document type; uploading a type again replaces its file. Which
+-- documents a signup needs depends on its account type and country and is checked by the
+-- signup schema (src/utils/kycDocuments.ts), not here.
+-- Requires db/admin-console.sql (is_admin()). Replaces signups.id_image_url, which is moved
+-- over and dropped below.
+
+CREATE TABLE IF NOT EXISTS signup_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  signup_id UUID NOT NULL REFERENCES signups(id) ON DELETE CASCADE,
+  -- Keep in sync with KYC_DOCUMENT_TYPES
+  document_type TEXT NOT NULL CHECK (
+    document_type IN (
+      'national_id_front',
+      'national_id_back',
+      'passport',
+      'drivers_licence',
+      'utility_bill',
+      'business_registration'
+    )
+  ),
+  -- Object path in the documents bucket, never a URL (db/document-storage.sql)
+  file_path TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (signup_id, document_type)
+);
+
+-- Admins read everything; applicants signed in with Supabase read documents for their own
+-- signups. Only the API writes, with the service role, once it has confirmed the uploads
+-- (db/upload-tickets.sql).
+ALTER TABLE signup_documents ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admin reads" ON signup_documents;
+CREATE POLICY "Allow admin reads" ON signup_documents FOR SELECT TO authenticated USING (is_admin());
+DROP POLICY IF EXISTS "Allow owner reads" ON signup_documents;
+CREATE POLICY "Allow owner reads" ON signup_documents
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM signups
+      WHERE signups.id = signup_documents.signup_id AND signups.user_id = auth.uid()
+    )
+  );
+
+-- Earlier signups uploaded a single ID without saying which kind, so it is kept as the front
+-- of a national ID for reviewers to check. db/document-storage.sql turns the URLs into paths.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'signups' AND column_name = 'id_image_url'
+  ) THEN
+    INSERT INTO signup_documents (signup_id, document_type, file_path, created_at)
+    SELECT id, 'national_id_front', id_image_url, created_at
+    FROM signups
+    WHERE id_image_url IS NOT NULL AND id_image_url <> ''
+    ON CONFLICT (signup_id, document_type) DO NOTHING;
+    ALTER TABLE signups DROP COLUMN id_image_url;
+  END IF;
+END;
+$$;
+
+-- A signup whose documents couldn't be stored is removed again so the applicant can resubmit
+-- (lib/signup-documents.ts). Its log and outbox rows and webhook deliveries go with it.
+CREATE OR REPLACE FUNCTION discard_signup(p_signup_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM signup_logs WHERE signup_id = p_signup_id;
+  IF to_regclass('webhook_deliveries') IS NOT NULL THEN
+    DELETE FROM webhook_deliveries WHERE signup_id = p_signup_id;
+  END IF;
+  DELETE FROM signups WHERE id = p_signup_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION discard_signup(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION discard_signup(UUID) TO service_role;
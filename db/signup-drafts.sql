@@ -0,0 +1,18 @@
+-- Saved signup drafts for authenticated applicants (/api/drafts)
+-- Keyed by the verified phone number. Bank account numbers are never stored.
+-- Accessed with the service role key only.
+
+CREATE TABLE IF NOT EXISTS signup_drafts (
+  phone TEXT PRIMARY KEY,
+  current_step INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS signup_drafts_expires_at_idx ON signup_drafts (expires_at);
+
+-- No policies: anon and authenticated roles have no access
+ALTER TABLE signup_drafts ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE signup_drafts IS 'In-progress signup forms, expired rows can be deleted at any time';
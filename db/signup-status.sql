@@ -0,0 +1,134 @@
+-- Signup status workflow (lib/signup-status.ts, POST /api/admin/signups/[id]/status)
+--
+--   submitted -> under_review -> needs_info -> under_review
+--                             -> approved -> onboarded
+--                             -> rejected
+--
+-- Transitions are enforced by a trigger so direct UPDATEs can't skip states, and every
+-- change is written to signup_logs with the actor, reason and time.
+-- Requires db/admin-console.sql (status column, is_admin()).
+
+ALTER TABLE signups DROP CONSTRAINT IF EXISTS signups_status_check;
+ALTER TABLE signups ADD CONSTRAINT signups_status_check CHECK (
+  status IN ('submitted', 'under_review', 'needs_info', 'approved', 'rejected', 'onboarded')
+);
+
+CREATE TABLE IF NOT EXISTS signup_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  signup_id UUID REFERENCES signups(id),
+  action TEXT NOT NULL,
+  details JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE signup_logs
+ADD COLUMN IF NOT EXISTS from_status TEXT,
+ADD COLUMN IF NOT EXISTS to_status TEXT,
+ADD COLUMN IF NOT EXISTS actor TEXT,
+ADD COLUMN IF NOT EXISTS reason TEXT;
+
+CREATE INDEX IF NOT EXISTS signup_logs_signup_id_idx ON signup_logs (signup_id, created_at);
+
+ALTER TABLE signup_logs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admin reads" ON signup_logs;
+CREATE POLICY "Allow admin reads" ON signup_logs FOR SELECT TO authenticated USING (is_admin());
+
+-- Keep in sync with SIGNUP_STATUS_TRANSITIONS in src/utils/signupStatus.ts
+CREATE OR REPLACE FUNCTION signup_status_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    ('submitted', 'under_review'),
+    ('under_review', 'needs_info'),
+    ('under_review', 'approved'),
+    ('under_review', 'rejected'),
+    ('needs_info', 'under_review'),
+    ('needs_info', 'rejected'),
+    ('approved', 'onboarded')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_signup_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- New signups always start at the beginning of the workflow
+    NEW.status := 'submitted';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT signup_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid signup status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_signup_status ON signups;
+CREATE TRIGGER enforce_signup_status
+  BEFORE INSERT OR UPDATE OF status ON signups
+  FOR EACH ROW EXECUTE FUNCTION enforce_signup_status();
+
+CREATE OR REPLACE FUNCTION log_signup_submitted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO signup_logs (signup_id, action, to_status, actor)
+  VALUES (NEW.id, 'status_changed', NEW.status, 'applicant');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_signup_submitted ON signups;
+CREATE TRIGGER log_signup_submitted
+  AFTER INSERT ON signups
+  FOR EACH ROW EXECUTE FUNCTION log_signup_submitted();
+
+-- Change a signup's status and record it in one transaction
+-- p_expected guards against two reviewers acting on the same signup at once.
+-- Returns {success, from} or {success: false, error, from}
+CREATE OR REPLACE FUNCTION transition_signup_status(
+  p_signup_id UUID,
+  p_to TEXT,
+  p_actor TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_expected TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_status TEXT;
+BEGIN
+  SELECT status INTO current_status FROM signups WHERE id = p_signup_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_found');
+  END IF;
+
+  IF p_expected IS NOT NULL AND p_expected <> current_status THEN
+    RETURN jsonb_build_object('success', false, 'error', 'stale_status', 'from', current_status);
+  END IF;
+
+  IF NOT signup_status_transition_allowed(current_status, p_to) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_transition', 'from', current_status);
+  END IF;
+
+  UPDATE signups SET status = p_to WHERE id = p_signup_id;
+
+  INSERT INTO signup_logs (signup_id, action, from_status, to_status, actor, reason)
+  VALUES (p_signup_id, 'status_changed', current_status, p_to, p_actor, p_reason);
+
+  RETURN jsonb_build_object('success', true, 'from', current_status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_signup_status(UUID, TEXT, TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transition_signup_status(UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
@@ -35,7 +35,7 @@ CREATE POLICY "Allow admin reads" ON signups FOR SELECT USING (auth.uid() IN (SE
 
 -- Create storage bucket for ID documents if not exists
 INSERT INTO storage.buckets (id, name, public)
-VALUES ('id-uploads', 'ID Document Uploads', false)
+VALUES ('id_uploads', 'ID Document Uploads', false)
 ON CONFLICT (id) DO NOTHING;
 
 -- Create a private storage bucket for form submissions
@@ -55,16 +55,16 @@ CREATE POLICY "Allow authenticated access to formdata" ON storage.objects
     bucket_id = 'formdata'
   );
 
--- Modified policy to allow authenticated uploads to id-uploads - enforce owner check
+-- Modified policy to allow authenticated uploads to id_uploads - enforce owner check
 CREATE POLICY "Allow authenticated uploads" ON storage.objects 
   FOR INSERT TO authenticated WITH CHECK (
-    bucket_id = 'id-uploads' AND auth.uid() = owner
+    bucket_id = 'id_uploads' AND auth.uid() = owner
   );
 
--- Modified policy to allow authenticated users to read only their own uploads in id-uploads
+-- Modified policy to allow authenticated users to read only their own uploads in id_uploads
 CREATE POLICY "Allow authenticated downloads" ON storage.objects 
   FOR SELECT TO authenticated USING (
-    bucket_id = 'id-uploads' AND auth.uid() = owner
+    bucket_id = 'id_uploads' AND auth.uid() = owner
   );
 
 -- Create indices for better performance
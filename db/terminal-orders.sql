@@ -0,0 +1,259 @@
+-- Terminal order fulfillment (lib/terminal-orders.ts, /admin/terminals)
+--
+--   requested -> approved -> shipped -> delivered -> activated
+--
+-- Every signup with wants_terminal gets one order, created by a trigger in the same
+-- transaction as the signup. The submit route then fills in the applicant's quantity, model
+-- and shipping address; the order ships to business_address when shipping_address is empty.
+-- Serial numbers are assigned when an order ships, one per terminal.
+-- Transitions are enforced by a trigger, and every change is written to terminal_order_events.
+-- Requires db/admin-console.sql (is_admin()). Run db/applicant-status.sql first when
+-- upgrading, since this drops signups.terminal_serial_number.
+
+CREATE TABLE IF NOT EXISTS terminal_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  signup_id UUID NOT NULL UNIQUE REFERENCES signups(id) ON DELETE CASCADE,
+  -- Keep in sync with TERMINAL_ORDER_MAX_QUANTITY and TERMINAL_MODELS
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity BETWEEN 1 AND 10),
+  model TEXT NOT NULL DEFAULT 'flash-t1' CHECK (model IN ('flash-t1', 'flash-t1-printer')),
+  shipping_address TEXT,
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'shipped', 'delivered', 'activated')),
+  serial_numbers TEXT[] NOT NULL DEFAULT '{}',
+  tracking_number TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS terminal_orders_status_idx ON terminal_orders (status, created_at);
+CREATE INDEX IF NOT EXISTS terminal_orders_serial_numbers_idx
+  ON terminal_orders USING GIN (serial_numbers);
+
+-- One row per serial ever assigned, so the primary key keeps a serial on a single order even
+-- when two orders ship at once. terminal_orders.serial_numbers is the copy the app reads.
+CREATE TABLE IF NOT EXISTS terminal_serial_numbers (
+  serial_number TEXT PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES terminal_orders(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS terminal_order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES terminal_orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS terminal_order_events_order_id_idx
+  ON terminal_order_events (order_id, created_at);
+
+-- Admins read everything; applicants signed in with Supabase read orders for their own
+-- signups. Writes go through the service role.
+ALTER TABLE terminal_orders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admin reads" ON terminal_orders;
+CREATE POLICY "Allow admin reads" ON terminal_orders FOR SELECT TO authenticated USING (is_admin());
+DROP POLICY IF EXISTS "Allow owner reads" ON terminal_orders;
+CREATE POLICY "Allow owner reads" ON terminal_orders
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM signups
+      WHERE signups.id = terminal_orders.signup_id AND signups.user_id = auth.uid()
+    )
+  );
+
+-- No policies: only the service role, through transition_terminal_order, touches serials
+ALTER TABLE terminal_serial_numbers ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE terminal_order_events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admin reads" ON terminal_order_events;
+CREATE POLICY "Allow admin reads" ON terminal_order_events
+  FOR SELECT TO authenticated USING (is_admin());
+
+-- Keep in sync with TERMINAL_ORDER_TRANSITIONS in src/utils/terminalOrders.ts
+CREATE OR REPLACE FUNCTION terminal_order_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    ('requested', 'approved'),
+    ('approved', 'shipped'),
+    ('shipped', 'delivered'),
+    ('delivered', 'activated')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_terminal_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'requested';
+    NEW.serial_numbers := '{}';
+  ELSE
+    IF NEW.status IS DISTINCT FROM OLD.status
+      AND NOT terminal_order_transition_allowed(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'Invalid terminal order transition: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    -- Quantity, model and address are fixed once the order is approved
+    IF OLD.status <> 'requested' AND (
+      NEW.quantity IS DISTINCT FROM OLD.quantity
+      OR NEW.model IS DISTINCT FROM OLD.model
+      OR NEW.shipping_address IS DISTINCT FROM OLD.shipping_address
+    ) THEN
+      RAISE EXCEPTION 'Terminal order % can no longer be changed', OLD.id
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_terminal_order_status ON terminal_orders;
+CREATE TRIGGER enforce_terminal_order_status
+  BEFORE INSERT OR UPDATE ON terminal_orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_terminal_order_status();
+
+CREATE OR REPLACE FUNCTION log_terminal_order_requested()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO terminal_order_events (order_id, to_status, actor)
+  VALUES (NEW.id, NEW.status, 'applicant');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_terminal_order_requested ON terminal_orders;
+CREATE TRIGGER log_terminal_order_requested
+  AFTER INSERT ON terminal_orders
+  FOR EACH ROW EXECUTE FUNCTION log_terminal_order_requested();
+
+-- Signups that ask for a terminal always get an order, whichever path inserted them
+CREATE OR REPLACE FUNCTION create_terminal_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.wants_terminal THEN
+    INSERT INTO terminal_orders (signup_id) VALUES (NEW.id)
+    ON CONFLICT (signup_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_terminal_order ON signups;
+CREATE TRIGGER create_terminal_order
+  AFTER INSERT ON signups
+  FOR EACH ROW EXECUTE FUNCTION create_terminal_order();
+
+-- Orders for existing signups, carrying over serials recorded on the signup itself
+INSERT INTO terminal_orders (signup_id)
+SELECT id FROM signups WHERE wants_terminal
+ON CONFLICT (signup_id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'signups' AND column_name = 'terminal_serial_number'
+  ) THEN
+    ALTER TABLE terminal_orders DISABLE TRIGGER enforce_terminal_order_status;
+    UPDATE terminal_orders o
+    SET status = 'shipped', serial_numbers = ARRAY[s.terminal_serial_number]
+    FROM signups s
+    WHERE s.id = o.signup_id AND s.terminal_serial_number IS NOT NULL;
+    ALTER TABLE terminal_orders ENABLE TRIGGER enforce_terminal_order_status;
+    ALTER TABLE signups DROP COLUMN terminal_serial_number;
+  END IF;
+END;
+$$;
+
+INSERT INTO terminal_serial_numbers (serial_number, order_id)
+SELECT DISTINCT ON (serial_number) serial_number, id
+FROM terminal_orders, unnest(serial_numbers) AS serial_number
+ORDER BY serial_number, created_at
+ON CONFLICT (serial_number) DO NOTHING;
+
+-- Move an order along and record it in one transaction
+-- Shipping needs exactly one serial per terminal, none of them already used by another order;
+-- terminal_serial_numbers' primary key decides that, concurrent shipments included.
+-- p_expected guards against two admins acting on the same order at once.
+-- Returns {success, from} or {success: false, error, from}
+CREATE OR REPLACE FUNCTION transition_terminal_order(
+  p_order_id UUID,
+  p_to TEXT,
+  p_actor TEXT,
+  p_serial_numbers TEXT[] DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_expected TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_order terminal_orders;
+BEGIN
+  SELECT * INTO current_order FROM terminal_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_found');
+  END IF;
+
+  IF p_expected IS NOT NULL AND p_expected <> current_order.status THEN
+    RETURN jsonb_build_object('success', false, 'error', 'stale_status', 'from', current_order.status);
+  END IF;
+
+  IF NOT terminal_order_transition_allowed(current_order.status, p_to) THEN
+    RETURN jsonb_build_object(
+      'success', false, 'error', 'invalid_transition', 'from', current_order.status
+    );
+  END IF;
+
+  IF p_to = 'shipped' THEN
+    IF coalesce(cardinality(p_serial_numbers), 0) <> current_order.quantity THEN
+      RETURN jsonb_build_object(
+        'success', false, 'error', 'serials_required', 'from', current_order.status
+      );
+    END IF;
+
+    BEGIN
+      DELETE FROM terminal_serial_numbers WHERE order_id = p_order_id;
+      INSERT INTO terminal_serial_numbers (serial_number, order_id)
+      SELECT serial_number, p_order_id FROM unnest(p_serial_numbers) AS serial_number;
+    EXCEPTION WHEN unique_violation THEN
+      RETURN jsonb_build_object(
+        'success', false, 'error', 'serial_in_use', 'from', current_order.status
+      );
+    END;
+
+    UPDATE terminal_orders
+    SET status = p_to, serial_numbers = p_serial_numbers, tracking_number = p_tracking_number
+    WHERE id = p_order_id;
+  ELSE
+    UPDATE terminal_orders SET status = p_to WHERE id = p_order_id;
+  END IF;
+
+  INSERT INTO terminal_order_events (order_id, from_status, to_status, actor, note)
+  VALUES (p_order_id, current_order.status, p_to, p_actor, p_note);
+
+  RETURN jsonb_build_object('success', true, 'from', current_order.status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_terminal_order(UUID, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transition_terminal_order(UUID, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT)
+  TO service_role;
@@ -0,0 +1,36 @@
+-- One-time upload tickets for verification documents (lib/upload-tickets.ts)
+--
+-- /api/uploads records a ticket for each signed upload URL it hands out, and /api/submit only
+-- lets a signup reference an object the same caller uploaded through a ticket. With that in
+-- place the browser needs no storage or signup_documents rights at all.
+-- Requires db/document-storage.sql.
+
+CREATE TABLE IF NOT EXISTS upload_tickets (
+  object_path TEXT PRIMARY KEY,
+  -- AuthPrincipal.subject of the caller the ticket was issued to
+  subject TEXT NOT NULL,
+  document_type TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  max_bytes INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  -- Set when a submission first references the upload
+  confirmed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_tickets_subject ON upload_tickets(subject, created_at);
+
+-- Service role only
+ALTER TABLE upload_tickets ENABLE ROW LEVEL SECURITY;
+
+-- Storage also refuses anything a ticket wouldn't allow (UPLOAD_CONTENT_TYPES, UPLOAD_MAX_BYTES)
+UPDATE storage.buckets
+SET file_size_limit = 10485760, allowed_mime_types = ARRAY['image/jpeg', 'application/pdf']
+WHERE id = 'id_uploads';
+
+-- Uploads only go through signed URLs now
+DROP POLICY IF EXISTS "Allow authenticated uploads" ON storage.objects;
+
+-- Documents are only written by /api/submit, after confirming the uploads
+DROP POLICY IF EXISTS "Allow inserts for new signups" ON signup_documents;
+DROP FUNCTION IF EXISTS signup_accepts_documents(UUID);
@@ -0,0 +1,218 @@
+-- Outbound webhooks for signup lifecycle events (lib/webhooks.ts)
+--
+-- Subscribers register an endpoint for one or more event types:
+--   signup.created             business or merchant signup submitted
+--   signup.terminal_requested  signup submitted with wants_terminal
+--   signup.approved            signup moved to approved
+--
+-- Deliveries are queued by triggers on signups, in the same transaction as the change, and
+-- sent by the worker (POST /api/notifications/run). After WEBHOOK_MAX_ATTEMPTS failures a
+-- delivery is parked as 'dead' until an admin retries it.
+-- Requires db/signup-status.sql and db/notification-outbox.sql.
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  url TEXT NOT NULL,
+  description TEXT,
+  events TEXT[] NOT NULL,
+  -- Signing key shared with the subscriber
+  secret TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  signup_id UUID REFERENCES signups(id),
+  -- Signup snapshot at the time of the event, so retries send the same body
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'delivered', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS webhook_deliveries_created_at_idx ON webhook_deliveries (created_at DESC);
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+  status_code INTEGER,
+  error TEXT,
+  duration_ms INTEGER,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_delivery_attempts_delivery_idx
+  ON webhook_delivery_attempts (delivery_id, attempted_at);
+
+-- Service role only: endpoint secrets must never reach the browser
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Queue a delivery for every active endpoint subscribed to the event
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_event TEXT, p_signup signups)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO webhook_deliveries (endpoint_id, event_type, signup_id, payload)
+  SELECT id, p_event, p_signup.id,
+         to_jsonb(p_signup) - 'bank_account_number' - 'id_image_url' - 'user_agent'
+  FROM webhook_endpoints
+  WHERE active AND p_event = ANY(events);
+END;
+$$;
+
+-- Same trigger function as db/notification-outbox.sql, now also queueing webhooks. Runs as
+-- its owner, since the caller inserting the signup can't execute enqueue_webhook_event.
+CREATE OR REPLACE FUNCTION notify_support()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_type IN ('business', 'merchant') THEN
+    INSERT INTO signup_logs (signup_id, action, details, delivery_status, next_attempt_at)
+    VALUES (
+      NEW.id,
+      'notification_needed',
+      jsonb_build_object(
+        'account_type', NEW.account_type,
+        'email', NEW.email,
+        'business_name', NEW.business_name,
+        'created_at', NEW.created_at
+      ),
+      'pending',
+      now()
+    );
+
+    PERFORM enqueue_webhook_event('signup.created', NEW);
+  END IF;
+
+  IF NEW.wants_terminal THEN
+    PERFORM enqueue_webhook_event('signup.terminal_requested', NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_signup_approved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    PERFORM enqueue_webhook_event('signup.approved', NEW);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_signup_approved ON signups;
+CREATE TRIGGER notify_signup_approved
+  AFTER UPDATE OF status ON signups
+  FOR EACH ROW EXECUTE FUNCTION notify_signup_approved();
+
+-- Lease due deliveries to a worker (see claim_notifications)
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS TABLE (
+  id UUID,
+  event_type TEXT,
+  payload JSONB,
+  attempts INTEGER,
+  created_at TIMESTAMPTZ,
+  url TEXT,
+  secret TEXT
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE webhook_deliveries
+    SET status = 'processing',
+        locked_by = p_worker,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        attempts = webhook_deliveries.attempts + 1
+    WHERE webhook_deliveries.id IN (
+      SELECT d.id FROM webhook_deliveries d
+      WHERE (d.status = 'pending' AND d.next_attempt_at <= now())
+         OR (d.status = 'processing' AND d.locked_until < now())
+      ORDER BY d.next_attempt_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING webhook_deliveries.*
+  )
+  SELECT c.id, c.event_type, c.payload, c.attempts, c.created_at, e.url, e.secret
+  FROM claimed c
+  JOIN webhook_endpoints e ON e.id = c.endpoint_id;
+$$;
+
+-- Record an attempt and move the delivery on - p_retry_at NULL parks a failure as dead
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  p_id UUID,
+  p_worker TEXT,
+  p_delivered BOOLEAN,
+  p_status_code INTEGER,
+  p_error TEXT,
+  p_duration_ms INTEGER,
+  p_retry_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE webhook_deliveries
+  SET status = CASE
+        WHEN p_delivered THEN 'delivered'
+        WHEN p_retry_at IS NULL THEN 'dead'
+        ELSE 'pending'
+      END,
+      next_attempt_at = coalesce(p_retry_at, next_attempt_at),
+      delivered_at = CASE WHEN p_delivered THEN now() ELSE NULL END,
+      last_status_code = p_status_code,
+      last_error = p_error,
+      locked_by = NULL,
+      locked_until = NULL
+  WHERE id = p_id AND locked_by = p_worker AND status = 'processing';
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO webhook_delivery_attempts (delivery_id, status_code, error, duration_ms)
+  VALUES (p_id, p_status_code, p_error, p_duration_ms);
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_webhook_event(TEXT, signups) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION claim_webhook_deliveries(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_webhook_attempt(UUID, TEXT, BOOLEAN, INTEGER, TEXT, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION record_webhook_attempt(UUID, TEXT, BOOLEAN, INTEGER, TEXT, INTEGER, TIMESTAMPTZ) TO service_role;
@@ -0,0 +1,31 @@
+import { User } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requireAuth, AuthenticatedRequest } from './auth-middleware';
+
+/**
+ * Admin gate for /api/admin routes
+ *
+ * Admins are Supabase users whose app_metadata.role is 'admin' (see db/admin-console.sql).
+ * app_metadata is only writable with the service role key, so users can't grant it to themselves.
+ */
+
+export function isAdminUser(user: User | null): boolean {
+  return user?.app_metadata?.role === 'admin';
+}
+
+/**
+ * Middleware that requires an admin
+ * Returns 401 if not authenticated and 403 if authenticated without the admin role
+ */
+export async function requireAdmin(
+  req: Request,
+  routeHandler: (req: AuthenticatedRequest) => Promise<NextResponse>
+) {
+  return requireAuth(req, async authReq => {
+    if (authReq.auth.principal?.method !== 'supabase' || !isAdminUser(authReq.auth.user)) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    return routeHandler(authReq);
+  });
+}
@@ -0,0 +1,97 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '../src/config';
+import { AdminSignupListQuery, SIGNUP_STATUSES, SignupStatus } from '../src/types';
+import { isDocumentPath } from '../src/utils/kycDocuments';
+
+/**
+ * Signup queries for the admin review console
+ */
+
+export const ADMIN_PAGE_SIZE_MAX = 100;
+export const DOCUMENT_SIGNED_URL_TTL = 5 * 60; // seconds
+
+// Columns shown in the list view
+const LIST_COLUMNS =
+  'id, created_at, username, name, phone, email, account_type, business_name, wants_terminal, status';
+
+const SORTABLE_COLUMNS = ['created_at', 'name', 'username', 'account_type', 'status'] as const;
+
+const isDate = (value: string | null): value is string =>
+  !!value && !Number.isNaN(new Date(value).getTime());
+
+/**
+ * Parse and clamp list filters from a request's query string
+ */
+export function parseSignupListQuery(params: URLSearchParams): AdminSignupListQuery {
+  const accountType = params.get('account_type');
+  const wantsTerminal = params.get('wants_terminal');
+  const status = params.get('status');
+  const sort = params.get('sort');
+  const page = parseInt(params.get('page') || '1', 10);
+  const pageSize = parseInt(params.get('pageSize') || '25', 10);
+  const from = params.get('from');
+  const to = params.get('to');
+
+  return {
+    ...(accountType === 'business' || accountType === 'merchant' || accountType === 'personal'
+      ? { account_type: accountType }
+      : {}),
+    ...(wantsTerminal === 'true' || wantsTerminal === 'false'
+      ? { wants_terminal: wantsTerminal === 'true' }
+      : {}),
+    ...(status && (SIGNUP_STATUSES as readonly string[]).includes(status)
+      ? { status: status as SignupStatus }
+      : {}),
+    ...(isDate(from) ? { from } : {}),
+    ...(isDate(to) ? { to } : {}),
+    sort: (SORTABLE_COLUMNS as readonly string[]).includes(sort || '')
+      ? (sort as AdminSignupListQuery['sort'])
+      : 'created_at',
+    order: params.get('order') === 'asc' ? 'asc' : 'desc',
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+    pageSize: Number.isFinite(pageSize) ? Math.min(Math.max(pageSize, 1), ADMIN_PAGE_SIZE_MAX) : 25,
+  };
+}
+
+/**
+ * List signups matching the filters, one page at a time
+ */
+export async function listSignups(supabase: SupabaseClient, query: AdminSignupListQuery) {
+  let request = supabase.from('signups').select(LIST_COLUMNS, { count: 'exact' });
+
+  if (query.account_type) request = request.eq('account_type', query.account_type);
+  if (query.wants_terminal !== undefined)
+    request = request.eq('wants_terminal', query.wants_terminal);
+  if (query.status) request = request.eq('status', query.status);
+  if (query.from) request = request.gte('created_at', new Date(query.from).toISOString());
+  if (query.to) {
+    // Date-only values include the whole day
+    const to = new Date(query.to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(query.to)) to.setUTCDate(to.getUTCDate() + 1);
+    request = request.lt('created_at', to.toISOString());
+  }
+
+  const start = (query.page - 1) * query.pageSize;
+
+  return request
+    .order(query.sort, { ascending: query.order === 'asc' })
+    .range(start, start + query.pageSize - 1);
+}
+
+/**
+ * Short-lived URL for previewing an uploaded document in the console
+ * The bucket is private, so this is the only way a document can be viewed.
+ */
+export async function createDocumentPreviewUrl(
+  supabase: SupabaseClient,
+  filePath: string | null
+): Promise<string | null> {
+  // Rows db/document-storage.sql couldn't turn into a path have nothing to sign
+  if (!isDocumentPath(filePath)) return null;
+
+  const { data, error } = await supabase.storage
+    .from(config.supabase.storageBucket)
+    .createSignedUrl(filePath, DOCUMENT_SIGNED_URL_TTL);
+
+  return error || !data ? null : data.signedUrl;
+}
@@ -0,0 +1,145 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AuthenticatedRequest } from './auth-middleware';
+import { getSupabaseAdmin } from './supabase-admin';
+import { ApplicantSignupStatus, ApplicantTerminalOrder, SignupStatus } from '../src/types';
+
+/**
+ * Application status for the applicant's own signups (GET /api/status)
+ *
+ * Supabase users read through a client carrying their own JWT, so the signups owner RLS
+ * policy decides what they see. Phone-verified applicants have no Supabase user, so their
+ * signups are matched on the verified phone number with the service role.
+ */
+
+const STATUS_COLUMNS = 'id, created_at, account_type, business_name, wants_terminal, status';
+
+const TERMINAL_ORDER_COLUMNS =
+  'signup_id, quantity, model, shipping_address, status, serial_numbers, tracking_number, updated_at';
+
+type SignupStatusRow = {
+  id: string;
+  created_at: string;
+  account_type: string;
+  business_name: string | null;
+  wants_terminal: boolean | null;
+  status: SignupStatus;
+};
+
+type TerminalOrderRow = ApplicantTerminalOrder & { signup_id: string };
+
+type InfoRequestRow = {
+  signup_id: string;
+  reason: string | null;
+  created_at: string;
+};
+
+export type ApplicantStatusResult =
+  | { success: true; data: ApplicantSignupStatus[] }
+  | { success: false; error: 'phone_required' | 'unavailable' };
+
+/**
+ * Anon-key client that acts as the signed-in Supabase user
+ */
+function createUserClient(accessToken: string): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseAnonKey) return null;
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
+
+export function toApplicantStatus(
+  row: SignupStatusRow,
+  infoRequests: InfoRequestRow[],
+  terminalOrders: TerminalOrderRow[] = []
+): ApplicantSignupStatus {
+  const order = terminalOrders.find(terminalOrder => terminalOrder.signup_id === row.id);
+
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    account_type: row.account_type,
+    business_name: row.business_name,
+    status: row.status,
+    info_requests: infoRequests
+      .filter(request => request.signup_id === row.id && request.reason)
+      .map(request => ({ reason: request.reason as string, created_at: request.created_at }))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    terminal: {
+      requested: !!row.wants_terminal,
+      order: order
+        ? {
+            quantity: order.quantity,
+            model: order.model,
+            shipping_address: order.shipping_address,
+            status: order.status,
+            serial_numbers: order.serial_numbers,
+            tracking_number: order.tracking_number,
+            updated_at: order.updated_at,
+          }
+        : null,
+    },
+  };
+}
+
+export async function getApplicantStatus(
+  req: AuthenticatedRequest
+): Promise<ApplicantStatusResult> {
+  const principal = req.auth.principal;
+  let supabase: SupabaseClient | null;
+  let rows: SignupStatusRow[];
+
+  if (principal?.method === 'supabase') {
+    const accessToken = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    supabase = createUserClient(accessToken);
+    if (!supabase) return { success: false, error: 'unavailable' };
+
+    const { data, error } = await supabase
+      .from('signups')
+      .select(STATUS_COLUMNS)
+      .eq('user_id', principal.subject)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    rows = (data || []) as SignupStatusRow[];
+  } else if (principal?.phone) {
+    supabase = getSupabaseAdmin();
+    if (!supabase) return { success: false, error: 'unavailable' };
+
+    const { data, error } = await supabase.rpc('get_signups_by_phone', {
+      p_phone: principal.phone,
+    });
+    if (error) throw error;
+    rows = (data || []) as SignupStatusRow[];
+  } else {
+    return { success: false, error: 'phone_required' };
+  }
+
+  if (rows.length === 0) return { success: true, data: [] };
+
+  const signupIds = rows.map(row => row.id);
+  const { data: logs, error } = await supabase
+    .from('signup_logs')
+    .select('signup_id, reason, created_at')
+    .in('signup_id', signupIds)
+    .eq('action', 'status_changed')
+    .eq('to_status', 'needs_info');
+  if (error) throw error;
+
+  let orders: TerminalOrderRow[] = [];
+  if (rows.some(row => row.wants_terminal)) {
+    const { data, error: ordersError } = await supabase
+      .from('terminal_orders')
+      .select(TERMINAL_ORDER_COLUMNS)
+      .in('signup_id', signupIds);
+    if (ordersError) throw ordersError;
+    orders = (data || []) as TerminalOrderRow[];
+  }
+
+  return {
+    success: true,
+    data: rows.map(row => toApplicantStatus(row, (logs || []) as InfoRequestRow[], orders)),
+  };
+}
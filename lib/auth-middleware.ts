@@ -1,21 +1,57 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { verifyGuestToken } from './guest-token';
+import { normalizePhone } from './otp';
+import { verifyPhoneAuthToken } from './phone-auth-token';
 import { logger } from '../src/utils/logger';
 
 /**
  * Authentication middleware for API routes
- * Verifies JWT tokens and provides authentication status
+ * Resolves the Authorization header through a registry of token schemes:
+ * - Bearer <Supabase JWT>
+ * - PhoneAuth <token from /api/phone-auth/verify>
+ * - Guest <token issued after a bot challenge>
  */
 
+export type AuthMethod = 'supabase' | 'phone' | 'captcha';
+
+/**
+ * Verified identity behind a request
+ */
+export interface AuthPrincipal {
+  method: AuthMethod;
+  // Stable id for the caller (Supabase user id, phone subject or guest id)
+  subject: string;
+  // Verified phone number in E.164 format, if the scheme proves one
+  phone: string | null;
+  // When the caller last proved the phone (OTP) or passed a bot challenge
+  verifiedAt?: number;
+}
+
 export interface AuthenticatedRequest extends Request {
   auth: {
     isAuthenticated: boolean;
+    principal: AuthPrincipal | null;
+    // Supabase user and session, only set for Bearer tokens
     user: any | null;
     session: any | null;
     error?: any;
   };
 }
 
+type SchemeResult =
+  | { success: true; principal: AuthPrincipal; user?: any; session?: any }
+  | { success: false; error: any };
+
+/**
+ * A token scheme verifies the credentials that follow its name in the Authorization header
+ */
+export interface AuthScheme {
+  // Scheme name as sent in the header, e.g. 'Bearer'
+  name: string;
+  verify(credentials: string): Promise<SchemeResult>;
+}
+
 /**
  * Get Supabase client using credentials from environment variables
  */
@@ -31,52 +67,116 @@ const getSupabaseAuth = () => {
   return createClient(supabaseUrl, supabaseAnonKey);
 };
 
+const supabaseScheme: AuthScheme = {
+  name: 'Bearer',
+  async verify(token) {
+    const supabase = getSupabaseAuth();
+    if (!supabase) {
+      return { success: false, error: 'Supabase client initialization failed' };
+    }
+
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user) {
+      return { success: false, error: error || 'Invalid token' };
+    }
+
+    const { data: sessionData } = await supabase.auth.getSession();
+
+    return {
+      success: true,
+      principal: {
+        method: 'supabase',
+        subject: data.user.id,
+        // Supabase stores phone numbers without the leading +
+        phone: data.user.phone ? normalizePhone(`+${data.user.phone.replace(/^\+/, '')}`) : null,
+      },
+      user: data.user,
+      session: sessionData.session,
+    };
+  },
+};
+
+const phoneScheme: AuthScheme = {
+  name: 'PhoneAuth',
+  async verify(token) {
+    const payload = verifyPhoneAuthToken(token);
+    if (!payload) {
+      return { success: false, error: 'Invalid or expired phone authentication token' };
+    }
+    return {
+      success: true,
+      principal: {
+        method: 'phone',
+        subject: payload.sub,
+        phone: payload.phone,
+        verifiedAt: payload.iat,
+      },
+    };
+  },
+};
+
+const guestScheme: AuthScheme = {
+  name: 'Guest',
+  async verify(token) {
+    const payload = verifyGuestToken(token);
+    if (!payload) {
+      return { success: false, error: 'Invalid or expired guest token' };
+    }
+    return {
+      success: true,
+      principal: { method: 'captcha', subject: payload.sub, phone: null, verifiedAt: payload.iat },
+    };
+  },
+};
+
+const schemes = new Map<string, AuthScheme>();
+
+/**
+ * Register a token scheme (replaces any scheme with the same name)
+ */
+export function registerAuthScheme(scheme: AuthScheme): void {
+  schemes.set(scheme.name.toLowerCase(), scheme);
+}
+
+[supabaseScheme, phoneScheme, guestScheme].forEach(registerAuthScheme);
+
 /**
  * Check if the request has a valid authentication token
  * Returns authenticated request with auth information
  */
 export async function checkAuth(req: Request): Promise<AuthenticatedRequest> {
-  const supabase = getSupabaseAuth();
   const authReq = req as AuthenticatedRequest;
 
   // Default auth state
   authReq.auth = {
     isAuthenticated: false,
+    principal: null,
     user: null,
     session: null,
   };
 
-  if (!supabase) {
-    authReq.auth.error = 'Supabase client initialization failed';
-    return authReq;
-  }
-
   try {
-    // Get JWT token from Authorization header
     const authHeader = req.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const match = authHeader?.match(/^(\S+)\s+(\S+)$/);
+    const scheme = match?.[1] ? schemes.get(match[1].toLowerCase()) : undefined;
+
+    if (!match?.[2] || !scheme) {
       authReq.auth.error = 'Missing or invalid Authorization header';
       return authReq;
     }
 
-    const token = authHeader.replace('Bearer ', '');
-
-    // Verify the token
-    const { data, error } = await supabase.auth.getUser(token);
+    const result = await scheme.verify(match[2]);
 
-    if (error || !data.user) {
-      authReq.auth.error = error || 'Invalid token';
+    if (!result.success) {
+      authReq.auth.error = result.error;
       return authReq;
     }
 
-    // Check if the session is valid
-    const { data: sessionData } = await supabase.auth.getSession();
-
-    // Set authentication info
     authReq.auth = {
       isAuthenticated: true,
-      user: data.user,
-      session: sessionData.session,
+      principal: result.principal,
+      user: result.user ?? null,
+      session: result.session ?? null,
     };
 
     return authReq;
@@ -110,3 +210,12 @@ export async function requireAuth(
 
   return routeHandler(authReq);
 }
+
+/**
+ * Check that a submitted phone number belongs to the caller
+ * Passes when the scheme doesn't prove a phone number (e.g. guests)
+ */
+export function phoneMatchesPrincipal(principal: AuthPrincipal | null, phone: string): boolean {
+  if (!principal?.phone) return true;
+  return normalizePhone(phone) === principal.phone;
+}
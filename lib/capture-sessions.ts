@@ -0,0 +1,211 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createRateLimiter } from './rate-limit';
+import {
+  confirmUploads,
+  issueUploadTicket,
+  parseUploadTicketRequest,
+  UploadConfirmationError,
+  UploadTicket,
+  UploadTicketError,
+} from './upload-tickets';
+import { CaptureSession, CaptureSessionStatus, KycDocumentType } from '../src/types';
+
+/**
+ * Phone capture sessions for verification documents (db/capture-sessions.sql)
+ *
+ * Lets an applicant filling the form on a desktop photograph a document with their phone. The
+ * desktop opens a session for one document type and shows its link as a QR code. The link
+ * carries a random secret; with it the phone gets one upload ticket, issued to the desktop's
+ * caller, uploads the photo and completes the session. The desktop polls the session and puts
+ * the path in its form, and /api/submit confirms it like any other upload.
+ *
+ * Only a hash of the secret is stored. A session hands out a single ticket, and one nobody
+ * claimed expires after CAPTURE_SESSION_TTL_MS.
+ */
+
+export const CAPTURE_SESSION_TTL_MS = 10 * 60 * 1000;
+
+// Limit for opening sessions, per caller
+export const captureSessionLimiter = createRateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 });
+
+export type CaptureSessionError = 'unknown_session' | 'expired' | 'used';
+
+type SessionRow = {
+  id: string;
+  subject: string;
+  document_type: KycDocumentType;
+  status: Exclude<CaptureSessionStatus, 'expired'>;
+  object_path: string | null;
+  expires_at: string;
+};
+
+const SESSION_COLUMNS = 'id, subject, document_type, status, object_path, expires_at';
+
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+const toSession = (row: SessionRow, now: number): CaptureSession => ({
+  id: row.id,
+  documentType: row.document_type,
+  status:
+    row.status === 'pending' && new Date(row.expires_at).getTime() <= now ? 'expired' : row.status,
+  path: row.status === 'completed' ? row.object_path : null,
+  expiresAt: row.expires_at,
+});
+
+/**
+ * The session secret from an `Authorization: Capture <secret>` header
+ * Deliberately not an auth scheme (lib/auth-middleware): the secret only reaches the capture
+ * routes, never the rest of the API.
+ */
+export function readCaptureSecret(req: Request): string | null {
+  const match = req.headers.get('Authorization')?.match(/^Capture\s+([A-Za-z0-9_-]{20,})$/);
+  return match?.[1] || null;
+}
+
+/**
+ * Open a session for the caller; the secret is only ever returned here
+ */
+export async function createCaptureSession(
+  supabase: SupabaseClient,
+  subject: string,
+  documentType: KycDocumentType,
+  now = Date.now()
+): Promise<{ session: CaptureSession; secret: string }> {
+  const secret = randomBytes(32).toString('base64url');
+  const row: SessionRow = {
+    id: randomUUID(),
+    subject,
+    document_type: documentType,
+    status: 'pending',
+    object_path: null,
+    expires_at: new Date(now + CAPTURE_SESSION_TTL_MS).toISOString(),
+  };
+
+  const { error } = await supabase
+    .from('capture_sessions')
+    .insert({ ...row, secret_hash: hashSecret(secret) });
+  if (error) throw error;
+
+  return { session: toSession(row, now), secret };
+}
+
+/**
+ * One of the caller's sessions, or null if there is no such session for them
+ */
+export async function getCaptureSession(
+  supabase: SupabaseClient,
+  subject: string,
+  id: string,
+  now = Date.now()
+): Promise<CaptureSession | null> {
+  const { data, error } = await supabase
+    .from('capture_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('id', id)
+    .eq('subject', subject)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data ? toSession(data as SessionRow, now) : null;
+}
+
+const findBySecret = async (supabase: SupabaseClient, secret: string) => {
+  const { data, error } = await supabase
+    .from('capture_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('secret_hash', hashSecret(secret))
+    .maybeSingle();
+  if (error) throw error;
+
+  return data as SessionRow | null;
+};
+
+/**
+ * The session a phone is holding the secret for
+ */
+export async function lookupCaptureSession(
+  supabase: SupabaseClient,
+  secret: string,
+  now = Date.now()
+): Promise<CaptureSession | null> {
+  const row = await findBySecret(supabase, secret);
+  return row ? toSession(row, now) : null;
+}
+
+/**
+ * Issue the session's one upload ticket, for the desktop's caller and document type
+ * `body` is a ticket request without the document type (see parseUploadTicketRequest).
+ */
+export async function claimCaptureSession(
+  supabase: SupabaseClient,
+  secret: string,
+  body: unknown,
+  now = Date.now()
+): Promise<
+  | { success: true; data: UploadTicket }
+  | { success: false; error: CaptureSessionError | UploadTicketError }
+> {
+  const row = await findBySecret(supabase, secret);
+  if (!row) return { success: false, error: 'unknown_session' };
+
+  const session = toSession(row, now);
+  if (session.status === 'expired') return { success: false, error: 'expired' };
+  if (session.status !== 'pending') return { success: false, error: 'used' };
+
+  const parsed = parseUploadTicketRequest({
+    ...(body as Record<string, unknown>),
+    documentType: row.document_type,
+  });
+  if (!parsed.success) return parsed;
+
+  const ticket = await issueUploadTicket(supabase, row.subject, parsed.data, now);
+
+  // Only one claim wins; a ticket issued to a losing request is never used
+  const { data, error } = await supabase
+    .from('capture_sessions')
+    .update({ status: 'uploading', object_path: ticket.path })
+    .eq('id', row.id)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) return { success: false, error: 'used' };
+
+  return { success: true, data: ticket };
+}
+
+/**
+ * Confirm the phone's upload (confirmUploads) and complete the session
+ */
+export async function completeCaptureSession(
+  supabase: SupabaseClient,
+  secret: string,
+  now = Date.now()
+): Promise<
+  | { success: true; data: CaptureSession }
+  | { success: false; error: CaptureSessionError | UploadConfirmationError }
+> {
+  const row = await findBySecret(supabase, secret);
+  if (!row) return { success: false, error: 'unknown_session' };
+  if (row.status === 'completed') return { success: false, error: 'used' };
+  if (row.status !== 'uploading' || !row.object_path) {
+    return { success: false, error: 'not_uploaded' };
+  }
+
+  const confirmed = await confirmUploads(
+    supabase,
+    row.subject,
+    [{ type: row.document_type, file_path: row.object_path }],
+    now
+  );
+  if (!confirmed.success) return { success: false, error: confirmed.error };
+
+  const { error } = await supabase
+    .from('capture_sessions')
+    .update({ status: 'completed', completed_at: new Date(now).toISOString() })
+    .eq('id', row.id)
+    .eq('status', 'uploading');
+  if (error) throw error;
+
+  return { success: true, data: toSession({ ...row, status: 'completed' }, now) };
+}
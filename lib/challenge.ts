@@ -0,0 +1,192 @@
+import { createHash, randomBytes } from 'crypto';
+import { getPhoneAuthSecret } from './phone-auth-token';
+import { signToken, SignedTokenClaims, verifyToken } from './signed-token';
+import { config } from '../src/config';
+import { ChallengeProviderName } from '../src/types';
+import { logger } from '../src/utils/logger';
+import { leadingZeroBits } from '../src/utils/proofOfWork';
+
+/**
+ * Server-side bot challenge verification
+ *
+ * The provider is chosen with config.challenge.provider:
+ * - pow: self-hosted proof of work, no external service
+ * - hcaptcha / turnstile: widget token checked against the vendor's siteverify API
+ *   using CHALLENGE_SECRET_KEY
+ */
+
+// How long a solved challenge counts as fresh for /api/submit
+export const CHALLENGE_MAX_AGE_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+export const POW_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+export const POW_DEFAULT_DIFFICULTY = 16; // leading zero bits, ~65k hashes on average
+
+export type ChallengeVerifyResult = { success: true } | { success: false; error: string };
+
+export interface IssuedChallenge {
+  challenge: string;
+  difficulty: number;
+  expires: number;
+}
+
+export interface ChallengeProvider {
+  name: ChallengeProviderName;
+  // Only providers that generate their own puzzles implement issue
+  issue?(): Promise<IssuedChallenge>;
+  verify(response: string, remoteIp?: string | null): Promise<ChallengeVerifyResult>;
+}
+
+interface PowChallengeClaims extends SignedTokenClaims {
+  typ: 'pow';
+  difficulty: number;
+}
+
+/**
+ * Proof of work: the client must find a nonce so that SHA-256(`${challenge}:${nonce}`)
+ * starts with `difficulty` zero bits. The response is `${challenge}:${nonce}`.
+ * Solved challenges are remembered until they expire so each can only be used once
+ * (per server instance).
+ */
+export function createPowChallengeProvider(
+  difficulty: number = POW_DEFAULT_DIFFICULTY
+): ChallengeProvider {
+  const used = new Map<string, number>();
+
+  const forgetExpired = (now: number) => {
+    used.forEach((exp, id) => {
+      if (exp <= now) used.delete(id);
+    });
+  };
+
+  return {
+    name: 'pow',
+    async issue() {
+      const now = Date.now();
+      const claims: PowChallengeClaims = {
+        typ: 'pow',
+        sub: randomBytes(16).toString('hex'),
+        iat: now,
+        exp: now + POW_CHALLENGE_TTL_MS,
+        difficulty,
+      };
+      return {
+        challenge: signToken(claims, getPhoneAuthSecret()),
+        difficulty,
+        expires: claims.exp,
+      };
+    },
+    async verify(response) {
+      const separator = response.lastIndexOf(':');
+      const challenge = response.substring(0, separator);
+      const nonce = response.substring(separator + 1);
+      const now = Date.now();
+
+      if (separator <= 0 || !/^[0-9]{1,16}$/.test(nonce)) {
+        return { success: false, error: 'Malformed challenge response' };
+      }
+
+      const claims = verifyToken<PowChallengeClaims>(challenge, 'pow', getPhoneAuthSecret(), now);
+      if (!claims) {
+        return { success: false, error: 'Challenge expired or invalid' };
+      }
+
+      forgetExpired(now);
+      if (used.has(claims.sub)) {
+        return { success: false, error: 'Challenge already used' };
+      }
+
+      const digest = createHash('sha256').update(`${challenge}:${nonce}`).digest();
+      if (leadingZeroBits(digest) < claims.difficulty) {
+        return { success: false, error: 'Incorrect challenge solution' };
+      }
+
+      used.set(claims.sub, claims.exp);
+      return { success: true };
+    },
+  };
+}
+
+/**
+ * hCaptcha and Turnstile share the same siteverify request and response shape
+ */
+export function createSiteverifyChallengeProvider(
+  name: 'hcaptcha' | 'turnstile',
+  secretKey: string,
+  siteKey: string = ''
+): ChallengeProvider {
+  const url =
+    name === 'hcaptcha'
+      ? 'https://api.hcaptcha.com/siteverify'
+      : 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+  return {
+    name,
+    async verify(response, remoteIp) {
+      const body = new URLSearchParams({ secret: secretKey, response });
+      if (remoteIp) body.set('remoteip', remoteIp);
+      if (name === 'hcaptcha' && siteKey) body.set('sitekey', siteKey);
+
+      const result = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: body.toString(),
+      });
+
+      if (!result.ok) {
+        logger.error(`${name} siteverify request failed`, { status: result.status });
+        return { success: false, error: 'Verification service unavailable' };
+      }
+
+      const data: { success?: boolean; 'error-codes'?: string[] } = await result.json();
+      if (!data.success) {
+        logger.warn(`${name} verification rejected`, { errors: data['error-codes'] });
+        return { success: false, error: 'Verification failed' };
+      }
+
+      return { success: true };
+    },
+  };
+}
+
+let provider: ChallengeProvider | null = null;
+
+/**
+ * Get the challenge provider selected in src/config.ts
+ */
+export function getChallengeProvider(): ChallengeProvider {
+  if (provider) return provider;
+
+  const { provider: name, siteKey } = config.challenge;
+
+  if (name === 'hcaptcha' || name === 'turnstile') {
+    const secretKey = process.env.CHALLENGE_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error(`Challenge provider "${name}" requires CHALLENGE_SECRET_KEY`);
+    }
+    provider = createSiteverifyChallengeProvider(name, secretKey, siteKey);
+  } else {
+    const difficulty = parseInt(process.env.CHALLENGE_POW_DIFFICULTY || '', 10);
+    provider = createPowChallengeProvider(
+      Number.isFinite(difficulty) ? difficulty : POW_DEFAULT_DIFFICULTY
+    );
+  }
+
+  return provider;
+}
+
+/**
+ * Override the provider (tests)
+ */
+export function setChallengeProvider(next: ChallengeProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Whether a challenge solved at `verifiedAt` is recent enough to submit with
+ */
+export function isChallengeFresh(
+  verifiedAt: number | undefined,
+  now: number = Date.now()
+): boolean {
+  return verifiedAt !== undefined && now - verifiedAt <= CHALLENGE_MAX_AGE_MS;
+}
@@ -6,6 +6,9 @@ import { logger } from '../src/utils/logger';
  * Uses double submit cookie pattern
  */
 
+// CSRF cookie lifetime in seconds
+export const CSRF_TOKEN_MAX_AGE = 60 * 60; // 1 hour
+
 // Generate a cryptographically secure random token
 export function generateCSRFToken(): string {
   const buffer = new Uint8Array(32);
@@ -29,39 +32,46 @@ export function setCSRFCookie(response: NextResponse, token?: string): string {
     sameSite: 'strict',
     path: '/',
     // Short expiration time for security
-    maxAge: 60 * 60, // 1 hour
+    maxAge: CSRF_TOKEN_MAX_AGE,
   });
 
   return csrfToken;
 }
 
+// Read the CSRF cookie from a request
+export function getCSRFCookie(request: Request): string | null {
+  const cookieHeader = request.headers.get('cookie');
+  if (!cookieHeader) return null;
+
+  // Parse cookies
+  const cookies: Record<string, string> = {};
+
+  // Safely parse cookies
+  cookieHeader.split(';').forEach(cookie => {
+    const parts = cookie.trim().split('=');
+    if (parts.length >= 2 && parts[0] !== undefined) {
+      const key = parts[0].trim();
+      const value = parts.slice(1).join('=').trim(); // Handle values that may contain =
+      if (key && key.length > 0) {
+        cookies[key] = value;
+      }
+    }
+  });
+
+  return cookies['csrf_token'] || null;
+}
+
 // Validate CSRF token from request
 export function validateCSRFToken(request: Request, token: string): boolean {
   try {
     // Get token from cookie
-    const cookieHeader = request.headers.get('cookie');
-    if (!cookieHeader) {
+    if (!request.headers.get('cookie')) {
       logger.warn('CSRF validation failed: No cookies in request');
       return false;
     }
 
-    // Parse cookies
-    const cookies: Record<string, string> = {};
-
-    // Safely parse cookies
-    cookieHeader.split(';').forEach(cookie => {
-      const parts = cookie.trim().split('=');
-      if (parts.length >= 2 && parts[0] !== undefined) {
-        const key = parts[0].trim();
-        const value = parts.slice(1).join('=').trim(); // Handle values that may contain =
-        if (key && key.length > 0) {
-          cookies[key] = value;
-        }
-      }
-    });
-
     // Get CSRF cookie
-    const csrfCookie = cookies['csrf_token'];
+    const csrfCookie = getCSRFCookie(request);
 
     if (!csrfCookie) {
       logger.warn('CSRF validation failed: No CSRF cookie found');
@@ -83,8 +93,16 @@ export function validateCSRFToken(request: Request, token: string): boolean {
   }
 }
 
+interface CSRFOptions {
+  // Replace the cookie after a successful request so the token cannot be reused
+  rotateOnSuccess?: boolean;
+}
+
 // CSRF middleware for API routes
-export function withCSRF(handler: (req: Request) => Promise<NextResponse>) {
+export function withCSRF(
+  handler: (req: Request) => Promise<NextResponse>,
+  options: CSRFOptions = {}
+) {
   return async (request: Request) => {
     // Only validate POST, PUT, DELETE, PATCH requests
     const method = request.method.toUpperCase();
@@ -124,7 +142,15 @@ export function withCSRF(handler: (req: Request) => Promise<NextResponse>) {
       }
 
       // CSRF validation successful
-      return handler(request);
+      const response = await handler(request);
+
+      // Rotate the token so the one used by this request is no longer valid.
+      // The client has to fetch a fresh token from /api/csrf for the next submission.
+      if (options.rotateOnSuccess && response.ok) {
+        setCSRFCookie(response);
+      }
+
+      return response;
     } catch (error) {
       logger.error('CSRF middleware error', error);
       return NextResponse.json(
@@ -0,0 +1,343 @@
+import { createHash } from 'crypto';
+import {
+  detectImageFormat,
+  IMAGE_MAX_DIMENSION,
+  readJpegDimensions,
+} from '../src/utils/imageProcessing';
+
+/**
+ * Server-side checks on uploaded verification documents (confirmUploads in lib/upload-tickets.ts)
+ *
+ * The content type a file arrives with is whatever the browser said, so the bytes decide
+ * instead: the magic number gives the format, the file has to end where its format says it
+ * ends with nothing hidden in its metadata or after it, and images have to be within pixel
+ * limits. Compressed image and stream data isn't searched - any byte sequence turns up in it.
+ */
+
+export type DocumentFormat = 'jpeg' | 'png' | 'heic' | 'pdf';
+
+export const DOCUMENT_CONTENT_TYPES: Record<DocumentFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+};
+
+// Shorter side below this is too small to read an ID
+export const DOCUMENT_MIN_DIMENSION = 320;
+// FileUpload downscales photos to IMAGE_MAX_DIMENSION; anything bigger didn't come from it
+export const DOCUMENT_MAX_DIMENSION = IMAGE_MAX_DIMENSION;
+
+export type DocumentInspectionError =
+  'unsupported_format' | 'corrupt' | 'truncated' | 'polyglot' | 'bad_dimensions';
+
+export interface DocumentInspection {
+  format: DocumentFormat;
+  contentType: string;
+  // Null for PDFs
+  width: number | null;
+  height: number | null;
+  // Hex SHA-256 of the whole file
+  sha256: string;
+}
+
+// Offset just past the end of the format's data, or why it couldn't be found
+type EndResult = number | 'corrupt' | 'truncated';
+
+// Start and end offsets of a part of the file searched for embedded formats
+type ByteRange = [number, number];
+
+// Starts of formats a PDF reader, unzip tool or browser would find inside an otherwise valid
+// file. Compared case-insensitively.
+const EMBEDDED_SIGNATURES = [
+  '%pdf-',
+  'pk\x03\x04',
+  '<html',
+  '<script',
+  '<svg',
+  '<?php',
+  '<!doctype',
+];
+
+// Bytes allowed after the end of the data - NUL padding and a PDF's final line break
+const PADDING_BYTES = [0x00, 0x09, 0x0a, 0x0d, 0x20];
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode.apply(null, Array.from(bytes.subarray(start, start + length)));
+
+const toLowerAscii = (byte: number) => (byte >= 0x41 && byte <= 0x5a ? byte + 0x20 : byte);
+
+/**
+ * First signature from `signatures` found in any of the ranges
+ */
+function findEmbeddedSignature(
+  bytes: Uint8Array,
+  signatures: readonly string[],
+  ranges: readonly ByteRange[]
+): string | null {
+  const firstBytes = signatures.map(signature => signature.charCodeAt(0));
+
+  for (const [start, end] of ranges) {
+    for (let i = start; i < end; i++) {
+      const byte = toLowerAscii(bytes[i] as number);
+      if (!firstBytes.includes(byte)) continue;
+
+      const found = signatures.find(signature => {
+        if (i + signature.length > end) return false;
+        for (let j = 0; j < signature.length; j++) {
+          if (toLowerAscii(bytes[i + j] as number) !== signature.charCodeAt(j)) return false;
+        }
+        return true;
+      });
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Offset just past a JPEG's end-of-image marker
+ * The contents of APPn and comment segments - EXIF, XMP and the like - go in `metadata`.
+ */
+function findJpegEnd(bytes: Uint8Array, metadata: ByteRange[]): EndResult {
+  let offset = 2;
+  while (offset + 2 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return 'corrupt';
+    const marker = bytes[offset + 1] as number;
+
+    if (marker === 0xff) {
+      // Fill byte
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd9) return offset + 2;
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      // Restart and TEM markers have no length
+      offset += 2;
+      continue;
+    }
+
+    if (offset + 4 > bytes.length) return 'truncated';
+    const length = ((bytes[offset + 2] as number) << 8) | (bytes[offset + 3] as number);
+    if (length < 2) return 'corrupt';
+    if ((marker >= 0xe0 && marker <= 0xef) || marker === 0xfe) {
+      metadata.push([offset + 4, Math.min(offset + 2 + length, bytes.length)]);
+    }
+    offset += 2 + length;
+
+    if (marker === 0xda) {
+      // Entropy-coded data runs until a marker other than a stuffed zero or a restart
+      while (offset + 1 < bytes.length) {
+        const next = bytes[offset + 1] as number;
+        if (bytes[offset] === 0xff && next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) break;
+        offset += 1;
+      }
+      if (offset + 1 >= bytes.length) return 'truncated';
+    }
+  }
+  return 'truncated';
+}
+
+// PNG chunks holding compressed data, which isn't searched
+const PNG_COMPRESSED_CHUNKS = ['IDAT', 'zTXt', 'iCCP'];
+
+/**
+ * Offset just past a PNG's IEND chunk
+ * The contents of every other chunk go in `metadata`.
+ */
+function findPngEnd(bytes: Uint8Array, view: DataView, metadata: ByteRange[]): EndResult {
+  let offset = 8;
+  for (;;) {
+    if (offset + 12 > bytes.length) return 'truncated';
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (length > 0x7fffffff || (offset === 8 && type !== 'IHDR')) return 'corrupt';
+
+    const end = offset + 12 + length;
+    if (end > bytes.length) return 'truncated';
+    if (type === 'IEND') return end;
+    if (!PNG_COMPRESSED_CHUNKS.includes(type)) metadata.push([offset + 8, end - 4]);
+    offset = end;
+  }
+}
+
+interface Box {
+  type: string;
+  // Offset of the box's contents, after its header
+  start: number;
+  end: number;
+}
+
+/**
+ * ISO BMFF boxes laid end to end between `start` and `end`
+ */
+function readBoxes(view: DataView, start: number, end: number): Box[] | 'corrupt' | 'truncated' {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    if (offset + 8 > end) return 'truncated';
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return 'truncated';
+      size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      // Runs to the end of the file
+      size = end - offset;
+    }
+    if (size < header) return 'corrupt';
+    if (offset + size > end) return 'truncated';
+
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4),
+      view.getUint8(offset + 5),
+      view.getUint8(offset + 6),
+      view.getUint8(offset + 7)
+    );
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * Size of the largest image in a HEIC's item properties (meta > iprp > ipco > ispe)
+ * The primary image is the full-size one; grid tiles and thumbnails are smaller.
+ */
+function readHeicDimensions(
+  view: DataView,
+  boxes: Box[]
+): { width: number; height: number } | null {
+  const child = (parent: Box | undefined, type: string, skip = 0) => {
+    if (!parent) return [];
+    const children = readBoxes(view, parent.start + skip, parent.end);
+    return typeof children === 'string' ? [] : children.filter(box => box.type === type);
+  };
+
+  // meta is a full box: version and flags come before its children
+  const ipco = child(
+    child(
+      boxes.find(box => box.type === 'meta'),
+      'iprp',
+      4
+    )[0],
+    'ipco'
+  )[0];
+  return child(ipco, 'ispe').reduce<{ width: number; height: number } | null>((largest, box) => {
+    if (box.start + 12 > box.end) return largest;
+    // ispe is a full box too
+    const width = view.getUint32(box.start + 4);
+    const height = view.getUint32(box.start + 8);
+    return !largest || width * height > largest.width * largest.height
+      ? { width, height }
+      : largest;
+  }, null);
+}
+
+/**
+ * Offset just past a PDF's last %%EOF marker
+ */
+function findPdfEnd(bytes: Uint8Array): EndResult {
+  for (let i = bytes.length - 5; i >= 0; i--) {
+    if (bytes[i] === 0x25 && ascii(bytes, i, 5) === '%%EOF') return i + 5;
+  }
+  return 'truncated';
+}
+
+/**
+ * The parts of a PDF outside its streams, which are usually compressed
+ */
+function readPdfMetadata(bytes: Uint8Array, end: number): ByteRange[] {
+  const text = Buffer.from(bytes.buffer, bytes.byteOffset, end).toString('latin1');
+  const ranges: ByteRange[] = [];
+  const streamStart = /\bstream\r?\n/g;
+  let offset = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamStart.exec(text))) {
+    ranges.push([offset, match.index]);
+    const streamEnd = text.indexOf('endstream', streamStart.lastIndex);
+    if (streamEnd === -1) return ranges;
+    offset = streamEnd;
+    streamStart.lastIndex = streamEnd + 'endstream'.length;
+  }
+  ranges.push([offset, end]);
+  return ranges;
+}
+
+const detectDocumentFormat = (bytes: Uint8Array): DocumentFormat | null => {
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'pdf';
+  const format = detectImageFormat(bytes);
+  return format === 'webp' ? null : format;
+};
+
+/**
+ * Check an uploaded file's format, structure and size, and hash it
+ */
+export function inspectDocument(
+  bytes: Uint8Array
+):
+  { success: true; data: DocumentInspection } | { success: false; error: DocumentInspectionError } {
+  const format = detectDocumentFormat(bytes);
+  if (!format) return { success: false, error: 'unsupported_format' };
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end: EndResult;
+  let dimensions: { width: number; height: number } | null = null;
+  const metadata: ByteRange[] = [];
+
+  if (format === 'jpeg') {
+    end = findJpegEnd(bytes, metadata);
+    dimensions = readJpegDimensions(bytes);
+  } else if (format === 'png') {
+    end = findPngEnd(bytes, view, metadata);
+    if (typeof end === 'number') {
+      dimensions = { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+  } else if (format === 'heic') {
+    const boxes = readBoxes(view, 0, bytes.length);
+    end = typeof boxes === 'string' ? boxes : bytes.length;
+    if (typeof boxes !== 'string') {
+      dimensions = readHeicDimensions(view, boxes);
+      // mdat holds the coded image
+      boxes.filter(box => box.type !== 'mdat').forEach(box => metadata.push([box.start, box.end]));
+    }
+  } else {
+    end = findPdfEnd(bytes);
+    if (typeof end === 'number') metadata.push(...readPdfMetadata(bytes, end));
+  }
+
+  if (typeof end === 'string') return { success: false, error: end };
+  if (format !== 'pdf' && !dimensions) return { success: false, error: 'corrupt' };
+
+  // Data after the end is a second file riding along
+  for (let i = end; i < bytes.length; i++) {
+    if (!PADDING_BYTES.includes(bytes[i] as number)) return { success: false, error: 'polyglot' };
+  }
+  const signatures =
+    format === 'pdf'
+      ? EMBEDDED_SIGNATURES.filter(signature => signature !== '%pdf-')
+      : EMBEDDED_SIGNATURES;
+  if (findEmbeddedSignature(bytes, signatures, metadata))
+    return { success: false, error: 'polyglot' };
+
+  if (
+    dimensions &&
+    (Math.min(dimensions.width, dimensions.height) < DOCUMENT_MIN_DIMENSION ||
+      Math.max(dimensions.width, dimensions.height) > DOCUMENT_MAX_DIMENSION)
+  ) {
+    return { success: false, error: 'bad_dimensions' };
+  }
+
+  return {
+    success: true,
+    data: {
+      format,
+      contentType: DOCUMENT_CONTENT_TYPES[format],
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      sha256: createHash('sha256').update(bytes).digest('hex'),
+    },
+  };
+}
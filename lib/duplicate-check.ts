@@ -0,0 +1,72 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { normalizePhone } from './otp';
+import { createRateLimiter } from './rate-limit';
+
+/**
+ * Server-side duplicate checks for signup identifiers
+ * Backed by the check_signup_duplicates function in db/duplicate-check.sql
+ */
+
+export interface DuplicateCheckInput {
+  username: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export type DuplicateCheckFlags = Partial<Record<keyof DuplicateCheckInput, boolean>>;
+
+const WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+
+// Limits for /api/check-duplicates, per client IP and per caller on that IP - the signed-in
+// principal, or everyone without one together
+export const duplicateCheckLimiters = {
+  ip: createRateLimiter({ limit: 60, windowMs: WINDOW_MS }),
+  caller: createRateLimiter({ limit: 20, windowMs: WINDOW_MS }),
+};
+
+const normalizeText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+
+/**
+ * Normalize user input the same way the database function compares it:
+ * lower-cased username and email, E.164 phone
+ */
+export function normalizeDuplicateCheckInput(body: Record<string, unknown>): DuplicateCheckInput {
+  return {
+    username: normalizeText(body.username),
+    email: normalizeText(body.email),
+    phone: typeof body.phone === 'string' && body.phone ? normalizePhone(body.phone) : null,
+  };
+}
+
+/**
+ * Check which of the given identifiers are already used
+ * Only fields present in the input are included in the result
+ */
+export async function checkSignupDuplicates(
+  supabase: SupabaseClient,
+  input: DuplicateCheckInput
+): Promise<{ success: true; data: DuplicateCheckFlags } | { success: false; error: unknown }> {
+  const { data, error } = await supabase
+    .rpc('check_signup_duplicates', {
+      p_username: input.username,
+      p_phone: input.phone,
+      p_email: input.email,
+    })
+    .single();
+
+  if (error) {
+    return { success: false, error };
+  }
+
+  const row = data as { username_taken: boolean; phone_taken: boolean; email_taken: boolean };
+
+  return {
+    success: true,
+    data: {
+      ...(input.username ? { username: row.username_taken } : {}),
+      ...(input.phone ? { phone: row.phone_taken } : {}),
+      ...(input.email ? { email: row.email_taken } : {}),
+    },
+  };
+}
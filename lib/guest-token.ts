@@ -0,0 +1,47 @@
+import { randomBytes } from 'crypto';
+import { getPhoneAuthSecret } from './phone-auth-token';
+import { signToken, SignedTokenClaims, verifyToken } from './signed-token';
+
+/**
+ * Signed tokens for guests who passed a bot challenge (lib/challenge) instead of signing in
+ *
+ * Sent by the client as `Authorization: Guest <token>`.
+ */
+
+export const GUEST_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface GuestTokenPayload extends SignedTokenClaims {
+  typ: 'guest';
+  // Random per-guest id
+  sub: string;
+  // Challenge provider that verified the guest (iat is the verification time)
+  challenge: string;
+}
+
+/**
+ * Issue a token for a guest who just passed a challenge
+ */
+export function signGuestToken(
+  challenge: string,
+  now: number = Date.now()
+): { token: string; payload: GuestTokenPayload } {
+  const payload: GuestTokenPayload = {
+    typ: 'guest',
+    sub: `guest_${randomBytes(12).toString('hex')}`,
+    challenge,
+    iat: now,
+    exp: now + GUEST_TOKEN_TTL_MS,
+  };
+
+  return { token: signToken(payload, getPhoneAuthSecret()), payload };
+}
+
+/**
+ * Verify a guest token's signature and expiry
+ */
+export function verifyGuestToken(
+  token: string,
+  now: number = Date.now()
+): GuestTokenPayload | null {
+  return verifyToken<GuestTokenPayload>(token, 'guest', getPhoneAuthSecret(), now);
+}
@@ -0,0 +1,146 @@
+import { randomBytes } from 'crypto';
+import { sendSmtpMail, SmtpOptions } from './smtp-client';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Pluggable email delivery for signup notifications
+ *
+ * Select the transport with MAIL_TRANSPORT:
+ * - console (default outside production): logs the message
+ * - smtp: sends through SMTP_HOST, e.g. a relay or the local sink (npm run smtp-sink)
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  // Stable id so downstream systems can drop duplicates
+  messageId?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it isn't plain ASCII
+ */
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * Bare address from a "Name <address>" mailbox
+ */
+const mailAddress = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox;
+
+/**
+ * Build a plain text RFC 5322 message
+ */
+export function buildMimeMessage(
+  from: string,
+  message: MailMessage,
+  now: Date = new Date()
+): string {
+  const domain = mailAddress(from).split('@')[1] || 'localhost';
+  const messageId = message.messageId || randomBytes(16).toString('hex');
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${messageId}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    // Wrapped at 76 characters per RFC 2045
+    (
+      Buffer.from(message.text, 'utf8')
+        .toString('base64')
+        .match(/.{1,76}/g) || []
+    ).join('\r\n'),
+  ].join('\r\n');
+}
+
+/**
+ * Development transport - prints the message instead of sending it
+ */
+export const consoleMailTransport: MailTransport = {
+  name: 'console',
+  async send({ to, subject, text }) {
+    logger.info(`[Email] to ${to}: ${subject}\n${text}`);
+  },
+};
+
+export function createSmtpMailTransport(options: SmtpOptions, from: string): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      if (/[\r\n<>,]/.test(message.to)) {
+        throw new Error('Invalid recipient address');
+      }
+      await sendSmtpMail(
+        options,
+        { from: mailAddress(from), to: [message.to] },
+        buildMimeMessage(from, message)
+      );
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Address notifications are sent from
+ */
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'Flash Signups <no-reply@getflash.io>';
+}
+
+/**
+ * Get the mail transport configured for this environment
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const selected =
+    process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+
+  switch (selected) {
+    case 'smtp': {
+      const { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE } = process.env;
+      if (!SMTP_HOST) {
+        throw new Error('SMTP mail transport selected but SMTP_HOST is missing');
+      }
+      transport = createSmtpMailTransport(
+        {
+          host: SMTP_HOST,
+          port: parseInt(SMTP_PORT || (SMTP_SECURE === 'true' ? '465' : '587'), 10),
+          secure: SMTP_SECURE === 'true',
+          ...(SMTP_USER ? { user: SMTP_USER, password: SMTP_PASSWORD || '' } : {}),
+        },
+        getMailFrom()
+      );
+      break;
+    }
+    case 'console':
+      transport = consoleMailTransport;
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${selected}"`);
+  }
+
+  logger.info('Mail transport initialized', { transport: transport.name });
+  return transport;
+}
+
+/**
+ * Override the transport (tests)
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
@@ -0,0 +1,131 @@
+import { MailMessage } from './mailer';
+
+/**
+ * Email templates for signup notifications
+ * Placeholders are written as {{name}} and filled from the signup row.
+ */
+
+export interface NotificationSignup {
+  id: string;
+  created_at: string;
+  name: string;
+  username: string;
+  email: string | null;
+  phone: string;
+  account_type: string;
+  business_name: string | null;
+  business_address: string | null;
+  wants_terminal: boolean | null;
+}
+
+export interface RenderedNotification {
+  // Identifies the message within its outbox row, e.g. 'support'
+  key: string;
+  message: MailMessage;
+}
+
+export interface NotificationTemplateOptions {
+  supportEmail: string;
+  // Public site URL for links, e.g. https://signup.getflash.io
+  siteUrl: string;
+}
+
+interface EmailTemplate {
+  subject: string;
+  text: string;
+}
+
+export const EMAIL_TEMPLATES = {
+  supportNewSignup: {
+    subject: 'New {{account_type}} signup: {{display_name}}',
+    text: `A new {{account_type}} signup needs review.
+
+Name: {{name}}
+Username: {{username}}
+Business: {{business_name}}
+Address: {{business_address}}
+Phone: {{phone}}
+Email: {{email}}
+Wants terminal: {{wants_terminal}}
+Submitted: {{created_at}}
+
+Review it at {{admin_url}}
+`,
+  },
+  applicantReceived: {
+    subject: 'We received your Flash application',
+    text: `Hi {{name}},
+
+Thanks for applying for a Flash {{account_type}} account. Our team is reviewing your application and will contact you within 1-3 business days.
+
+You can check its progress at any time at {{status_url}}
+
+- The Flash team
+`,
+  },
+} satisfies Record<string, EmailTemplate>;
+
+/**
+ * Fill {{name}} placeholders - unknown names render as an empty string
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => values[name] ?? '');
+}
+
+const render = (template: EmailTemplate, values: Record<string, string>) => ({
+  subject: renderTemplate(template.subject, values),
+  text: renderTemplate(template.text, values),
+});
+
+/**
+ * Emails to send for an outbox row
+ * Returns an empty list for actions that don't send email.
+ */
+export function buildSignupNotifications(
+  action: string,
+  notificationId: string,
+  signup: NotificationSignup,
+  options: NotificationTemplateOptions
+): RenderedNotification[] {
+  if (action !== 'notification_needed') return [];
+
+  const siteUrl = options.siteUrl.replace(/\/+$/, '');
+  const values: Record<string, string> = {
+    name: signup.name,
+    username: signup.username,
+    display_name: signup.business_name || signup.name,
+    account_type: signup.account_type,
+    business_name: signup.business_name || '-',
+    business_address: signup.business_address || '-',
+    phone: signup.phone,
+    email: signup.email || '-',
+    wants_terminal: signup.wants_terminal ? 'Yes' : 'No',
+    created_at: new Date(signup.created_at).toUTCString(),
+    admin_url: `${siteUrl}/admin`,
+    status_url: `${siteUrl}/status`,
+  };
+
+  const notifications: RenderedNotification[] = [
+    {
+      key: 'support',
+      message: {
+        to: options.supportEmail,
+        ...render(EMAIL_TEMPLATES.supportNewSignup, values),
+        messageId: `signup-log-${notificationId}-support`,
+      },
+    },
+  ];
+
+  if (signup.email) {
+    notifications.push({
+      key: 'applicant',
+      message: {
+        to: signup.email,
+        ...render(EMAIL_TEMPLATES.applicantReceived, values),
+        messageId: `signup-log-${notificationId}-applicant`,
+      },
+    });
+  }
+
+  return notifications;
+}
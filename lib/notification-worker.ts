@@ -0,0 +1,221 @@
+import { randomBytes } from 'crypto';
+import { getMailTransport, MailTransport } from './mailer';
+import {
+  NotificationSignup,
+  NotificationTemplateOptions,
+  buildSignupNotifications,
+} from './notification-templates';
+import { getSupabaseAdmin } from './supabase-admin';
+import { config } from '../src/config';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Notification worker for the signup_logs outbox (db/notification-outbox.sql)
+ *
+ * Each run claims due rows under a lease, sends their emails and marks them sent.
+ * Failed sends are retried with exponential backoff; messages that already went out are
+ * recorded on the row and skipped on retry, so a row never emails anyone twice.
+ */
+
+export const NOTIFICATION_MAX_ATTEMPTS = 6;
+export const NOTIFICATION_RETRY_BASE_MS = 60 * 1000; // 1 minute
+export const NOTIFICATION_RETRY_MAX_MS = 60 * 60 * 1000; // 1 hour
+export const NOTIFICATION_LEASE_MS = 5 * 60 * 1000;
+export const NOTIFICATION_BATCH_SIZE = 10;
+
+export interface OutboxNotification {
+  id: string;
+  signupId: string | null;
+  action: string;
+  // Includes this run's claim
+  attempts: number;
+  delivered: string[];
+}
+
+/**
+ * Storage for outbox rows
+ * complete and fail only apply while the worker still holds the row's lease.
+ */
+export interface NotificationStore {
+  claim(workerId: string, limit: number, leaseMs: number): Promise<OutboxNotification[]>;
+  complete(id: string, workerId: string, delivered: string[]): Promise<void>;
+  fail(
+    id: string,
+    workerId: string,
+    delivered: string[],
+    error: string,
+    retryAt: number | null
+  ): Promise<void>;
+  loadSignup(signupId: string): Promise<NotificationSignup | null>;
+}
+
+/**
+ * Supabase-backed store using the outbox functions in db/notification-outbox.sql
+ */
+export function createSupabaseNotificationStore(): NotificationStore | null {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) return null;
+
+  type Row = {
+    id: string;
+    signup_id: string | null;
+    action: string;
+    attempts: number;
+    delivered: string[] | null;
+  };
+
+  return {
+    async claim(workerId, limit, leaseMs) {
+      const { data, error } = await supabase.rpc('claim_notifications', {
+        p_worker: workerId,
+        p_limit: limit,
+        p_lease_seconds: Math.ceil(leaseMs / 1000),
+      });
+      if (error) throw error;
+      return ((data || []) as Row[]).map(row => ({
+        id: row.id,
+        signupId: row.signup_id,
+        action: row.action,
+        attempts: row.attempts,
+        delivered: row.delivered || [],
+      }));
+    },
+    async complete(id, workerId, delivered) {
+      const { error } = await supabase.rpc('complete_notification', {
+        p_id: id,
+        p_worker: workerId,
+        p_delivered: delivered,
+      });
+      if (error) throw error;
+    },
+    async fail(id, workerId, delivered, message, retryAt) {
+      const { error } = await supabase.rpc('fail_notification', {
+        p_id: id,
+        p_worker: workerId,
+        p_delivered: delivered,
+        p_error: message,
+        p_retry_at: retryAt === null ? null : new Date(retryAt).toISOString(),
+      });
+      if (error) throw error;
+    },
+    async loadSignup(signupId) {
+      const { data, error } = await supabase
+        .from('signups')
+        .select(
+          'id, created_at, name, username, email, phone, account_type, business_name, business_address, wants_terminal'
+        )
+        .eq('id', signupId)
+        .maybeSingle();
+      if (error) throw error;
+      return data as NotificationSignup | null;
+    },
+  };
+}
+
+/**
+ * Delay before the next attempt, doubling from NOTIFICATION_RETRY_BASE_MS
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    NOTIFICATION_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0),
+    NOTIFICATION_RETRY_MAX_MS
+  );
+}
+
+export interface NotificationWorkerOptions {
+  store?: NotificationStore;
+  transport?: MailTransport;
+  templates?: NotificationTemplateOptions;
+  workerId?: string;
+  batchSize?: number;
+  now?: () => number;
+}
+
+export interface NotificationRunSummary {
+  claimed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+const getTemplateOptions = (): NotificationTemplateOptions => ({
+  supportEmail: process.env.SUPPORT_EMAIL || 'support@flash.com',
+  siteUrl: config.supabase.siteUrl,
+});
+
+/**
+ * Process one batch of due notifications
+ */
+export async function runNotificationWorker(
+  options: NotificationWorkerOptions = {}
+): Promise<NotificationRunSummary> {
+  const store = options.store || createSupabaseNotificationStore();
+  if (!store) {
+    throw new Error('Notification worker requires SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  const transport = options.transport || getMailTransport();
+  const templates = options.templates || getTemplateOptions();
+  const workerId = options.workerId || `worker_${randomBytes(6).toString('hex')}`;
+  const now = options.now || Date.now;
+  const summary: NotificationRunSummary = { claimed: 0, sent: 0, retrying: 0, failed: 0 };
+
+  const notifications = await store.claim(
+    workerId,
+    options.batchSize || NOTIFICATION_BATCH_SIZE,
+    NOTIFICATION_LEASE_MS
+  );
+  summary.claimed = notifications.length;
+
+  for (let i = 0; i < notifications.length; i++) {
+    const notification = notifications[i]!;
+    const delivered = [...notification.delivered];
+
+    try {
+      const signup = notification.signupId ? await store.loadSignup(notification.signupId) : null;
+      if (!signup) {
+        // Nothing to retry - the signup is gone
+        await store.fail(notification.id, workerId, delivered, 'Signup not found', null);
+        summary.failed += 1;
+        continue;
+      }
+
+      const messages = buildSignupNotifications(
+        notification.action,
+        notification.id,
+        signup,
+        templates
+      );
+
+      for (let j = 0; j < messages.length; j++) {
+        const { key, message } = messages[j]!;
+        if (delivered.includes(key)) continue;
+        await transport.send(message);
+        delivered.push(key);
+      }
+
+      await store.complete(notification.id, workerId, delivered);
+      summary.sent += 1;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt =
+        notification.attempts < NOTIFICATION_MAX_ATTEMPTS
+          ? now() + getRetryDelay(notification.attempts)
+          : null;
+
+      logger.warn('Notification delivery failed', {
+        id: notification.id,
+        attempts: notification.attempts,
+        retrying: retryAt !== null,
+        error: message,
+      });
+
+      await store.fail(notification.id, workerId, delivered, message, retryAt);
+      if (retryAt === null) summary.failed += 1;
+      else summary.retrying += 1;
+    }
+  }
+
+  logger.info('Notification worker run finished', summary);
+  return summary;
+}
@@ -0,0 +1,342 @@
+import { createHmac, randomInt } from 'crypto';
+import { parsePhoneNumberFromString } from 'libphonenumber-js';
+import { getPhoneAuthSecret } from './phone-auth-token';
+import { createRateLimiter } from './rate-limit';
+import { getSupabaseAdmin } from './supabase-admin';
+import { logger } from '../src/utils/logger';
+
+/**
+ * One-time password issuance and verification for phone authentication
+ *
+ * Codes are never stored in clear text - only an HMAC of phone + code is kept,
+ * together with an expiry and a failed-attempt counter.
+ */
+
+export const OTP_LENGTH = 6;
+export const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute
+export const OTP_MAX_SENDS_PER_HOUR = 5;
+
+// Sends per client IP across all numbers, so one caller can't text a long list of numbers
+export const otpSendLimiter = createRateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 });
+
+export interface OtpRecord {
+  id: string;
+  phone: string;
+  codeHash: string;
+  expiresAt: number;
+  attempts: number;
+  consumed: boolean;
+  createdAt: number;
+}
+
+export type OtpIssueOutcome =
+  | { issued: true; record: OtpRecord }
+  | { issued: false; error: 'cooldown' | 'rate_limited'; retryAfterMs: number };
+
+/**
+ * Storage for pending verifications
+ */
+export interface OtpStore {
+  /**
+   * Store a new verification unless the number is in its resend cooldown or has had
+   * maxPerHour codes in the last hour, checking both and storing in one atomic step
+   */
+  issue(
+    record: Omit<OtpRecord, 'id'>,
+    limits: { cooldownMs: number; maxPerHour: number }
+  ): Promise<OtpIssueOutcome>;
+  // Most recent verification for a phone number, consumed or not
+  latest(phone: string): Promise<OtpRecord | null>;
+  remove(id: string): Promise<void>;
+  /**
+   * Count a guess and consume the verification if codeHash matches, in one atomic step
+   * Returns null when it is already consumed or has used maxAttempts guesses.
+   */
+  attempt(
+    id: string,
+    codeHash: string,
+    maxAttempts: number
+  ): Promise<{ attempts: number; matched: boolean } | null>;
+}
+
+/**
+ * In-memory store for development and tests (single process only)
+ */
+export function createMemoryOtpStore(): OtpStore {
+  const records: OtpRecord[] = [];
+  let nextId = 1;
+
+  const latest = (phone: string) => {
+    const matches = records.filter(record => record.phone === phone);
+    return matches[matches.length - 1];
+  };
+
+  return {
+    // Synchronous from check to push, so nothing else runs in between
+    async issue(record, { cooldownMs, maxPerHour }) {
+      const last = latest(record.phone);
+      if (last && record.createdAt - last.createdAt < cooldownMs) {
+        return {
+          issued: false,
+          error: 'cooldown',
+          retryAfterMs: cooldownMs - (record.createdAt - last.createdAt),
+        };
+      }
+
+      const hourAgo = record.createdAt - 60 * 60 * 1000;
+      const sent = records.filter(r => r.phone === record.phone && r.createdAt >= hourAgo);
+      if (sent.length >= maxPerHour) {
+        return { issued: false, error: 'rate_limited', retryAfterMs: 60 * 60 * 1000 };
+      }
+
+      const created = { ...record, id: `otp_${nextId++}` };
+      records.push(created);
+      return { issued: true, record: { ...created } };
+    },
+    async latest(phone) {
+      const last = latest(phone);
+      return last ? { ...last } : null;
+    },
+    async remove(id) {
+      const index = records.findIndex(record => record.id === id);
+      if (index >= 0) records.splice(index, 1);
+    },
+    async attempt(id, codeHash, maxAttempts) {
+      const record = records.find(r => r.id === id);
+      if (!record || record.consumed || record.attempts >= maxAttempts) return null;
+      record.attempts += 1;
+      record.consumed = record.codeHash === codeHash;
+      return { attempts: record.attempts, matched: record.consumed };
+    },
+  };
+}
+
+/**
+ * Supabase-backed store using the phone_verifications table (db/phone-verifications.sql)
+ */
+export function createSupabaseOtpStore(): OtpStore | null {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) return null;
+
+  type Row = {
+    id: string;
+    phone: string;
+    code_hash: string;
+    expires_at: string;
+    attempts: number;
+    consumed_at: string | null;
+    created_at: string;
+  };
+
+  const fromRow = (row: Row): OtpRecord => ({
+    id: row.id,
+    phone: row.phone,
+    codeHash: row.code_hash,
+    expiresAt: new Date(row.expires_at).getTime(),
+    attempts: row.attempts,
+    consumed: !!row.consumed_at,
+    createdAt: new Date(row.created_at).getTime(),
+  });
+
+  return {
+    async issue(record, { cooldownMs, maxPerHour }) {
+      const { data, error } = await supabase
+        .rpc('issue_phone_verification', {
+          p_phone: record.phone,
+          p_code_hash: record.codeHash,
+          p_created_at: new Date(record.createdAt).toISOString(),
+          p_expires_at: new Date(record.expiresAt).toISOString(),
+          p_cooldown_ms: cooldownMs,
+          p_max_per_hour: maxPerHour,
+        })
+        .single();
+      if (error) throw error;
+      const row = data as {
+        status: 'issued' | 'cooldown' | 'rate_limited';
+        verification_id: string | null;
+        retry_after_ms: number;
+      };
+      if (row.status !== 'issued' || !row.verification_id) {
+        return {
+          issued: false,
+          error: row.status === 'cooldown' ? 'cooldown' : 'rate_limited',
+          retryAfterMs: Number(row.retry_after_ms),
+        };
+      }
+      return { issued: true, record: { ...record, id: row.verification_id } };
+    },
+    async latest(phone) {
+      const { data, error } = await supabase
+        .from('phone_verifications')
+        .select()
+        .eq('phone', phone)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? fromRow(data as Row) : null;
+    },
+    async remove(id) {
+      const { error } = await supabase.from('phone_verifications').delete().eq('id', id);
+      if (error) throw error;
+    },
+    async attempt(id, codeHash, maxAttempts) {
+      const { data, error } = await supabase
+        .rpc('attempt_phone_verification', {
+          p_id: id,
+          p_code_hash: codeHash,
+          p_max_attempts: maxAttempts,
+        })
+        .maybeSingle();
+      if (error) throw error;
+      const row = data as { attempts_used: number; matched: boolean } | null;
+      return row ? { attempts: row.attempts_used, matched: row.matched } : null;
+    },
+  };
+}
+
+let store: OtpStore | null = null;
+
+/**
+ * Get the configured store - Supabase when the service role key is available, memory otherwise
+ */
+export function getOtpStore(): OtpStore {
+  if (store) return store;
+
+  store = createSupabaseOtpStore();
+  if (!store) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Phone verification requires SUPABASE_SERVICE_ROLE_KEY in production');
+    }
+    logger.warn('Using in-memory OTP store (development only)');
+    store = createMemoryOtpStore();
+  }
+  return store;
+}
+
+/**
+ * Override the store (tests)
+ */
+export function setOtpStore(next: OtpStore | null): void {
+  store = next;
+}
+
+/**
+ * Normalize a phone number to E.164, or null if it isn't a valid number
+ */
+export function normalizePhone(phone: string): string | null {
+  try {
+    const parsed = parsePhoneNumberFromString(phone.trim());
+    return parsed && parsed.isValid() ? parsed.number : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export function hashOtp(phone: string, code: string): string {
+  return createHmac('sha256', getPhoneAuthSecret()).update(`otp:${phone}:${code}`).digest('hex');
+}
+
+export function generateOtpCode(): string {
+  return randomInt(0, 10 ** OTP_LENGTH)
+    .toString()
+    .padStart(OTP_LENGTH, '0');
+}
+
+export type IssueOtpResult =
+  | { success: true; expiresAt: number }
+  | { success: false; error: 'cooldown' | 'rate_limited'; retryAfterMs: number };
+
+/**
+ * Create a new code for a normalized phone number and deliver it
+ * The store checks the cooldown and hourly cap and saves the verification in one step, so
+ * parallel sends for a number can't all get through. The saved verification holds the
+ * cooldown while the code is being sent, and is removed again if delivery throws so a failed
+ * send doesn't lock the number out.
+ */
+export async function issueOtp(
+  phone: string,
+  deliver: (code: string) => Promise<void>,
+  otpStore: OtpStore = getOtpStore(),
+  now: number = Date.now()
+): Promise<IssueOtpResult> {
+  const code = generateOtpCode();
+  const expiresAt = now + OTP_TTL_MS;
+
+  const outcome = await otpStore.issue(
+    {
+      phone,
+      codeHash: hashOtp(phone, code),
+      expiresAt,
+      attempts: 0,
+      consumed: false,
+      createdAt: now,
+    },
+    { cooldownMs: OTP_RESEND_COOLDOWN_MS, maxPerHour: OTP_MAX_SENDS_PER_HOUR }
+  );
+  if (!outcome.issued) {
+    return { success: false, error: outcome.error, retryAfterMs: outcome.retryAfterMs };
+  }
+
+  try {
+    await deliver(code);
+  } catch (error) {
+    await otpStore.remove(outcome.record.id);
+    throw error;
+  }
+
+  return { success: true, expiresAt };
+}
+
+export type VerifyOtpResult =
+  | { success: true }
+  | {
+      success: false;
+      error: 'not_found' | 'expired' | 'too_many_attempts' | 'invalid_code';
+      attemptsRemaining?: number;
+    };
+
+/**
+ * Check a code against the latest pending verification for a phone number
+ * A code can only be used once, and only OTP_MAX_ATTEMPTS wrong guesses are allowed - the
+ * store checks and counts each guess atomically, so parallel guesses can't get past either.
+ */
+export async function verifyOtp(
+  phone: string,
+  code: string,
+  otpStore: OtpStore = getOtpStore(),
+  now: number = Date.now()
+): Promise<VerifyOtpResult> {
+  const record = await otpStore.latest(phone);
+
+  if (!record || record.consumed) {
+    return { success: false, error: 'not_found' };
+  }
+
+  if (record.expiresAt <= now) {
+    return { success: false, error: 'expired' };
+  }
+
+  if (record.attempts >= OTP_MAX_ATTEMPTS) {
+    return { success: false, error: 'too_many_attempts' };
+  }
+
+  const result = await otpStore.attempt(record.id, hashOtp(phone, code), OTP_MAX_ATTEMPTS);
+
+  if (!result) {
+    // A parallel guess used the last attempt, or the code itself
+    const current = await otpStore.latest(phone);
+    return current?.id === record.id && current.consumed
+      ? { success: false, error: 'not_found' }
+      : { success: false, error: 'too_many_attempts' };
+  }
+
+  if (result.matched) return { success: true };
+
+  const attemptsRemaining = OTP_MAX_ATTEMPTS - result.attempts;
+  return attemptsRemaining > 0
+    ? { success: false, error: 'invalid_code', attemptsRemaining }
+    : { success: false, error: 'too_many_attempts' };
+}
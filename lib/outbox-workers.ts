@@ -0,0 +1,34 @@
+import { NotificationRunSummary, runNotificationWorker } from './notification-worker';
+import { runWebhookWorker, WebhookRunSummary } from './webhooks';
+import { logger } from '../src/utils/logger';
+
+/**
+ * One batch of both outbox workers: signup emails, then webhook deliveries
+ *
+ * Shared by POST /api/notifications/run and the scheduled job in
+ * .github/workflows/check_pending_notifications.yml, which runs it without a server.
+ */
+
+export interface OutboxRunResult {
+  // A worker's summary, or null when its run failed
+  emails: NotificationRunSummary | null;
+  webhooks: WebhookRunSummary | null;
+}
+
+const runWorker = async <T>(name: string, worker: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await worker();
+  } catch (error) {
+    logger.error(`${name} worker run failed`, error);
+    return null;
+  }
+};
+
+/**
+ * Run both workers - they are independent, so one failing doesn't stop the other
+ */
+export async function runOutboxWorkers(): Promise<OutboxRunResult> {
+  const emails = await runWorker('Notification', () => runNotificationWorker());
+  const webhooks = await runWorker('Webhook', () => runWebhookWorker());
+  return { emails, webhooks };
+}
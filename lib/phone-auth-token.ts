@@ -0,0 +1,79 @@
+import { createHmac, randomBytes } from 'crypto';
+import { signToken, SignedTokenClaims, verifyToken } from './signed-token';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Signed tokens issued after a successful phone verification
+ *
+ * Signed with PHONE_AUTH_SECRET so any server instance can verify them.
+ * Sent by the client as `Authorization: PhoneAuth <token>`.
+ */
+
+export const PHONE_AUTH_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface PhoneAuthTokenPayload extends SignedTokenClaims {
+  typ: 'phone';
+  // Stable subject derived from the phone number
+  sub: string;
+  // Verified phone number in E.164 format
+  phone: string;
+}
+
+let devSecret: string | null = null;
+
+/**
+ * Get the signing secret for phone and guest auth tokens
+ * Outside production a random per-process secret is used when none is configured
+ */
+export function getPhoneAuthSecret(): string {
+  const secret = process.env.PHONE_AUTH_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PHONE_AUTH_SECRET must be set in production');
+  }
+
+  if (!devSecret) {
+    logger.warn('PHONE_AUTH_SECRET not set, using a temporary development secret');
+    devSecret = randomBytes(32).toString('hex');
+  }
+  return devSecret;
+}
+
+/**
+ * Derive the subject for a phone number so the same phone always maps to the same id
+ */
+export function phoneSubject(phone: string): string {
+  const digest = createHmac('sha256', getPhoneAuthSecret()).update(`subject:${phone}`).digest();
+  return `phone_${digest.toString('hex').substring(0, 24)}`;
+}
+
+/**
+ * Issue a signed token for a verified phone number
+ */
+export function signPhoneAuthToken(
+  phone: string,
+  now: number = Date.now()
+): { token: string; payload: PhoneAuthTokenPayload } {
+  const payload: PhoneAuthTokenPayload = {
+    typ: 'phone',
+    sub: phoneSubject(phone),
+    phone,
+    iat: now,
+    exp: now + PHONE_AUTH_TOKEN_TTL_MS,
+  };
+
+  return { token: signToken(payload, getPhoneAuthSecret()), payload };
+}
+
+/**
+ * Verify a token's signature and expiry
+ * Returns the payload, or null if the token is malformed, forged or expired
+ */
+export function verifyPhoneAuthToken(
+  token: string,
+  now: number = Date.now()
+): PhoneAuthTokenPayload | null {
+  const payload = verifyToken<PhoneAuthTokenPayload>(token, 'phone', getPhoneAuthSecret(), now);
+  return payload && typeof payload.phone === 'string' ? payload : null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Fixed-window rate limiting for API routes
+ *
+ * Counters live in process memory, so limits apply per server instance.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check(key: string, now?: number): RateLimitResult;
+  reset(): void;
+}
+
+/**
+ * Allow `limit` requests per key in each `windowMs` window
+ */
+export function createRateLimiter({
+  limit,
+  windowMs,
+}: {
+  limit: number;
+  windowMs: number;
+}): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    check(key, now = Date.now()) {
+      // Drop finished windows so the map doesn't grow without bound
+      if (windows.size > 10000) {
+        windows.forEach((window, windowKey) => {
+          if (window.resetAt <= now) windows.delete(windowKey);
+        });
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      if (window.count >= limit) {
+        return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+      }
+
+      window.count += 1;
+      return { allowed: true, remaining: limit - window.count, retryAfterMs: 0 };
+    },
+    reset() {
+      windows.clear();
+    },
+  };
+}
+
+/**
+ * Best-effort client IP from proxy headers
+ */
+export function getClientIp(request: Request): string {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
@@ -8,7 +8,9 @@ import { logger } from '../src/utils/logger';
 export const serverCredentials = {
   supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL || '',
   supabaseKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
-  bucket: config.supabase.storageBucket || 'id_uploads',
+  // Service role key bypasses RLS - never expose this to the browser
+  serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  bucket: config.supabase.storageBucket,
 };
 
 // Log credential availability for server context
@@ -16,6 +18,7 @@ if (typeof window === 'undefined') {
   logger.info('Server credentials initialized', {
     hasUrl: !!serverCredentials.supabaseUrl,
     hasKey: !!serverCredentials.supabaseKey,
+    hasServiceRoleKey: !!serverCredentials.serviceRoleKey,
     bucket: serverCredentials.bucket,
     environment: process.env.NODE_ENV,
     buildTime: process.env.IS_BUILD_TIME === 'true',
@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Minimal HMAC-signed tokens shared by the phone and guest auth schemes
+ *
+ * Format: base64url(JSON claims) + '.' + base64url(HMAC-SHA256 signature)
+ * The token type is part of the signed claims so one kind of token can't be
+ * presented as another.
+ */
+
+export interface SignedTokenClaims {
+  typ: string;
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+const base64url = (value: Buffer | string): string =>
+  (typeof value === 'string' ? Buffer.from(value, 'utf8') : value)
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+
+const fromBase64url = (value: string): Buffer =>
+  Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+const sign = (data: string, secret: string): Buffer =>
+  createHmac('sha256', secret).update(data).digest();
+
+/**
+ * Sign a set of claims
+ */
+export function signToken<T extends SignedTokenClaims>(claims: T, secret: string): string {
+  const encodedClaims = base64url(JSON.stringify(claims));
+  return `${encodedClaims}.${base64url(sign(encodedClaims, secret))}`;
+}
+
+/**
+ * Verify a token's signature, type and expiry
+ * Returns the claims, or null if the token is malformed, forged, of another type or expired
+ */
+export function verifyToken<T extends SignedTokenClaims>(
+  token: string,
+  typ: string,
+  secret: string,
+  now: number = Date.now()
+): T | null {
+  const [encodedClaims, encodedSignature, extra] = token.split('.');
+  if (!encodedClaims || !encodedSignature || extra !== undefined) {
+    return null;
+  }
+
+  const expected = sign(encodedClaims, secret);
+  const actual = fromBase64url(encodedSignature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(fromBase64url(encodedClaims).toString('utf8'));
+    if (
+      claims.typ !== typ ||
+      typeof claims.sub !== 'string' ||
+      typeof claims.exp !== 'number' ||
+      claims.exp <= now
+    ) {
+      return null;
+    }
+    return claims as T;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createDocumentPreviewUrl } from './admin-signups';
+import { AdminSignupDocument, SignupDocument } from '../src/types';
+
+/**
+ * Verification documents (db/signup-documents.sql)
+ *
+ * One row per signup and document type. The submit route writes them with the service role
+ * after inserting the signup; which documents a signup needs is decided by
+ * src/utils/kycDocuments.ts and enforced by the signup schema.
+ * Each row keeps the SHA-256 confirmUploads computed, so the same file turning up with
+ * another applicant's signup can be flagged to reviewers.
+ */
+
+const DOCUMENT_COLUMNS = 'id, document_type, file_path, sha256, created_at';
+
+// A signup and who sent it - the Supabase user, or the phone number for everyone else
+export interface SignupOwner {
+  id: string;
+  user_id?: string | null;
+  phone?: string | null;
+}
+
+type DocumentHashRow = {
+  signup_id: string;
+  sha256: string;
+  signups: Omit<SignupOwner, 'id'> | null;
+};
+
+const isSameOwner = (signup: SignupOwner, other: Omit<SignupOwner, 'id'>) =>
+  (!!signup.user_id && signup.user_id === other.user_id) ||
+  (!!signup.phone && signup.phone === other.phone);
+
+/**
+ * Rows for a signup's documents, keeping the last upload of each type
+ */
+export function toSignupDocumentRows(
+  signupId: string,
+  documents: readonly SignupDocument[],
+  hashes: Record<string, string> = {}
+) {
+  const byType = new Map(documents.map(document => [document.type, document.file_path]));
+  return Array.from(byType, ([documentType, filePath]) => ({
+    signup_id: signupId,
+    document_type: documentType,
+    file_path: filePath,
+    sha256: hashes[filePath] ?? null,
+  }));
+}
+
+/**
+ * Store the documents uploaded with a signup, replacing earlier uploads of the same type
+ */
+export async function saveSignupDocuments(
+  supabase: SupabaseClient,
+  signupId: string,
+  documents: readonly SignupDocument[],
+  hashes: Record<string, string> = {}
+): Promise<void> {
+  const rows = toSignupDocumentRows(signupId, documents, hashes);
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('signup_documents')
+    .upsert(rows, { onConflict: 'signup_id,document_type' });
+
+  if (error) throw error;
+}
+
+/**
+ * Remove a signup whose documents couldn't be saved, with its logs and queued notifications
+ * (discard_signup in db/signup-documents.sql)
+ * confirmUploads accepts the same uploads again, so the applicant can simply resubmit.
+ */
+export async function discardSignup(supabase: SupabaseClient, signupId: string): Promise<void> {
+  const { error } = await supabase.rpc('discard_signup', { p_signup_id: signupId });
+  if (error) throw error;
+}
+
+/**
+ * Other applicants' signups holding a file with each of the given hashes - the same ID or
+ * bill sent by different applicants is possible document fraud. An applicant sending their
+ * own file again with another signup isn't flagged.
+ */
+export async function findReusedDocuments(
+  supabase: SupabaseClient,
+  signup: SignupOwner,
+  hashes: readonly string[]
+): Promise<Map<string, string[]>> {
+  const reused = new Map<string, string[]>();
+  if (hashes.length === 0) return reused;
+
+  const { data, error } = await supabase
+    .from('signup_documents')
+    .select('signup_id, sha256, signups!inner(user_id, phone)')
+    .in('sha256', hashes)
+    .neq('signup_id', signup.id);
+
+  if (error) throw error;
+
+  ((data || []) as unknown as DocumentHashRow[]).forEach(row => {
+    if (row.signups && isSameOwner(signup, row.signups)) return;
+    const signups = reused.get(row.sha256) || [];
+    if (!signups.includes(row.signup_id)) signups.push(row.signup_id);
+    reused.set(row.sha256, signups);
+  });
+  return reused;
+}
+
+/**
+ * A signup's documents with short-lived preview URLs and reuse flags, oldest first
+ */
+export async function getSignupDocuments(
+  supabase: SupabaseClient,
+  signup: SignupOwner
+): Promise<AdminSignupDocument[]> {
+  const { data, error } = await supabase
+    .from('signup_documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('signup_id', signup.id)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data || []) as Omit<AdminSignupDocument, 'preview_url' | 'reused_by'>[];
+  const reused = await findReusedDocuments(
+    supabase,
+    signup,
+    rows.map(row => row.sha256).filter((hash): hash is string => !!hash)
+  );
+
+  return Promise.all(
+    rows.map(async row => ({
+      ...row,
+      preview_url: await createDocumentPreviewUrl(supabase, row.file_path),
+      reused_by: (row.sha256 && reused.get(row.sha256)) || [],
+    }))
+  );
+}
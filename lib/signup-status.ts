@@ -0,0 +1,90 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AuthPrincipal } from './auth-middleware';
+import {
+  isSignupStatus,
+  REASON_REQUIRED_STATUSES,
+  SIGNUP_STATUS_REASON_MAX_LENGTH,
+  SignupStatusError,
+} from '../src/utils/signupStatus';
+import { SignupStatus, SignupStatusChange } from '../src/types';
+
+/**
+ * Apply signup status transitions and read the audit trail
+ *
+ * Transitions go through the transition_signup_status function (db/signup-status.sql),
+ * which locks the row, checks the transition and writes signup_logs in one transaction.
+ */
+
+export interface SignupStatusTransition {
+  signupId: string;
+  to: unknown;
+  actor: string;
+  reason?: string | null;
+  // Status the reviewer was looking at - rejects the change if someone else got there first
+  expectedFrom?: SignupStatus;
+}
+
+export type TransitionSignupStatusResult =
+  | { success: true; from: SignupStatus; to: SignupStatus }
+  | { success: false; error: SignupStatusError; from?: SignupStatus };
+
+/**
+ * Audit trail name for whoever made a change
+ */
+export function describeActor(principal: AuthPrincipal): string {
+  return `${principal.method}:${principal.subject}`;
+}
+
+export async function transitionSignupStatus(
+  supabase: SupabaseClient,
+  transition: SignupStatusTransition
+): Promise<TransitionSignupStatusResult> {
+  const { signupId, to, actor, expectedFrom } = transition;
+  const reason = transition.reason?.trim().substring(0, SIGNUP_STATUS_REASON_MAX_LENGTH) || null;
+
+  if (!isSignupStatus(to)) {
+    return { success: false, error: 'invalid_status' };
+  }
+  if (REASON_REQUIRED_STATUSES.includes(to) && !reason) {
+    return { success: false, error: 'reason_required' };
+  }
+
+  const { data, error } = await supabase.rpc('transition_signup_status', {
+    p_signup_id: signupId,
+    p_to: to,
+    p_actor: actor,
+    p_reason: reason,
+    p_expected: expectedFrom ?? null,
+  });
+
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: SignupStatusError; from?: SignupStatus };
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'invalid_transition',
+      ...(result.from ? { from: result.from } : {}),
+    };
+  }
+
+  return { success: true, from: result.from as SignupStatus, to };
+}
+
+/**
+ * Status changes for a signup, oldest first
+ */
+export async function getSignupStatusHistory(
+  supabase: SupabaseClient,
+  signupId: string
+): Promise<SignupStatusChange[]> {
+  const { data, error } = await supabase
+    .from('signup_logs')
+    .select('from_status, to_status, actor, reason, created_at')
+    .eq('signup_id', signupId)
+    .eq('action', 'status_changed')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SignupStatusChange[];
+}
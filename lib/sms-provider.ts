@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Pluggable SMS delivery for one-time passwords
+ *
+ * Select the provider with SMS_PROVIDER:
+ * - console (default outside production): logs the message
+ * - file: appends messages as JSON lines to SMS_OUTBOX_FILE, used by e2e tests
+ * - twilio: sends through the Twilio REST API
+ */
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Development provider - prints the message instead of sending it
+ */
+export const consoleSmsProvider: SmsProvider = {
+  name: 'console',
+  async send({ to, body }) {
+    logger.info(`[SMS] to ${to}: ${body}`);
+  },
+};
+
+/**
+ * Test provider - writes each message to a JSON lines file that tests can read back
+ */
+export function createFileSmsProvider(filePath: string): SmsProvider {
+  return {
+    name: 'file',
+    async send({ to, body }) {
+      const line = JSON.stringify({ to, body, sentAt: new Date().toISOString() });
+      await fs.appendFile(filePath, line + '\n', 'utf8');
+    },
+  };
+}
+
+/**
+ * Twilio provider using the Messages REST endpoint
+ */
+export function createTwilioSmsProvider(
+  accountSid: string,
+  authToken: string,
+  from: string
+): SmsProvider {
+  return {
+    name: 'twilio',
+    async send({ to, body }) {
+      const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: from, Body: body }).toString(),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text();
+        throw new Error(`Twilio request failed with status ${response.status}: ${detail}`);
+      }
+    },
+  };
+}
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Get the SMS provider configured for this environment
+ */
+export function getSmsProvider(): SmsProvider {
+  if (provider) return provider;
+
+  const selected =
+    process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'production' ? 'twilio' : 'console');
+
+  switch (selected) {
+    case 'twilio': {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env;
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+        throw new Error('Twilio SMS provider selected but TWILIO_* variables are missing');
+      }
+      provider = createTwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER);
+      break;
+    }
+    case 'file':
+      provider = createFileSmsProvider(process.env.SMS_OUTBOX_FILE || 'sms-outbox.log');
+      break;
+    case 'console':
+      provider = consoleSmsProvider;
+      break;
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${selected}"`);
+  }
+
+  logger.info('SMS provider initialized', { provider: provider.name });
+  return provider;
+}
+
+/**
+ * Override the provider (tests)
+ */
+export function setSmsProvider(next: SmsProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,187 @@
+import net from 'net';
+import tls from 'tls';
+
+/**
+ * Minimal SMTP client for the notification worker
+ *
+ * Supports implicit TLS (port 465), STARTTLS when the server offers it, and AUTH PLAIN -
+ * only over TLS, so credentials never cross the network in clear text.
+ * Good enough for a relay or a local sink (scripts/smtp-sink.js) - not a general mail library.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect over TLS from the start (port 465) instead of upgrading with STARTTLS
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  // Name sent with EHLO
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Reads CRLF-terminated SMTP replies, following the socket across a STARTTLS upgrade
+ */
+function createReplyReader() {
+  let socket: net.Socket | null = null;
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index = buffer.indexOf('\r\n');
+    while (index >= 0) {
+      const line = buffer.substring(0, index);
+      buffer = buffer.substring(index + 2);
+      lines.push(line);
+
+      // The last line of a reply has a space (or nothing) after the code, others a dash
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: parseInt(line.substring(0, 3), 10),
+          lines: lines.map(l => l.substring(4)),
+        };
+        lines = [];
+        const waiter = waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+      index = buffer.indexOf('\r\n');
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiters.splice(0).forEach(waiter => waiter.reject(error));
+  };
+
+  const onClose = () => onError(failure || new Error('SMTP connection closed'));
+
+  return {
+    attach(next: net.Socket) {
+      if (socket) {
+        socket.off('data', onData);
+        socket.off('error', onError);
+        socket.off('close', onClose);
+      }
+      socket = next;
+      socket.on('data', onData);
+      socket.on('error', onError);
+      socket.on('close', onClose);
+    },
+    read(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    },
+  };
+}
+
+const connect = (options: SmtpOptions): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () =>
+          resolve(socket)
+        )
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+const upgrade = (socket: net.Socket, host: string): Promise<tls.TLSSocket> =>
+  new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+
+/**
+ * Escape lines starting with a dot and normalize line endings for DATA
+ */
+export function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+}
+
+/**
+ * Deliver one raw RFC 5322 message
+ * Throws with the server's reply when a command is rejected
+ */
+export async function sendSmtpMail(
+  options: SmtpOptions,
+  envelope: SmtpEnvelope,
+  message: string
+): Promise<void> {
+  let socket = await connect(options);
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const reader = createReplyReader();
+
+  const armTimeout = (target: net.Socket) =>
+    target.setTimeout(timeoutMs, () => target.destroy(new Error('SMTP connection timed out')));
+
+  reader.attach(socket);
+  armTimeout(socket);
+
+  const expect = async (command: string | null, ...codes: number[]) => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) {
+      // Don't echo credentials into logs
+      const label = command?.startsWith('AUTH') ? 'AUTH' : command || 'greeting';
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    const clientName = options.clientName || 'localhost';
+    await expect(null, 220);
+    const capabilities = (await expect(`EHLO ${clientName}`, 250)).lines;
+    let secured = !!options.secure;
+
+    if (!secured && capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+      await expect('STARTTLS', 220);
+      socket = await upgrade(socket, options.host);
+      reader.attach(socket);
+      armTimeout(socket);
+      await expect(`EHLO ${clientName}`, 250);
+      secured = true;
+    }
+
+    if (options.user) {
+      // A plain relay, or someone stripping STARTTLS from the reply, would see the password
+      if (!secured) throw new Error('SMTP server did not offer STARTTLS; not sending credentials');
+      const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`, 'utf8');
+      await expect(`AUTH PLAIN ${credentials.toString('base64')}`, 235);
+    }
+
+    await expect(`MAIL FROM:<${envelope.from}>`, 250);
+    for (let i = 0; i < envelope.to.length; i++) {
+      await expect(`RCPT TO:<${envelope.to[i]}>`, 250, 251);
+    }
+    await expect('DATA', 354);
+    await expect(`${dotStuff(message)}\r\n.`, 250);
+    await expect('QUIT', 221).catch(() => undefined);
+  } finally {
+    socket.end();
+  }
+}
@@ -0,0 +1,45 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { serverCredentials } from './server-credentials';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Server-side Supabase client using the service role key
+ * Only import this from API routes - it bypasses row level security
+ */
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Get the shared service role client
+ * Returns null when the service role key is not configured
+ */
+export function getSupabaseAdmin(): SupabaseClient | null {
+  if (typeof window !== 'undefined') {
+    logger.error('getSupabaseAdmin must not be called in the browser');
+    return null;
+  }
+
+  if (adminClient) {
+    return adminClient;
+  }
+
+  const { supabaseUrl, serviceRoleKey } = serverCredentials;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    logger.error('Missing Supabase service role credentials', {
+      hasUrl: !!supabaseUrl,
+      hasServiceRoleKey: !!serviceRoleKey,
+    });
+    return null;
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      // Server clients never hold a user session
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  return adminClient;
+}
@@ -0,0 +1,162 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_TERMINAL_MODEL,
+  isTerminalModel,
+  isTerminalOrderStatus,
+  normalizeSerialNumbers,
+  TERMINAL_ORDER_MAX_QUANTITY,
+  TERMINAL_SHIPPING_ADDRESS_MAX_LENGTH,
+  TerminalOrderError,
+  validateTerminalOrderTransition,
+} from '../src/utils/terminalOrders';
+import { SignupFormData, TerminalModel, TerminalOrderStatus } from '../src/types';
+
+/**
+ * Terminal orders (db/terminal-orders.sql)
+ *
+ * Orders are created by a trigger when a signup with wants_terminal is inserted. Transitions go
+ * through the transition_terminal_order function, which locks the order, checks the transition
+ * and serials and writes terminal_order_events in one transaction.
+ */
+
+export const TERMINAL_ORDER_PAGE_SIZE = 25;
+export const TERMINAL_ORDER_NOTE_MAX_LENGTH = 500;
+
+const ORDER_COLUMNS =
+  'id, signup_id, quantity, model, shipping_address, status, serial_numbers, tracking_number, created_at, updated_at';
+
+export interface TerminalOrderDetails {
+  quantity: number;
+  model: TerminalModel;
+  // Null ships to the business address
+  shipping_address: string | null;
+}
+
+/**
+ * Order details from validated signup form data
+ */
+export function toTerminalOrderDetails(data: SignupFormData): TerminalOrderDetails {
+  const quantity = Math.trunc(Number(data.terminal_quantity) || 1);
+  const shippingAddress = data.terminal_shipping_address?.trim();
+
+  return {
+    quantity: Math.min(Math.max(quantity, 1), TERMINAL_ORDER_MAX_QUANTITY),
+    model: isTerminalModel(data.terminal_model) ? data.terminal_model : DEFAULT_TERMINAL_MODEL,
+    shipping_address:
+      shippingAddress && shippingAddress !== data.business_address?.trim()
+        ? shippingAddress.substring(0, TERMINAL_SHIPPING_ADDRESS_MAX_LENGTH)
+        : null,
+  };
+}
+
+/**
+ * Fill in the order the signup trigger created, while it hasn't been approved yet
+ */
+export async function saveTerminalOrderDetails(
+  supabase: SupabaseClient,
+  signupId: string,
+  details: TerminalOrderDetails
+): Promise<void> {
+  const { error } = await supabase
+    .from('terminal_orders')
+    .update(details)
+    .eq('signup_id', signupId)
+    .eq('status', 'requested');
+
+  if (error) throw error;
+}
+
+export interface TerminalOrderTransition {
+  orderId: string;
+  to: unknown;
+  actor: string;
+  serialNumbers?: unknown;
+  trackingNumber?: string | null;
+  note?: string | null;
+  // Status the admin was looking at - rejects the change if someone else got there first
+  expectedFrom?: TerminalOrderStatus;
+}
+
+export type TransitionTerminalOrderResult =
+  | { success: true; from: TerminalOrderStatus; to: TerminalOrderStatus }
+  | { success: false; error: TerminalOrderError; from?: TerminalOrderStatus };
+
+export async function transitionTerminalOrder(
+  supabase: SupabaseClient,
+  transition: TerminalOrderTransition
+): Promise<TransitionTerminalOrderResult> {
+  const { orderId, to, actor, expectedFrom } = transition;
+  const serialNumbers = normalizeSerialNumbers(transition.serialNumbers);
+  const trackingNumber = transition.trackingNumber?.trim().substring(0, 100) || null;
+  const note = transition.note?.trim().substring(0, TERMINAL_ORDER_NOTE_MAX_LENGTH) || null;
+
+  if (!isTerminalOrderStatus(to)) {
+    return { success: false, error: 'invalid_status' };
+  }
+
+  const { data: order, error: loadError } = await supabase
+    .from('terminal_orders')
+    .select('status, quantity')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (loadError) throw loadError;
+  if (!order) return { success: false, error: 'not_found' };
+
+  const current = order as { status: TerminalOrderStatus; quantity: number };
+  const invalid = validateTerminalOrderTransition(current, to, serialNumbers);
+  if (invalid) {
+    return { success: false, error: invalid, from: current.status };
+  }
+
+  const { data, error } = await supabase.rpc('transition_terminal_order', {
+    p_order_id: orderId,
+    p_to: to,
+    p_actor: actor,
+    p_serial_numbers: to === 'shipped' ? serialNumbers : null,
+    p_tracking_number: to === 'shipped' ? trackingNumber : null,
+    p_note: note,
+    p_expected: expectedFrom ?? null,
+  });
+
+  if (error) throw error;
+
+  const result = data as {
+    success: boolean;
+    error?: TerminalOrderError;
+    from?: TerminalOrderStatus;
+  };
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || 'invalid_transition',
+      ...(result.from ? { from: result.from } : {}),
+    };
+  }
+
+  return { success: true, from: result.from as TerminalOrderStatus, to };
+}
+
+/**
+ * Orders for the admin console with the applicant and status history, oldest first
+ * so the queue is worked in order
+ */
+export async function listTerminalOrders(
+  supabase: SupabaseClient,
+  query: { status?: TerminalOrderStatus; page: number }
+) {
+  let request = supabase
+    .from('terminal_orders')
+    .select(
+      `${ORDER_COLUMNS}, signups(name, phone, business_name, business_address), terminal_order_events(from_status, to_status, actor, note, created_at)`,
+      { count: 'exact' }
+    );
+
+  if (query.status) request = request.eq('status', query.status);
+
+  const start = (query.page - 1) * TERMINAL_ORDER_PAGE_SIZE;
+
+  return request
+    .order('created_at', { ascending: true })
+    .range(start, start + TERMINAL_ORDER_PAGE_SIZE - 1);
+}
@@ -0,0 +1,219 @@
+import { randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentInspectionError, inspectDocument } from './document-inspection';
+import { createRateLimiter } from './rate-limit';
+import { config } from '../src/config';
+import { KycDocumentType, SignupDocument } from '../src/types';
+import { acceptsPdf, isKycDocumentType } from '../src/utils/kycDocuments';
+
+/**
+ * One-time upload tickets for verification documents (db/upload-tickets.sql)
+ *
+ * The browser never gets storage credentials. It asks /api/uploads for a ticket - a signed
+ * upload token for one new object path, content type and maximum size, recorded against the
+ * caller - and uploads the file with it, resumably over tus (src/services/tus.ts). Before a
+ * signup can reference the path, the submit route confirms that the caller holds the ticket and
+ * that the object in storage matches it, reading the file itself to check what it really is
+ * (lib/document-inspection.ts).
+ */
+
+// FileUpload re-encodes every photo as JPEG (src/utils/imageUpload.ts); PDFs are only taken
+// for the documents in PDF_DOCUMENT_TYPES
+export const UPLOAD_CONTENT_TYPES = ['image/jpeg', 'application/pdf'] as const;
+export const UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+// Storage keeps signed upload tokens valid for 2 hours; files finished after this don't
+// count. Long enough for a resumed upload to get through on a patchy connection.
+export const UPLOAD_TICKET_TTL_MS = 60 * 60 * 1000;
+
+const EXTENSIONS: Record<UploadContentType, string> = {
+  'image/jpeg': 'jpg',
+  'application/pdf': 'pdf',
+};
+
+// Limit for /api/uploads, per caller
+export const uploadTicketLimiter = createRateLimiter({ limit: 30, windowMs: 60 * 60 * 1000 });
+
+export type UploadContentType = (typeof UPLOAD_CONTENT_TYPES)[number];
+
+export interface UploadTicketRequest {
+  documentType: KycDocumentType;
+  contentType: UploadContentType;
+  size: number;
+}
+
+export interface UploadTicket {
+  path: string;
+  bucket: string;
+  // Signed URL the whole file can be PUT to; works once, until the object exists
+  uploadUrl: string;
+  // tus endpoint for resumable uploads, authorised by sending the token as x-signature
+  resumableUrl: string;
+  token: string;
+  contentType: UploadContentType;
+  maxBytes: number;
+  expiresAt: string;
+}
+
+export type UploadTicketError = 'invalid_request' | 'unsupported_type' | 'too_large';
+
+export type UploadConfirmationError =
+  'unknown_upload' | 'not_uploaded' | 'mismatch' | DocumentInspectionError;
+
+type TicketRow = {
+  object_path: string;
+  subject: string;
+  content_type: string;
+  max_bytes: number;
+  expires_at: string;
+};
+
+/**
+ * Supabase storage's tus endpoint for signed uploads
+ * STORAGE_RESUMABLE_URL replaces it, e.g. with scripts/tus-server.js during development.
+ */
+export const getResumableUploadUrl = () =>
+  process.env.STORAGE_RESUMABLE_URL || `${config.supabase.url}/storage/v1/upload/resumable/sign`;
+
+/**
+ * Check the body of a ticket request
+ */
+export function parseUploadTicketRequest(
+  body: unknown
+): { success: true; data: UploadTicketRequest } | { success: false; error: UploadTicketError } {
+  const { documentType, contentType, size } = (body || {}) as Record<string, unknown>;
+
+  if (!isKycDocumentType(documentType) || typeof size !== 'number' || !(size > 0)) {
+    return { success: false, error: 'invalid_request' };
+  }
+  if (
+    !(UPLOAD_CONTENT_TYPES as readonly unknown[]).includes(contentType) ||
+    (contentType === 'application/pdf' && !acceptsPdf(documentType))
+  ) {
+    return { success: false, error: 'unsupported_type' };
+  }
+  if (size > UPLOAD_MAX_BYTES) {
+    return { success: false, error: 'too_large' };
+  }
+
+  return {
+    success: true,
+    data: { documentType, contentType: contentType as UploadContentType, size },
+  };
+}
+
+/**
+ * Record a ticket for the caller and sign an upload token for a fresh object path
+ */
+export async function issueUploadTicket(
+  supabase: SupabaseClient,
+  subject: string,
+  request: UploadTicketRequest,
+  now = Date.now()
+): Promise<UploadTicket> {
+  const path = `${randomUUID()}.${EXTENSIONS[request.contentType]}`;
+  const expiresAt = new Date(now + UPLOAD_TICKET_TTL_MS).toISOString();
+
+  const { error: ticketError } = await supabase.from('upload_tickets').insert({
+    object_path: path,
+    subject,
+    document_type: request.documentType,
+    content_type: request.contentType,
+    max_bytes: UPLOAD_MAX_BYTES,
+    expires_at: expiresAt,
+  });
+  if (ticketError) throw ticketError;
+
+  const { data, error } = await supabase.storage
+    .from(config.supabase.storageBucket)
+    .createSignedUploadUrl(path);
+  if (error || !data) throw error || new Error('No signed upload URL returned');
+
+  return {
+    path,
+    bucket: config.supabase.storageBucket,
+    uploadUrl: data.signedUrl,
+    resumableUrl: getResumableUploadUrl(),
+    token: data.token,
+    contentType: request.contentType,
+    maxBytes: UPLOAD_MAX_BYTES,
+    expiresAt,
+  };
+}
+
+/**
+ * Check that every document was uploaded by the caller through a ticket, within the ticket's
+ * lifetime, content type and size, and that the file passes inspectDocument, then mark the
+ * tickets used
+ * Returns each file's SHA-256 by path. Confirming the same uploads again (e.g. a
+ * resubmission) succeeds.
+ */
+export async function confirmUploads(
+  supabase: SupabaseClient,
+  subject: string,
+  documents: readonly SignupDocument[],
+  now = Date.now()
+): Promise<
+  | { success: true; hashes: Record<string, string> }
+  | { success: false; error: UploadConfirmationError; path: string }
+> {
+  const paths = documents.map(document => document.file_path);
+  const documentTypes = new Map(documents.map(document => [document.file_path, document.type]));
+  const hashes: Record<string, string> = {};
+  if (paths.length === 0) return { success: true, hashes };
+
+  const { data, error } = await supabase
+    .from('upload_tickets')
+    .select('object_path, subject, content_type, max_bytes, expires_at')
+    .in('object_path', paths);
+  if (error) throw error;
+
+  const tickets = new Map(((data || []) as TicketRow[]).map(row => [row.object_path, row]));
+  const storage = supabase.storage.from(config.supabase.storageBucket);
+
+  for (const path of paths) {
+    const ticket = tickets.get(path);
+    if (!ticket || ticket.subject !== subject) {
+      return { success: false, error: 'unknown_upload', path };
+    }
+
+    const { data: object } = await storage.info(path);
+    if (!object) {
+      return { success: false, error: 'not_uploaded', path };
+    }
+
+    // A PDF ticketed for a bill can't be passed off as an ID
+    const documentType = documentTypes.get(path);
+    const uploadedAt = new Date(object.createdAt).getTime();
+    if (
+      object.contentType !== ticket.content_type ||
+      (ticket.content_type === 'application/pdf' && !(documentType && acceptsPdf(documentType))) ||
+      (object.size ?? Infinity) > ticket.max_bytes ||
+      !(uploadedAt <= new Date(ticket.expires_at).getTime())
+    ) {
+      return { success: false, error: 'mismatch', path };
+    }
+
+    // The stored content type is only what the uploader sent
+    const { data: file } = await storage.download(path);
+    if (!file) {
+      return { success: false, error: 'not_uploaded', path };
+    }
+    const inspection = inspectDocument(new Uint8Array(await file.arrayBuffer()));
+    if (!inspection.success) {
+      return { success: false, error: inspection.error, path };
+    }
+    if (inspection.data.contentType !== ticket.content_type) {
+      return { success: false, error: 'mismatch', path };
+    }
+    hashes[path] = inspection.data.sha256;
+  }
+
+  const { error: updateError } = await supabase
+    .from('upload_tickets')
+    .update({ confirmed_at: new Date(now).toISOString() })
+    .in('object_path', paths)
+    .is('confirmed_at', null);
+  if (updateError) throw updateError;
+
+  return { success: true, hashes };
+}
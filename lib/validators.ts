@@ -1,114 +1,302 @@
 import { z } from 'zod';
 import { parsePhoneNumberFromString, isValidPhoneNumber } from 'libphonenumber-js';
+import {
+  KYC_DOCUMENT_TYPES,
+  MERCHANT_TYPES,
+  SIGNUP_COUNTRIES,
+  SignupDocument,
+  TERMINAL_MODELS,
+} from '../src/types';
+import { createTranslator, DEFAULT_LOCALE, isLocale, Translate } from '../src/i18n';
+import { BankDetailsIssue, findBank, validateBankDetails } from '../src/utils/bankDirectory';
+import {
+  BUSINESS_DESCRIPTION_MAX_LENGTH,
+  isBusinessCategoryCode,
+} from '../src/utils/businessCategories';
+import {
+  CountryProfile,
+  DEFAULT_COUNTRY,
+  getCountryProfile,
+  isFieldRequired,
+} from '../src/utils/countryProfiles';
+import { getMissingDocuments, isDocumentPath } from '../src/utils/kycDocuments';
+import {
+  TERMINAL_ORDER_MAX_QUANTITY,
+  TERMINAL_SHIPPING_ADDRESS_MAX_LENGTH,
+} from '../src/utils/terminalOrders';
+
+// Every message is looked up in the applicant's language (src/i18n), so the fields are built
+// per translator rather than once
 
 // Advanced phone validation using libphonenumber-js
-const phoneNumberSchema = z.string().refine(value => {
-  // Allow empty string during form entry - other validation will catch this
-  if (!value) return false;
-
-  try {
-    // Try to validate the phone number
-    return isValidPhoneNumber(value) || false;
-  } catch (e) {
-    return false;
-  }
-}, 'Please enter a valid phone number');
+const phoneNumberSchema = (t: Translate) =>
+  z.string().refine(value => {
+    // Allow empty string during form entry - other validation will catch this
+    if (!value) return false;
+
+    try {
+      // Try to validate the phone number
+      return isValidPhoneNumber(value) || false;
+    } catch (e) {
+      return false;
+    }
+  }, t('validation.phoneInvalid'));
 
 // Fallback regex pattern for environments where libphonenumber might not work
 const phoneRegex = /^\+?[0-9]{10,15}$/;
 
+const phoneSchema = (t: Translate) =>
+  z.union([phoneNumberSchema(t), z.string().regex(phoneRegex, t('validation.phoneCountryCode'))]);
+
+const optionalEmailSchema = (t: Translate) =>
+  z.string().email(t('validation.emailInvalid')).optional().or(z.literal(''));
+
 // Common fields that all account types share
-const commonFields = {
-  username: z.string().min(1, 'Flash username is required'),
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  phone: z.union([
-    phoneNumberSchema,
-    z.string().regex(phoneRegex, 'Please enter a valid phone number with country code'),
-  ]),
-  email: z.string().email('Please enter a valid email').optional().or(z.literal('')),
+const commonFields = (t: Translate) => ({
+  username: z.string().min(1, t('validation.usernameRequired')),
+  name: z.string().min(2, t('validation.nameMin')),
+  phone: phoneSchema(t),
+  email: optionalEmailSchema(t),
   terms_accepted: z.literal(true, {
-    errorMap: () => ({ message: 'You must accept the terms and conditions' }),
+    errorMap: () => ({ message: t('validation.termsRequired') }),
   }),
+});
+
+// What the business does - category codes come from src/utils/businessCategories.ts
+const businessDetailFields = (t: Translate) => ({
+  business_type: z
+    .string({ required_error: t('validation.businessCategory') })
+    .refine(isBusinessCategoryCode, t('validation.businessCategory')),
+  business_description: z
+    .string()
+    .max(
+      BUSINESS_DESCRIPTION_MAX_LENGTH,
+      t('validation.descriptionMax', { max: BUSINESS_DESCRIPTION_MAX_LENGTH })
+    )
+    .optional()
+    .or(z.literal('')),
+  merchant_type: z.enum(MERCHANT_TYPES).optional(),
+});
+
+// Terminal order details, used when wants_terminal is checked
+const terminalFields = (t: Translate) => ({
+  wants_terminal: z.boolean().optional(),
+  terminal_quantity: z
+    .number()
+    .int()
+    .min(1, t('validation.terminalMin'))
+    .max(
+      TERMINAL_ORDER_MAX_QUANTITY,
+      t('validation.terminalMax', { max: TERMINAL_ORDER_MAX_QUANTITY })
+    )
+    .optional(),
+  terminal_model: z.enum(TERMINAL_MODELS).optional(),
+  terminal_shipping_address: z
+    .string()
+    .max(TERMINAL_SHIPPING_ADDRESS_MAX_LENGTH, t('validation.shippingAddressMax'))
+    .optional()
+    .or(z.literal('')),
+});
+
+const bankIssueMessage = (issue: BankDetailsIssue, t: Translate): string => {
+  switch (issue.code) {
+    case 'listed_bank':
+      return t('validation.bankListed', { bank: issue.bank.name });
+    case 'unsupported_currency':
+      return t('validation.currencyUnsupported', {
+        bank: issue.bank.shortName,
+        currencies: issue.bank.currencies.join(', '),
+      });
+  }
 };
 
-// Create schema with different requirements for each account type
-// Note: Personal account type has been removed from the flow
-export const signupFormSchema = z.discriminatedUnion('account_type', [
-  // Schema for business accounts
-  z.object({
-    account_type: z.literal('business'),
-    ...commonFields,
-    // Required business fields
-    business_name: z.string().min(2, 'Business name must be at least 2 characters'),
-    business_address: z.string().min(5, 'Please enter a valid address'),
-    latitude: z.number().optional().or(z.literal('')),
-    longitude: z.number().optional().or(z.literal('')),
-    wants_terminal: z.boolean().optional(),
-    // Make merchant fields optional
-    bank_name: z.string().optional().or(z.literal('')),
-    bank_branch: z.string().optional().or(z.literal('')),
-    bank_account_type: z.string().optional().or(z.literal('')),
-    account_currency: z.string().optional().or(z.literal('')),
-    bank_account_number: z.string().optional().or(z.literal('')),
-    id_image_url: z.union([
-      z.string().optional(),
-      z.literal(''),
-      z.custom(val => typeof window !== 'undefined' && val instanceof File).optional(),
-    ]),
-  }),
+// A bank listed in src/utils/bankDirectory.ts must offer the currency and be in the profile's
+// market; unlisted banks are accepted as entered unless they look like a listed one
+// Runs on the whole object because the rules depend on the chosen bank
+const refineBankDetails =
+  (profile: CountryProfile, t: Translate) =>
+  (
+    data: {
+      bank_name?: string;
+      account_currency?: string;
+    },
+    ctx: z.RefinementCtx
+  ) => {
+    for (const issue of validateBankDetails(data, profile.code)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [issue.field],
+        message: bankIssueMessage(issue, t),
+      });
+    }
+
+    const bank = findBank(data.bank_name);
+    if (bank && bank.country !== profile.code) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['bank_name'],
+        message: t('validation.bankOutsideCountry', { country: t(`country.${profile.code}`) }),
+      });
+    }
+  };
 
-  // Schema for merchant accounts
-  z.object({
-    account_type: z.literal('merchant'),
-    ...commonFields,
-    // Business fields required for merchants
-    business_name: z.string().min(2, 'Business name must be at least 2 characters'),
-    business_address: z.string().min(5, 'Please enter a valid address'),
+// Uploaded verification documents, at most one of each type
+const documentsField = (t: Translate) =>
+  z
+    .array(
+      z.object({
+        type: z.enum(KYC_DOCUMENT_TYPES),
+        file_path: z.string().refine(isDocumentPath, t('validation.documentInvalid')),
+      })
+    )
+    .refine(
+      documents => new Set(documents.map(document => document.type)).size === documents.length,
+      t('validation.documentDuplicate')
+    )
+    .optional();
+
+// The documents the profile requires for the account type must all be uploaded
+const refineDocuments =
+  (profile: CountryProfile, t: Translate) =>
+  (
+    data: { account_type: 'business' | 'merchant'; documents?: SignupDocument[] },
+    ctx: z.RefinementCtx
+  ) => {
+    const missing = getMissingDocuments(profile, data.account_type, data.documents);
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['documents'],
+        message: t('validation.documentsMissing', {
+          documents: missing.map(requirement => t(`documents.${requirement}`)).join(', '),
+        }),
+      });
+    }
+  };
+
+// Merchant banking fields, with the profile deciding which of branch and account type
+// are required
+const merchantBankFields = (profile: CountryProfile, t: Translate) => ({
+  bank_name: z.string().min(2, t('validation.bankRequired')),
+  bank_branch: isFieldRequired(profile, 'bank_branch')
+    ? z.string().min(2, t('validation.branchRequired'))
+    : z.string().optional().or(z.literal('')),
+  bank_account_type: isFieldRequired(profile, 'bank_account_type')
+    ? z.string().min(2, t('validation.accountTypeRequired'))
+    : z.string().optional().or(z.literal('')),
+  account_currency: z.string().min(2, t('validation.currencyRequired')),
+  bank_account_number: z.string().min(4, t('validation.accountNumberRequired')),
+});
+
+/**
+ * Signup schema for one market, with messages in one language
+ * Use getSignupFormSchema, which caches the result.
+ */
+function buildSignupFormSchema(profile: CountryProfile, t: Translate) {
+  const profileFields = {
+    ...commonFields(t),
+    country: z.enum(SIGNUP_COUNTRIES).optional(),
+    email: isFieldRequired(profile, 'email')
+      ? z
+          .string({ required_error: t('validation.emailRequired') })
+          .min(1, t('validation.emailRequired'))
+          .email(t('validation.emailInvalid'))
+      : optionalEmailSchema(t),
+  };
+  const businessFields = {
+    business_name: z.string().min(2, t('validation.businessNameMin')),
+    business_address: z.string().min(5, t('validation.addressInvalid')),
+    ...businessDetailFields(t),
     latitude: z.number().optional().or(z.literal('')),
     longitude: z.number().optional().or(z.literal('')),
-    wants_terminal: z.boolean().optional(),
-    // Required merchant fields
-    bank_name: z.string().min(2, 'Bank name is required'),
-    bank_branch: z.string().min(2, 'Branch is required'),
-    bank_account_type: z.string().min(2, 'Account type is required'),
-    account_currency: z.string().min(2, 'Currency is required'),
-    bank_account_number: z.string().min(4, 'Account number is required'),
-    id_image_url: z.union([
-      z.string().min(1, 'ID image is required'),
-      z.custom(val => typeof window !== 'undefined' && val instanceof File, {
-        message: 'Valid ID image is required',
+    ...terminalFields(t),
+  };
+
+  // Create schema with different requirements for each account type
+  // Note: Personal account type has been removed from the flow
+  return z
+    .discriminatedUnion('account_type', [
+      // Schema for business accounts
+      z.object({
+        account_type: z.literal('business'),
+        ...profileFields,
+        // Required business fields
+        ...businessFields,
+        // Make merchant fields optional
+        bank_name: z.string().optional().or(z.literal('')),
+        bank_branch: z.string().optional().or(z.literal('')),
+        bank_account_type: z.string().optional().or(z.literal('')),
+        account_currency: z.string().optional().or(z.literal('')),
+        bank_account_number: z.string().optional().or(z.literal('')),
+        documents: documentsField(t),
       }),
-    ]),
-  }),
-]);
 
-// For backward compatibility - these are used elsewhere in the codebase
+      // Schema for merchant accounts
+      z.object({
+        account_type: z.literal('merchant'),
+        ...profileFields,
+        // Business fields required for merchants
+        ...businessFields,
+        // Required merchant fields
+        ...merchantBankFields(profile, t),
+        documents: documentsField(t),
+      }),
+    ])
+    .superRefine(refineBankDetails(profile, t))
+    .superRefine(refineDocuments(profile, t));
+}
+
+type SignupFormSchema = ReturnType<typeof buildSignupFormSchema>;
+
+// Keyed by `${country}:${locale}`
+const signupFormSchemas = new Map<string, SignupFormSchema>();
+
+/**
+ * Signup schema for a market, see src/utils/countryProfiles.ts, with messages in the
+ * applicant's language
+ * Unknown or missing countries get the default market's schema, unknown locales English. The
+ * submit route always validates in English.
+ */
+export function getSignupFormSchema(country?: unknown, locale?: unknown): SignupFormSchema {
+  const profile = getCountryProfile(country);
+  const language = isLocale(locale) ? locale : DEFAULT_LOCALE;
+  const key = `${profile.code}:${language}`;
+  let schema = signupFormSchemas.get(key);
+  if (!schema) {
+    schema = buildSignupFormSchema(profile, createTranslator(language));
+    signupFormSchemas.set(key, schema);
+  }
+  return schema;
+}
+
+// Schema for the default market - SignupFormData is inferred from it
+export const signupFormSchema = getSignupFormSchema(DEFAULT_COUNTRY);
+
+// For backward compatibility - these are used elsewhere in the codebase, in English
+const english = createTranslator(DEFAULT_LOCALE);
+
 export const usernameSchema = z.object({
-  username: z.string().min(1, 'Flash username is required'),
+  username: z.string().min(1, english('validation.usernameRequired')),
 });
 
 export const personInfoSchema = z.object({
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  phone: z.union([
-    phoneNumberSchema,
-    z.string().regex(phoneRegex, 'Please enter a valid phone number with country code'),
-  ]),
-  email: z.string().email('Please enter a valid email').optional().or(z.literal('')),
+  name: z.string().min(2, english('validation.nameMin')),
+  phone: phoneSchema(english),
+  email: optionalEmailSchema(english),
 });
 
 export const businessInfoSchema = z.object({
-  business_name: z.string().min(2, 'Business name must be at least 2 characters'),
-  business_address: z.string().min(5, 'Please enter a valid address'),
+  business_name: z.string().min(2, english('validation.businessNameMin')),
+  business_address: z.string().min(5, english('validation.addressInvalid')),
+  ...businessDetailFields(english),
   latitude: z.number().optional(),
   longitude: z.number().optional(),
-  wants_terminal: z.boolean().optional(),
+  ...terminalFields(english),
 });
 
-export const merchantInfoSchema = z.object({
-  bank_name: z.string().min(2, 'Bank name is required'),
-  bank_account_type: z.string().min(2, 'Account type is required'),
-  account_currency: z.string().min(2, 'Currency is required'),
-  bank_account_number: z.string().min(4, 'Account number is required'),
-  bank_branch: z.string().min(2, 'Branch is required'),
-  id_image_url: z.string().optional(),
-});
+export const merchantInfoSchema = z
+  .object({
+    ...merchantBankFields(getCountryProfile(DEFAULT_COUNTRY), english),
+    documents: documentsField(english),
+  })
+  .superRefine(refineBankDetails(getCountryProfile(DEFAULT_COUNTRY), english));
@@ -0,0 +1,348 @@
+import { createHmac, randomBytes } from 'crypto';
+import { getSupabaseAdmin } from './supabase-admin';
+import { SignupFormData, WebhookEvent, WEBHOOK_EVENTS } from '../src/types';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Outbound webhooks for signup lifecycle events (db/webhooks.sql)
+ *
+ * Each delivery is a POST with a JSON body and these headers:
+ *   X-Flash-Event      event type, e.g. signup.approved
+ *   X-Flash-Delivery   delivery id - the same across retries, so subscribers can dedupe
+ *   X-Flash-Timestamp  unix seconds when the attempt was signed
+ *   X-Flash-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the endpoint secret>
+ */
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+export const WEBHOOK_RETRY_BASE_MS = 30 * 1000;
+export const WEBHOOK_RETRY_MAX_MS = 6 * 60 * 60 * 1000; // 6 hours
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+export const WEBHOOK_LEASE_MS = 2 * 60 * 1000;
+export const WEBHOOK_BATCH_SIZE = 20;
+
+// Signup fields shared with subscribers - no bank account numbers or ID documents
+export const WEBHOOK_SIGNUP_FIELDS = [
+  'username',
+  'name',
+  'email',
+  'phone',
+  'account_type',
+  'business_name',
+  'business_address',
+  'business_type',
+  'business_description',
+  'latitude',
+  'longitude',
+  'wants_terminal',
+  'merchant_type',
+  'created_at',
+] as const satisfies readonly (keyof SignupFormData)[];
+
+export type WebhookSignup = Pick<SignupFormData, (typeof WEBHOOK_SIGNUP_FIELDS)[number]> & {
+  id: string;
+  status?: string;
+};
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent;
+  created_at: string;
+  data: { signup: WebhookSignup };
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Endpoints must use https, except localhost outside production
+ */
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    if (url.protocol === 'https:') return true;
+    return (
+      url.protocol === 'http:' &&
+      process.env.NODE_ENV !== 'production' &&
+      ['localhost', '127.0.0.1'].includes(url.hostname)
+    );
+  } catch (error) {
+    return false;
+  }
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+}
+
+/**
+ * Validate an endpoint registration from the admin console
+ */
+export function parseWebhookEndpointInput(
+  body: Record<string, unknown>
+): { success: true; data: WebhookEndpointInput } | { success: false; error: string } {
+  const url = typeof body.url === 'string' ? body.url.trim() : '';
+  if (!isValidWebhookUrl(url)) {
+    return { success: false, error: 'Endpoint URL must use https' };
+  }
+
+  const events = Array.isArray(body.events) ? body.events.filter(isWebhookEvent) : [];
+  if (events.length === 0) {
+    return { success: false, error: 'Select at least one event' };
+  }
+
+  const description =
+    typeof body.description === 'string' && body.description.trim()
+      ? body.description.trim().substring(0, 200)
+      : null;
+
+  return { success: true, data: { url, description, events: Array.from(new Set(events)) } };
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Build the delivery body from the signup snapshot taken when the event fired
+ */
+export function buildWebhookPayload(
+  deliveryId: string,
+  event: WebhookEvent,
+  createdAt: string,
+  snapshot: Record<string, unknown>
+): WebhookPayload {
+  const signup: Record<string, unknown> = { id: snapshot.id };
+  WEBHOOK_SIGNUP_FIELDS.forEach(field => {
+    if (snapshot[field] !== undefined && snapshot[field] !== null) signup[field] = snapshot[field];
+  });
+  if (typeof snapshot.status === 'string') signup.status = snapshot.status;
+
+  return {
+    id: deliveryId,
+    type: event,
+    created_at: createdAt,
+    data: { signup: signup as WebhookSignup },
+  };
+}
+
+/**
+ * Delay before the next attempt, doubling from WEBHOOK_RETRY_BASE_MS
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), WEBHOOK_RETRY_MAX_MS);
+}
+
+export interface ClaimedWebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  // Includes this run's claim
+  attempts: number;
+  createdAt: string;
+  url: string;
+  secret: string;
+}
+
+export interface WebhookAttemptResult {
+  delivered: boolean;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Storage for queued deliveries
+ */
+export interface WebhookStore {
+  claim(workerId: string, limit: number, leaseMs: number): Promise<ClaimedWebhookDelivery[]>;
+  recordAttempt(
+    id: string,
+    workerId: string,
+    result: WebhookAttemptResult,
+    retryAt: number | null
+  ): Promise<void>;
+}
+
+/**
+ * Supabase-backed store using the functions in db/webhooks.sql
+ */
+export function createSupabaseWebhookStore(): WebhookStore | null {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) return null;
+
+  type Row = {
+    id: string;
+    event_type: WebhookEvent;
+    payload: Record<string, unknown>;
+    attempts: number;
+    created_at: string;
+    url: string;
+    secret: string;
+  };
+
+  return {
+    async claim(workerId, limit, leaseMs) {
+      const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+        p_worker: workerId,
+        p_limit: limit,
+        p_lease_seconds: Math.ceil(leaseMs / 1000),
+      });
+      if (error) throw error;
+      return ((data || []) as Row[]).map(row => ({
+        id: row.id,
+        event: row.event_type,
+        payload: row.payload,
+        attempts: row.attempts,
+        createdAt: row.created_at,
+        url: row.url,
+        secret: row.secret,
+      }));
+    },
+    async recordAttempt(id, workerId, result, retryAt) {
+      const { error } = await supabase.rpc('record_webhook_attempt', {
+        p_id: id,
+        p_worker: workerId,
+        p_delivered: result.delivered,
+        p_status_code: result.statusCode,
+        p_error: result.error,
+        p_duration_ms: result.durationMs,
+        p_retry_at: retryAt === null ? null : new Date(retryAt).toISOString(),
+      });
+      if (error) throw error;
+    },
+  };
+}
+
+/**
+ * POST one delivery to its endpoint - any 2xx response counts as delivered
+ */
+export async function sendWebhook(
+  delivery: ClaimedWebhookDelivery,
+  now: number = Date.now()
+): Promise<WebhookAttemptResult> {
+  const body = JSON.stringify(
+    buildWebhookPayload(delivery.id, delivery.event, delivery.createdAt, delivery.payload)
+  );
+  const timestamp = Math.floor(now / 1000);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Flash-Webhooks/1.0',
+        'X-Flash-Event': delivery.event,
+        'X-Flash-Delivery': delivery.id,
+        'X-Flash-Timestamp': String(timestamp),
+        'X-Flash-Signature': signWebhookPayload(delivery.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+
+    return {
+      delivered: response.ok,
+      statusCode: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      delivered: false,
+      statusCode: null,
+      error: controller.signal.aborted
+        ? 'Timed out'
+        : error instanceof Error
+          ? error.message
+          : String(error),
+      durationMs: Date.now() - started,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export interface WebhookWorkerOptions {
+  store?: WebhookStore;
+  send?: (delivery: ClaimedWebhookDelivery) => Promise<WebhookAttemptResult>;
+  workerId?: string;
+  batchSize?: number;
+  now?: () => number;
+}
+
+export interface WebhookRunSummary {
+  claimed: number;
+  delivered: number;
+  retrying: number;
+  dead: number;
+}
+
+/**
+ * Send one batch of due deliveries
+ */
+export async function runWebhookWorker(
+  options: WebhookWorkerOptions = {}
+): Promise<WebhookRunSummary> {
+  const store = options.store || createSupabaseWebhookStore();
+  if (!store) {
+    throw new Error('Webhook worker requires SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  const send = options.send || (delivery => sendWebhook(delivery));
+  const workerId = options.workerId || `worker_${randomBytes(6).toString('hex')}`;
+  const now = options.now || Date.now;
+  const summary: WebhookRunSummary = { claimed: 0, delivered: 0, retrying: 0, dead: 0 };
+
+  const deliveries = await store.claim(
+    workerId,
+    options.batchSize || WEBHOOK_BATCH_SIZE,
+    WEBHOOK_LEASE_MS
+  );
+  summary.claimed = deliveries.length;
+
+  // Deliveries go to different subscribers, so one slow endpoint shouldn't hold up the rest.
+  // One that throws stays claimed until its lease runs out and is then sent again.
+  await Promise.all(
+    deliveries.map(async delivery => {
+      try {
+        const result = await send(delivery);
+        const retryAt =
+          result.delivered || delivery.attempts >= WEBHOOK_MAX_ATTEMPTS
+            ? null
+            : now() + getWebhookRetryDelay(delivery.attempts);
+
+        if (!result.delivered) {
+          logger.warn('Webhook delivery failed', {
+            id: delivery.id,
+            event: delivery.event,
+            attempts: delivery.attempts,
+            retrying: retryAt !== null,
+            error: result.error,
+          });
+        }
+
+        await store.recordAttempt(delivery.id, workerId, result, retryAt);
+
+        if (result.delivered) summary.delivered += 1;
+        else if (retryAt === null) summary.dead += 1;
+        else summary.retrying += 1;
+      } catch (error) {
+        logger.error(`Unable to process webhook delivery ${delivery.id}`, error);
+      }
+    })
+  );
+
+  logger.info('Webhook worker run finished', summary);
+  return summary;
+}
@@ -256,7 +256,6 @@ try {
     "supabaseUrl": "${process.env.NEXT_PUBLIC_SUPABASE_URL || ''}",
     "supabaseKey": "${process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''}",
     "googleMapsApiKey": "${process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || ''}",
-    "bucket": "id_uploads",
     "environment": "${process.env.NODE_ENV || 'production'}",
     "buildTime": true,
     "platform": "StaticBuild",
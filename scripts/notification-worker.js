@@ -0,0 +1,64 @@
+/**
+ * Run the notification outbox worker (emails and webhooks) against a running app
+ *
+ * Calls POST /api/notifications/run on an interval, so no external cron is needed.
+ *
+ * Usage: npm run notifications:worker [-- --once]
+ *   NOTIFICATION_WORKER_URL         - app URL (default http://localhost:3000)
+ *   NOTIFICATION_WORKER_SECRET      - shared secret, same value as the app's
+ *   NOTIFICATION_WORKER_INTERVAL_MS - delay between runs (default 30000)
+ */
+
+const baseUrl = (process.env.NOTIFICATION_WORKER_URL || 'http://localhost:3000').replace(
+  /\/+$/,
+  ''
+);
+const secret = process.env.NOTIFICATION_WORKER_SECRET;
+const interval = parseInt(process.env.NOTIFICATION_WORKER_INTERVAL_MS || '30000', 10);
+const once = process.argv.includes('--once');
+
+if (!secret) {
+  console.error('❌ NOTIFICATION_WORKER_SECRET is required');
+  process.exit(1);
+}
+
+async function runOnce() {
+  const response = await fetch(`${baseUrl}/api/notifications/run`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  // Either worker can fail on its own; report the one that ran before giving up
+  const { emails, webhooks } = body.data || {};
+  if (emails?.claimed > 0) {
+    console.log(
+      `📬 emails: ${emails.sent} sent, ${emails.retrying} retrying, ${emails.failed} failed`
+    );
+  }
+  if (webhooks?.claimed > 0) {
+    console.log(
+      `🔗 webhooks: ${webhooks.delivered} delivered, ${webhooks.retrying} retrying, ${webhooks.dead} dead`
+    );
+  }
+
+  if (!response.ok || !body.success) {
+    const failed = Object.keys(body.data || {}).filter(worker => !body.data[worker]);
+    const message = body.error || `Worker run failed with status ${response.status}`;
+    throw new Error(failed.length > 0 ? `${message} (${failed.join(', ')})` : message);
+  }
+}
+
+async function main() {
+  do {
+    try {
+      await runOnce();
+    } catch (error) {
+      console.error(`⚠️ ${error.message}`);
+      if (once) process.exit(1);
+    }
+    if (!once) await new Promise(resolve => setTimeout(resolve, interval));
+  } while (!once);
+}
+
+main();
@@ -0,0 +1,36 @@
+/**
+ * Run one batch of the outbox workers (emails and webhooks) in this process
+ *
+ * For schedulers without a server build to call, like the GitHub Actions cron in
+ * .github/workflows/check_pending_notifications.yml. Needs the app's Supabase and mail
+ * settings (SUPABASE_SERVICE_ROLE_KEY, MAIL_TRANSPORT, SMTP_*) rather than
+ * NOTIFICATION_WORKER_SECRET, and exits non-zero if either worker failed.
+ *
+ * Usage: npm run notifications:run
+ */
+import { runOutboxWorkers } from '../lib/outbox-workers';
+
+async function main() {
+  const { emails, webhooks } = await runOutboxWorkers();
+
+  if (emails) {
+    console.log(
+      `📬 emails: ${emails.sent} sent, ${emails.retrying} retrying, ${emails.failed} failed`
+    );
+  }
+  if (webhooks) {
+    console.log(
+      `🔗 webhooks: ${webhooks.delivered} delivered, ${webhooks.retrying} retrying, ${webhooks.dead} dead`
+    );
+  }
+
+  const failed = Object.entries({ emails, webhooks })
+    .filter(([, summary]) => !summary)
+    .map(([worker]) => worker);
+  if (failed.length > 0) {
+    console.error(`❌ Worker run failed (${failed.join(', ')})`);
+    process.exit(1);
+  }
+}
+
+main();
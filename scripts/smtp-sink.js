@@ -0,0 +1,119 @@
+/**
+ * Stand-in SMTP server for developing the notification worker
+ *
+ * Accepts every message, prints it and optionally saves it as an .eml file.
+ * Point the app at it with MAIL_TRANSPORT=smtp SMTP_HOST=127.0.0.1 SMTP_PORT=2525.
+ *
+ * Usage: npm run smtp-sink
+ *   SMTP_SINK_PORT - port to listen on (default 2525)
+ *   SMTP_SINK_DIR  - directory to write received messages to (optional)
+ */
+
+const fs = require('fs');
+const net = require('net');
+const path = require('path');
+
+/**
+ * Create a sink server; onMessage receives { from, to, data } for each message
+ */
+function createSmtpSink(onMessage) {
+  return net.createServer(socket => {
+    let buffer = '';
+    let envelope = { from: '', to: [] };
+    let inData = false;
+    let dataLines = [];
+
+    const reply = line => socket.write(`${line}\r\n`);
+
+    const handleCommand = line => {
+      const command = line.substring(0, 4).toUpperCase();
+
+      switch (command) {
+        case 'EHLO':
+          reply('250-smtp-sink');
+          reply('250-8BITMIME');
+          reply('250 AUTH PLAIN');
+          break;
+        case 'HELO':
+          reply('250 smtp-sink');
+          break;
+        case 'AUTH':
+          reply('235 Authenticated');
+          break;
+        case 'MAIL':
+          envelope = { from: (line.match(/<([^>]*)>/) || [])[1] || '', to: [] };
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push((line.match(/<([^>]*)>/) || [])[1] || '');
+          reply('250 OK');
+          break;
+        case 'DATA':
+          inData = true;
+          dataLines = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          envelope = { from: '', to: [] };
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index = buffer.indexOf('\r\n');
+
+      while (index >= 0) {
+        const line = buffer.substring(0, index);
+        buffer = buffer.substring(index + 2);
+
+        if (!inData) {
+          handleCommand(line);
+        } else if (line === '.') {
+          inData = false;
+          onMessage({ ...envelope, data: dataLines.join('\r\n') });
+          reply('250 Queued');
+        } else {
+          dataLines.push(line.startsWith('..') ? line.substring(1) : line);
+        }
+
+        index = buffer.indexOf('\r\n');
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+    reply('220 smtp-sink ready');
+  });
+}
+
+module.exports = { createSmtpSink };
+
+if (require.main === module) {
+  const port = parseInt(process.env.SMTP_SINK_PORT || '2525', 10);
+  const dir = process.env.SMTP_SINK_DIR;
+  let count = 0;
+
+  if (dir) fs.mkdirSync(dir, { recursive: true });
+
+  createSmtpSink(message => {
+    count += 1;
+    console.log(`\n📨 Message ${count} from ${message.from} to ${message.to.join(', ')}`);
+    console.log(message.data);
+
+    if (dir) {
+      const file = path.join(dir, `${Date.now()}-${count}.eml`);
+      fs.writeFileSync(file, message.data);
+      console.log(`💾 Saved to ${file}`);
+    }
+  }).listen(port, () => console.log(`📭 SMTP sink listening on port ${port}`));
+}
@@ -60,7 +60,6 @@ try {
     {
       supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL,
       supabaseKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-      bucket: 'id_uploads',
       environment: 'test',
       buildTime: true,
       platform: 'LocalTestBuild',
@@ -0,0 +1,146 @@
+/**
+ * Stand-in tus server for developing resumable document uploads
+ *
+ * Speaks the part of tus 1.0 that src/services/tus.ts uses (creation, HEAD, PATCH and
+ * termination) and keeps uploads in memory. Like Supabase storage's signed endpoint, creating
+ * an upload under a path ending in /sign needs an x-signature header, but any value is accepted.
+ * Point upload tickets at it with
+ * STORAGE_RESUMABLE_URL=http://127.0.0.1:1080/storage/v1/upload/resumable/sign.
+ *
+ * Usage: npm run tus-server
+ *   TUS_SERVER_PORT - port to listen on (default 1080)
+ *   TUS_SERVER_DIR  - directory to write finished uploads to (optional)
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const TUS_VERSION = '1.0.0';
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+
+// Browsers in development run on another port
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, HEAD, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Authorization, Content-Type, Tus-Resumable, Upload-Length, Upload-Metadata, Upload-Offset, x-signature, x-upsert',
+  'Access-Control-Expose-Headers': 'Location, Tus-Resumable, Upload-Length, Upload-Offset',
+};
+
+/**
+ * Upload-Metadata is comma-separated "key base64value" pairs
+ */
+function parseMetadata(header) {
+  const metadata = {};
+  (header || '')
+    .split(',')
+    .filter(Boolean)
+    .forEach(pair => {
+      const [key, value] = pair.trim().split(' ');
+      if (key) metadata[key] = Buffer.from(value || '', 'base64').toString('utf8');
+    });
+  return metadata;
+}
+
+/**
+ * Create a tus server; onComplete receives { id, metadata, data } for each finished upload
+ *   options.maxSize - largest Upload-Length accepted (default 10MB, like the documents bucket)
+ */
+function createTusServer(onComplete, options = {}) {
+  const maxSize = options.maxSize || DEFAULT_MAX_SIZE;
+  const uploads = new Map();
+
+  return http.createServer((req, res) => {
+    const reply = (status, headers = {}) => {
+      res.writeHead(status, { ...CORS_HEADERS, 'Tus-Resumable': TUS_VERSION, ...headers });
+      res.end();
+    };
+
+    if (req.method === 'OPTIONS') {
+      return reply(204, {
+        'Tus-Version': TUS_VERSION,
+        'Tus-Extension': 'creation,termination',
+        'Tus-Max-Size': String(maxSize),
+      });
+    }
+    if (req.headers['tus-resumable'] !== TUS_VERSION) {
+      return reply(412, { 'Tus-Version': TUS_VERSION });
+    }
+
+    const { pathname } = new URL(req.url, 'http://localhost');
+
+    if (req.method === 'POST') {
+      const length = Number(req.headers['upload-length']);
+      if (!Number.isInteger(length) || length < 0) return reply(400);
+      if (length > maxSize) return reply(413);
+      if (pathname.endsWith('/sign') && !req.headers['x-signature']) return reply(403);
+
+      const id = crypto.randomUUID();
+      uploads.set(id, {
+        length,
+        offset: 0,
+        metadata: parseMetadata(req.headers['upload-metadata']),
+        chunks: [],
+      });
+      return reply(201, { Location: `http://${req.headers.host}${pathname}/${id}` });
+    }
+
+    const id = pathname.split('/').pop();
+    const upload = uploads.get(id);
+    if (!upload) return reply(404);
+
+    if (req.method === 'HEAD') {
+      return reply(200, {
+        'Upload-Offset': String(upload.offset),
+        'Upload-Length': String(upload.length),
+        'Cache-Control': 'no-store',
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      uploads.delete(id);
+      return reply(204);
+    }
+
+    if (req.method !== 'PATCH') return reply(405);
+    if (req.headers['content-type'] !== 'application/offset+octet-stream') return reply(415);
+    if (Number(req.headers['upload-offset']) !== upload.offset) return reply(409);
+
+    // Bytes are kept as they arrive, so a dropped connection can resume where it stopped
+    req.on('data', chunk => {
+      const accepted = chunk.subarray(0, upload.length - upload.offset);
+      upload.chunks.push(accepted);
+      upload.offset += accepted.length;
+    });
+    req.on('end', () => {
+      reply(204, { 'Upload-Offset': String(upload.offset) });
+      if (upload.offset === upload.length && !upload.completed) {
+        upload.completed = true;
+        onComplete({ id, metadata: upload.metadata, data: Buffer.concat(upload.chunks) });
+      }
+    });
+    req.on('error', () => req.destroy());
+  });
+}
+
+module.exports = { createTusServer };
+
+if (require.main === module) {
+  const port = parseInt(process.env.TUS_SERVER_PORT || '1080', 10);
+  const dir = process.env.TUS_SERVER_DIR;
+
+  if (dir) fs.mkdirSync(dir, { recursive: true });
+
+  createTusServer(upload => {
+    const name = upload.metadata.objectName || upload.id;
+    console.log(`\n📦 Upload ${name} finished: ${upload.data.length} bytes`, upload.metadata);
+
+    if (dir) {
+      const file = path.join(dir, path.basename(name));
+      fs.writeFileSync(file, upload.data);
+      console.log(`💾 Saved to ${file}`);
+    }
+  }).listen(port, () => console.log(`📭 tus server listening on port ${port}`));
+}
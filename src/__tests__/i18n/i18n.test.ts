@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { getSignupFormSchema } from '../../../lib/validators';
+import { createTranslator, detectLocale, LOCALES, translate } from '../../i18n';
+import en from '../../i18n/messages/en';
+import es from '../../i18n/messages/es';
+import ht from '../../i18n/messages/ht';
+import { makeZodErrorMap } from '../../i18n/zodErrorMap';
+
+const fieldErrors = (result: z.SafeParseReturnType<unknown, unknown>) =>
+  result.success ? {} : result.error.flatten().fieldErrors;
+
+const placeholders = (message: string) => (message.match(/\{\w+\}/g) || []).sort();
+
+describe('i18n', () => {
+  it('translates every message with the same placeholders', () => {
+    [es, ht].forEach(catalog => {
+      Object.entries(en).forEach(([key, message]) => {
+        const translated = catalog[key as keyof typeof en];
+        expect(translated.trim()).not.toBe('');
+        expect(placeholders(translated)).toEqual(placeholders(message));
+      });
+    });
+  });
+
+  it('fills in placeholders', () => {
+    expect(translate('en', 'validation.bankOutsideCountry', { country: 'Jamaica' })).toBe(
+      'Please choose a bank in Jamaica'
+    );
+    expect(translate('es', 'validation.terminalMax', { max: 5 })).toBe(
+      'Puede pedir hasta 5 terminales'
+    );
+    // Missing params stay visible rather than disappearing
+    expect(translate('ht', 'bank.namePlaceholder')).toBe('Chèche, pa egzanp {examples}');
+  });
+
+  it('prefers the saved locale, then the browser languages', () => {
+    expect(detectLocale('ht', ['es-JM'])).toBe('ht');
+    expect(detectLocale(null, ['fr-FR', 'es-JM', 'en'])).toBe('es');
+    expect(detectLocale('de', ['HT'])).toBe('ht');
+    expect(detectLocale(undefined, ['fr-FR'])).toBe('en');
+    expect(detectLocale(null)).toBe('en');
+  });
+
+  it('localizes zod issues that have no message of their own', () => {
+    const schema = z.object({ name: z.string(), kind: z.enum(['a', 'b']) });
+    const result = schema.safeParse({ kind: 'c' }, { errorMap: makeZodErrorMap('es') });
+
+    expect(fieldErrors(result)).toEqual({
+      name: ['Obligatorio'],
+      kind: ['Elija una de las opciones'],
+    });
+  });
+
+  it('builds the signup schema in the requested language', () => {
+    const data = { account_type: 'business', name: 'A' };
+
+    LOCALES.forEach(locale => {
+      const result = getSignupFormSchema('JM', locale).safeParse(data);
+      expect(fieldErrors(result)).toHaveProperty('name', [
+        createTranslator(locale)('validation.nameMin'),
+      ]);
+    });
+
+    // Unknown locales fall back to English
+    expect(getSignupFormSchema('JM', 'fr')).toBe(getSignupFormSchema('JM'));
+    expect(getSignupFormSchema('KY', 'es')).not.toBe(getSignupFormSchema('KY'));
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { createClient } from '@supabase/supabase-js';
+import { checkAuth, phoneMatchesPrincipal, registerAuthScheme } from '../../../lib/auth-middleware';
+import { signGuestToken } from '../../../lib/guest-token';
+import { signPhoneAuthToken } from '../../../lib/phone-auth-token';
+
+const requestWith = (authorization?: string) =>
+  new Request('http://localhost:3000/api/submit', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+
+describe('checkAuth', () => {
+  beforeEach(() => {
+    process.env.PHONE_AUTH_SECRET = 'test-secret';
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+    (createClient as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest.fn(async (token: string) =>
+          token === 'valid-token'
+            ? { data: { user: { id: 'user-1', phone: '18762909250' } }, error: null }
+            : { data: { user: null }, error: 'invalid' }
+        ),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+    });
+  });
+
+  it('resolves Supabase JWTs to a supabase principal', async () => {
+    const { auth } = await checkAuth(requestWith('Bearer valid-token'));
+
+    expect(auth.isAuthenticated).toBe(true);
+    expect(auth.principal).toEqual({
+      method: 'supabase',
+      subject: 'user-1',
+      phone: '+18762909250',
+    });
+    expect(auth.user.id).toBe('user-1');
+  });
+
+  it('resolves phone auth tokens to the verified phone', async () => {
+    const { token, payload } = signPhoneAuthToken('+18762909250');
+
+    const { auth } = await checkAuth(requestWith(`PhoneAuth ${token}`));
+
+    expect(auth.principal).toEqual({
+      method: 'phone',
+      subject: payload.sub,
+      phone: '+18762909250',
+      verifiedAt: payload.iat,
+    });
+    expect(auth.user).toBeNull();
+  });
+
+  it('resolves guest tokens without a phone', async () => {
+    const { token, payload } = signGuestToken('pow');
+
+    const { auth } = await checkAuth(requestWith(`Guest ${token}`));
+
+    expect(auth.principal).toEqual({
+      method: 'captcha',
+      subject: payload.sub,
+      phone: null,
+      verifiedAt: payload.iat,
+    });
+  });
+
+  it('does not accept a token under another scheme', async () => {
+    const { token } = signGuestToken('pow');
+
+    const { auth } = await checkAuth(requestWith(`PhoneAuth ${token}`));
+
+    expect(auth.isAuthenticated).toBe(false);
+  });
+
+  it('rejects missing, unknown and forged credentials', async () => {
+    expect((await checkAuth(requestWith())).auth.isAuthenticated).toBe(false);
+    expect((await checkAuth(requestWith('Basic abc'))).auth.isAuthenticated).toBe(false);
+    expect((await checkAuth(requestWith('PhoneAuth abc.def'))).auth.isAuthenticated).toBe(false);
+    expect((await checkAuth(requestWith('Bearer bad'))).auth.isAuthenticated).toBe(false);
+  });
+
+  it('supports registering additional schemes', async () => {
+    registerAuthScheme({
+      name: 'Test',
+      verify: async credentials => ({
+        success: true,
+        principal: { method: 'captcha', subject: credentials, phone: null },
+      }),
+    });
+
+    const { auth } = await checkAuth(requestWith('Test tester'));
+
+    expect(auth.principal?.subject).toBe('tester');
+  });
+});
+
+describe('phoneMatchesPrincipal', () => {
+  it('compares normalized phone numbers', () => {
+    const principal = { method: 'phone' as const, subject: 's', phone: '+18762909250' };
+
+    expect(phoneMatchesPrincipal(principal, '+1 876 290 9250')).toBe(true);
+    expect(phoneMatchesPrincipal(principal, '+18765550100')).toBe(false);
+  });
+
+  it('passes for principals without a verified phone', () => {
+    expect(
+      phoneMatchesPrincipal({ method: 'captcha', subject: 'g', phone: null }, '+18765550100')
+    ).toBe(true);
+  });
+});
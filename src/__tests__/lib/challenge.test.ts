@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import {
+  CHALLENGE_MAX_AGE_MS,
+  createPowChallengeProvider,
+  createSiteverifyChallengeProvider,
+  isChallengeFresh,
+} from '../../../lib/challenge';
+import { leadingZeroBits } from '../../utils/proofOfWork';
+
+const solve = (challenge: string, difficulty: number) => {
+  for (let nonce = 0; ; nonce++) {
+    const digest = createHash('sha256').update(`${challenge}:${nonce}`).digest();
+    if (leadingZeroBits(digest) >= difficulty) return `${challenge}:${nonce}`;
+  }
+};
+
+describe('proof of work challenge', () => {
+  beforeEach(() => {
+    process.env.PHONE_AUTH_SECRET = 'test-secret';
+  });
+
+  it('accepts a solved challenge once', async () => {
+    const provider = createPowChallengeProvider(8);
+    const { challenge, difficulty } = await provider.issue!();
+    const response = solve(challenge, difficulty);
+
+    expect(await provider.verify(response)).toEqual({ success: true });
+    expect((await provider.verify(response)).success).toBe(false);
+  });
+
+  it('rejects wrong nonces and forged challenges', async () => {
+    const provider = createPowChallengeProvider(8);
+    const { challenge } = await provider.issue!();
+    const [, signature] = challenge.split('.');
+
+    // With 8 bits only 1 in 256 nonces pass, so find one that doesn't
+    let nonce = 0;
+    while (leadingZeroBits(createHash('sha256').update(`${challenge}:${nonce}`).digest()) >= 8) {
+      nonce++;
+    }
+
+    expect((await provider.verify(`${challenge}:${nonce}`)).success).toBe(false);
+    expect((await provider.verify(`forged.${signature}:1`)).success).toBe(false);
+    expect((await provider.verify('garbage')).success).toBe(false);
+  });
+
+  it('counts leading zero bits', () => {
+    expect(leadingZeroBits(Buffer.from([0, 0x0f, 0xff]))).toBe(12);
+    expect(leadingZeroBits(Buffer.from([0x80]))).toBe(0);
+  });
+});
+
+describe('siteverify challenge providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it.each(['hcaptcha', 'turnstile'] as const)('verifies %s tokens server-side', async name => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: false, 'error-codes': ['invalid-input-response'] }),
+      });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const provider = createSiteverifyChallengeProvider(name, 'secret');
+
+    expect(await provider.verify('good-token', '203.0.113.1')).toEqual({ success: true });
+    expect((await provider.verify('bad-token')).success).toBe(false);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain(name === 'hcaptcha' ? 'hcaptcha.com' : 'challenges.cloudflare.com');
+    expect(init.body).toContain('secret=secret');
+    expect(init.body).toContain('response=good-token');
+    expect(init.body).toContain('remoteip=203.0.113.1');
+  });
+});
+
+describe('isChallengeFresh', () => {
+  it('expires after CHALLENGE_MAX_AGE_MS', () => {
+    const now = Date.now();
+    expect(isChallengeFresh(now - 1000, now)).toBe(true);
+    expect(isChallengeFresh(now - CHALLENGE_MAX_AGE_MS - 1, now)).toBe(false);
+    expect(isChallengeFresh(undefined, now)).toBe(false);
+  });
+});
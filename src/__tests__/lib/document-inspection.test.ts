@@ -0,0 +1,169 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { inspectDocument } from '../../../lib/document-inspection';
+
+const text = (value: string) => Array.from(value).map(char => char.charCodeAt(0));
+const uint16 = (value: number) => [value >> 8, value & 0xff];
+const uint32 = (value: number) => [...uint16(value >>> 16), ...uint16(value & 0xffff)];
+
+// SOI, any extra segments, a baseline frame header, one scan and EOI
+const jpeg = (
+  width: number,
+  height: number,
+  scan = [0x12, 0xff, 0x00, 0x34],
+  segments: number[] = []
+) => [
+  0xff,
+  0xd8,
+  ...segments,
+  ...[0xff, 0xc0, ...uint16(11), 8, ...uint16(height), ...uint16(width), 1, 1, 0x11, 0],
+  ...[0xff, 0xda, ...uint16(8), 1, 1, 0, 0, 0x3f, 0],
+  ...scan,
+  0xff,
+  0xd9,
+];
+
+const chunk = (type: string, data: number[]) => [
+  ...uint32(data.length),
+  ...text(type),
+  ...data,
+  0,
+  0,
+  0,
+  0,
+];
+
+const png = (width: number, height: number) => [
+  ...text('\x89PNG\r\n\x1a\n'),
+  ...chunk('IHDR', [...uint32(width), ...uint32(height), 8, 2, 0, 0, 0]),
+  ...chunk('IDAT', [1, 2, 3]),
+  ...chunk('IEND', []),
+];
+
+const box = (type: string, payload: number[]) => [
+  ...uint32(payload.length + 8),
+  ...text(type),
+  ...payload,
+];
+
+// ftyp, then meta > iprp > ipco with a thumbnail and the full-size image
+const heic = (width: number, height: number) => [
+  ...box('ftyp', [...text('heic'), 0, 0, 0, 0, ...text('mif1heic')]),
+  ...box('meta', [
+    0,
+    0,
+    0,
+    0,
+    ...box(
+      'iprp',
+      box('ipco', [
+        ...box('ispe', [0, 0, 0, 0, ...uint32(320), ...uint32(240)]),
+        ...box('ispe', [0, 0, 0, 0, ...uint32(width), ...uint32(height)]),
+      ])
+    ),
+  ]),
+  ...box('mdat', [1, 2, 3, 4]),
+];
+
+const pdf = text('%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\ntrailer\n<< >>\n%%EOF\n');
+
+const inspect = (bytes: number[]) => inspectDocument(new Uint8Array(bytes));
+
+describe('inspectDocument', () => {
+  it('recognises each format from its bytes and hashes the file', () => {
+    const bytes = jpeg(1600, 1200);
+
+    expect(inspect(bytes)).toEqual({
+      success: true,
+      data: {
+        format: 'jpeg',
+        contentType: 'image/jpeg',
+        width: 1600,
+        height: 1200,
+        sha256: createHash('sha256').update(new Uint8Array(bytes)).digest('hex'),
+      },
+    });
+    expect(inspect(png(800, 600))).toMatchObject({
+      success: true,
+      data: { format: 'png', width: 800, height: 600 },
+    });
+    // The full-size image, not the thumbnail
+    expect(inspect(heic(1920, 1440))).toMatchObject({
+      success: true,
+      data: { format: 'heic', contentType: 'image/heic', width: 1920, height: 1440 },
+    });
+    expect(inspect(pdf)).toMatchObject({
+      success: true,
+      data: { format: 'pdf', width: null, height: null },
+    });
+  });
+
+  it('refuses formats it does not accept', () => {
+    expect(inspect(text('GIF89a'))).toEqual({ success: false, error: 'unsupported_format' });
+    expect(inspect([...text('RIFF'), 0, 0, 0, 0, ...text('WEBPVP8 ')])).toEqual({
+      success: false,
+      error: 'unsupported_format',
+    });
+  });
+
+  it('refuses truncated files', () => {
+    const truncated = (bytes: number[], cut: number) => inspect(bytes.slice(0, -cut));
+
+    expect(truncated(jpeg(1600, 1200), 2)).toEqual({ success: false, error: 'truncated' });
+    expect(truncated(png(800, 600), 12)).toEqual({ success: false, error: 'truncated' });
+    expect(truncated(heic(1920, 1440), 2)).toEqual({ success: false, error: 'truncated' });
+    expect(truncated(pdf, 7)).toEqual({ success: false, error: 'truncated' });
+  });
+
+  it('refuses polyglots', () => {
+    const zip = [...text('PK'), 3, 4, ...text('payload')];
+
+    // Appended after the end of the image
+    expect(inspect([...jpeg(1600, 1200), ...zip])).toEqual({ success: false, error: 'polyglot' });
+    expect(inspect([...png(800, 600), ...text('%PDF-1.4')])).toEqual({
+      success: false,
+      error: 'polyglot',
+    });
+    // Hidden in its metadata
+    const comment = text('<SCRIPT>alert(1)</SCRIPT>');
+    expect(
+      inspect(jpeg(1600, 1200, undefined, [0xff, 0xfe, ...uint16(comment.length + 2), ...comment]))
+    ).toEqual({ success: false, error: 'polyglot' });
+    expect(inspect([...pdf, ...text('<html>')])).toEqual({ success: false, error: 'polyglot' });
+  });
+
+  it('does not search compressed image and stream data', () => {
+    // Any byte sequence can come out of the compressor
+    expect(inspect(jpeg(1600, 1200, [0x12, ...text('<SCRIPT>'), 0x34]))).toMatchObject({
+      success: true,
+    });
+    const streamed = text(
+      '%PDF-1.7\n1 0 obj\n<< /Length 6 >>\nstream\nPK\x03\x04<svg\nendstream\nendobj\n%%EOF\n'
+    );
+    expect(inspect(streamed)).toMatchObject({ success: true });
+  });
+
+  it('allows padding after the end', () => {
+    expect(inspect([...jpeg(1600, 1200), 0, 0, 0])).toMatchObject({ success: true });
+    expect(inspect([...pdf, 0x0d, 0x0a])).toMatchObject({ success: true });
+  });
+
+  it('enforces pixel limits', () => {
+    expect(inspect(jpeg(2000, 1500))).toMatchObject({ success: true });
+    expect(inspect(jpeg(2001, 1500))).toEqual({ success: false, error: 'bad_dimensions' });
+    expect(inspect(png(640, 200))).toEqual({ success: false, error: 'bad_dimensions' });
+    expect(inspect(heic(4032, 3024))).toEqual({ success: false, error: 'bad_dimensions' });
+  });
+
+  it('refuses images whose structure is broken', () => {
+    // A PNG must start with its header chunk
+    const noHeader = [...text('\x89PNG\r\n\x1a\n'), ...chunk('IEND', [])];
+    // Garbage where a JPEG marker should be
+    const badMarker = [0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0x12, 0x34];
+
+    expect(inspect(noHeader)).toEqual({ success: false, error: 'corrupt' });
+    expect(inspect(badMarker)).toEqual({ success: false, error: 'corrupt' });
+  });
+});
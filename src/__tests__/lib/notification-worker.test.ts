@@ -0,0 +1,210 @@
+/**
+ * @jest-environment node
+ */
+import { MailMessage, MailTransport } from '../../../lib/mailer';
+import {
+  getRetryDelay,
+  NOTIFICATION_MAX_ATTEMPTS,
+  NotificationStore,
+  OutboxNotification,
+  runNotificationWorker,
+} from '../../../lib/notification-worker';
+import { NotificationSignup } from '../../../lib/notification-templates';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+const SIGNUP: NotificationSignup = {
+  id: 'signup-1',
+  created_at: '2026-03-01T11:59:00.000Z',
+  name: 'Jane Brown',
+  username: 'janeb',
+  email: 'jane@example.com',
+  phone: '+18762909250',
+  account_type: 'merchant',
+  business_name: 'Island Eats',
+  business_address: '1 Main St, Kingston',
+  wants_terminal: true,
+};
+
+type StoredRow = OutboxNotification & {
+  status: 'pending' | 'processing' | 'sent' | 'failed';
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+/**
+ * In-memory outbox with the same lease rules as db/notification-outbox.sql
+ */
+const createStore = (rows: StoredRow[], signups: NotificationSignup[] = [SIGNUP]) => {
+  const store: NotificationStore = {
+    async claim(_workerId, limit) {
+      const due = rows
+        .filter(row => row.status === 'pending' && row.nextAttemptAt <= NOW)
+        .slice(0, limit);
+      due.forEach(row => {
+        row.status = 'processing';
+        row.attempts += 1;
+      });
+      return due.map(row => ({ ...row, delivered: [...row.delivered] }));
+    },
+    async complete(id, _workerId, delivered) {
+      Object.assign(
+        rows.find(row => row.id === id)!,
+        { status: 'sent', delivered }
+      );
+    },
+    async fail(id, _workerId, delivered, error, retryAt) {
+      Object.assign(
+        rows.find(row => row.id === id)!,
+        {
+          status: retryAt === null ? 'failed' : 'pending',
+          nextAttemptAt: retryAt,
+          delivered,
+          lastError: error,
+        }
+      );
+    },
+    async loadSignup(signupId) {
+      return signups.find(signup => signup.id === signupId) || null;
+    },
+  };
+  return store;
+};
+
+const pendingRow = (overrides: Partial<StoredRow> = {}): StoredRow => ({
+  id: 'log-1',
+  signupId: 'signup-1',
+  action: 'notification_needed',
+  attempts: 0,
+  delivered: [],
+  status: 'pending',
+  nextAttemptAt: NOW - 1000,
+  ...overrides,
+});
+
+const createTransport = (failFor: string[] = []) => {
+  const sent: MailMessage[] = [];
+  const transport: MailTransport = {
+    name: 'test',
+    async send(message) {
+      if (failFor.includes(message.to)) throw new Error('550 mailbox unavailable');
+      sent.push(message);
+    },
+  };
+  return { transport, sent };
+};
+
+const templates = { supportEmail: 'support@flash.com', siteUrl: 'https://signup.example.com/' };
+
+describe('runNotificationWorker', () => {
+  it('sends the support and applicant emails and marks the row sent', async () => {
+    const rows = [pendingRow()];
+    const { transport, sent } = createTransport();
+
+    const summary = await runNotificationWorker({
+      store: createStore(rows),
+      transport,
+      templates,
+      now: () => NOW,
+    });
+
+    expect(summary).toEqual({ claimed: 1, sent: 1, retrying: 0, failed: 0 });
+    expect(rows[0]).toEqual(
+      expect.objectContaining({ status: 'sent', delivered: ['support', 'applicant'] })
+    );
+    expect(sent.map(message => message.to)).toEqual(['support@flash.com', 'jane@example.com']);
+    expect(sent[0]!.subject).toBe('New merchant signup: Island Eats');
+    expect(sent[0]!.text).toContain('Wants terminal: Yes');
+    expect(sent[0]!.text).toContain('https://signup.example.com/admin');
+    expect(sent[1]!.text).toContain('Hi Jane Brown');
+    expect(sent[1]!.messageId).toBe('signup-log-log-1-applicant');
+  });
+
+  it('retries with backoff without resending delivered messages', async () => {
+    const rows = [pendingRow()];
+    const failing = createTransport(['jane@example.com']);
+
+    const first = await runNotificationWorker({
+      store: createStore(rows),
+      transport: failing.transport,
+      templates,
+      now: () => NOW,
+    });
+
+    expect(first.retrying).toBe(1);
+    expect(rows[0]).toEqual(
+      expect.objectContaining({
+        status: 'pending',
+        delivered: ['support'],
+        nextAttemptAt: NOW + getRetryDelay(1),
+        lastError: '550 mailbox unavailable',
+      })
+    );
+
+    rows[0]!.nextAttemptAt = NOW;
+    const working = createTransport();
+    await runNotificationWorker({
+      store: createStore(rows),
+      transport: working.transport,
+      templates,
+      now: () => NOW,
+    });
+
+    expect(working.sent.map(message => message.to)).toEqual(['jane@example.com']);
+    expect(rows[0]!.status).toBe('sent');
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const rows = [pendingRow({ attempts: NOTIFICATION_MAX_ATTEMPTS - 1 })];
+    const { transport } = createTransport(['support@flash.com']);
+
+    const summary = await runNotificationWorker({
+      store: createStore(rows),
+      transport,
+      templates,
+      now: () => NOW,
+    });
+
+    expect(summary.failed).toBe(1);
+    expect(rows[0]!.status).toBe('failed');
+  });
+
+  it('does not pick up rows that are not due or already sent', async () => {
+    const rows = [
+      pendingRow({ id: 'later', nextAttemptAt: NOW + 60000 }),
+      pendingRow({ id: 'done', status: 'sent' }),
+    ];
+    const { transport, sent } = createTransport();
+
+    const summary = await runNotificationWorker({
+      store: createStore(rows),
+      transport,
+      templates,
+      now: () => NOW,
+    });
+
+    expect(summary.claimed).toBe(0);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('skips the applicant email when no address was given', async () => {
+    const rows = [pendingRow()];
+    const { transport, sent } = createTransport();
+
+    await runNotificationWorker({
+      store: createStore(rows, [{ ...SIGNUP, email: null }]),
+      transport,
+      templates,
+      now: () => NOW,
+    });
+
+    expect(sent.map(message => message.to)).toEqual(['support@flash.com']);
+    expect(rows[0]!.delivered).toEqual(['support']);
+  });
+
+  it('doubles the retry delay up to the cap', () => {
+    expect(getRetryDelay(1)).toBe(60 * 1000);
+    expect(getRetryDelay(2)).toBe(2 * 60 * 1000);
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import {
+  PHONE_AUTH_TOKEN_TTL_MS,
+  signPhoneAuthToken,
+  verifyPhoneAuthToken,
+} from '../../../lib/phone-auth-token';
+
+describe('phone auth tokens', () => {
+  beforeEach(() => {
+    process.env.PHONE_AUTH_SECRET = 'test-secret';
+  });
+
+  it('round-trips a signed token', () => {
+    const { token, payload } = signPhoneAuthToken('+18762909250');
+    expect(verifyPhoneAuthToken(token)).toEqual(payload);
+  });
+
+  it('derives the same subject for the same phone number', () => {
+    const first = signPhoneAuthToken('+18762909250').payload;
+    const second = signPhoneAuthToken('+18762909250').payload;
+    expect(first.sub).toBe(second.sub);
+  });
+
+  it('rejects tampered tokens', () => {
+    const { token } = signPhoneAuthToken('+18762909250');
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'x', phone: '+1', exp: Date.now() + 1000 }))
+      .toString('base64')
+      .replace(/=+$/, '');
+
+    expect(verifyPhoneAuthToken(`${forged}.${signature}`)).toBeNull();
+    expect(verifyPhoneAuthToken('not-a-token')).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const { token } = signPhoneAuthToken('+18762909250');
+    process.env.PHONE_AUTH_SECRET = 'other-secret';
+    expect(verifyPhoneAuthToken(token)).toBeNull();
+  });
+
+  it('rejects expired tokens', () => {
+    const issuedAt = Date.now() - PHONE_AUTH_TOKEN_TTL_MS - 1;
+    const { token } = signPhoneAuthToken('+18762909250', issuedAt);
+    expect(verifyPhoneAuthToken(token)).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { findReusedDocuments } from '../../../lib/signup-documents';
+
+const HASH = 'a'.repeat(64);
+
+// signup_documents rows with the same file, joined to the signup that sent each one
+const mockMatches = (rows: unknown[]) => {
+  const neq = jest.fn(async () => ({ data: rows, error: null }));
+  const select = jest.fn(() => ({ in: () => ({ neq }) }));
+  return {
+    supabase: { from: () => ({ select }) } as unknown as SupabaseClient,
+    select,
+    neq,
+  };
+};
+
+describe('findReusedDocuments', () => {
+  it("flags files sent with other applicants' signups", async () => {
+    const { supabase, neq } = mockMatches([
+      { signup_id: 'row-0', sha256: HASH, signups: { user_id: 'user-2', phone: '+18765550000' } },
+    ]);
+
+    const reused = await findReusedDocuments(
+      supabase,
+      { id: 'row-1', user_id: 'user-1', phone: '+18762909250' },
+      [HASH]
+    );
+
+    expect(neq).toHaveBeenCalledWith('signup_id', 'row-1');
+    expect(reused.get(HASH)).toEqual(['row-0']);
+  });
+
+  it("doesn't flag an applicant's own files sent again", async () => {
+    const { supabase } = mockMatches([
+      { signup_id: 'row-0', sha256: HASH, signups: { user_id: 'user-1', phone: '+18765550000' } },
+      { signup_id: 'row-2', sha256: HASH, signups: { user_id: null, phone: '+18762909250' } },
+    ]);
+
+    const reused = await findReusedDocuments(
+      supabase,
+      { id: 'row-1', user_id: 'user-1', phone: '+18762909250' },
+      [HASH]
+    );
+
+    expect(reused.size).toBe(0);
+  });
+
+  it('compares guests by phone number only', async () => {
+    const { supabase } = mockMatches([
+      { signup_id: 'row-0', sha256: HASH, signups: { user_id: null, phone: '+18765550000' } },
+    ]);
+
+    const reused = await findReusedDocuments(
+      supabase,
+      { id: 'row-1', user_id: null, phone: '+18762909250' },
+      [HASH]
+    );
+
+    expect(reused.get(HASH)).toEqual(['row-0']);
+  });
+
+  it('skips the lookup without hashes', async () => {
+    const { supabase, select } = mockMatches([]);
+
+    expect((await findReusedDocuments(supabase, { id: 'row-1' }, [])).size).toBe(0);
+    expect(select).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { AddressInfo, Server } from 'net';
+import { buildMimeMessage, createSmtpMailTransport } from '../../../lib/mailer';
+import { dotStuff } from '../../../lib/smtp-client';
+// eslint-disable-next-line @typescript-eslint/no-var-requires -- CommonJS dev script
+const { createSmtpSink } = require('../../../scripts/smtp-sink');
+
+type SinkMessage = { from: string; to: string[]; data: string };
+
+describe('SMTP mail transport', () => {
+  let server: Server;
+  let port: number;
+  const received: SinkMessage[] = [];
+
+  beforeAll(async () => {
+    server = createSmtpSink((message: SinkMessage) => received.push(message));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('delivers messages to the sink', async () => {
+    const transport = createSmtpMailTransport(
+      { host: '127.0.0.1', port },
+      'Flash Signups <no-reply@getflash.io>'
+    );
+
+    await transport.send({
+      to: 'jane@example.com',
+      subject: 'Bienvenue à Flash',
+      text: 'Hello\n.leading dot\nBye',
+      messageId: 'signup-log-1-applicant',
+    });
+
+    expect(received).toHaveLength(1);
+    const [message] = received;
+    expect(message!.from).toBe('no-reply@getflash.io');
+    expect(message!.to).toEqual(['jane@example.com']);
+    expect(message!.data).toContain('Message-ID: <signup-log-1-applicant@getflash.io>');
+    expect(message!.data).toContain('Subject: =?UTF-8?B?');
+
+    const body = message!.data.split('\r\n\r\n')[1]!.replace(/\r\n/g, '');
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Hello\n.leading dot\nBye');
+  });
+
+  it('refuses to send credentials without TLS', async () => {
+    const transport = createSmtpMailTransport(
+      { host: '127.0.0.1', port, user: 'worker', password: 'secret' },
+      'no-reply@getflash.io'
+    );
+    const before = received.length;
+
+    await expect(
+      transport.send({ to: 'jane@example.com', subject: 'Hi', text: 'x' })
+    ).rejects.toThrow('did not offer STARTTLS');
+    expect(received).toHaveLength(before);
+  });
+
+  it('rejects recipients that could inject headers', async () => {
+    const transport = createSmtpMailTransport({ host: '127.0.0.1', port }, 'no-reply@getflash.io');
+
+    await expect(
+      transport.send({ to: 'a@example.com\r\nBcc: b@example.com', subject: 'Hi', text: 'x' })
+    ).rejects.toThrow('Invalid recipient address');
+  });
+});
+
+describe('message encoding', () => {
+  it('escapes leading dots and normalizes line endings', () => {
+    expect(dotStuff('a\n.b\r\n..c')).toBe('a\r\n..b\r\n...c');
+  });
+
+  it('keeps ASCII subjects readable', () => {
+    const message = buildMimeMessage(
+      'no-reply@getflash.io',
+      { to: 'jane@example.com', subject: 'New signup', text: 'Hi' },
+      new Date('2026-03-01T12:00:00.000Z')
+    );
+
+    expect(message).toContain('Subject: New signup\r\n');
+    expect(message).toContain('Date: Sun, 01 Mar 2026 12:00:00 GMT');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+import { createHmac } from 'crypto';
+import {
+  buildWebhookPayload,
+  ClaimedWebhookDelivery,
+  getWebhookRetryDelay,
+  isValidWebhookUrl,
+  parseWebhookEndpointInput,
+  runWebhookWorker,
+  sendWebhook,
+  signWebhookPayload,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_MAX_MS,
+  WebhookAttemptResult,
+  WebhookStore,
+} from '../../../lib/webhooks';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+const SNAPSHOT = {
+  id: 'signup-1',
+  name: 'Jane Brown',
+  email: 'jane@example.com',
+  phone: '+18762909250',
+  account_type: 'merchant',
+  business_name: 'Island Eats',
+  wants_terminal: true,
+  status: 'approved',
+  bank_account_number: '123456789',
+  id_image_url: 'uploads/id.jpg',
+  created_at: '2026-03-01T11:59:00.000Z',
+};
+
+const delivery = (overrides: Partial<ClaimedWebhookDelivery> = {}): ClaimedWebhookDelivery => ({
+  id: 'delivery-1',
+  event: 'signup.approved',
+  payload: SNAPSHOT,
+  attempts: 1,
+  createdAt: '2026-03-01T11:59:30.000Z',
+  url: 'https://crm.example.com/hooks',
+  secret: 'whsec_test',
+  ...overrides,
+});
+
+const result = (overrides: Partial<WebhookAttemptResult> = {}): WebhookAttemptResult => ({
+  delivered: true,
+  statusCode: 200,
+  error: null,
+  durationMs: 12,
+  ...overrides,
+});
+
+const createStore = (claimed: ClaimedWebhookDelivery[]) => {
+  const recorded: { id: string; result: WebhookAttemptResult; retryAt: number | null }[] = [];
+  const store: WebhookStore = {
+    async claim() {
+      return claimed;
+    },
+    async recordAttempt(id, _workerId, attemptResult, retryAt) {
+      recorded.push({ id, result: attemptResult, retryAt });
+    },
+  };
+  return { store, recorded };
+};
+
+describe('webhook payloads', () => {
+  it('only shares the allow-listed signup fields', () => {
+    const payload = buildWebhookPayload('delivery-1', 'signup.approved', 'now', SNAPSHOT);
+
+    expect(payload.data.signup).toMatchObject({
+      id: 'signup-1',
+      business_name: 'Island Eats',
+      status: 'approved',
+    });
+    expect(payload.data.signup).not.toHaveProperty('bank_account_number');
+    expect(payload.data.signup).not.toHaveProperty('id_image_url');
+  });
+
+  it('signs the timestamp and body with the endpoint secret', () => {
+    const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signWebhookPayload('whsec_test', 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it('sends signed deliveries without following redirects', async () => {
+    const fetchMock = jest.fn(async () => ({ ok: true, status: 204 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const sent = await sendWebhook(delivery(), NOW);
+
+    expect(sent).toMatchObject({ delivered: true, statusCode: 204 });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://crm.example.com/hooks');
+    expect(init.redirect).toBe('manual');
+    expect(headers['X-Flash-Delivery']).toBe('delivery-1');
+    expect(headers['X-Flash-Signature']).toBe(
+      signWebhookPayload('whsec_test', NOW / 1000, init.body as string)
+    );
+  });
+});
+
+describe('webhook endpoint input', () => {
+  it('requires https outside localhost', () => {
+    expect(isValidWebhookUrl('https://crm.example.com/hooks')).toBe(true);
+    expect(isValidWebhookUrl('http://localhost:4000/hooks')).toBe(true);
+    expect(isValidWebhookUrl('http://crm.example.com/hooks')).toBe(false);
+    expect(isValidWebhookUrl('not a url')).toBe(false);
+  });
+
+  it('drops unknown events and rejects an empty subscription', () => {
+    expect(
+      parseWebhookEndpointInput({
+        url: 'https://crm.example.com/hooks',
+        events: ['signup.created', 'signup.deleted', 'signup.created'],
+      })
+    ).toEqual({
+      success: true,
+      data: { url: 'https://crm.example.com/hooks', description: null, events: ['signup.created'] },
+    });
+    expect(
+      parseWebhookEndpointInput({ url: 'https://crm.example.com/hooks', events: ['nope'] }).success
+    ).toBe(false);
+  });
+});
+
+describe('runWebhookWorker', () => {
+  it('records delivered attempts without a retry', async () => {
+    const { store, recorded } = createStore([delivery()]);
+
+    const summary = await runWebhookWorker({ store, send: async () => result(), now: () => NOW });
+
+    expect(summary).toEqual({ claimed: 1, delivered: 1, retrying: 0, dead: 0 });
+    expect(recorded[0]).toMatchObject({ id: 'delivery-1', retryAt: null });
+  });
+
+  it('schedules failed attempts with backoff', async () => {
+    const { store, recorded } = createStore([delivery({ attempts: 3 })]);
+
+    const summary = await runWebhookWorker({
+      store,
+      send: async () => result({ delivered: false, statusCode: 500, error: 'HTTP 500' }),
+      now: () => NOW,
+    });
+
+    expect(summary.retrying).toBe(1);
+    expect(recorded[0]?.retryAt).toBe(NOW + getWebhookRetryDelay(3));
+    expect(recorded[0]?.result.statusCode).toBe(500);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const { store, recorded } = createStore([delivery({ attempts: WEBHOOK_MAX_ATTEMPTS })]);
+
+    const summary = await runWebhookWorker({
+      store,
+      send: async () => result({ delivered: false, statusCode: null, error: 'Timed out' }),
+      now: () => NOW,
+    });
+
+    expect(summary.dead).toBe(1);
+    expect(recorded[0]?.retryAt).toBeNull();
+  });
+
+  it('carries on with the batch when one delivery throws', async () => {
+    const { store, recorded } = createStore([
+      delivery({ id: 'delivery-1' }),
+      delivery({ id: 'delivery-2' }),
+    ]);
+
+    const summary = await runWebhookWorker({
+      store,
+      send: async claimed => {
+        if (claimed.id === 'delivery-1') throw new Error('socket hang up');
+        return result();
+      },
+      now: () => NOW,
+    });
+
+    expect(summary).toEqual({ claimed: 2, delivered: 1, retrying: 0, dead: 0 });
+    expect(recorded.map(attempt => attempt.id)).toEqual(['delivery-2']);
+  });
+
+  it('caps the retry delay', () => {
+    expect(getWebhookRetryDelay(1)).toBe(30 * 1000);
+    expect(getWebhookRetryDelay(2)).toBe(60 * 1000);
+    expect(getWebhookRetryDelay(50)).toBe(WEBHOOK_RETRY_MAX_MS);
+  });
+});
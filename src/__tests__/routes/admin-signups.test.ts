@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+import { createClient } from '@supabase/supabase-js';
+import { GET as list } from '../../../app/api/admin/signups/route';
+import { GET as detail } from '../../../app/api/admin/signups/[id]/route';
+import { parseSignupListQuery } from '../../../lib/admin-signups';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const users: Record<string, unknown> = {
+  'admin-token': { id: 'admin-1', app_metadata: { role: 'admin' } },
+  'user-token': { id: 'user-1', email: 'someone@admin.com', app_metadata: {} },
+};
+
+const buildRequest = (path: string, token = 'admin-token') =>
+  new Request(`http://localhost:3000${path}`, { headers: { Authorization: `Bearer ${token}` } });
+
+/**
+ * Chainable query mock that records calls and resolves to `result`
+ */
+const mockQuery = (result: unknown) => {
+  const calls: [string, unknown[]][] = [];
+  const query: any = new Proxy(
+    {},
+    {
+      get: (_target, prop: string) => {
+        if (prop === 'then') {
+          return (resolve: (value: unknown) => void) => resolve(result);
+        }
+        return (...args: unknown[]) => {
+          calls.push([prop, args]);
+          return prop === 'maybeSingle' ? Promise.resolve(result) : query;
+        };
+      },
+    }
+  );
+  return { query, calls };
+};
+
+describe('/api/admin/signups', () => {
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+    (createClient as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest.fn(async (token: string) =>
+          users[token]
+            ? { data: { user: users[token] }, error: null }
+            : { data: { user: null }, error: 'invalid' }
+        ),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+    });
+  });
+
+  it('lists signups with filters, sorting and paging', async () => {
+    const { query, calls } = mockQuery({ data: [{ id: 'row-1' }], error: null, count: 51 });
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({ from: () => query });
+
+    const response = await list(
+      buildRequest(
+        '/api/admin/signups?account_type=merchant&wants_terminal=true&status=submitted&sort=name&order=asc&page=3&pageSize=10'
+      )
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ rows: [{ id: 'row-1' }], total: 51, page: 3, pageSize: 10 });
+    expect(calls).toEqual(
+      expect.arrayContaining([
+        ['eq', ['account_type', 'merchant']],
+        ['eq', ['wants_terminal', true]],
+        ['eq', ['status', 'submitted']],
+        ['order', ['name', { ascending: true }]],
+        ['range', [20, 29]],
+      ])
+    );
+  });
+
+  it('does not treat an admin-looking email as the admin role', async () => {
+    const response = await list(buildRequest('/api/admin/signups', 'user-token'));
+    expect(response.status).toBe(403);
+  });
+
+  it('requires authentication', async () => {
+    const response = await list(buildRequest('/api/admin/signups', 'bad-token'));
+    expect(response.status).toBe(401);
+  });
+
+  it('returns the full record with signed document preview URLs', async () => {
+    const { query } = mockQuery({ data: { id: 'row-1', account_type: 'merchant' }, error: null });
+    const { query: documentsQuery, calls } = mockQuery({
+      data: [
+        {
+          id: 'doc-1',
+          document_type: 'passport',
+          file_path: 'a1b2c3d4-1.jpg',
+          created_at: 'now',
+        },
+        {
+          id: 'doc-2',
+          document_type: 'utility_bill',
+          file_path: 'https://test.supabase.co/storage/v1/object/public/id_uploads/bill.jpg',
+          created_at: 'now',
+        },
+      ],
+      error: null,
+    });
+    const createSignedUrl = jest.fn(async () => ({
+      data: { signedUrl: 'https://signed.example/id.jpg' },
+      error: null,
+    }));
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      from: (table: string) => (table === 'signup_documents' ? documentsQuery : query),
+      storage: { from: () => ({ createSignedUrl }) },
+    });
+
+    const response = await detail(buildRequest('/api/admin/signups/row-1'), {
+      params: { id: 'row-1' },
+    });
+    const body = await response.json();
+
+    expect(calls).toContainEqual(['eq', ['signup_id', 'row-1']]);
+    expect(body.data.documents).toEqual([
+      expect.objectContaining({
+        document_type: 'passport',
+        preview_url: 'https://signed.example/id.jpg',
+      }),
+      // Public URLs left over from before db/document-storage.sql aren't signed
+      expect.objectContaining({ document_type: 'utility_bill', preview_url: null }),
+    ]);
+    expect(createSignedUrl).toHaveBeenCalledTimes(1);
+    expect(createSignedUrl).toHaveBeenCalledWith('a1b2c3d4-1.jpg', expect.any(Number));
+  });
+
+  it('returns 404 for unknown signups', async () => {
+    const { query } = mockQuery({ data: null, error: null });
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({ from: () => query });
+
+    const response = await detail(buildRequest('/api/admin/signups/nope'), {
+      params: { id: 'nope' },
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('admin signup helpers', () => {
+  it('clamps and defaults list queries', () => {
+    const query = parseSignupListQuery(
+      new URLSearchParams('sort=phone&page=-2&pageSize=1000&status=unknown&from=nope')
+    );
+
+    expect(query).toEqual({ sort: 'created_at', order: 'desc', page: 1, pageSize: 100 });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+import { createClient } from '@supabase/supabase-js';
+import {
+  GET as phoneGet,
+  POST as phonePost,
+  PUT as phonePut,
+} from '../../../app/api/capture/route';
+import { GET, POST } from '../../../app/api/capture-sessions/route';
+import { captureSessionLimiter } from '../../../lib/capture-sessions';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const CSRF_TOKEN = 'a'.repeat(64);
+
+// Smallest JPEG lib/document-inspection accepts: a 1200x900 frame header, one scan and EOI
+const JPEG = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xc0, 0, 11, 8, 0x03, 0x84, 0x04, 0xb0, 1, 1, 0x11, 0, 0xff, 0xda, 0, 8, 1, 1,
+  0, 0, 0x3f, 0, 0x12, 0x34, 0xff, 0xd9,
+]);
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory tables and storage, enough for capture sessions and upload tickets
+ */
+const mockSupabase = () => {
+  const tables: Record<string, Row[]> = { capture_sessions: [], upload_tickets: [] };
+  const objects = new Map<string, Uint8Array>();
+
+  const query = (table: string) => {
+    const rows = tables[table] as Row[];
+    const filters: ((row: Row) => boolean)[] = [];
+    let changes: Row | null = null;
+    const run = () => {
+      const matched = rows.filter(row => filters.every(filter => filter(row)));
+      if (changes) matched.forEach(row => Object.assign(row, changes));
+      return matched;
+    };
+
+    const builder = {
+      insert: async (row: Row) => {
+        rows.push({ ...row });
+        return { error: null };
+      },
+      select: () => builder,
+      update: (values: Row) => {
+        changes = values;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push(row => (row[column] ?? null) === value);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) =>
+        resolve({ data: run(), error: null }),
+    };
+    return builder;
+  };
+
+  const storage = {
+    createSignedUploadUrl: async (path: string) => ({
+      data: { signedUrl: `https://test.supabase.co/upload/${path}`, token: 't' },
+      error: null,
+    }),
+    info: async (path: string) => {
+      const bytes = objects.get(path);
+      return {
+        data: bytes
+          ? { contentType: 'image/jpeg', size: bytes.length, createdAt: new Date().toISOString() }
+          : null,
+      };
+    },
+    download: async (path: string) => {
+      const bytes = objects.get(path);
+      return { data: bytes ? new Blob([bytes]) : null };
+    },
+  };
+
+  (getSupabaseAdmin as jest.Mock).mockReturnValue({
+    from: query,
+    storage: { from: () => storage },
+  });
+  return { tables, objects };
+};
+
+const desktopRequest = (method: string, search = '', body?: Row, user = 'valid-token') =>
+  new Request(`http://localhost:3000/api/capture-sessions${search}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${CSRF_TOKEN}`,
+      Authorization: `Bearer ${user}`,
+    },
+    ...(body ? { body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }) } : {}),
+  });
+
+const phoneRequest = (method: string, secret: string, body?: Row) =>
+  new Request('http://localhost:3000/api/capture', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${CSRF_TOKEN}`,
+      Authorization: `Capture ${secret}`,
+    },
+    ...(body ? { body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }) } : {}),
+  });
+
+const openSession = async () => {
+  const response = await POST(desktopRequest('POST', '', { documentType: 'passport' }));
+  return { response, session: (await response.json()).data };
+};
+
+describe('phone capture sessions', () => {
+  beforeEach(() => {
+    captureSessionLimiter.reset();
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+    (createClient as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest.fn(async (token: string) =>
+          ['valid-token', 'other-token'].includes(token)
+            ? { data: { user: { id: token === 'valid-token' ? 'user-1' : 'user-2' } }, error: null }
+            : { data: { user: null }, error: 'invalid' }
+        ),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+    });
+  });
+
+  it('opens a session and stores only a hash of its secret', async () => {
+    const { tables } = mockSupabase();
+
+    const { response, session } = await openSession();
+
+    expect(response.status).toBe(201);
+    expect(session).toMatchObject({ documentType: 'passport', status: 'pending', path: null });
+    expect(session.secret).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(tables.capture_sessions).toHaveLength(1);
+    expect(tables.capture_sessions![0]).toMatchObject({ id: session.id, subject: 'user-1' });
+    expect(JSON.stringify(tables.capture_sessions)).not.toContain(session.secret);
+  });
+
+  it('hands the phone one ticket for the desktop caller and reports the upload back', async () => {
+    const { tables, objects } = mockSupabase();
+    const { session } = await openSession();
+
+    const lookup = await phoneGet(phoneRequest('GET', session.secret));
+    expect((await lookup.json()).data).toMatchObject({
+      documentType: 'passport',
+      status: 'pending',
+    });
+
+    const claim = await phonePost(
+      phoneRequest('POST', session.secret, { contentType: 'image/jpeg', size: JPEG.length })
+    );
+    const ticket = (await claim.json()).data;
+    expect(claim.status).toBe(201);
+    expect(tables.upload_tickets![0]).toMatchObject({
+      object_path: ticket.path,
+      subject: 'user-1',
+      document_type: 'passport',
+    });
+
+    // The link only works once
+    const again = await phonePost(
+      phoneRequest('POST', session.secret, { contentType: 'image/jpeg', size: JPEG.length })
+    );
+    expect(again.status).toBe(409);
+
+    // Completing before the file is in storage fails
+    expect((await phonePut(phoneRequest('PUT', session.secret, {}))).status).toBe(409);
+
+    objects.set(ticket.path, JPEG);
+    const completed = await phonePut(phoneRequest('PUT', session.secret, {}));
+    expect(completed.status).toBe(200);
+
+    const status = await GET(desktopRequest('GET', `?id=${session.id}`));
+    expect((await status.json()).data).toMatchObject({ status: 'completed', path: ticket.path });
+  });
+
+  it('refuses expired sessions', async () => {
+    const { tables } = mockSupabase();
+    const { session } = await openSession();
+    tables.capture_sessions![0]!.expires_at = new Date(Date.now() - 1000).toISOString();
+
+    const claim = await phonePost(
+      phoneRequest('POST', session.secret, { contentType: 'image/jpeg', size: JPEG.length })
+    );
+    const status = await GET(desktopRequest('GET', `?id=${session.id}`));
+
+    expect(claim.status).toBe(410);
+    expect((await status.json()).data.status).toBe('expired');
+    expect(tables.upload_tickets).toHaveLength(0);
+  });
+
+  it('needs the secret on the phone and the same caller on the desktop', async () => {
+    mockSupabase();
+    const { session } = await openSession();
+
+    const unknown = await phoneGet(phoneRequest('GET', 'b'.repeat(43)));
+    const missing = await phoneGet(new Request('http://localhost:3000/api/capture'));
+    const otherCaller = await GET(
+      desktopRequest('GET', `?id=${session.id}`, undefined, 'other-token')
+    );
+
+    expect(unknown.status).toBe(404);
+    expect(missing.status).toBe(401);
+    expect(otherCaller.status).toBe(404);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '../../../app/api/check-duplicates/route';
+import { duplicateCheckLimiters } from '../../../lib/duplicate-check';
+import { signPhoneAuthToken } from '../../../lib/phone-auth-token';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const CSRF_TOKEN = 'c'.repeat(64);
+
+const buildRequest = (
+  body: Record<string, unknown>,
+  { ip = '203.0.113.1', session = CSRF_TOKEN, authorization = '' } = {}
+) =>
+  new Request('http://localhost:3000/api/check-duplicates', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${session}`,
+      'x-forwarded-for': ip,
+      ...(authorization ? { Authorization: authorization } : {}),
+    },
+    body: JSON.stringify({ ...body, csrf_token: session }),
+  });
+
+const mockRpc = (row: Record<string, boolean>) => {
+  const rpc = jest.fn(() => ({ single: () => Promise.resolve({ data: row, error: null }) }));
+  (getSupabaseAdmin as jest.Mock).mockReturnValue({ rpc });
+  return rpc;
+};
+
+describe('POST /api/check-duplicates', () => {
+  beforeEach(() => {
+    duplicateCheckLimiters.ip.reset();
+    duplicateCheckLimiters.caller.reset();
+    process.env.PHONE_AUTH_SECRET = 'test-secret';
+  });
+
+  it('normalizes inputs before checking', async () => {
+    const rpc = mockRpc({ username_taken: false, phone_taken: true, email_taken: false });
+
+    const response = await POST(
+      buildRequest({ username: ' FlashUser ', phone: '+1 (876) 290-9250', email: 'A@B.COM ' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith('check_signup_duplicates', {
+      p_username: 'flashuser',
+      p_phone: '+18762909250',
+      p_email: 'a@b.com',
+    });
+  });
+
+  it('returns only booleans for the requested fields', async () => {
+    mockRpc({ username_taken: true, phone_taken: false, email_taken: false });
+
+    const body = await (await POST(buildRequest({ username: 'flashuser' }))).json();
+
+    expect(body).toEqual({ success: true, data: { username: true } });
+  });
+
+  it('rejects requests without any field', async () => {
+    mockRpc({ username_taken: false, phone_taken: false, email_taken: false });
+
+    const response = await POST(buildRequest({ phone: 'not a phone' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rate limits anonymous callers per IP however often they change sessions', async () => {
+    mockRpc({ username_taken: false, phone_taken: false, email_taken: false });
+
+    for (let i = 0; i < 20; i++) {
+      const session = i.toString(16).padStart(64, '0');
+      expect((await POST(buildRequest({ username: `user${i}` }, { session }))).status).toBe(200);
+    }
+
+    const limited = await POST(buildRequest({ username: 'one-more' }, { session: 'd'.repeat(64) }));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBeTruthy();
+
+    // Another IP is unaffected
+    const other = await POST(buildRequest({ username: 'other' }, { ip: '203.0.113.2' }));
+    expect(other.status).toBe(200);
+  });
+
+  it('gives signed-in callers their own limit', async () => {
+    mockRpc({ username_taken: false, phone_taken: false, email_taken: false });
+    const { token } = signPhoneAuthToken('+18762909250');
+
+    for (let i = 0; i < 20; i++) {
+      await POST(buildRequest({ username: `user${i}` }));
+    }
+    expect((await POST(buildRequest({ username: 'anonymous' }))).status).toBe(429);
+
+    const signedIn = await POST(
+      buildRequest({ username: 'verified' }, { authorization: `PhoneAuth ${token}` })
+    );
+    expect(signedIn.status).toBe(200);
+  });
+
+  it('rate limits per IP across sessions', async () => {
+    mockRpc({ username_taken: false, phone_taken: false, email_taken: false });
+
+    for (let i = 0; i < 60; i++) {
+      const session = i.toString(16).padStart(64, '0');
+      await POST(buildRequest({ username: `user${i}` }, { session }));
+    }
+
+    const limited = await POST(buildRequest({ username: 'x' }, { session: 'e'.repeat(64) }));
+    expect(limited.status).toBe(429);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from '../../../app/api/csrf/route';
+import { validateCSRFToken } from '../../../lib/csrf';
+
+describe('GET /api/csrf', () => {
+  it('returns a token that matches the cookie it sets', async () => {
+    const response = await GET();
+    const body = await response.json();
+    const cookie = response.cookies.get('csrf_token');
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(body.data.expires).toBeGreaterThan(Date.now());
+    expect(cookie?.value).toBe(body.data.token);
+    expect(cookie?.httpOnly).toBe(true);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+  });
+
+  it('issues a different token on every request', async () => {
+    const first = await (await GET()).json();
+    const second = await (await GET()).json();
+
+    expect(first.data.token).not.toBe(second.data.token);
+  });
+
+  it('issues tokens accepted by validateCSRFToken', async () => {
+    const { data } = await (await GET()).json();
+    const request = new Request('http://localhost:3000/api/submit', {
+      method: 'POST',
+      headers: { cookie: `csrf_token=${data.token}` },
+    });
+
+    expect(validateCSRFToken(request, data.token)).toBe(true);
+    expect(validateCSRFToken(request, 'stale-token')).toBe(false);
+  });
+});
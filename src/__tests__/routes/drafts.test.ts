@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import { DELETE, GET, PUT } from '../../../app/api/drafts/route';
+import { signGuestToken } from '../../../lib/guest-token';
+import { signPhoneAuthToken } from '../../../lib/phone-auth-token';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const CSRF_TOKEN = 'f'.repeat(64);
+const PHONE = '+18762909250';
+
+const buildRequest = (method: string, authorization: string, body?: Record<string, unknown>) =>
+  new Request('http://localhost:3000/api/drafts', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${CSRF_TOKEN}`,
+      Authorization: authorization,
+    },
+    ...(body ? { body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }) } : {}),
+  });
+
+describe('/api/drafts', () => {
+  let phoneAuth: string;
+  const upsert = jest.fn(async () => ({ error: null }));
+  const eqDelete = jest.fn(async () => ({ error: null }));
+  const maybeSingle = jest.fn();
+
+  beforeEach(() => {
+    process.env.PHONE_AUTH_SECRET = 'test-secret';
+    phoneAuth = `PhoneAuth ${signPhoneAuthToken(PHONE).token}`;
+    upsert.mockClear();
+    eqDelete.mockClear();
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      from: jest.fn(() => ({
+        upsert,
+        delete: () => ({ eq: eqDelete }),
+        select: () => ({ eq: () => ({ gt: () => ({ maybeSingle }) }) }),
+      })),
+    });
+  });
+
+  it('saves drafts under the verified phone without bank numbers', async () => {
+    const response = await PUT(
+      buildRequest('PUT', phoneAuth, {
+        currentStep: 5,
+        values: { username: 'flashuser', bank_account_number: '123456789' },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ phone: PHONE, current_step: 5, data: { username: 'flashuser' } })
+    );
+  });
+
+  it('returns the saved draft', async () => {
+    maybeSingle.mockResolvedValueOnce({
+      data: {
+        current_step: 4,
+        data: { username: 'flashuser' },
+        updated_at: '2026-01-01T00:00:00.000Z',
+        expires_at: '2099-01-01T00:00:00.000Z',
+      },
+      error: null,
+    });
+
+    const body = await (await GET(buildRequest('GET', phoneAuth))).json();
+
+    expect(body.data).toEqual(
+      expect.objectContaining({ currentStep: 4, values: { username: 'flashuser' } })
+    );
+  });
+
+  it('discards drafts', async () => {
+    const response = await DELETE(buildRequest('DELETE', phoneAuth, {}));
+
+    expect(response.status).toBe(200);
+    expect(eqDelete).toHaveBeenCalledWith('phone', PHONE);
+  });
+
+  it('requires a verified phone', async () => {
+    const guest = `Guest ${signGuestToken('pow').token}`;
+
+    expect((await GET(buildRequest('GET', guest))).status).toBe(403);
+    expect((await GET(buildRequest('GET', 'Bearer nope'))).status).toBe(401);
+  });
+
+  it('rejects invalid steps', async () => {
+    const response = await PUT(buildRequest('PUT', phoneAuth, { currentStep: 12, values: {} }));
+
+    expect(response.status).toBe(400);
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
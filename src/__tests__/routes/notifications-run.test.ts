@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '../../../app/api/notifications/run/route';
+import { runNotificationWorker } from '../../../lib/notification-worker';
+import { runWebhookWorker } from '../../../lib/webhooks';
+
+jest.mock('../../../lib/notification-worker', () => ({
+  runNotificationWorker: jest.fn(),
+}));
+jest.mock('../../../lib/webhooks', () => ({
+  runWebhookWorker: jest.fn(),
+}));
+
+const EMAILS = { claimed: 2, sent: 2, retrying: 0, failed: 0 };
+const WEBHOOKS = { claimed: 1, delivered: 1, retrying: 0, dead: 0 };
+
+const run = (secret = 'worker-secret') =>
+  POST(
+    new Request('http://localhost:3000/api/notifications/run', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}` },
+    })
+  );
+
+describe('POST /api/notifications/run', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NOTIFICATION_WORKER_SECRET = 'worker-secret';
+    (runNotificationWorker as jest.Mock).mockResolvedValue(EMAILS);
+    (runWebhookWorker as jest.Mock).mockResolvedValue(WEBHOOKS);
+  });
+
+  it('runs both workers and reports each summary', async () => {
+    const response = await run();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      data: { emails: EMAILS, webhooks: WEBHOOKS },
+    });
+  });
+
+  it('still sends webhooks when the email worker fails', async () => {
+    (runNotificationWorker as jest.Mock).mockRejectedValue(new Error('SMTP down'));
+
+    const response = await run();
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.success).toBe(false);
+    expect(body.data).toEqual({ emails: null, webhooks: WEBHOOKS });
+    expect(runWebhookWorker).toHaveBeenCalled();
+  });
+
+  it('requires the worker secret', async () => {
+    const response = await run('wrong');
+
+    expect(response.status).toBe(401);
+    expect(runNotificationWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import { POST as send } from '../../../app/api/phone-auth/send/route';
+import { POST as verify } from '../../../app/api/phone-auth/verify/route';
+import {
+  createMemoryOtpStore,
+  OTP_MAX_ATTEMPTS,
+  otpSendLimiter,
+  setOtpStore,
+} from '../../../lib/otp';
+import { verifyPhoneAuthToken } from '../../../lib/phone-auth-token';
+import { setSmsProvider, SmsMessage } from '../../../lib/sms-provider';
+
+const CSRF_TOKEN = 'b'.repeat(64);
+const PHONE = '+18762909250';
+
+const buildRequest = (path: string, body: Record<string, unknown>) =>
+  new Request(`http://localhost:3000${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', cookie: `csrf_token=${CSRF_TOKEN}` },
+    body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }),
+  });
+
+const sendCode = (phone: string) => send(buildRequest('/api/phone-auth/send', { phone }));
+const verifyCode = (phone: string, code: string) =>
+  verify(buildRequest('/api/phone-auth/verify', { phone, code }));
+
+describe('/api/phone-auth', () => {
+  let outbox: SmsMessage[];
+
+  const lastCode = () => outbox[outbox.length - 1]?.body.match(/\d{6}/)?.[0] ?? '';
+
+  beforeEach(() => {
+    process.env.PHONE_AUTH_SECRET = 'test-secret';
+    outbox = [];
+    otpSendLimiter.reset();
+    setOtpStore(createMemoryOtpStore());
+    setSmsProvider({
+      name: 'test',
+      send: async message => {
+        outbox.push(message);
+      },
+    });
+  });
+
+  afterAll(() => {
+    setOtpStore(null);
+    setSmsProvider(null);
+  });
+
+  it('texts a code and never returns it in the response', async () => {
+    const response = await sendCode('+1 876 290 9250');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]?.to).toBe(PHONE);
+    expect(JSON.stringify(body)).not.toContain(lastCode());
+  });
+
+  it('rejects invalid phone numbers', async () => {
+    const response = await sendCode('12345');
+    expect(response.status).toBe(400);
+    expect(outbox).toHaveLength(0);
+  });
+
+  it('enforces a resend cooldown', async () => {
+    await sendCode(PHONE);
+    const response = await sendCode(PHONE);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBeTruthy();
+    expect(outbox).toHaveLength(1);
+  });
+
+  it('texts only one code when sends for a number arrive together', async () => {
+    const responses = await Promise.all([sendCode(PHONE), sendCode(PHONE), sendCode(PHONE)]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 429, 429]);
+    expect(outbox).toHaveLength(1);
+  });
+
+  it('lets the number retry straight away when the text fails', async () => {
+    setSmsProvider({
+      name: 'test',
+      send: async () => {
+        throw new Error('provider down');
+      },
+    });
+    expect((await sendCode(PHONE)).status).toBe(500);
+
+    setSmsProvider({
+      name: 'test',
+      send: async message => {
+        outbox.push(message);
+      },
+    });
+    expect((await sendCode(PHONE)).status).toBe(200);
+    expect(outbox).toHaveLength(1);
+  });
+
+  it('limits sends from one client across numbers', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      statuses.push((await sendCode(`+1876290${9300 + i}`)).status);
+    }
+
+    expect(statuses.slice(0, 10)).toEqual(Array(10).fill(200));
+    expect(statuses[10]).toBe(429);
+  });
+
+  it('issues a verifiable token for the correct code', async () => {
+    await sendCode(PHONE);
+    const response = await verifyCode(PHONE, lastCode());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.phone).toBe(PHONE);
+
+    const payload = verifyPhoneAuthToken(body.data.token);
+    expect(payload?.phone).toBe(PHONE);
+    expect(payload?.sub).toBe(body.data.userId);
+  });
+
+  it('only accepts a code once', async () => {
+    await sendCode(PHONE);
+    const code = lastCode();
+
+    expect((await verifyCode(PHONE, code)).status).toBe(200);
+    expect((await verifyCode(PHONE, code)).status).toBe(400);
+  });
+
+  it('locks the code after too many wrong guesses', async () => {
+    await sendCode(PHONE);
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let i = 0; i < OTP_MAX_ATTEMPTS - 1; i++) {
+      const body = await (await verifyCode(PHONE, wrong)).json();
+      expect(body.data.attemptsRemaining).toBe(OTP_MAX_ATTEMPTS - i - 1);
+    }
+
+    expect((await verifyCode(PHONE, wrong)).status).toBe(429);
+    expect((await verifyCode(PHONE, code)).status).toBe(429);
+  });
+
+  it('counts parallel guesses against the same limit', async () => {
+    await sendCode(PHONE);
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    // The right code arrives after the limit, even though every guess starts before any ends
+    const guesses = [...Array(OTP_MAX_ATTEMPTS).fill(wrong), code] as string[];
+    const responses = await Promise.all(guesses.map(guess => verifyCode(PHONE, guess)));
+
+    expect(responses.map(response => response.status)).not.toContain(200);
+    expect(responses[responses.length - 1]?.status).toBe(429);
+  });
+
+  it('requires a CSRF token', async () => {
+    const response = await send(
+      new Request('http://localhost:3000/api/phone-auth/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: PHONE }),
+      })
+    );
+    expect(response.status).toBe(403);
+  });
+});
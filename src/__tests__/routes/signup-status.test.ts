@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { createClient } from '@supabase/supabase-js';
+import { POST } from '../../../app/api/admin/signups/[id]/status/route';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const CSRF_TOKEN = 'f'.repeat(64);
+
+const buildRequest = (body: Record<string, unknown>, token = 'admin-token') =>
+  new Request('http://localhost:3000/api/admin/signups/signup-1/status', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${CSRF_TOKEN}`,
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }),
+  });
+
+const post = (body: Record<string, unknown>, token?: string) =>
+  POST(buildRequest(body, token), { params: { id: 'signup-1' } });
+
+describe('POST /api/admin/signups/[id]/status', () => {
+  const rpc = jest.fn();
+
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+    rpc.mockReset();
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({ rpc });
+    (createClient as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest.fn(async (token: string) => ({
+          data: {
+            user: {
+              id: token === 'admin-token' ? 'admin-1' : 'user-1',
+              app_metadata: token === 'admin-token' ? { role: 'admin' } : {},
+            },
+          },
+          error: null,
+        })),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+    });
+  });
+
+  it('applies the transition with the reviewer as actor', async () => {
+    rpc.mockResolvedValueOnce({ data: { success: true, from: 'under_review' }, error: null });
+
+    const response = await post({
+      status: 'needs_info',
+      reason: ' Upload a clearer ID ',
+      from: 'under_review',
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ status: 'needs_info' });
+    expect(rpc).toHaveBeenCalledWith('transition_signup_status', {
+      p_signup_id: 'signup-1',
+      p_to: 'needs_info',
+      p_actor: 'supabase:admin-1',
+      p_reason: 'Upload a clearer ID',
+      p_expected: 'under_review',
+    });
+  });
+
+  it('requires a reason to reject', async () => {
+    const response = await post({ status: 'rejected' });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.code).toBe('reason_required');
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown statuses', async () => {
+    const response = await post({ status: 'archived' });
+
+    expect(response.status).toBe(400);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for transitions the workflow does not allow', async () => {
+    rpc.mockResolvedValueOnce({
+      data: { success: false, error: 'invalid_transition', from: 'submitted' },
+      error: null,
+    });
+
+    const response = await post({ status: 'approved' });
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.code).toBe('invalid_transition');
+    expect(body.data).toEqual({ status: 'submitted' });
+  });
+
+  it('returns 409 when another reviewer changed the status first', async () => {
+    rpc.mockResolvedValueOnce({
+      data: { success: false, error: 'stale_status', from: 'approved' },
+      error: null,
+    });
+
+    const response = await post({ status: 'approved', from: 'under_review' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).code).toBe('stale_status');
+  });
+
+  it('returns 404 for unknown signups', async () => {
+    rpc.mockResolvedValueOnce({ data: { success: false, error: 'not_found' }, error: null });
+
+    expect((await post({ status: 'under_review' })).status).toBe(404);
+  });
+
+  it('is limited to admins', async () => {
+    expect((await post({ status: 'under_review' }, 'user-token')).status).toBe(403);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
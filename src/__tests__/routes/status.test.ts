@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+import { createClient } from '@supabase/supabase-js';
+import { GET } from '../../../app/api/status/route';
+import { signGuestToken } from '../../../lib/guest-token';
+import { signPhoneAuthToken } from '../../../lib/phone-auth-token';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const PHONE = '+18762909250';
+
+const SIGNUP = {
+  id: 'signup-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  account_type: 'merchant',
+  business_name: 'Island Eats',
+  wants_terminal: true,
+  status: 'needs_info',
+};
+
+const TERMINAL_ORDER = {
+  signup_id: 'signup-1',
+  quantity: 2,
+  model: 'flash-t1',
+  shipping_address: null,
+  status: 'shipped',
+  serial_numbers: ['FT1-0001', 'FT1-0002'],
+  tracking_number: 'JM123',
+  updated_at: '2026-01-04T00:00:00.000Z',
+};
+
+const INFO_REQUESTS = [
+  { signup_id: 'signup-1', reason: 'Upload a clearer ID', created_at: '2026-01-02T00:00:00.000Z' },
+  { signup_id: 'signup-1', reason: 'Add your TRN', created_at: '2026-01-03T00:00:00.000Z' },
+];
+
+const buildRequest = (authorization: string) =>
+  new Request('http://localhost:3000/api/status', { headers: { Authorization: authorization } });
+
+/**
+ * signup_logs query chain: select().in().eq().eq(), and terminal_orders: select().in()
+ */
+const logsQuery = (rows: unknown[]) => {
+  const query: any = {
+    select: () => query,
+    in: jest.fn(() => query),
+    eq: () => query,
+    then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+  };
+  return query;
+};
+
+describe('GET /api/status', () => {
+  beforeEach(() => {
+    process.env.PHONE_AUTH_SECRET = 'test-secret';
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  it('finds signups for the verified phone', async () => {
+    const rpc = jest.fn(async () => ({ data: [SIGNUP], error: null }));
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      rpc,
+      from: (table: string) =>
+        logsQuery(table === 'terminal_orders' ? [TERMINAL_ORDER] : INFO_REQUESTS),
+    });
+
+    const { token } = signPhoneAuthToken(PHONE);
+    const response = await GET(buildRequest(`PhoneAuth ${token}`));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith('get_signups_by_phone', { p_phone: PHONE });
+    expect(body.data).toEqual([
+      {
+        id: 'signup-1',
+        created_at: SIGNUP.created_at,
+        account_type: 'merchant',
+        business_name: 'Island Eats',
+        status: 'needs_info',
+        info_requests: [
+          { reason: 'Add your TRN', created_at: '2026-01-03T00:00:00.000Z' },
+          { reason: 'Upload a clearer ID', created_at: '2026-01-02T00:00:00.000Z' },
+        ],
+        terminal: {
+          requested: true,
+          order: {
+            quantity: 2,
+            model: 'flash-t1',
+            shipping_address: null,
+            status: 'shipped',
+            serial_numbers: ['FT1-0001', 'FT1-0002'],
+            tracking_number: 'JM123',
+            updated_at: '2026-01-04T00:00:00.000Z',
+          },
+        },
+      },
+    ]);
+  });
+
+  it('reads Supabase users through their own token so owner RLS applies', async () => {
+    const eqUser = jest.fn(() => ({
+      order: async () => ({ data: [{ ...SIGNUP, status: 'approved' }], error: null }),
+    }));
+    (createClient as jest.Mock).mockImplementation((_url, _key, options) => ({
+      auth: {
+        getUser: jest.fn(async () => ({ data: { user: { id: 'user-1' } }, error: null })),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+      from: (table: string) =>
+        table === 'signups' ? { select: () => ({ eq: eqUser }) } : logsQuery([]),
+      options,
+    }));
+
+    const response = await GET(buildRequest('Bearer user-jwt'));
+    const body = await response.json();
+
+    expect(body.data[0].status).toBe('approved');
+    expect(eqUser).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(createClient).toHaveBeenLastCalledWith(
+      'https://test.supabase.co',
+      'anon-key',
+      expect.objectContaining({
+        global: { headers: { Authorization: 'Bearer user-jwt' } },
+      })
+    );
+  });
+
+  it('returns an empty list when nothing matches', async () => {
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      rpc: async () => ({ data: [], error: null }),
+    });
+
+    const { token } = signPhoneAuthToken(PHONE);
+    const body = await (await GET(buildRequest(`PhoneAuth ${token}`))).json();
+
+    expect(body.data).toEqual([]);
+  });
+
+  it('requires a verified phone for guests', async () => {
+    const { token } = signGuestToken('pow');
+
+    const response = await GET(buildRequest(`Guest ${token}`));
+
+    expect(response.status).toBe(403);
+  });
+});
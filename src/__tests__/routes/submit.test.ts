@@ -0,0 +1,594 @@
+/**
+ * @jest-environment node
+ */
+import { createClient } from '@supabase/supabase-js';
+import { POST } from '../../../app/api/submit/route';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import { signPhoneAuthToken } from '../../../lib/phone-auth-token';
+import { signGuestToken } from '../../../lib/guest-token';
+import { CHALLENGE_MAX_AGE_MS } from '../../../lib/challenge';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const CSRF_TOKEN = 'a'.repeat(64);
+
+const validBusiness = {
+  username: 'flashuser',
+  name: 'Test User',
+  phone: '+18762909250',
+  email: 'test@example.com',
+  account_type: 'business',
+  business_name: 'Test Shop',
+  business_address: '1 Main Street, Kingston',
+  business_type: '5812',
+  business_description: 'Jerk chicken and sides, eat in or takeout',
+  merchant_type: 'storefront',
+  latitude: 18.0179,
+  longitude: -76.8099,
+  wants_terminal: true,
+  terms_accepted: true,
+};
+
+const validMerchant = {
+  ...validBusiness,
+  account_type: 'merchant',
+  wants_terminal: false,
+  bank_name: 'NCB',
+  bank_branch: 'Half Way Tree',
+  bank_account_type: 'checking',
+  account_currency: 'JMD',
+  bank_account_number: '123456789',
+};
+
+const buildRequest = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+  new Request('http://localhost:3000/api/submit', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${CSRF_TOKEN}`,
+      Authorization: 'Bearer valid-token',
+      ...headers,
+    },
+    body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }),
+  });
+
+const mockInsert = (result: { data: unknown; error: unknown }) => {
+  const insert = jest.fn(() => ({
+    select: () => ({ single: () => Promise.resolve(result) }),
+  }));
+  (getSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn(() => ({ insert })) });
+  return insert;
+};
+
+// Smallest JPEG lib/document-inspection accepts: a 1200x900 frame header, one scan and EOI
+const JPEG = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xc0, 0, 11, 8, 0x03, 0x84, 0x04, 0xb0, 1, 1, 0x11, 0, 0xff, 0xda, 0, 8, 1, 1,
+  0, 0, 0x3f, 0, 0x12, 0x34, 0xff, 0xd9,
+]);
+
+// Upload tickets held by user-1 and the objects in storage, for lib/upload-tickets
+const mockUploads = (paths: string[], info: Record<string, unknown> = {}) => ({
+  upload_tickets: {
+    select: () => ({
+      in: async () => ({
+        data: paths.map(path => ({
+          object_path: path,
+          subject: 'user-1',
+          content_type: 'image/jpeg',
+          max_bytes: 10 * 1024 * 1024,
+          expires_at: new Date(Date.now() + 60000).toISOString(),
+        })),
+        error: null,
+      }),
+    }),
+    update: jest.fn(() => ({ in: () => ({ is: async () => ({ error: null }) }) })),
+  },
+  storage: {
+    from: () => ({
+      info: async (path: string) => ({
+        data: paths.includes(path)
+          ? {
+              contentType: 'image/jpeg',
+              size: 200000,
+              createdAt: new Date().toISOString(),
+              ...info,
+            }
+          : null,
+        error: null,
+      }),
+      download: async () => ({ data: new Blob([JPEG]), error: null }),
+    }),
+  },
+});
+
+describe('POST /api/submit', () => {
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+    (createClient as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest.fn(async (token: string) =>
+          token === 'valid-token'
+            ? { data: { user: { id: 'user-1' } }, error: null }
+            : { data: { user: null }, error: 'invalid' }
+        ),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+    });
+  });
+
+  it('inserts a valid signup and links it to the authenticated user', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(buildRequest(validBusiness));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toEqual({
+      success: true,
+      message: 'Signup successful',
+      data: { id: 'row-1', created_at: 'now' },
+    });
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        username: 'flashuser',
+        business_type: '5812',
+        business_description: 'Jerk chicken and sides, eat in or takeout',
+        merchant_type: 'storefront',
+        country: 'JM',
+        wants_terminal: true,
+        latitude: 18.0179,
+        user_id: 'user-1',
+        submission_source: 'api',
+      }),
+    ]);
+  });
+
+  it('fills in the terminal order created for the signup', async () => {
+    const insert = jest.fn(() => ({
+      select: () => ({
+        single: () => Promise.resolve({ data: { id: 'row-1', created_at: 'now' }, error: null }),
+      }),
+    }));
+    const eqStatus = jest.fn(async () => ({ error: null }));
+    const eqSignup = jest.fn(() => ({ eq: eqStatus }));
+    const update = jest.fn(() => ({ eq: eqSignup }));
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      from: jest.fn((table: string) => (table === 'terminal_orders' ? { update } : { insert })),
+    });
+
+    const response = await POST(
+      buildRequest({
+        ...validBusiness,
+        terminal_quantity: 3,
+        terminal_model: 'flash-t1-printer',
+        terminal_shipping_address: ' 1 Main Street, Kingston ',
+      })
+    );
+
+    expect(response.status).toBe(201);
+    expect(update).toHaveBeenCalledWith({
+      quantity: 3,
+      model: 'flash-t1-printer',
+      // Same as the business address
+      shipping_address: null,
+    });
+    expect(eqSignup).toHaveBeenCalledWith('signup_id', 'row-1');
+    expect(eqStatus).toHaveBeenCalledWith('status', 'requested');
+  });
+
+  it('stores the documents uploaded with a merchant signup', async () => {
+    const insert = jest.fn(() => ({
+      select: () => ({
+        single: () => Promise.resolve({ data: { id: 'row-1', created_at: 'now' }, error: null }),
+      }),
+    }));
+    const upsert = jest.fn(async () => ({ error: null }));
+    // The same bill was sent with another signup
+    const neq = jest.fn(async () => ({
+      data: [
+        {
+          signup_id: 'row-0',
+          sha256: 'b'.repeat(64),
+          signups: { user_id: null, phone: '+18765550000' },
+        },
+      ],
+      error: null,
+    }));
+    const uploads = mockUploads(['passport.jpg', 'bill.jpg', 'cert.jpg']);
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      from: jest.fn((table: string) =>
+        table === 'signup_documents'
+          ? { upsert, select: () => ({ in: () => ({ neq }) }) }
+          : table === 'upload_tickets'
+            ? uploads.upload_tickets
+            : { insert }
+      ),
+      storage: uploads.storage,
+    });
+
+    const response = await POST(
+      buildRequest({
+        ...validMerchant,
+        documents: [
+          { type: 'passport', file_path: 'passport.jpg' },
+          { type: 'utility_bill', file_path: 'bill.jpg' },
+          { type: 'business_registration', file_path: 'cert.jpg' },
+        ],
+      })
+    );
+
+    expect(response.status).toBe(201);
+    expect(uploads.upload_tickets.update).toHaveBeenCalledWith({
+      confirmed_at: expect.any(String),
+    });
+    expect(upsert).toHaveBeenCalledWith(
+      [
+        {
+          signup_id: 'row-1',
+          document_type: 'passport',
+          file_path: 'passport.jpg',
+          sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        },
+        {
+          signup_id: 'row-1',
+          document_type: 'utility_bill',
+          file_path: 'bill.jpg',
+          sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        },
+        {
+          signup_id: 'row-1',
+          document_type: 'business_registration',
+          file_path: 'cert.jpg',
+          sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        },
+      ],
+      { onConflict: 'signup_id,document_type' }
+    );
+    expect(neq).toHaveBeenCalledWith('signup_id', 'row-1');
+  });
+
+  it("discards the signup when its documents can't be saved", async () => {
+    const insert = jest.fn(() => ({
+      select: () => ({
+        single: () => Promise.resolve({ data: { id: 'row-1', created_at: 'now' }, error: null }),
+      }),
+    }));
+    const upsert = jest.fn(async () => ({ error: { message: 'connection reset' } }));
+    const rpc = jest.fn(async () => ({ error: null }));
+    const uploads = mockUploads(['passport.jpg', 'bill.jpg', 'cert.jpg']);
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      from: jest.fn((table: string) =>
+        table === 'signup_documents'
+          ? { upsert }
+          : table === 'upload_tickets'
+            ? uploads.upload_tickets
+            : { insert }
+      ),
+      rpc,
+      storage: uploads.storage,
+    });
+
+    const response = await POST(
+      buildRequest({
+        ...validMerchant,
+        documents: [
+          { type: 'passport', file_path: 'passport.jpg' },
+          { type: 'utility_bill', file_path: 'bill.jpg' },
+          { type: 'business_registration', file_path: 'cert.jpg' },
+        ],
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.success).toBe(false);
+    expect(JSON.stringify(body)).not.toContain('connection reset');
+    expect(rpc).toHaveBeenCalledWith('discard_signup', { p_signup_id: 'row-1' });
+  });
+
+  it('rejects merchants missing the documents their market requires', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(
+      buildRequest({
+        ...validMerchant,
+        // A national ID needs both sides
+        documents: [
+          { type: 'national_id_front', file_path: 'front.jpg' },
+          { type: 'business_registration', file_path: 'cert.jpg' },
+        ],
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.documents).toEqual(['Still needed: Proof of identity, Proof of address']);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects documents given as URLs instead of storage paths', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(
+      buildRequest({
+        ...validMerchant,
+        documents: [
+          {
+            type: 'passport',
+            file_path: 'https://x.supabase.co/storage/v1/object/public/id_uploads/passport.jpg',
+          },
+          { type: 'utility_bill', file_path: 'bill.pdf' },
+          { type: 'business_registration', file_path: 'cert.jpg' },
+        ],
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.documents).toEqual(['Please upload this document again']);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects documents the caller did not upload through a ticket', async () => {
+    const insert = jest.fn();
+    // No ticket was issued to this caller for the passport
+    const uploads = mockUploads(['bill.jpg', 'cert.jpg']);
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      from: jest.fn((table: string) =>
+        table === 'upload_tickets' ? uploads.upload_tickets : { insert }
+      ),
+      storage: uploads.storage,
+    });
+
+    const response = await POST(
+      buildRequest({
+        ...validMerchant,
+        documents: [
+          { type: 'passport', file_path: 'someone-else.jpg' },
+          { type: 'utility_bill', file_path: 'bill.jpg' },
+          { type: 'business_registration', file_path: 'cert.jpg' },
+        ],
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.documents).toEqual(['Please upload this document again']);
+    expect(insert).not.toHaveBeenCalled();
+    expect(uploads.upload_tickets.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects categories outside the taxonomy', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(buildRequest({ ...validBusiness, business_type: 'food' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.business_type).toEqual(['Please choose a business category']);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('stores banks under their directory name', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(
+      buildRequest({
+        ...validBusiness,
+        bank_name: 'ncb',
+        bank_branch: 'Half Way Tree',
+        account_currency: 'JMD',
+        bank_account_number: '123456789',
+      })
+    );
+
+    expect(response.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        bank_name: 'National Commercial Bank Jamaica',
+        bank_branch: 'Half Way Tree',
+      }),
+    ]);
+  });
+
+  it('stores banks and branches the directory does not list as typed', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(
+      buildRequest({
+        ...validBusiness,
+        bank_name: 'Victoria Mutual',
+        bank_branch: 'Liguanea',
+        account_currency: 'JMD',
+        bank_account_number: '1234',
+      })
+    );
+
+    expect(response.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({ bank_name: 'Victoria Mutual', bank_branch: 'Liguanea' }),
+    ]);
+  });
+
+  it('rejects typed bank names that match a listed bank', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(
+      buildRequest({
+        ...validBusiness,
+        bank_name: 'National Commercial',
+        account_currency: 'JMD',
+        bank_account_number: '1234',
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.bank_name).toEqual([
+      'National Commercial Bank Jamaica is in our list - please choose it from the suggestions',
+    ]);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("rejects currencies the chosen bank doesn't offer", async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(
+      buildRequest({
+        ...validBusiness,
+        bank_name: 'NCB',
+        bank_branch: 'George Town',
+        account_currency: 'KYD',
+        bank_account_number: '1234',
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.bank_branch).toBeUndefined();
+    expect(body.error.account_currency).toEqual(['NCB accounts are available in JMD, USD']);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("validates against the applicant's market", async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(
+      buildRequest({
+        ...validBusiness,
+        country: 'KY',
+        email: '',
+        bank_name: 'NCB',
+        account_currency: 'JMD',
+        bank_account_number: '123456789',
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    // Email is required in the Cayman Islands, and NCB is a Jamaican bank
+    expect(body.error.email).toContain('Email is required');
+    expect(body.error.bank_name).toEqual(['Please choose a bank in Cayman Islands']);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects terminal orders over the quantity limit', async () => {
+    const insert = mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(buildRequest({ ...validBusiness, terminal_quantity: 50 }));
+
+    expect(response.status).toBe(400);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('rotates the CSRF cookie after a successful submission', async () => {
+    mockInsert({ data: { id: 'row-1', created_at: 'now' }, error: null });
+
+    const response = await POST(buildRequest(validBusiness));
+    const rotated = response.cookies.get('csrf_token');
+
+    expect(rotated?.value).toBeDefined();
+    expect(rotated?.value).not.toBe(CSRF_TOKEN);
+  });
+
+  it('rejects requests without a matching CSRF token', async () => {
+    const request = buildRequest(validBusiness, { cookie: 'csrf_token=other' });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects unauthenticated requests', async () => {
+    mockInsert({ data: null, error: null });
+
+    const response = await POST(buildRequest(validBusiness, { Authorization: 'Bearer bad' }));
+
+    expect(response.status).toBe(401);
+    expect(response.cookies.get('csrf_token')).toBeUndefined();
+  });
+
+  it('accepts phone auth tokens for the verified number', async () => {
+    const insert = mockInsert({ data: { id: 'row-2', created_at: 'now' }, error: null });
+    const { token } = signPhoneAuthToken('+18762909250');
+
+    const response = await POST(
+      buildRequest(validBusiness, { Authorization: `PhoneAuth ${token}` })
+    );
+
+    expect(response.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith([
+      expect.not.objectContaining({ user_id: expect.anything() }),
+    ]);
+  });
+
+  it('rejects submissions for a phone number other than the verified one', async () => {
+    const insert = mockInsert({ data: null, error: null });
+    const { token } = signPhoneAuthToken('+18765550100');
+
+    const response = await POST(
+      buildRequest(validBusiness, { Authorization: `PhoneAuth ${token}` })
+    );
+
+    expect(response.status).toBe(403);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('accepts guests with a fresh challenge', async () => {
+    mockInsert({ data: { id: 'row-3', created_at: 'now' }, error: null });
+    const { token } = signGuestToken('pow');
+
+    const response = await POST(buildRequest(validBusiness, { Authorization: `Guest ${token}` }));
+
+    expect(response.status).toBe(201);
+  });
+
+  it('rejects guests whose challenge is no longer fresh', async () => {
+    const insert = mockInsert({ data: null, error: null });
+    const { token } = signGuestToken('pow', Date.now() - CHALLENGE_MAX_AGE_MS - 1000);
+
+    const response = await POST(buildRequest(validBusiness, { Authorization: `Guest ${token}` }));
+
+    expect(response.status).toBe(403);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('returns field errors for invalid data', async () => {
+    const response = await POST(buildRequest({ ...validBusiness, business_name: '' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.success).toBe(false);
+    expect(body.error).toHaveProperty('business_name');
+  });
+
+  it('reports duplicate phone numbers as a conflict', async () => {
+    mockInsert({
+      data: null,
+      error: { code: '23505', message: 'violates unique constraint "signups_phone_key"' },
+    });
+
+    const response = await POST(buildRequest(validBusiness));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toContain('phone number');
+  });
+
+  it('keeps database errors out of the response', async () => {
+    mockInsert({
+      data: null,
+      error: { code: 'XX000', message: 'could not read block 7 in file "base/16384/2619"' },
+    });
+
+    const response = await POST(buildRequest(validBusiness));
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.success).toBe(false);
+    expect(JSON.stringify(body)).not.toContain('base/16384');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+import { createClient } from '@supabase/supabase-js';
+import { POST } from '../../../app/api/admin/terminal-orders/[id]/status/route';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const CSRF_TOKEN = 'f'.repeat(64);
+
+const buildRequest = (body: Record<string, unknown>, token = 'admin-token') =>
+  new Request('http://localhost:3000/api/admin/terminal-orders/order-1/status', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${CSRF_TOKEN}`,
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }),
+  });
+
+const post = (body: Record<string, unknown>, token?: string) =>
+  POST(buildRequest(body, token), { params: { id: 'order-1' } });
+
+describe('POST /api/admin/terminal-orders/[id]/status', () => {
+  const rpc = jest.fn();
+  let order: { status: string; quantity: number } | null;
+
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+    rpc.mockReset();
+    order = { status: 'approved', quantity: 2 };
+    (getSupabaseAdmin as jest.Mock).mockReturnValue({
+      rpc,
+      from: () => ({
+        select: () => ({
+          eq: () => ({ maybeSingle: async () => ({ data: order, error: null }) }),
+        }),
+      }),
+    });
+    (createClient as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest.fn(async (token: string) => ({
+          data: {
+            user: {
+              id: token === 'admin-token' ? 'admin-1' : 'user-1',
+              app_metadata: token === 'admin-token' ? { role: 'admin' } : {},
+            },
+          },
+          error: null,
+        })),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+    });
+  });
+
+  it('ships an order with its serial numbers', async () => {
+    rpc.mockResolvedValueOnce({ data: { success: true, from: 'approved' }, error: null });
+
+    const response = await post({
+      status: 'shipped',
+      from: 'approved',
+      serial_numbers: [' ft1-0001', 'FT1-0002 '],
+      tracking_number: ' JM123 ',
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toEqual({ status: 'shipped' });
+    expect(rpc).toHaveBeenCalledWith('transition_terminal_order', {
+      p_order_id: 'order-1',
+      p_to: 'shipped',
+      p_actor: 'supabase:admin-1',
+      p_serial_numbers: ['FT1-0001', 'FT1-0002'],
+      p_tracking_number: 'JM123',
+      p_note: null,
+      p_expected: 'approved',
+    });
+  });
+
+  it('requires a serial number per terminal before shipping', async () => {
+    const response = await post({ status: 'shipped', serial_numbers: ['FT1-0001'] });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.code).toBe('serials_required');
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for serials already assigned elsewhere', async () => {
+    rpc.mockResolvedValueOnce({
+      data: { success: false, error: 'serial_in_use', from: 'approved' },
+      error: null,
+    });
+
+    const response = await post({ status: 'shipped', serial_numbers: ['FT1-0001', 'FT1-0002'] });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).code).toBe('serial_in_use');
+  });
+
+  it('returns 409 for skipped steps', async () => {
+    const response = await post({ status: 'activated' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).code).toBe('invalid_transition');
+  });
+
+  it('returns 404 for unknown orders', async () => {
+    order = null;
+
+    expect((await post({ status: 'shipped' })).status).toBe(404);
+  });
+
+  it('is limited to admins', async () => {
+    expect((await post({ status: 'shipped' }, 'user-token')).status).toBe(403);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { POST } from '../../../app/api/uploads/route';
+import { getSupabaseAdmin } from '../../../lib/supabase-admin';
+import { confirmUploads, uploadTicketLimiter } from '../../../lib/upload-tickets';
+
+jest.mock('../../../lib/supabase-admin', () => ({
+  getSupabaseAdmin: jest.fn(),
+}));
+
+const CSRF_TOKEN = 'a'.repeat(64);
+
+const buildRequest = (body: Record<string, unknown>) =>
+  new Request('http://localhost:3000/api/uploads', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      cookie: `csrf_token=${CSRF_TOKEN}`,
+      Authorization: 'Bearer valid-token',
+    },
+    body: JSON.stringify({ ...body, csrf_token: CSRF_TOKEN }),
+  });
+
+const mockStorage = () => {
+  const insert = jest.fn(async () => ({ error: null }));
+  const createSignedUploadUrl = jest.fn(async (path: string) => ({
+    data: {
+      signedUrl: `https://test.supabase.co/storage/v1/object/upload/sign/${path}?token=t`,
+      token: 't',
+    },
+    error: null,
+  }));
+  (getSupabaseAdmin as jest.Mock).mockReturnValue({
+    from: () => ({ insert }),
+    storage: { from: () => ({ createSignedUploadUrl }) },
+  });
+  return { insert, createSignedUploadUrl };
+};
+
+describe('POST /api/uploads', () => {
+  beforeEach(() => {
+    uploadTicketLimiter.reset();
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+    (createClient as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest.fn(async (token: string) =>
+          token === 'valid-token'
+            ? { data: { user: { id: 'user-1' } }, error: null }
+            : { data: { user: null }, error: 'invalid' }
+        ),
+        getSession: jest.fn(async () => ({ data: { session: null } })),
+      },
+    });
+  });
+
+  it('issues a ticket for a new object path tied to the caller', async () => {
+    const { insert, createSignedUploadUrl } = mockStorage();
+
+    const response = await POST(
+      buildRequest({ documentType: 'passport', contentType: 'image/jpeg', size: 400000 })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data.path).toMatch(/^[0-9a-f-]{36}\.jpg$/);
+    expect(body.data.uploadUrl).toContain(body.data.path);
+    expect(body.data).toMatchObject({
+      bucket: 'id_uploads',
+      resumableUrl: expect.stringMatching(/\/storage\/v1\/upload\/resumable\/sign$/),
+      token: 't',
+    });
+    expect(createSignedUploadUrl).toHaveBeenCalledWith(body.data.path);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        object_path: body.data.path,
+        subject: 'user-1',
+        document_type: 'passport',
+        content_type: 'image/jpeg',
+      })
+    );
+  });
+
+  it('issues PDF tickets for utility bills', async () => {
+    const { insert } = mockStorage();
+
+    const response = await POST(
+      buildRequest({ documentType: 'utility_bill', contentType: 'application/pdf', size: 400000 })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data.path).toMatch(/\.pdf$/);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ document_type: 'utility_bill', content_type: 'application/pdf' })
+    );
+  });
+
+  it('refuses other content types and oversized files', async () => {
+    const { insert } = mockStorage();
+
+    const pdf = await POST(
+      buildRequest({ documentType: 'passport', contentType: 'application/pdf', size: 1000 })
+    );
+    const png = await POST(
+      buildRequest({ documentType: 'utility_bill', contentType: 'image/png', size: 1000 })
+    );
+    const huge = await POST(
+      buildRequest({ documentType: 'passport', contentType: 'image/jpeg', size: 50 * 1024 * 1024 })
+    );
+    const unknown = await POST(
+      buildRequest({ documentType: 'selfie', contentType: 'image/jpeg', size: 1000 })
+    );
+
+    expect(pdf.status).toBe(415);
+    expect(png.status).toBe(415);
+    expect(huge.status).toBe(413);
+    expect(unknown.status).toBe(400);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('requires an authenticated caller', async () => {
+    mockStorage();
+    const request = buildRequest({ documentType: 'passport', contentType: 'image/jpeg', size: 1 });
+    request.headers.set('Authorization', 'Bearer bad-token');
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(401);
+  });
+});
+
+// Smallest JPEG lib/document-inspection accepts: a 1200x900 frame header, one scan and EOI
+const JPEG = [
+  0xff, 0xd8, 0xff, 0xc0, 0, 11, 8, 0x03, 0x84, 0x04, 0xb0, 1, 1, 0x11, 0, 0xff, 0xda, 0, 8, 1, 1,
+  0, 0, 0x3f, 0, 0x12, 0x34, 0xff, 0xd9,
+];
+
+const PNG = [
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0x03,
+  0x20, 0, 0, 0x02, 0x58, 8, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0, 0, 0, 0,
+];
+
+describe('confirmUploads', () => {
+  const ticket = {
+    object_path: 'a.jpg',
+    subject: 'user-1',
+    content_type: 'image/jpeg',
+    max_bytes: 1000,
+    expires_at: '2026-10-19T12:15:00Z',
+  };
+
+  const mockConfirmation = (
+    object: Record<string, unknown> | null,
+    bytes = JPEG,
+    row: typeof ticket = ticket
+  ) => {
+    const update = jest.fn(() => ({ in: () => ({ is: async () => ({ error: null }) }) }));
+    const supabase = {
+      from: () => ({
+        select: () => ({ in: async () => ({ data: [row], error: null }) }),
+        update,
+      }),
+      storage: {
+        from: () => ({
+          info: async () => ({ data: object, error: null }),
+          download: async () => ({ data: new Blob([new Uint8Array(bytes)]), error: null }),
+        }),
+      },
+    };
+    return { supabase: supabase as never, update };
+  };
+
+  const uploaded = { contentType: 'image/jpeg', size: 800, createdAt: '2026-10-19T12:05:00Z' };
+  const documents = [{ type: 'passport' as const, file_path: 'a.jpg' }];
+
+  it('accepts uploads that match their ticket and marks them used', async () => {
+    const { supabase, update } = mockConfirmation(uploaded);
+
+    await expect(confirmUploads(supabase, 'user-1', documents)).resolves.toEqual({
+      success: true,
+      hashes: { 'a.jpg': createHash('sha256').update(new Uint8Array(JPEG)).digest('hex') },
+    });
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['someone else', 'user-2', uploaded, 'unknown_upload'],
+    ['a missing file', 'user-1', null, 'not_uploaded'],
+    ['a larger file', 'user-1', { ...uploaded, size: 5000 }, 'mismatch'],
+    ['another content type', 'user-1', { ...uploaded, contentType: 'image/png' }, 'mismatch'],
+    ['a late upload', 'user-1', { ...uploaded, createdAt: '2026-10-19T13:00:00Z' }, 'mismatch'],
+  ])('rejects %s', async (_case, subject, object, error) => {
+    const { supabase, update } = mockConfirmation(object);
+
+    await expect(confirmUploads(supabase, subject, documents)).resolves.toEqual({
+      success: false,
+      error,
+      path: 'a.jpg',
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    // Stored as image/jpeg, but an 800x600 PNG
+    ['a file of another format', PNG, 'mismatch'],
+    ['a JPEG with a zip appended', [...JPEG, 0x50, 0x4b, 3, 4], 'polyglot'],
+    ['something that is not an image', [0x47, 0x49, 0x46, 0x38], 'unsupported_format'],
+  ])('rejects %s whatever its stored content type', async (_case, bytes, error) => {
+    const { supabase, update } = mockConfirmation(uploaded, bytes);
+
+    await expect(confirmUploads(supabase, 'user-1', documents)).resolves.toEqual({
+      success: false,
+      error,
+      path: 'a.jpg',
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  describe('PDF tickets', () => {
+    const PDF = Array.from('%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\n%%EOF\n').map(char =>
+      char.charCodeAt(0)
+    );
+    const pdfTicket = { ...ticket, object_path: 'b.pdf', content_type: 'application/pdf' };
+    const pdfUpload = { ...uploaded, contentType: 'application/pdf' };
+
+    it('accepts a PDF utility bill', async () => {
+      const { supabase, update } = mockConfirmation(pdfUpload, PDF, pdfTicket);
+
+      await expect(
+        confirmUploads(supabase, 'user-1', [{ type: 'utility_bill', file_path: 'b.pdf' }])
+      ).resolves.toEqual({
+        success: true,
+        hashes: { 'b.pdf': createHash('sha256').update(new Uint8Array(PDF)).digest('hex') },
+      });
+      expect(update).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a PDF attached as an ID', async () => {
+      const { supabase, update } = mockConfirmation(pdfUpload, PDF, pdfTicket);
+
+      await expect(
+        confirmUploads(supabase, 'user-1', [{ type: 'passport', file_path: 'b.pdf' }])
+      ).resolves.toEqual({ success: false, error: 'mismatch', path: 'b.pdf' });
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+});
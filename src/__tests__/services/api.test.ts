@@ -0,0 +1,26 @@
+import { createClient } from '@supabase/supabase-js';
+import { apiService } from '../../services/api';
+import { SignupFormData } from '../../types';
+
+describe('apiService.submitFormWithSupabaseDirect', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('refuses signups with documents, which only the API can attach', async () => {
+    const formData: SignupFormData = {
+      username: 'testuser',
+      name: 'Test User',
+      phone: '+18765551234',
+      email: 'test@example.com',
+      account_type: 'merchant',
+      documents: [{ type: 'passport', file_path: 'passport.jpg' }],
+      terms_accepted: true as unknown as true,
+    };
+
+    const result = await apiService.submitFormWithSupabaseDirect(formData);
+
+    expect(result.success).toBe(false);
+    expect(createClient).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { csrfService } from '../../services/csrf';
+
+describe('csrfService.getToken', () => {
+  let issued: number;
+
+  beforeEach(() => {
+    issued = 0;
+    csrfService.invalidate();
+    global.fetch = jest.fn(async () => {
+      issued += 1;
+      return {
+        json: async () => ({
+          success: true,
+          data: { token: `token-${issued}`, expires: Date.now() + 60 * 1000 },
+        }),
+      };
+    }) as unknown as typeof fetch;
+  });
+
+  it('shares one request between callers that ask at the same time', async () => {
+    const tokens = await Promise.all([csrfService.getToken(), csrfService.getToken()]);
+
+    expect(tokens).toEqual(['token-1', 'token-1']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches a new token once the cached one is invalidated', async () => {
+    expect(await csrfService.getToken()).toBe('token-1');
+    expect(await csrfService.getToken()).toBe('token-1');
+
+    csrfService.invalidate();
+    expect(await csrfService.getToken()).toBe('token-2');
+  });
+});
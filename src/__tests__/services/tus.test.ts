@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import { AddressInfo, Server } from 'net';
+import { createTusUpload, fetchTransport, TusRequest, TusTransport } from '../../services/tus';
+// eslint-disable-next-line @typescript-eslint/no-var-requires -- CommonJS dev script
+const { createTusServer } = require('../../../scripts/tus-server');
+
+type FinishedUpload = { id: string; metadata: Record<string, string>; data: Buffer };
+
+const CHUNK_SIZE = 1024;
+const file = new Blob([new Uint8Array(3000).map((_, i) => i % 251)]);
+
+describe('tus uploads', () => {
+  let server: Server;
+  let endpoint: string;
+  let finished: FinishedUpload[];
+
+  beforeAll(async () => {
+    server = createTusServer((upload: FinishedUpload) => finished.push(upload), {
+      maxSize: 4096,
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/storage/v1/upload/resumable/sign`;
+  });
+
+  beforeEach(() => {
+    finished = [];
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Records every request, and can fail the nth one before it is sent
+  const recordingTransport = (failOn?: number) => {
+    const requests: TusRequest[] = [];
+    const transport: TusTransport = request => {
+      requests.push(request);
+      if (requests.length === failOn) return Promise.reject(new Error('Network error'));
+      return fetchTransport(request);
+    };
+    return { transport, requests };
+  };
+
+  const upload = (options: Partial<Parameters<typeof createTusUpload>[0]> = {}) =>
+    createTusUpload({
+      endpoint,
+      file,
+      headers: { 'x-signature': 'token' },
+      metadata: { bucketName: 'id_uploads', objectName: 'a.jpg' },
+      chunkSize: CHUNK_SIZE,
+      retryDelays: [0, 0],
+      transport: fetchTransport,
+      ...options,
+    });
+
+  const expectReceivedFile = async () => {
+    expect(finished).toHaveLength(1);
+    expect(finished[0]!.metadata).toEqual({ bucketName: 'id_uploads', objectName: 'a.jpg' });
+    expect(finished[0]!.data.equals(Buffer.from(await file.arrayBuffer()))).toBe(true);
+  };
+
+  it('sends the file in chunks and reports progress', async () => {
+    const progress: number[] = [];
+
+    const result = await upload({ onProgress: sent => progress.push(sent) }).start();
+
+    expect(result).toEqual({ success: true });
+    await expectReceivedFile();
+    expect(progress).toEqual([0, 1024, 2048, 3000]);
+  });
+
+  it('carries on from the server offset after a dropped connection', async () => {
+    // Creation, the first chunk, then the second chunk fails
+    const { transport, requests } = recordingTransport(3);
+
+    const result = await upload({ transport }).start();
+
+    expect(result).toEqual({ success: true });
+    await expectReceivedFile();
+    expect(requests.map(request => request.method)).toEqual([
+      'POST',
+      'PATCH',
+      'PATCH',
+      'HEAD',
+      'PATCH',
+      'PATCH',
+    ]);
+    expect(requests[4]!.headers['Upload-Offset']).toBe('1024');
+  });
+
+  it('resumes a paused upload from another client, as after a page reload', async () => {
+    let uploadUrl: string | null = null;
+    const first = upload({
+      onUploadUrl: url => {
+        uploadUrl = url;
+      },
+      onProgress: sent => {
+        if (sent >= CHUNK_SIZE) first.pause();
+      },
+    });
+
+    expect(await first.start()).toEqual({ success: false, error: 'paused' });
+    expect(finished).toHaveLength(0);
+
+    const { transport, requests } = recordingTransport();
+    const result = await upload({ uploadUrl, transport }).start();
+
+    expect(result).toEqual({ success: true });
+    await expectReceivedFile();
+    // Nothing the server already had is sent again
+    expect(requests[0]!.method).toBe('HEAD');
+    expect(requests[1]!.headers['Upload-Offset']).toBe('1024');
+  });
+
+  it('starts over when the server no longer knows the upload', async () => {
+    const result = await upload({ uploadUrl: `${endpoint}/unknown` }).start();
+
+    expect(result).toEqual({ success: true });
+    await expectReceivedFile();
+  });
+
+  it('stops when the server refuses the upload', async () => {
+    const tooBig = new Blob([new Uint8Array(5000)]);
+
+    await expect(upload({ file: tooBig }).start()).resolves.toEqual({
+      success: false,
+      error: 'rejected',
+    });
+    await expect(upload({ headers: {} }).start()).resolves.toEqual({
+      success: false,
+      error: 'rejected',
+    });
+  });
+
+  it('gives up once retries run out', async () => {
+    const transport: TusTransport = () => Promise.reject(new Error('Network error'));
+
+    await expect(upload({ transport }).start()).resolves.toEqual({
+      success: false,
+      error: 'failed',
+    });
+  });
+
+  it('discards the upload on the server when terminated', async () => {
+    let uploadUrl = '';
+    const tus = upload({
+      onUploadUrl: url => {
+        uploadUrl = url;
+      },
+      onProgress: sent => {
+        if (sent >= CHUNK_SIZE) tus.pause();
+      },
+    });
+    await tus.start();
+
+    await tus.terminate();
+
+    const response = await fetch(uploadUrl, {
+      method: 'HEAD',
+      headers: { 'Tus-Resumable': '1.0.0' },
+    });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  BANKS,
+  CURRENCY_LABELS,
+  findBank,
+  findBranch,
+  getSupportedCurrencies,
+  searchBanks,
+  searchBranches,
+  validateBankDetails,
+} from '../../utils/bankDirectory';
+
+describe('bank directory', () => {
+  it('has unique ids, names and branch names with known currencies', () => {
+    const ids = BANKS.map(bank => bank.id);
+    const names = BANKS.map(bank => bank.name.toLowerCase());
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(names).size).toBe(names.length);
+    BANKS.forEach(bank => {
+      const branches = bank.branches.map(branch => branch.name.toLowerCase());
+      expect(new Set(branches).size).toBe(branches.length);
+      bank.currencies.forEach(currency => expect(CURRENCY_LABELS).toHaveProperty(currency));
+    });
+  });
+
+  it('finds banks by name, short name or alias', () => {
+    expect(findBank('NCB')?.id).toBe('ncb-jm');
+    expect(findBank('  national   commercial bank ')?.id).toBe('ncb-jm');
+    expect(findBank('ncb jamaica')?.id).toBe('ncb-jm');
+    expect(findBank('N.C.B. Ltd')?.id).toBe('ncb-jm');
+    expect(findBank('Maduro and Curiel’s Bank Limited')?.id).toBe('mcb-cw');
+    expect(findBank('Bank of Nowhere')).toBeNull();
+    expect(findBank('')).toBeNull();
+  });
+
+  it('searches banks and their branches', () => {
+    expect(searchBanks('scotia').map(bank => bank.id)).toEqual(['scotiabank-jm']);
+    expect(searchBanks('cayman').map(bank => bank.id)).toEqual([
+      'butterfield-ky',
+      'cayman-national-ky',
+    ]);
+    expect(searchBanks('')).toHaveLength(BANKS.length);
+
+    const ncb = findBank('NCB');
+    expect(ncb && searchBranches(ncb, 'half way').map(branch => branch.name)).toEqual([
+      'Half Way Tree',
+    ]);
+    expect(findBranch(ncb, 'half way tree')?.name).toBe('Half Way Tree');
+    expect(findBranch(ncb, 'George Town')).toBeNull();
+  });
+
+  it('limits currencies to the chosen bank', () => {
+    expect(getSupportedCurrencies(findBank('MCB'))).toEqual(['XCG', 'ANG', 'USD', 'EUR']);
+    expect(getSupportedCurrencies(null)).toEqual(Object.keys(CURRENCY_LABELS));
+  });
+
+  it('accepts banks and branches the directory does not list', () => {
+    expect(validateBankDetails({ bank_name: 'JN Bank', account_currency: 'USD' })).toEqual([]);
+    expect(validateBankDetails({ bank_name: 'Bank of Nowhere', account_currency: 'JMD' })).toEqual(
+      []
+    );
+    // Nothing to check until a currency is chosen
+    expect(validateBankDetails({ bank_name: 'Butterfield' })).toEqual([]);
+  });
+
+  it('turns away unlisted names that a listed bank matches', () => {
+    const issues = validateBankDetails({ bank_name: 'National Commercial' }, 'JM');
+    expect(issues.map(issue => [issue.code, issue.bank.id])).toEqual([['listed_bank', 'ncb-jm']]);
+
+    expect(validateBankDetails({ bank_name: 'JMMB Bank' }, 'JM')).toEqual([]);
+    // Banks of other markets are the schema's to reject
+    expect(validateBankDetails({ bank_name: 'Butterfield Trust' }, 'JM')).toEqual([]);
+  });
+
+  it('reports currencies a listed bank does not offer', () => {
+    expect(
+      validateBankDetails({ bank_name: 'Butterfield', account_currency: 'JMD' }).map(
+        issue => issue.code
+      )
+    ).toEqual(['unsupported_currency']);
+  });
+});
@@ -0,0 +1,37 @@
+import {
+  BUSINESS_CATEGORIES,
+  formatBusinessCategory,
+  isBusinessCategoryCode,
+  searchBusinessCategories,
+} from '../../utils/businessCategories';
+
+describe('business categories', () => {
+  it('uses unique four-digit codes', () => {
+    const codes = BUSINESS_CATEGORIES.map(category => category.code);
+
+    expect(new Set(codes).size).toBe(codes.length);
+    codes.forEach(code => expect(code).toMatch(/^[0-9]{4}$/));
+  });
+
+  it('finds categories by label, keyword and code', () => {
+    expect(searchBusinessCategories('restaurant')[0]?.code).toBe('5812');
+    expect(searchBusinessCategories('jerk').map(category => category.code)).toContain('5812');
+    expect(searchBusinessCategories('5912')[0]?.label).toBe('Pharmacy');
+    expect(searchBusinessCategories('nonexistent thing')).toEqual([]);
+  });
+
+  it('lists label matches before keyword matches', () => {
+    const results = searchBusinessCategories('hair').map(category => category.code);
+
+    // "hair" is a keyword for both, but neither label - order follows the taxonomy
+    expect(results).toEqual(['5977', '7230']);
+    expect(searchBusinessCategories('spa')[0]?.code).toBe('7298');
+  });
+
+  it('checks and formats codes', () => {
+    expect(isBusinessCategoryCode('5812')).toBe(true);
+    expect(isBusinessCategoryCode('0000')).toBe(false);
+    expect(formatBusinessCategory('5812')).toBe('5812 - Restaurant');
+    expect(formatBusinessCategory('1234')).toBe('1234');
+  });
+});
@@ -0,0 +1,59 @@
+import { SIGNUP_COUNTRIES } from '../../types';
+import { CURRENCY_LABELS, getSupportedCurrencies } from '../../utils/bankDirectory';
+import {
+  COUNTRY_PROFILES,
+  countryFromPhone,
+  getCountryProfile,
+  getProfileBanks,
+  resolveSignupCountry,
+} from '../../utils/countryProfiles';
+
+describe('country profiles', () => {
+  it('has a consistent profile for every market', () => {
+    SIGNUP_COUNTRIES.forEach(code => {
+      const profile = COUNTRY_PROFILES[code];
+      const { bounds, center } = profile.map;
+
+      expect(profile.code).toBe(code);
+      expect(profile.phone.defaultRegion).toBe(code);
+      expect(profile.idDocumentTypes.length).toBeGreaterThan(0);
+      // Merchants always prove who they are and that the business exists
+      expect(profile.requiredDocuments.merchant).toEqual(
+        expect.arrayContaining(['identity', 'business_registration'])
+      );
+      profile.currencies.forEach(currency => expect(CURRENCY_LABELS).toHaveProperty(currency));
+      expect(center.lat).toBeGreaterThan(bounds.south);
+      expect(center.lat).toBeLessThan(bounds.north);
+      expect(center.lng).toBeGreaterThan(bounds.west);
+      expect(center.lng).toBeLessThan(bounds.east);
+
+      // Every market needs banks, each paying out in at least one allowed currency
+      const banks = getProfileBanks(profile);
+      expect(banks.length).toBeGreaterThan(0);
+      banks.forEach(bank =>
+        expect(getSupportedCurrencies(bank, profile.currencies).length).toBeGreaterThan(0)
+      );
+    });
+  });
+
+  it('falls back to the default market', () => {
+    expect(getCountryProfile('ky').code).toBe('KY');
+    expect(getCountryProfile('US').code).toBe('JM');
+    expect(getCountryProfile(undefined).code).toBe('JM');
+  });
+
+  it('reads the market from a phone number', () => {
+    expect(countryFromPhone('+18762909250')).toBe('JM');
+    expect(countryFromPhone('+13459161234')).toBe('KY');
+    expect(countryFromPhone('+59995181234')).toBe('CW');
+    expect(countryFromPhone('+14155550123')).toBeNull();
+    expect(countryFromPhone('not a number')).toBeNull();
+  });
+
+  it('prefers the URL, then the phone number, then the default', () => {
+    expect(resolveSignupCountry('cw', '+13459161234')).toBe('CW');
+    expect(resolveSignupCountry('US', '+13459161234')).toBe('KY');
+    expect(resolveSignupCountry(null, '+14155550123')).toBe('JM');
+    expect(resolveSignupCountry(null)).toBe('JM');
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  assessImageQuality,
+  detectImageFormat,
+  encodeWithinSize,
+  findDocumentEdges,
+  fitDocumentGuide,
+  fitWithin,
+  isOrientationApplied,
+  orientPixels,
+  PixelBuffer,
+  readJpegDimensions,
+  readJpegOrientation,
+  stripJpegMetadata,
+} from '../../utils/imageProcessing';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const text = (value: string) => Array.from(value).map(char => char.charCodeAt(0));
+const uint16 = (value: number, little = false) =>
+  little ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+
+const segment = (marker: number, payload: number[]) => [
+  0xff,
+  marker,
+  ...uint16(payload.length + 2),
+  ...payload,
+];
+
+// APP1 with a TIFF header and a single IFD0 entry: Orientation (0x0112), SHORT, count 1
+const exifSegment = (orientation: number, little: boolean) => {
+  const u16 = (value: number) => uint16(value, little);
+  const u32 = (value: number) =>
+    little
+      ? [...u16(value & 0xffff), ...u16(value >>> 16)]
+      : [...u16(value >>> 16), ...u16(value & 0xffff)];
+  return segment(0xe1, [
+    ...text('Exif\0\0'),
+    ...text(little ? 'II' : 'MM'),
+    ...u16(42),
+    ...u32(8),
+    ...u16(1),
+    ...u16(0x0112),
+    ...u16(3),
+    ...u32(1),
+    ...u16(orientation),
+    0,
+    0,
+    ...u32(0),
+  ]);
+};
+
+const frame = (width: number, height: number) =>
+  segment(0xc0, [8, ...uint16(height), ...uint16(width), 1, 1, 0x11, 0]);
+const scan = [...segment(0xda, [1, 1, 0, 0, 0x3f, 0]), 0x12, 0x34, 0xff, 0xd9];
+
+const jpeg = (...segments: number[][]) =>
+  bytes(0xff, 0xd8, ...segments.flatMap(part => part), ...scan);
+
+const image = (width: number, height: number, luma: (x: number, y: number) => number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = luma(x, y);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+// Red channel of each pixel, row by row
+const reds = ({ width, height, data }: PixelBuffer) =>
+  Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => data[(y * width + x) * 4])
+  );
+
+describe('image processing', () => {
+  it('detects formats from magic bytes', () => {
+    expect(detectImageFormat(jpeg(frame(1, 1)))).toBe('jpeg');
+    expect(detectImageFormat(bytes(0x89, ...text('PNG\r\n\x1a\n'), 0, 0))).toBe('png');
+    expect(detectImageFormat(bytes(...text('RIFF'), 0, 0, 0, 0, ...text('WEBPVP8 ')))).toBe('webp');
+    expect(detectImageFormat(bytes(0, 0, 0, 0x18, ...text('ftypheic'), 0, 0, 0, 0))).toBe('heic');
+    expect(detectImageFormat(bytes(0, 0, 0, 0x18, ...text('ftypmp42'), 0, 0, 0, 0))).toBeNull();
+    expect(detectImageFormat(bytes(...text('%PDF-1.7')))).toBeNull();
+  });
+
+  it('reads EXIF orientation in either byte order', () => {
+    expect(readJpegOrientation(jpeg(exifSegment(6, true), frame(4, 3)))).toBe(6);
+    expect(readJpegOrientation(jpeg(exifSegment(8, false), frame(4, 3)))).toBe(8);
+    expect(readJpegOrientation(jpeg(frame(4, 3)))).toBe(1);
+    expect(readJpegOrientation(bytes(...text('not a jpeg')))).toBe(1);
+  });
+
+  it('reads stored dimensions from the frame header', () => {
+    expect(readJpegDimensions(jpeg(exifSegment(6, true), frame(4032, 3024)))).toEqual({
+      width: 4032,
+      height: 3024,
+    });
+    expect(readJpegDimensions(bytes(0x89, ...text('PNG')))).toBeNull();
+  });
+
+  it('strips EXIF, XMP, IPTC and comments but keeps colour information', () => {
+    const jfif = segment(0xe0, [...text('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+    const icc = segment(0xe2, [...text('ICC_PROFILE\0'), 1, 1]);
+    const iptc = segment(0xed, text('Photoshop 3.0\0'));
+    const comment = segment(0xfe, text('taken at home'));
+    const original = jpeg(jfif, exifSegment(6, true), icc, iptc, comment, frame(4, 3));
+
+    const stripped = stripJpegMetadata(original);
+
+    expect(stripped).toEqual(jpeg(jfif, icc, frame(4, 3)));
+    expect(readJpegOrientation(stripped as Uint8Array)).toBe(1);
+    expect(stripJpegMetadata(bytes(0x89, ...text('PNG')))).toBeNull();
+  });
+
+  it('rotates and mirrors pixels for each orientation', () => {
+    const pixels = image(2, 1, x => (x === 0 ? 10 : 20));
+
+    expect(reds(orientPixels(pixels, 1))).toEqual([[10, 20]]);
+    expect(reds(orientPixels(pixels, 2))).toEqual([[20, 10]]);
+    expect(reds(orientPixels(pixels, 3))).toEqual([[20, 10]]);
+    expect(reds(orientPixels(pixels, 6))).toEqual([[10], [20]]);
+    expect(reds(orientPixels(pixels, 8))).toEqual([[20], [10]]);
+
+    const square = image(2, 2, (x, y) => 10 * (y * 2 + x + 1));
+    expect(reds(orientPixels(square, 6))).toEqual([
+      [30, 10],
+      [40, 20],
+    ]);
+  });
+
+  it('tells whether the decoder already applied the orientation', () => {
+    const stored = { width: 4032, height: 3024 };
+    expect(isOrientationApplied(6, stored, { width: 3024, height: 4032 })).toBe(true);
+    expect(isOrientationApplied(6, stored, { width: 4032, height: 3024 })).toBe(false);
+    expect(isOrientationApplied(3, stored, stored)).toBe(true);
+  });
+
+  it('downscales to the maximum dimension without upscaling', () => {
+    expect(fitWithin(4000, 3000, 2000)).toEqual({ width: 2000, height: 1500 });
+    expect(fitWithin(1200, 4800, 2000)).toEqual({ width: 500, height: 2000 });
+    expect(fitWithin(800, 600, 2000)).toEqual({ width: 800, height: 600 });
+  });
+
+  it('flags dark, washed-out and blurry photos', () => {
+    expect(assessImageQuality(image(32, 32, () => 10)).issues).toEqual(['too_dark']);
+    expect(assessImageQuality(image(32, 32, () => 250)).issues).toEqual(['too_bright', 'blurry']);
+    expect(assessImageQuality(image(32, 32, () => 128)).issues).toEqual(['blurry']);
+
+    const sharp = assessImageQuality(
+      image(32, 32, (x, y) => (((x >> 1) + (y >> 1)) % 2 ? 220 : 40))
+    );
+    expect(sharp.issues).toEqual([]);
+    expect(sharp.brightness).toBeCloseTo(130, 0);
+  });
+
+  it('centres the camera guide in the document shape', () => {
+    // An ID card in a landscape frame is limited by the frame's height
+    expect(fitDocumentGuide(200, 120, 1.586)).toEqual({ x: 24, y: 12, width: 152, height: 96 });
+    // A portrait A4 bill too, but much narrower
+    expect(fitDocumentGuide(200, 120, 0.707)).toEqual({ x: 66, y: 12, width: 68, height: 96 });
+    expect(fitDocumentGuide(120, 200, 1.586)).toEqual({ x: 12, y: 70, width: 96, height: 61 });
+  });
+
+  it('finds the edges of a document near the guide', () => {
+    const guide = fitDocumentGuide(200, 120, 1.586);
+    // A light card held a little inside the guide on a dark desk
+    const card = image(200, 120, (x, y) => (x >= 30 && x < 170 && y >= 20 && y < 108 ? 200 : 40));
+
+    expect(findDocumentEdges(card, guide)).toEqual({ x: 30, y: 20, width: 140, height: 88 });
+  });
+
+  it('falls back when no document edges are found', () => {
+    const guide = fitDocumentGuide(200, 120, 1.586);
+
+    expect(
+      findDocumentEdges(
+        image(200, 120, () => 128),
+        guide
+      )
+    ).toBeNull();
+    // Faint edges are noise
+    const faint = image(200, 120, (x, y) => (x >= 30 && x < 170 && y >= 20 && y < 108 ? 48 : 40));
+    expect(findDocumentEdges(faint, guide)).toBeNull();
+    // Edges that don't make an ID card's shape
+    const square = image(200, 120, (x, y) => (x >= 40 && x < 160 && y >= 4 && y < 116 ? 200 : 40));
+    expect(findDocumentEdges(square, guide)).toBeNull();
+  });
+
+  it('recompresses until the image fits the target size', async () => {
+    const sizes: Record<number, number> = { 0.9: 3000, 0.8: 1800, 0.7: 900, 0.6: 600 };
+    const encode = jest.fn(async (quality: number) => ({ quality, size: sizes[quality] ?? 0 }));
+
+    await expect(encodeWithinSize(encode, 1000, [0.9, 0.8, 0.7, 0.6])).resolves.toEqual({
+      quality: 0.7,
+      size: 900,
+    });
+    expect(encode).toHaveBeenCalledTimes(3);
+
+    await expect(encodeWithinSize(encode, 100, [0.9, 0.8])).resolves.toEqual({
+      quality: 0.8,
+      size: 1800,
+    });
+  });
+});
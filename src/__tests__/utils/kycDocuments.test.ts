@@ -0,0 +1,101 @@
+import { SignupDocument } from '../../types';
+import { COUNTRY_PROFILES } from '../../utils/countryProfiles';
+import {
+  getDocumentRequirements,
+  getMissingDocuments,
+  isDocumentPath,
+  upsertDocument,
+} from '../../utils/kycDocuments';
+
+const upload = (...types: SignupDocument['type'][]): SignupDocument[] =>
+  types.map(type => ({ type, file_path: `${type}.jpg` }));
+
+describe('KYC documents', () => {
+  it('asks for the documents the market requires from each account type', () => {
+    const merchant = getDocumentRequirements(COUNTRY_PROFILES.JM, 'merchant');
+    expect(merchant.map(requirement => [requirement.requirement, requirement.required])).toEqual([
+      ['identity', true],
+      ['proof_of_address', true],
+      ['business_registration', true],
+    ]);
+
+    // Pro accounts can still add an ID
+    const business = getDocumentRequirements(COUNTRY_PROFILES.JM, 'business');
+    expect(business.map(requirement => [requirement.requirement, requirement.required])).toEqual([
+      ['identity', false],
+    ]);
+
+    expect(
+      getDocumentRequirements(COUNTRY_PROFILES.CW, 'merchant').map(
+        requirement => requirement.requirement
+      )
+    ).toEqual(['identity', 'business_registration']);
+  });
+
+  it('offers the forms of ID accepted in the market', () => {
+    const [identity] = getDocumentRequirements(COUNTRY_PROFILES.CW, 'merchant');
+
+    expect(identity?.options).toEqual([
+      { value: 'national_id', documents: ['national_id_front', 'national_id_back'] },
+      { value: 'passport', documents: ['passport'] },
+      { value: 'drivers_licence', documents: ['drivers_licence'] },
+    ]);
+  });
+
+  it('lists the requirements still missing', () => {
+    const profile = COUNTRY_PROFILES.JM;
+
+    expect(getMissingDocuments(profile, 'merchant', undefined)).toEqual([
+      'identity',
+      'proof_of_address',
+      'business_registration',
+    ]);
+    // Both sides of a national ID are needed
+    expect(
+      getMissingDocuments(
+        profile,
+        'merchant',
+        upload('national_id_front', 'utility_bill', 'business_registration')
+      )
+    ).toEqual(['identity']);
+    expect(
+      getMissingDocuments(
+        profile,
+        'merchant',
+        upload('national_id_front', 'national_id_back', 'utility_bill', 'business_registration')
+      )
+    ).toEqual([]);
+    // Cayman doesn't take national IDs
+    expect(
+      getMissingDocuments(
+        COUNTRY_PROFILES.KY,
+        'merchant',
+        upload('national_id_front', 'national_id_back', 'utility_bill', 'business_registration')
+      )
+    ).toEqual(['identity']);
+    expect(getMissingDocuments(profile, 'business', [])).toEqual([]);
+  });
+
+  it('replaces an earlier upload of the same type', () => {
+    const documents = upsertDocument(upload('passport', 'utility_bill'), {
+      type: 'passport',
+      file_path: 'retake.jpg',
+    });
+
+    expect(documents).toEqual([
+      { type: 'utility_bill', file_path: 'utility_bill.jpg' },
+      { type: 'passport', file_path: 'retake.jpg' },
+    ]);
+  });
+
+  it('only accepts storage paths for uploaded files', () => {
+    expect(isDocumentPath('0a1b2c3d-4e5f-mabc123.jpg')).toBe(true);
+    expect(isDocumentPath('signups/0a1b2c3d.jpg')).toBe(true);
+    expect(isDocumentPath('https://x.supabase.co/storage/v1/object/public/id_uploads/a.jpg')).toBe(
+      false
+    );
+    expect(isDocumentPath('../other/a.jpg')).toBe(false);
+    expect(isDocumentPath('/a.jpg')).toBe(false);
+    expect(isDocumentPath(null)).toBe(false);
+  });
+});
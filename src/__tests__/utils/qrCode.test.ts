@@ -0,0 +1,72 @@
+import { createQrCode, QrMatrix, reedSolomonRemainder } from '../../utils/qrCode';
+
+// The format bits (level M, any mask) from around the top left finder
+const readFormat = (modules: QrMatrix) => {
+  const at = (x: number, y: number) => ((modules[y] as boolean[])[x] ? 1 : 0);
+  let bits = 0;
+  for (let i = 0; i <= 5; i++) bits |= at(8, i) << i;
+  bits |= at(8, 7) << 6;
+  bits |= at(8, 8) << 7;
+  bits |= at(7, 8) << 8;
+  for (let i = 9; i < 15; i++) bits |= at(14 - i, 8) << i;
+  return bits;
+};
+
+// Valid format information for level M with masks 0-7 (ISO/IEC 18004 annex C)
+const LEVEL_M_FORMATS = [
+  0b101010000010010, 0b101000100100101, 0b101111001111100, 0b101101101001011, 0b100010111111001,
+  0b100000011001110, 0b100111110010111, 0b100101010100000,
+];
+
+const isFinder = (modules: QrMatrix, left: number, top: number) =>
+  [0, 1, 2, 3, 4, 5, 6].every(y =>
+    [0, 1, 2, 3, 4, 5, 6].every(
+      x =>
+        (modules[top + y] as boolean[])[left + x] ===
+        (Math.max(Math.abs(x - 3), Math.abs(y - 3)) !== 2)
+    )
+  );
+
+describe('createQrCode', () => {
+  it('computes Reed-Solomon error correction', () => {
+    // "HELLO WORLD" at 1-M, the usual worked example
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it('picks the smallest version and draws the fixed patterns', () => {
+    const modules = createQrCode('flash.example') as QrMatrix;
+
+    expect(modules).toHaveLength(21);
+    expect(isFinder(modules, 0, 0)).toBe(true);
+    expect(isFinder(modules, 14, 0)).toBe(true);
+    expect(isFinder(modules, 0, 14)).toBe(true);
+    expect(LEVEL_M_FORMATS).toContain(readFormat(modules));
+    // Dark module
+    expect((modules[13] as boolean[])[8]).toBe(true);
+  });
+
+  it('fits a capture link and adds version information from version 7', () => {
+    const link = `https://signup.example.com/capture#${'x'.repeat(43)}`;
+    const modules = createQrCode(link) as QrMatrix;
+
+    // 78 bytes needs version 5 (86 data codewords)
+    expect(modules).toHaveLength(37);
+
+    const large = createQrCode('y'.repeat(110)) as QrMatrix;
+    const size = large.length;
+    expect(size).toBe(45);
+    let version = 0;
+    for (let i = 17; i >= 0; i--) {
+      version =
+        (version << 1) | ((large[Math.floor(i / 3)] as boolean[])[size - 11 + (i % 3)] ? 1 : 0);
+    }
+    expect(version).toBe(0b000111110010010100);
+  });
+
+  it('refuses text too long for version 10', () => {
+    expect(createQrCode('z'.repeat(213))).not.toBeNull();
+    expect(createQrCode('z'.repeat(214))).toBeNull();
+  });
+});
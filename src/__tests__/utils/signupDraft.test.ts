@@ -0,0 +1,63 @@
+import {
+  createSignupDraft,
+  DRAFT_STRING_MAX_LENGTH,
+  isSignupDraft,
+  sanitizeDraftValues,
+  SIGNUP_DRAFT_TTL_MS,
+} from '../../utils/signupDraft';
+
+describe('signup drafts', () => {
+  it('keeps uploaded documents but never the bank account number', () => {
+    const values = sanitizeDraftValues({
+      username: 'flashuser',
+      bank_name: 'NCB',
+      bank_account_number: '123456789',
+      documents: [
+        { type: 'passport', file_path: 'passport.jpg' },
+        { type: 'selfie', file_path: 'selfie.jpg' } as never,
+        { type: 'utility_bill', file_path: 'https://example.com/bill.jpg' },
+      ],
+      email: '',
+    });
+
+    expect(values).toEqual({
+      username: 'flashuser',
+      bank_name: 'NCB',
+      documents: [{ type: 'passport', file_path: 'passport.jpg' }],
+    });
+  });
+
+  it('only keeps known fields of the right type, with text cut to length', () => {
+    const values = sanitizeDraftValues({
+      username: 'flashuser',
+      business_description: 'x'.repeat(DRAFT_STRING_MAX_LENGTH + 100),
+      terminal_quantity: '3' as never,
+      latitude: NaN,
+      wants_terminal: true,
+      is_admin: true,
+    } as never);
+
+    expect(values).toEqual({
+      username: 'flashuser',
+      business_description: 'x'.repeat(DRAFT_STRING_MAX_LENGTH),
+      wants_terminal: true,
+    });
+  });
+
+  it('expires drafts after the TTL', () => {
+    const now = Date.now();
+    const draft = createSignupDraft(3, { username: 'flashuser' }, now);
+
+    expect(draft.expiresAt).toBe(now + SIGNUP_DRAFT_TTL_MS);
+    expect(isSignupDraft(draft, now + 1000)).toBe(true);
+    expect(isSignupDraft(draft, now + SIGNUP_DRAFT_TTL_MS + 1)).toBe(false);
+  });
+
+  it('rejects malformed drafts', () => {
+    const draft = createSignupDraft(3, {});
+
+    expect(isSignupDraft(null)).toBe(false);
+    expect(isSignupDraft({ ...draft, currentStep: 9 })).toBe(false);
+    expect(isSignupDraft({ ...draft, values: undefined })).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { SIGNUP_STATUSES } from '../../types';
+import {
+  canTransition,
+  SIGNUP_STATUS_TRANSITIONS,
+  validateTransition,
+} from '../../utils/signupStatus';
+
+describe('signup status workflow', () => {
+  it('follows the review workflow', () => {
+    expect(canTransition('submitted', 'under_review')).toBe(true);
+    expect(canTransition('under_review', 'needs_info')).toBe(true);
+    expect(canTransition('needs_info', 'under_review')).toBe(true);
+    expect(canTransition('under_review', 'approved')).toBe(true);
+    expect(canTransition('approved', 'onboarded')).toBe(true);
+  });
+
+  it('does not allow skipping review or leaving final states', () => {
+    expect(canTransition('submitted', 'approved')).toBe(false);
+    expect(canTransition('rejected', 'under_review')).toBe(false);
+    expect(canTransition('onboarded', 'approved')).toBe(false);
+    expect(canTransition('under_review', 'onboarded')).toBe(false);
+  });
+
+  it('only references known statuses', () => {
+    Object.values(SIGNUP_STATUS_TRANSITIONS).forEach(targets =>
+      targets.forEach(target => expect(SIGNUP_STATUSES).toContain(target))
+    );
+  });
+
+  it('returns typed errors for rejected transitions', () => {
+    expect(validateTransition('submitted', 'archived')).toBe('invalid_status');
+    expect(validateTransition('submitted', 'approved')).toBe('invalid_transition');
+    expect(validateTransition('under_review', 'rejected', '  ')).toBe('reason_required');
+    expect(validateTransition('under_review', 'rejected', 'ID is expired')).toBeNull();
+    expect(validateTransition('under_review', 'approved')).toBeNull();
+  });
+});
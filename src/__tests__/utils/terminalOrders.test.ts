@@ -0,0 +1,55 @@
+import { TERMINAL_ORDER_STATUSES } from '../../types';
+import {
+  canTransitionTerminalOrder,
+  normalizeSerialNumbers,
+  TERMINAL_ORDER_TRANSITIONS,
+  validateTerminalOrderTransition,
+} from '../../utils/terminalOrders';
+
+describe('terminal order workflow', () => {
+  it('moves orders forward one step at a time', () => {
+    expect(canTransitionTerminalOrder('requested', 'approved')).toBe(true);
+    expect(canTransitionTerminalOrder('approved', 'shipped')).toBe(true);
+    expect(canTransitionTerminalOrder('shipped', 'delivered')).toBe(true);
+    expect(canTransitionTerminalOrder('delivered', 'activated')).toBe(true);
+    expect(canTransitionTerminalOrder('requested', 'shipped')).toBe(false);
+    expect(canTransitionTerminalOrder('activated', 'delivered')).toBe(false);
+  });
+
+  it('only references known statuses', () => {
+    Object.values(TERMINAL_ORDER_TRANSITIONS).forEach(targets =>
+      targets.forEach(target => expect(TERMINAL_ORDER_STATUSES).toContain(target))
+    );
+  });
+
+  it('requires one valid, distinct serial per terminal to ship', () => {
+    const order = { status: 'approved' as const, quantity: 2 };
+
+    expect(validateTerminalOrderTransition(order, 'shipped', ['FT1-0001'])).toBe(
+      'serials_required'
+    );
+    expect(validateTerminalOrderTransition(order, 'shipped', ['FT1-0001', 'FT1-0001'])).toBe(
+      'invalid_serials'
+    );
+    expect(validateTerminalOrderTransition(order, 'shipped', ['FT1-0001', 'FT1 0002'])).toBe(
+      'invalid_serials'
+    );
+    expect(validateTerminalOrderTransition(order, 'shipped', ['FT1-0001', 'FT1-0002'])).toBeNull();
+  });
+
+  it('returns typed errors for other rejected transitions', () => {
+    const order = { status: 'requested' as const, quantity: 1 };
+
+    expect(validateTerminalOrderTransition(order, 'lost')).toBe('invalid_status');
+    expect(validateTerminalOrderTransition(order, 'delivered')).toBe('invalid_transition');
+    expect(validateTerminalOrderTransition(order, 'approved')).toBeNull();
+  });
+
+  it('normalizes serial numbers', () => {
+    expect(normalizeSerialNumbers([' ft1-0001 ', '', 42, 'FT1-0002'])).toEqual([
+      'FT1-0001',
+      'FT1-0002',
+    ]);
+    expect(normalizeSerialNumbers('FT1-0001')).toEqual([]);
+  });
+});
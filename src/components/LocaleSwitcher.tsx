@@ -0,0 +1,46 @@
+'use client';
+
+import { LOCALES, LOCALE_NAMES, isLocale } from '../i18n';
+import { useTranslation } from '../i18n/I18nProvider';
+
+/**
+ * Language picker shown in the page header
+ */
+export const LocaleSwitcher = () => {
+  const { locale, setLocale, t } = useTranslation();
+
+  return (
+    <label className="flex items-center text-sm text-gray-600">
+      <span className="sr-only">{t('common.language')}</span>
+      <svg
+        className="h-4 w-4 mr-1 text-gray-400"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129"
+        />
+      </svg>
+      <select
+        value={locale}
+        onChange={e => {
+          if (isLocale(e.target.value)) setLocale(e.target.value);
+        }}
+        className="bg-transparent border border-gray-200 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {LOCALES.map(code => (
+          <option key={code} value={code} lang={code}>
+            {LOCALE_NAMES[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LocaleSwitcher;
@@ -1,3 +1,5 @@
+import type { ChallengeProviderName } from './types';
+
 /**
  * Application configuration
  */
@@ -10,7 +12,9 @@ export const config = {
   supabase: {
     url: process.env.NEXT_PUBLIC_SUPABASE_URL || '',
     anonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
-    storageBucket: 'id_uploads', // Existing bucket name for storing ID documents
+    // Private bucket for verification documents - the only place its name is set. Files are
+    // stored by path and viewed through signed URLs (db/document-storage.sql)
+    storageBucket: 'id_uploads',
     siteUrl: process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_VERCEL_URL || '', // For auth redirects
   },
   logging: {
@@ -22,6 +26,12 @@ export const config = {
   api: {
     baseUrl: process.env.NEXT_PUBLIC_API_BASE_URL || '',
   },
+  challenge: {
+    // Bot challenge for guest sign-in: 'pow' (self-hosted), 'hcaptcha' or 'turnstile'
+    provider: (process.env.NEXT_PUBLIC_CHALLENGE_PROVIDER || 'pow') as ChallengeProviderName,
+    // Public widget key for hCaptcha / Turnstile (the secret stays server-side)
+    siteKey: process.env.NEXT_PUBLIC_CHALLENGE_SITE_KEY || '',
+  },
 };
 
 // Log application startup information
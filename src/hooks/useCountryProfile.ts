@@ -0,0 +1,13 @@
+import { useFormContext } from 'react-hook-form';
+import { SignupFormData } from '../types';
+import { CountryProfile, getCountryProfile } from '../utils/countryProfiles';
+
+/**
+ * Profile of the market the signup form is running in
+ * Must be used inside the signup form's FormProvider; SignupForm sets `country` from the URL or
+ * the applicant's phone number.
+ */
+export function useCountryProfile(): CountryProfile {
+  const { watch } = useFormContext<SignupFormData>();
+  return getCountryProfile(watch('country'));
+}
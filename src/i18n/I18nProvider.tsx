@@ -0,0 +1,70 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  detectLocale,
+  Locale,
+  LOCALE_STORAGE_KEY,
+  Translate,
+} from './index';
+
+type I18nContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+};
+
+// English without a provider, so components still render on their own (e.g. in tests)
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: createTranslator(DEFAULT_LOCALE),
+});
+
+const readSavedLocale = (): string | null => {
+  try {
+    return localStorage.getItem(LOCALE_STORAGE_KEY);
+  } catch (e) {
+    // Storage can be blocked (private mode, embedded webviews)
+    return null;
+  }
+};
+
+/**
+ * Holds the applicant's language for the whole app
+ * The static export renders English; the saved or browser language is applied once the page
+ * loads, and <html lang> follows the choice.
+ */
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(detectLocale(readSavedLocale(), navigator.languages || [navigator.language]));
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    } catch (e) {
+      // Not remembered, but still applied for this visit
+    }
+  }, []);
+
+  const value = useMemo(
+    () => ({ locale, setLocale, t: createTranslator(locale) }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useTranslation(): I18nContextValue {
+  return useContext(I18nContext);
+}
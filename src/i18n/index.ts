@@ -0,0 +1,74 @@
+import en, { MessageKey, Messages } from './messages/en';
+import es from './messages/es';
+import ht from './messages/ht';
+
+/**
+ * Languages the signup form is offered in
+ *
+ * Everything here runs in the browser - the form is a static export, so there is no server
+ * to negotiate a locale. I18nProvider picks one with detectLocale() on load and the
+ * LocaleSwitcher changes it. Adding a language means adding its code to LOCALES, a name to
+ * LOCALE_NAMES and a catalog in ./messages.
+ */
+
+export type { MessageKey, Messages };
+
+export const LOCALES = ['en', 'es', 'ht'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language's own name for itself, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  ht: 'Kreyòl ayisyen',
+};
+
+// Where the applicant's choice is remembered between visits
+export const LOCALE_STORAGE_KEY = 'flash_signup_locale';
+
+const CATALOGS: Record<Locale, Messages> = { en, es, ht };
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Look up a message and fill in its {placeholders}
+ * Placeholders without a matching param are left as they are so gaps are easy to spot.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: TranslationParams): string {
+  const message = CATALOGS[locale][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function createTranslator(locale: Locale): Translate {
+  return (key, params) => translate(locale, key, params);
+}
+
+/**
+ * Best locale for the applicant
+ * A saved choice wins, then the first browser language we support ("es-JM" counts as "es"),
+ * then English.
+ */
+export function detectLocale(
+  saved: string | null | undefined,
+  browserLanguages: readonly string[] = []
+): Locale {
+  if (isLocale(saved)) return saved;
+
+  for (const language of browserLanguages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+
+  return DEFAULT_LOCALE;
+}
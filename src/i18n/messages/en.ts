@@ -0,0 +1,257 @@
+/**
+ * English copy for the signup form - the source catalog
+ * Every key here must also exist in es.ts and ht.ts (the compiler checks). Placeholders in
+ * braces, e.g. {bank}, are filled in by translate().
+ */
+const en = {
+  // Shared
+  'common.back': 'Back',
+  'common.continue': 'Continue',
+  'common.skip': 'Skip',
+  'common.optional': '(Optional)',
+  'common.selectOne': 'Select one',
+  'common.goBack': 'Go back to previous step',
+  'common.continueNext': 'Continue to next step',
+  'common.termsOfService': 'Terms of Service',
+  'common.privacyPolicy': 'Privacy Policy',
+  'common.language': 'Language',
+
+  'country.JM': 'Jamaica',
+  'country.KY': 'Cayman Islands',
+  'country.CW': 'Curaçao',
+
+  // Personal information
+  'personal.title': 'Personal Information',
+  'personal.name': 'Full Name',
+  'personal.namePlaceholder': 'John Doe',
+  'personal.phone': 'Phone Number',
+  'personal.phoneHelp': 'Enter your phone number with country code',
+  'personal.email': 'Email Address',
+  'personal.emailPlaceholder': 'your.email@example.com',
+  'personal.checking': 'Checking...',
+  'personal.duplicatePhone':
+    'This phone number has already requested an upgrade. Please use a different number.',
+  'personal.duplicateEmail':
+    'This email has already requested an upgrade. Please use a different email.',
+
+  // Account type
+  'accountType.title': 'Account Type',
+  'accountType.question': 'What type of account would you like to create?',
+  'accountType.pro': 'Pro',
+  'accountType.proDescription':
+    'Accept payments as a Pro Flashpoint. Business Name & Address required',
+  'accountType.proLabel': 'Select Professional account type',
+  'accountType.merchant': 'Merchant',
+  'accountType.merchantDescription':
+    'Give rewards as a Merchant Flashpoint. ID, business documents and bank account info required',
+  'accountType.merchantLabel': 'Select Merchant account type',
+
+  // Terms
+  'terms.title': 'Terms and Conditions',
+  'terms.agreement':
+    'By checking the box below, you agree to our Terms of Service and Privacy Policy.',
+  'terms.include': 'These terms include:',
+  'terms.collect': 'Flash will collect and store the information you provide.',
+  'terms.accurate': 'You certify that the information provided is accurate and complete.',
+  'terms.verify': 'You authorize Flash to conduct necessary verification procedures.',
+  'terms.merchantCompliance':
+    'For merchant accounts, you agree to comply with all applicable laws and regulations related to payment processing.',
+  'terms.updates':
+    'Flash may update these terms from time to time. You will be notified of any significant changes.',
+  'terms.completeTerms': 'For the complete terms, please visit our',
+  'terms.and': 'and',
+  'terms.accept': 'I agree to the Terms of Service and Privacy Policy',
+  'terms.binding': 'By checking this box, you are creating a legally binding agreement.',
+  'terms.submit': 'Submit Application',
+  'terms.submitLabel': 'Submit signup form',
+
+  // Business information
+  'business.title': 'Business Information',
+  'business.name': 'Business Name',
+  'business.namePlaceholder': 'Your business name',
+  'business.category': 'Business Category',
+  'business.categoryPlaceholder': 'Search, e.g. restaurant, salon, hardware',
+  'business.categoryEmpty': 'No matching category - try "Other retail" or "Professional services"',
+  'business.description': 'What does your business do?',
+  'business.descriptionPlaceholder': 'e.g. Jerk chicken and sides, eat in or takeout',
+  'business.merchantType': 'Where do you sell?',
+  'business.address': 'Business Address',
+  'merchantType.storefront': 'Physical store or office',
+  'merchantType.online': 'Online only',
+  'merchantType.mobile': 'Mobile (market, events, deliveries)',
+  'merchantType.storefront_online': 'Store and online',
+
+  // Terminal order
+  'terminal.question': 'Do you want a Flash Terminal?',
+  'terminal.tooltip':
+    'A Flash Terminal is a smartdevice that can accept payment via Flash for your business and print receipts. A customer service representative will contact you if you check this box.',
+  'terminal.quantity': 'How many terminals?',
+  'terminal.model': 'Model',
+  'terminal.shipToBusiness': 'Ship to my business address',
+  'terminal.shippingAddress': 'Shipping address',
+  'terminal.shippingPlaceholder': 'Where should we deliver your terminals?',
+
+  // Banking information
+  'bank.title': 'Banking Information',
+  'bank.introPro': 'Optionally provide your banking details. You can skip this step if you prefer.',
+  'bank.introMerchant':
+    'Please provide your banking details to receive payments as a Merchant Flashpoint.',
+  'bank.name': 'Bank Name',
+  'bank.namePlaceholder': 'Search, e.g. {examples}',
+  'bank.nameEmpty': "Not in our list - type your bank's full name",
+  'bank.branch': 'Bank Branch',
+  'bank.branchPlaceholder': 'Search or type your branch name',
+  'bank.branchNeedsBank': 'Choose your bank first',
+  'bank.branchEmpty': "Not in our list - type your branch's name",
+  'bank.notListed': 'Not in our list - use as typed',
+  'bank.accountType': 'Account Type',
+  'bank.accountTypePlaceholder': 'Select account type',
+  'bank.checking': 'Checking',
+  'bank.savings': 'Savings',
+  'bank.currency': 'Currency',
+  'bank.currencyPlaceholder': 'Select currency',
+  'bank.accountNumber': 'Account Number',
+  'bank.accountNumberPlaceholder': 'Enter your account number',
+  'bank.accountNumberHint':
+    'Enter your complete account number without spaces or special characters',
+  'bank.skipLabel': 'Skip banking information',
+
+  // Document upload
+  'upload.formats': 'Accepted formats: JPG, PNG, HEIC, WebP',
+  'upload.maxSize': 'Maximum size: 25MB',
+  'upload.readable': 'Make sure all text is clearly readable',
+  'upload.requiredForMerchants': 'Required for merchant accounts',
+  'upload.optionalForPro': 'Optional for Pro accounts',
+  'upload.inputLabel': 'Upload {document}',
+  'upload.previewAlt': '{document} preview',
+  'upload.success': 'Upload successful',
+  'upload.change': 'Click to change file',
+  'upload.uploading': 'Uploading...',
+  'upload.prompt': 'Drag and drop or click to upload',
+  'upload.select': 'Select File',
+  'upload.limits': 'JPG, PNG, HEIC, WebP • Max 25MB',
+  'upload.pdfLimits': 'or a PDF • Max 10MB',
+  'upload.stored':
+    'Your documents will be securely stored and only used for verification purposes.',
+  'upload.invalidType': 'Please upload a valid image (JPG, PNG, HEIC or WebP)',
+  'upload.tooLarge': 'File size exceeds 25MB limit',
+  'upload.pdfTooLarge': 'PDFs can be at most 10MB',
+  'upload.heicUnsupported':
+    'We couldn\'t open this HEIC photo. Change your camera to "Most Compatible" or upload a JPG screenshot.',
+  'upload.unreadable': "We couldn't read this image. Please try another photo.",
+  'upload.qualityHint': 'Your photo was uploaded, but reviewers may not be able to read it:',
+  'upload.tooDark': 'It looks too dark. Retake it in better light.',
+  'upload.tooBright': 'It looks washed out. Avoid glare and direct light.',
+  'upload.blurry': 'It looks blurry. Hold the camera steady and tap to focus.',
+  'upload.failed': 'Failed to upload file. Please try again.',
+  'upload.failedWithReference':
+    'File upload failed. Please contact support with reference code: {reference}',
+  'upload.sessionExpired': 'Your session has expired. Please sign in again to upload.',
+  'upload.progress': '{percent}% uploaded',
+  'upload.paused': 'Upload paused',
+  'upload.waitingForConnection': 'Waiting for a connection. The upload will continue on its own.',
+  'upload.pause': 'Pause',
+  'upload.resume': 'Resume',
+  'upload.cancel': 'Cancel upload',
+  'upload.retry': 'Upload failed. Please try again.',
+
+  // Phone capture
+  'capture.usePhone': 'Use my phone to take the photo',
+  'capture.openFailed': "Couldn't start phone capture. Please try again.",
+  'capture.scan': "Scan this code with your phone's camera to photograph your {document}.",
+  'capture.qrLabel': 'QR code to open the capture page on your phone',
+  'capture.expires': 'The code works once and expires at {time}.',
+  'capture.waiting': 'Waiting for your phone...',
+  'capture.phoneUploading': 'Your phone is sending the photo...',
+  'capture.expired': 'This code has expired.',
+  'capture.newCode': 'Get a new code',
+  'capture.useThisDevice': 'Use this device instead',
+  'capture.title': 'Photograph your {document}',
+  'capture.instructions': 'Lay the document flat in good light and fill the frame with it.',
+  'capture.takePhoto': 'Take photo',
+  'capture.retake': 'Retake',
+  'capture.usePhoto': 'Use this photo',
+  'capture.done': 'Photo sent. You can carry on with the form on your computer.',
+  'capture.invalidLink': "This link isn't valid. Scan the code on your computer again.",
+  'capture.linkExpired': 'This link has expired. Get a new code on your computer.',
+  'capture.linkUsed': 'This link has already been used.',
+  'capture.failed': "The photo couldn't be sent. Get a new code on your computer and try again.",
+  'camera.open': "Take photos with this device's camera",
+  'camera.starting': 'Starting the camera...',
+  'camera.videoLabel': 'Camera view',
+  'camera.guide': 'Fit your {document} inside the frame',
+  'camera.step': 'Photo {current} of {total}',
+  'camera.check': 'Check that all of your {document} is in the photo, sharp and readable.',
+  'camera.edgesNotFound':
+    "We couldn't find the document's edges, so the photo is cropped to the frame. Retake it if part of the document is cut off.",
+  'camera.captureFailed': "The photo couldn't be taken. Please try again.",
+  'camera.close': 'Close the camera',
+  'camera.unavailable': 'No camera is available. Choose a photo with the file picker instead.',
+  'camera.denied':
+    'Camera access was blocked. Allow it in your browser settings, or choose a photo with the file picker instead.',
+  'idDocument.national_id': 'National ID',
+  'idDocument.passport': 'Passport',
+  'idDocument.drivers_licence': "Driver's licence",
+
+  // Verification documents
+  'documents.title': 'Verification Documents',
+  'documents.instructions': 'Please upload a clear photo of each document',
+  'documents.identity': 'Proof of identity',
+  'documents.proof_of_address': 'Proof of address',
+  'documents.business_registration': 'Business registration',
+  'documents.identityChoice': 'Which ID will you upload?',
+  'documents.identityHint': 'Accepted in {country}: {documents}',
+  'documents.proofOfAddressHint':
+    'A utility bill from the last three months in your name or your business name',
+  'documents.businessRegistrationHint': 'Your certificate of registration or incorporation',
+  'document.national_id_front': 'National ID (front)',
+  'document.national_id_back': 'National ID (back)',
+  'document.passport': 'Passport',
+  'document.drivers_licence': "Driver's licence",
+  'document.utility_bill': 'Utility bill',
+  'document.business_registration': 'Business registration certificate',
+
+  // Validation messages (lib/validators.ts)
+  'validation.usernameRequired': 'Flash username is required',
+  'validation.nameMin': 'Name must be at least 2 characters',
+  'validation.phoneInvalid': 'Please enter a valid phone number',
+  'validation.phoneCountryCode': 'Please enter a valid phone number with country code',
+  'validation.emailInvalid': 'Please enter a valid email',
+  'validation.emailRequired': 'Email is required',
+  'validation.termsRequired': 'You must accept the terms and conditions',
+  'validation.businessCategory': 'Please choose a business category',
+  'validation.descriptionMax': 'Description must be {max} characters or less',
+  'validation.terminalMin': 'Order at least one terminal',
+  'validation.terminalMax': 'You can order up to {max} terminals',
+  'validation.shippingAddressMax': 'Shipping address is too long',
+  'validation.businessNameMin': 'Business name must be at least 2 characters',
+  'validation.addressInvalid': 'Please enter a valid address',
+  'validation.bankRequired': 'Bank name is required',
+  'validation.branchRequired': 'Branch is required',
+  'validation.accountTypeRequired': 'Account type is required',
+  'validation.currencyRequired': 'Currency is required',
+  'validation.accountNumberRequired': 'Account number is required',
+  'validation.bankListed': '{bank} is in our list - please choose it from the suggestions',
+  'validation.bankOutsideCountry': 'Please choose a bank in {country}',
+  'validation.currencyUnsupported': '{bank} accounts are available in {currencies}',
+  'validation.documentsMissing': 'Still needed: {documents}',
+  'validation.documentInvalid': 'Please upload this document again',
+  'validation.documentDuplicate': 'Each document can only be uploaded once',
+
+  // Fallbacks for zod's built-in issues (src/i18n/zodErrorMap.ts)
+  'zod.required': 'Required',
+  'zod.invalidType': 'Expected {expected}, received {received}',
+  'zod.invalidOption': 'Please choose one of the options',
+  'zod.tooShort': 'Must be at least {minimum} characters',
+  'zod.tooLong': 'Must be {maximum} characters or less',
+  'zod.tooSmall': 'Must be at least {minimum}',
+  'zod.tooBig': 'Must be {maximum} or less',
+  'zod.invalidString': 'Invalid format',
+  'zod.invalid': 'Invalid value',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
+
+export default en as Messages;
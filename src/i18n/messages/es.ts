@@ -0,0 +1,245 @@
+import { Messages } from './en';
+
+// Spanish copy for the signup form, see en.ts
+const es: Messages = {
+  'common.back': 'Atrás',
+  'common.continue': 'Continuar',
+  'common.skip': 'Omitir',
+  'common.optional': '(Opcional)',
+  'common.selectOne': 'Seleccione una opción',
+  'common.goBack': 'Volver al paso anterior',
+  'common.continueNext': 'Continuar al siguiente paso',
+  'common.termsOfService': 'Términos del Servicio',
+  'common.privacyPolicy': 'Política de Privacidad',
+  'common.language': 'Idioma',
+
+  'country.JM': 'Jamaica',
+  'country.KY': 'Islas Caimán',
+  'country.CW': 'Curazao',
+
+  'personal.title': 'Información personal',
+  'personal.name': 'Nombre completo',
+  'personal.namePlaceholder': 'Juan Pérez',
+  'personal.phone': 'Número de teléfono',
+  'personal.phoneHelp': 'Ingrese su número de teléfono con el código de país',
+  'personal.email': 'Correo electrónico',
+  'personal.emailPlaceholder': 'su.correo@ejemplo.com',
+  'personal.checking': 'Verificando...',
+  'personal.duplicatePhone':
+    'Este número de teléfono ya solicitó una actualización. Por favor use otro número.',
+  'personal.duplicateEmail':
+    'Este correo electrónico ya solicitó una actualización. Por favor use otro correo.',
+
+  'accountType.title': 'Tipo de cuenta',
+  'accountType.question': '¿Qué tipo de cuenta desea crear?',
+  'accountType.pro': 'Pro',
+  'accountType.proDescription':
+    'Acepte pagos como Flashpoint Pro. Se requiere el nombre y la dirección del negocio',
+  'accountType.proLabel': 'Seleccionar el tipo de cuenta Profesional',
+  'accountType.merchant': 'Comerciante',
+  'accountType.merchantDescription':
+    'Ofrezca recompensas como Flashpoint Comerciante. Se requiere identificación, documentos del negocio y datos bancarios',
+  'accountType.merchantLabel': 'Seleccionar el tipo de cuenta Comerciante',
+
+  'terms.title': 'Términos y condiciones',
+  'terms.agreement':
+    'Al marcar la casilla de abajo, acepta nuestros Términos del Servicio y nuestra Política de Privacidad.',
+  'terms.include': 'Estos términos incluyen:',
+  'terms.collect': 'Flash recopilará y almacenará la información que usted proporcione.',
+  'terms.accurate': 'Usted certifica que la información proporcionada es exacta y completa.',
+  'terms.verify':
+    'Usted autoriza a Flash a realizar los procedimientos de verificación necesarios.',
+  'terms.merchantCompliance':
+    'Para cuentas de comerciante, usted acepta cumplir con todas las leyes y regulaciones aplicables al procesamiento de pagos.',
+  'terms.updates':
+    'Flash puede actualizar estos términos ocasionalmente. Se le notificará de cualquier cambio importante.',
+  'terms.completeTerms': 'Para ver los términos completos, visite nuestros',
+  'terms.and': 'y nuestra',
+  'terms.accept': 'Acepto los Términos del Servicio y la Política de Privacidad',
+  'terms.binding': 'Al marcar esta casilla, está creando un acuerdo legalmente vinculante.',
+  'terms.submit': 'Enviar solicitud',
+  'terms.submitLabel': 'Enviar el formulario de registro',
+
+  'business.title': 'Información del negocio',
+  'business.name': 'Nombre del negocio',
+  'business.namePlaceholder': 'El nombre de su negocio',
+  'business.category': 'Categoría del negocio',
+  'business.categoryPlaceholder': 'Buscar, p. ej. restaurant, salon, hardware',
+  'business.categoryEmpty':
+    'Ninguna categoría coincide - pruebe "Other retail" o "Professional services"',
+  'business.description': '¿A qué se dedica su negocio?',
+  'business.descriptionPlaceholder': 'p. ej. Pollo jerk y acompañantes, para comer aquí o llevar',
+  'business.merchantType': '¿Dónde vende?',
+  'business.address': 'Dirección del negocio',
+  'merchantType.storefront': 'Tienda u oficina física',
+  'merchantType.online': 'Solo en línea',
+  'merchantType.mobile': 'Móvil (mercados, eventos, entregas)',
+  'merchantType.storefront_online': 'Tienda y en línea',
+
+  'terminal.question': '¿Desea una Terminal Flash?',
+  'terminal.tooltip':
+    'Una Terminal Flash es un dispositivo inteligente que acepta pagos con Flash para su negocio e imprime recibos. Un representante de servicio al cliente lo contactará si marca esta casilla.',
+  'terminal.quantity': '¿Cuántas terminales?',
+  'terminal.model': 'Modelo',
+  'terminal.shipToBusiness': 'Enviar a la dirección de mi negocio',
+  'terminal.shippingAddress': 'Dirección de envío',
+  'terminal.shippingPlaceholder': '¿Dónde debemos entregar sus terminales?',
+
+  'bank.title': 'Información bancaria',
+  'bank.introPro': 'Si lo desea, proporcione sus datos bancarios. Puede omitir este paso.',
+  'bank.introMerchant':
+    'Proporcione sus datos bancarios para recibir pagos como Flashpoint Comerciante.',
+  'bank.name': 'Nombre del banco',
+  'bank.namePlaceholder': 'Buscar, p. ej. {examples}',
+  'bank.nameEmpty': 'No está en nuestra lista - escriba el nombre completo de su banco',
+  'bank.branch': 'Sucursal bancaria',
+  'bank.branchPlaceholder': 'Busque o escriba el nombre de su sucursal',
+  'bank.branchNeedsBank': 'Primero elija su banco',
+  'bank.branchEmpty': 'No está en nuestra lista - escriba el nombre de su sucursal',
+  'bank.notListed': 'No está en nuestra lista - usar tal como se escribió',
+  'bank.accountType': 'Tipo de cuenta',
+  'bank.accountTypePlaceholder': 'Seleccione el tipo de cuenta',
+  'bank.checking': 'Corriente',
+  'bank.savings': 'Ahorros',
+  'bank.currency': 'Moneda',
+  'bank.currencyPlaceholder': 'Seleccione la moneda',
+  'bank.accountNumber': 'Número de cuenta',
+  'bank.accountNumberPlaceholder': 'Ingrese su número de cuenta',
+  'bank.accountNumberHint':
+    'Ingrese su número de cuenta completo sin espacios ni caracteres especiales',
+  'bank.skipLabel': 'Omitir la información bancaria',
+
+  'upload.formats': 'Formatos aceptados: JPG, PNG, HEIC, WebP',
+  'upload.maxSize': 'Tamaño máximo: 25MB',
+  'upload.readable': 'Asegúrese de que todo el texto se lea claramente',
+  'upload.requiredForMerchants': 'Obligatorio para cuentas de comerciante',
+  'upload.optionalForPro': 'Opcional para cuentas Pro',
+  'upload.inputLabel': 'Subir {document}',
+  'upload.previewAlt': 'Vista previa de {document}',
+  'upload.success': 'Archivo subido',
+  'upload.change': 'Haga clic para cambiar el archivo',
+  'upload.uploading': 'Subiendo...',
+  'upload.prompt': 'Arrastre y suelte o haga clic para subir',
+  'upload.select': 'Seleccionar archivo',
+  'upload.limits': 'JPG, PNG, HEIC, WebP • Máx. 25MB',
+  'upload.pdfLimits': 'o un PDF • Máx. 10MB',
+  'upload.stored':
+    'Sus documentos se almacenarán de forma segura y solo se usarán para la verificación.',
+  'upload.invalidType': 'Suba una imagen válida (JPG, PNG, HEIC o WebP)',
+  'upload.tooLarge': 'El archivo supera el límite de 25MB',
+  'upload.pdfTooLarge': 'Los PDF pueden tener como máximo 10MB',
+  'upload.heicUnsupported':
+    'No pudimos abrir esta foto HEIC. Configure la cámara en "Más compatible" o suba una captura en JPG.',
+  'upload.unreadable': 'No pudimos leer esta imagen. Pruebe con otra foto.',
+  'upload.qualityHint': 'Su foto se subió, pero es posible que los revisores no puedan leerla:',
+  'upload.tooDark': 'Se ve demasiado oscura. Tómela de nuevo con mejor luz.',
+  'upload.tooBright': 'Se ve sobreexpuesta. Evite reflejos y luz directa.',
+  'upload.blurry': 'Se ve borrosa. Mantenga la cámara firme y toque para enfocar.',
+  'upload.failed': 'No se pudo subir el archivo. Inténtelo de nuevo.',
+  'upload.failedWithReference':
+    'No se pudo subir el archivo. Contacte a soporte con el código de referencia: {reference}',
+  'upload.sessionExpired': 'Su sesión expiró. Inicie sesión de nuevo para subir el archivo.',
+  'upload.progress': '{percent}% subido',
+  'upload.paused': 'Carga en pausa',
+  'upload.waitingForConnection': 'Esperando conexión. La carga continuará automáticamente.',
+  'upload.pause': 'Pausar',
+  'upload.resume': 'Reanudar',
+  'upload.cancel': 'Cancelar carga',
+  'upload.retry': 'Error al subir. Inténtelo de nuevo.',
+
+  // Phone capture
+  'capture.usePhone': 'Usar mi teléfono para tomar la foto',
+  'capture.openFailed': 'No se pudo iniciar la captura con el teléfono. Inténtelo de nuevo.',
+  'capture.scan':
+    'Escanee este código con la cámara de su teléfono para fotografiar su {document}.',
+  'capture.qrLabel': 'Código QR para abrir la página de captura en su teléfono',
+  'capture.expires': 'El código funciona una sola vez y vence a las {time}.',
+  'capture.waiting': 'Esperando su teléfono...',
+  'capture.phoneUploading': 'Su teléfono está enviando la foto...',
+  'capture.expired': 'Este código ha vencido.',
+  'capture.newCode': 'Obtener un código nuevo',
+  'capture.useThisDevice': 'Usar este dispositivo',
+  'capture.title': 'Fotografíe su {document}',
+  'capture.instructions':
+    'Coloque el documento sobre una superficie plana, con buena luz, y que ocupe todo el encuadre.',
+  'capture.takePhoto': 'Tomar foto',
+  'capture.retake': 'Repetir',
+  'capture.usePhoto': 'Usar esta foto',
+  'capture.done': 'Foto enviada. Puede continuar con el formulario en su computadora.',
+  'capture.invalidLink': 'Este enlace no es válido. Vuelva a escanear el código en su computadora.',
+  'capture.linkExpired': 'Este enlace ha vencido. Obtenga un código nuevo en su computadora.',
+  'capture.linkUsed': 'Este enlace ya se utilizó.',
+  'capture.failed':
+    'No se pudo enviar la foto. Obtenga un código nuevo en su computadora e inténtelo de nuevo.',
+  'camera.open': 'Tomar fotos con la cámara de este dispositivo',
+  'camera.starting': 'Iniciando la cámara...',
+  'camera.videoLabel': 'Vista de la cámara',
+  'camera.guide': 'Coloque su {document} dentro del marco',
+  'camera.step': 'Foto {current} de {total}',
+  'camera.check': 'Compruebe que todo su {document} aparece en la foto, nítido y legible.',
+  'camera.edgesNotFound':
+    'No encontramos los bordes del documento, así que la foto se recortó al marco. Repítala si falta parte del documento.',
+  'camera.captureFailed': 'No se pudo tomar la foto. Inténtelo de nuevo.',
+  'camera.close': 'Cerrar la cámara',
+  'camera.unavailable':
+    'No hay ninguna cámara disponible. Elija una foto con el selector de archivos.',
+  'camera.denied':
+    'Se bloqueó el acceso a la cámara. Permítalo en la configuración del navegador o elija una foto con el selector de archivos.',
+  'idDocument.national_id': 'Cédula de identidad',
+  'idDocument.passport': 'Pasaporte',
+  'idDocument.drivers_licence': 'Licencia de conducir',
+  'documents.title': 'Documentos de verificación',
+  'documents.instructions': 'Suba una foto clara de cada documento',
+  'documents.identity': 'Comprobante de identidad',
+  'documents.proof_of_address': 'Comprobante de domicilio',
+  'documents.business_registration': 'Registro del negocio',
+  'documents.identityChoice': '¿Qué identificación va a subir?',
+  'documents.identityHint': 'Aceptados en {country}: {documents}',
+  'documents.proofOfAddressHint':
+    'Una factura de servicios de los últimos tres meses a su nombre o al de su negocio',
+  'documents.businessRegistrationHint': 'Su certificado de registro o de constitución',
+  'document.national_id_front': 'Cédula de identidad (frente)',
+  'document.national_id_back': 'Cédula de identidad (reverso)',
+  'document.passport': 'Pasaporte',
+  'document.drivers_licence': 'Licencia de conducir',
+  'document.utility_bill': 'Factura de servicios',
+  'document.business_registration': 'Certificado de registro del negocio',
+
+  'validation.usernameRequired': 'El nombre de usuario de Flash es obligatorio',
+  'validation.nameMin': 'El nombre debe tener al menos 2 caracteres',
+  'validation.phoneInvalid': 'Ingrese un número de teléfono válido',
+  'validation.phoneCountryCode': 'Ingrese un número de teléfono válido con el código de país',
+  'validation.emailInvalid': 'Ingrese un correo electrónico válido',
+  'validation.emailRequired': 'El correo electrónico es obligatorio',
+  'validation.termsRequired': 'Debe aceptar los términos y condiciones',
+  'validation.businessCategory': 'Elija una categoría de negocio',
+  'validation.descriptionMax': 'La descripción debe tener {max} caracteres o menos',
+  'validation.terminalMin': 'Pida al menos una terminal',
+  'validation.terminalMax': 'Puede pedir hasta {max} terminales',
+  'validation.shippingAddressMax': 'La dirección de envío es demasiado larga',
+  'validation.businessNameMin': 'El nombre del negocio debe tener al menos 2 caracteres',
+  'validation.addressInvalid': 'Ingrese una dirección válida',
+  'validation.bankRequired': 'El nombre del banco es obligatorio',
+  'validation.branchRequired': 'La sucursal es obligatoria',
+  'validation.accountTypeRequired': 'El tipo de cuenta es obligatorio',
+  'validation.currencyRequired': 'La moneda es obligatoria',
+  'validation.accountNumberRequired': 'El número de cuenta es obligatorio',
+  'validation.bankListed': '{bank} está en nuestra lista; elíjalo entre las sugerencias',
+  'validation.bankOutsideCountry': 'Elija un banco en {country}',
+  'validation.currencyUnsupported': 'Las cuentas de {bank} están disponibles en {currencies}',
+  'validation.documentsMissing': 'Falta: {documents}',
+  'validation.documentInvalid': 'Vuelva a subir este documento',
+  'validation.documentDuplicate': 'Cada documento solo se puede subir una vez',
+
+  'zod.required': 'Obligatorio',
+  'zod.invalidType': 'Se esperaba {expected}, se recibió {received}',
+  'zod.invalidOption': 'Elija una de las opciones',
+  'zod.tooShort': 'Debe tener al menos {minimum} caracteres',
+  'zod.tooLong': 'Debe tener {maximum} caracteres o menos',
+  'zod.tooSmall': 'Debe ser al menos {minimum}',
+  'zod.tooBig': 'Debe ser {maximum} o menos',
+  'zod.invalidString': 'Formato no válido',
+  'zod.invalid': 'Valor no válido',
+};
+
+export default es;
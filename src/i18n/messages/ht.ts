@@ -0,0 +1,239 @@
+import { Messages } from './en';
+
+// Haitian Creole copy for the signup form, see en.ts
+const ht: Messages = {
+  'common.back': 'Retounen',
+  'common.continue': 'Kontinye',
+  'common.skip': 'Sote',
+  'common.optional': '(Si ou vle)',
+  'common.selectOne': 'Chwazi youn',
+  'common.goBack': 'Retounen nan etap anvan an',
+  'common.continueNext': 'Ale nan pwochen etap la',
+  'common.termsOfService': 'Kondisyon Sèvis',
+  'common.privacyPolicy': 'Politik Konfidansyalite',
+  'common.language': 'Lang',
+
+  'country.JM': 'Jamayik',
+  'country.KY': 'Zile Kayman',
+  'country.CW': 'Kiraso',
+
+  'personal.title': 'Enfòmasyon pèsonèl',
+  'personal.name': 'Non konplè',
+  'personal.namePlaceholder': 'Jan Batis',
+  'personal.phone': 'Nimewo telefòn',
+  'personal.phoneHelp': 'Antre nimewo telefòn ou ak kòd peyi a',
+  'personal.email': 'Adrès imèl',
+  'personal.emailPlaceholder': 'imel.ou@egzanp.com',
+  'personal.checking': 'N ap verifye...',
+  'personal.duplicatePhone':
+    'Nimewo telefòn sa a deja mande yon amelyorasyon. Tanpri sèvi ak yon lòt nimewo.',
+  'personal.duplicateEmail': 'Imèl sa a deja mande yon amelyorasyon. Tanpri sèvi ak yon lòt imèl.',
+
+  'accountType.title': 'Kalite kont',
+  'accountType.question': 'Ki kalite kont ou vle kreye?',
+  'accountType.pro': 'Pro',
+  'accountType.proDescription':
+    'Resevwa peman kòm yon Flashpoint Pro. Non ak adrès biznis la obligatwa',
+  'accountType.proLabel': 'Chwazi kalite kont Pwofesyonèl',
+  'accountType.merchant': 'Machann',
+  'accountType.merchantDescription':
+    'Bay rekonpans kòm yon Flashpoint Machann. Pyès idantite, dokiman biznis ak enfòmasyon kont labank obligatwa',
+  'accountType.merchantLabel': 'Chwazi kalite kont Machann',
+
+  'terms.title': 'Tèm ak kondisyon',
+  'terms.agreement':
+    'Lè ou tcheke bwat ki anba a, ou dakò ak Kondisyon Sèvis ak Politik Konfidansyalite nou yo.',
+  'terms.include': 'Tèm sa yo gen ladan yo:',
+  'terms.collect': 'Flash ap ranmase epi konsève enfòmasyon ou bay yo.',
+  'terms.accurate': 'Ou sètifye enfòmasyon ou bay yo egzak e konplè.',
+  'terms.verify': 'Ou otorize Flash fè verifikasyon ki nesesè yo.',
+  'terms.merchantCompliance':
+    'Pou kont machann, ou dakò respekte tout lwa ak règleman ki aplike pou tretman peman.',
+  'terms.updates':
+    'Flash ka mete tèm sa yo ajou detanzantan. N ap fè ou konnen si gen chanjman enpòtan.',
+  'terms.completeTerms': 'Pou tout tèm yo, tanpri gade',
+  'terms.and': 'ak',
+  'terms.accept': 'Mwen dakò ak Kondisyon Sèvis ak Politik Konfidansyalite a',
+  'terms.binding': 'Lè ou tcheke bwat sa a, ou fè yon akò ki gen valè legal.',
+  'terms.submit': 'Voye demann lan',
+  'terms.submitLabel': 'Voye fòmilè enskripsyon an',
+
+  'business.title': 'Enfòmasyon sou biznis la',
+  'business.name': 'Non biznis la',
+  'business.namePlaceholder': 'Non biznis ou',
+  'business.category': 'Kategori biznis la',
+  'business.categoryPlaceholder': 'Chèche, pa egzanp restaurant, salon, hardware',
+  'business.categoryEmpty':
+    'Pa gen kategori ki koresponn - eseye "Other retail" oswa "Professional services"',
+  'business.description': 'Kisa biznis ou fè?',
+  'business.descriptionPlaceholder':
+    'pa egzanp Poul jerk ak akonpayman, manje sou plas oswa pote ale',
+  'business.merchantType': 'Ki kote ou vann?',
+  'business.address': 'Adrès biznis la',
+  'merchantType.storefront': 'Magazen oswa biwo fizik',
+  'merchantType.online': 'Sou entènèt sèlman',
+  'merchantType.mobile': 'Mobil (mache, evènman, livrezon)',
+  'merchantType.storefront_online': 'Magazen ak sou entènèt',
+
+  'terminal.question': 'Èske ou vle yon Tèminal Flash?',
+  'terminal.tooltip':
+    'Yon Tèminal Flash se yon aparèy entelijan ki ka resevwa peman ak Flash pou biznis ou epi enprime resi. Yon reprezantan sèvis kliyan ap kontakte ou si ou tcheke bwat sa a.',
+  'terminal.quantity': 'Konbyen tèminal?',
+  'terminal.model': 'Modèl',
+  'terminal.shipToBusiness': 'Voye l nan adrès biznis mwen',
+  'terminal.shippingAddress': 'Adrès livrezon',
+  'terminal.shippingPlaceholder': 'Ki kote pou nou livre tèminal ou yo?',
+
+  'bank.title': 'Enfòmasyon labank',
+  'bank.introPro': 'Ou ka bay enfòmasyon labank ou si ou vle. Ou ka sote etap sa a.',
+  'bank.introMerchant':
+    'Tanpri bay enfòmasyon labank ou pou resevwa peman kòm yon Flashpoint Machann.',
+  'bank.name': 'Non labank lan',
+  'bank.namePlaceholder': 'Chèche, pa egzanp {examples}',
+  'bank.nameEmpty': 'Li pa nan lis nou an - ekri tout non labank ou',
+  'bank.branch': 'Siksisal labank lan',
+  'bank.branchPlaceholder': 'Chèche oswa ekri non siksisal ou',
+  'bank.branchNeedsBank': 'Chwazi labank ou anvan',
+  'bank.branchEmpty': 'Li pa nan lis nou an - ekri non siksisal ou',
+  'bank.notListed': 'Li pa nan lis nou an - sèvi ak sa ou ekri a',
+  'bank.accountType': 'Kalite kont',
+  'bank.accountTypePlaceholder': 'Chwazi kalite kont lan',
+  'bank.checking': 'Kont chèk',
+  'bank.savings': 'Kont epay',
+  'bank.currency': 'Lajan',
+  'bank.currencyPlaceholder': 'Chwazi lajan an',
+  'bank.accountNumber': 'Nimewo kont',
+  'bank.accountNumberPlaceholder': 'Antre nimewo kont ou',
+  'bank.accountNumberHint': 'Antre tout nimewo kont ou san espas ni karaktè espesyal',
+  'bank.skipLabel': 'Sote enfòmasyon labank yo',
+
+  'upload.formats': 'Fòma nou aksepte: JPG, PNG, HEIC, WebP',
+  'upload.maxSize': 'Gwosè maksimòm: 25MB',
+  'upload.readable': 'Asire w tout ekriti yo klè',
+  'upload.requiredForMerchants': 'Obligatwa pou kont machann',
+  'upload.optionalForPro': 'Pa obligatwa pou kont Pro',
+  'upload.inputLabel': 'Voye {document}',
+  'upload.previewAlt': 'Apèsi {document}',
+  'upload.success': 'Fichye a voye',
+  'upload.change': 'Klike pou chanje fichye a',
+  'upload.uploading': 'N ap voye...',
+  'upload.prompt': 'Trennen epi lage oswa klike pou voye',
+  'upload.select': 'Chwazi fichye',
+  'upload.limits': 'JPG, PNG, HEIC, WebP • Maks 25MB',
+  'upload.pdfLimits': 'oswa yon PDF • Maks 10MB',
+  'upload.stored':
+    'N ap konsève dokiman ou yo an sekirite epi n ap sèvi ak yo pou verifikasyon sèlman.',
+  'upload.invalidType': 'Tanpri voye yon imaj ki valab (JPG, PNG, HEIC oswa WebP)',
+  'upload.tooLarge': 'Fichye a depase limit 25MB la',
+  'upload.pdfTooLarge': 'Yon PDF pa ka depase 10MB',
+  'upload.heicUnsupported':
+    'Nou pa t ka louvri foto HEIC sa a. Mete kamera a sou "Most Compatible" oswa voye yon kapti JPG.',
+  'upload.unreadable': 'Nou pa t ka li imaj sa a. Tanpri eseye yon lòt foto.',
+  'upload.qualityHint': 'Foto a monte, men moun k ap revize l yo ka pa rive li l:',
+  'upload.tooDark': 'Li twò fènwa. Repran l kote ki gen plis limyè.',
+  'upload.tooBright': 'Li twò klere. Evite reflè ak limyè dirèk.',
+  'upload.blurry': 'Li twoub. Kenbe kamera a fiks epi tape pou fè fokis.',
+  'upload.failed': 'Nou pa t ka voye fichye a. Tanpri eseye ankò.',
+  'upload.failedWithReference':
+    'Nou pa t ka voye fichye a. Tanpri kontakte sipò ak kòd referans sa a: {reference}',
+  'upload.sessionExpired': 'Sesyon ou fini. Tanpri konekte ankò pou voye fichye a.',
+  'upload.progress': '{percent}% voye',
+  'upload.paused': 'Voye a an poz',
+  'upload.waitingForConnection': 'N ap tann koneksyon an. Voye a ap kontinye poukont li.',
+  'upload.pause': 'Poz',
+  'upload.resume': 'Kontinye',
+  'upload.cancel': 'Anile voye a',
+  'upload.retry': 'Voye a pa mache. Tanpri eseye ankò.',
+
+  // Phone capture
+  'capture.usePhone': 'Sèvi ak telefòn mwen pou pran foto a',
+  'capture.openFailed': 'Nou pa t ka kòmanse ak telefòn nan. Tanpri eseye ankò.',
+  'capture.scan': 'Eskane kòd sa a ak kamera telefòn ou pou pran foto {document} ou.',
+  'capture.qrLabel': 'Kòd QR pou louvri paj foto a sou telefòn ou',
+  'capture.expires': 'Kòd la mache yon sèl fwa epi li ekspire a {time}.',
+  'capture.waiting': 'N ap tann telefòn ou...',
+  'capture.phoneUploading': 'Telefòn ou ap voye foto a...',
+  'capture.expired': 'Kòd sa a ekspire.',
+  'capture.newCode': 'Jwenn yon nouvo kòd',
+  'capture.useThisDevice': 'Sèvi ak aparèy sa a pito',
+  'capture.title': 'Pran foto {document} ou',
+  'capture.instructions': 'Mete dokiman an plat kote ki gen bon limyè epi fè l ranpli tout foto a.',
+  'capture.takePhoto': 'Pran foto',
+  'capture.retake': 'Pran l ankò',
+  'capture.usePhoto': 'Sèvi ak foto sa a',
+  'capture.done': 'Foto a ale. Ou ka kontinye fòm nan sou òdinatè ou.',
+  'capture.invalidLink': 'Lyen sa a pa bon. Eskane kòd la sou òdinatè ou ankò.',
+  'capture.linkExpired': 'Lyen sa a ekspire. Jwenn yon nouvo kòd sou òdinatè ou.',
+  'capture.linkUsed': 'Yo deja sèvi ak lyen sa a.',
+  'capture.failed': 'Nou pa t ka voye foto a. Jwenn yon nouvo kòd sou òdinatè ou epi eseye ankò.',
+  'camera.open': 'Pran foto ak kamera aparèy sa a',
+  'camera.starting': 'N ap limen kamera a...',
+  'camera.videoLabel': 'Sa kamera a wè',
+  'camera.guide': 'Mete {document} ou a anndan kad la',
+  'camera.step': 'Foto {current} sou {total}',
+  'camera.check': 'Asire w tout {document} ou a nan foto a, klè epi li ka li.',
+  'camera.edgesNotFound':
+    'Nou pa jwenn bò dokiman an, kidonk nou koupe foto a sou kad la. Pran l ankò si yon pati nan dokiman an koupe.',
+  'camera.captureFailed': 'Nou pa t ka pran foto a. Tanpri eseye ankò.',
+  'camera.close': 'Fèmen kamera a',
+  'camera.unavailable': 'Pa gen kamera ki disponib. Chwazi yon foto ak seleksyonè fichye a pito.',
+  'camera.denied':
+    'Aksè a kamera a bloke. Pèmèt li nan paramèt navigatè a, oswa chwazi yon foto ak seleksyonè fichye a pito.',
+  'idDocument.national_id': 'Kat idantite nasyonal',
+  'idDocument.passport': 'Paspò',
+  'idDocument.drivers_licence': 'Lisans chofè',
+  'documents.title': 'Dokiman verifikasyon',
+  'documents.instructions': 'Tanpri voye yon foto klè chak dokiman',
+  'documents.identity': 'Prèv idantite',
+  'documents.proof_of_address': 'Prèv adrès',
+  'documents.business_registration': 'Enskripsyon biznis',
+  'documents.identityChoice': 'Ki pyès idantite ou pral voye?',
+  'documents.identityHint': 'Aksepte nan {country}: {documents}',
+  'documents.proofOfAddressHint':
+    'Yon fakti sèvis piblik twa dènye mwa yo sou non ou oswa non biznis ou',
+  'documents.businessRegistrationHint': 'Sètifika enskripsyon oswa enkòporasyon biznis ou',
+  'document.national_id_front': 'Kat idantite nasyonal (devan)',
+  'document.national_id_back': 'Kat idantite nasyonal (dèyè)',
+  'document.passport': 'Paspò',
+  'document.drivers_licence': 'Lisans chofè',
+  'document.utility_bill': 'Fakti sèvis piblik',
+  'document.business_registration': 'Sètifika enskripsyon biznis',
+
+  'validation.usernameRequired': 'Non itilizatè Flash la obligatwa',
+  'validation.nameMin': 'Non an dwe gen omwen 2 karaktè',
+  'validation.phoneInvalid': 'Tanpri antre yon nimewo telefòn ki valab',
+  'validation.phoneCountryCode': 'Tanpri antre yon nimewo telefòn ki valab ak kòd peyi a',
+  'validation.emailInvalid': 'Tanpri antre yon imèl ki valab',
+  'validation.emailRequired': 'Imèl la obligatwa',
+  'validation.termsRequired': 'Ou dwe aksepte tèm ak kondisyon yo',
+  'validation.businessCategory': 'Tanpri chwazi yon kategori biznis',
+  'validation.descriptionMax': 'Deskripsyon an dwe gen {max} karaktè oswa mwens',
+  'validation.terminalMin': 'Kòmande omwen yon tèminal',
+  'validation.terminalMax': 'Ou ka kòmande jiska {max} tèminal',
+  'validation.shippingAddressMax': 'Adrès livrezon an twò long',
+  'validation.businessNameMin': 'Non biznis la dwe gen omwen 2 karaktè',
+  'validation.addressInvalid': 'Tanpri antre yon adrès ki valab',
+  'validation.bankRequired': 'Non labank lan obligatwa',
+  'validation.branchRequired': 'Siksisal la obligatwa',
+  'validation.accountTypeRequired': 'Kalite kont lan obligatwa',
+  'validation.currencyRequired': 'Lajan an obligatwa',
+  'validation.accountNumberRequired': 'Nimewo kont lan obligatwa',
+  'validation.bankListed': '{bank} nan lis nou an - tanpri chwazi l nan sijesyon yo',
+  'validation.bankOutsideCountry': 'Tanpri chwazi yon labank nan {country}',
+  'validation.currencyUnsupported': 'Kont {bank} disponib an {currencies}',
+  'validation.documentsMissing': 'Sa ki manke toujou: {documents}',
+  'validation.documentInvalid': 'Tanpri voye dokiman sa a ankò',
+  'validation.documentDuplicate': 'Ou ka voye chak dokiman yon sèl fwa',
+
+  'zod.required': 'Obligatwa',
+  'zod.invalidType': 'Nou te tann {expected}, nou resevwa {received}',
+  'zod.invalidOption': 'Tanpri chwazi youn nan opsyon yo',
+  'zod.tooShort': 'Dwe gen omwen {minimum} karaktè',
+  'zod.tooLong': 'Dwe gen {maximum} karaktè oswa mwens',
+  'zod.tooSmall': 'Dwe omwen {minimum}',
+  'zod.tooBig': 'Dwe {maximum} oswa mwens',
+  'zod.invalidString': 'Fòma a pa valab',
+  'zod.invalid': 'Valè a pa valab',
+};
+
+export default ht;
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { createTranslator, Locale } from './index';
+
+/**
+ * Translated messages for zod's built-in issues
+ *
+ * lib/validators.ts gives every rule its own translated message, so this only covers the
+ * issues zod raises on its own - a missing field, a value of the wrong type, an unknown enum
+ * option. Pass it to zodResolver's schema options; explicit messages always take precedence.
+ */
+export function makeZodErrorMap(locale: Locale): z.ZodErrorMap {
+  const t = createTranslator(locale);
+
+  return (issue, ctx) => {
+    switch (issue.code) {
+      case z.ZodIssueCode.invalid_type:
+        if (issue.received === z.ZodParsedType.undefined) return { message: t('zod.required') };
+        return {
+          message: t('zod.invalidType', { expected: issue.expected, received: issue.received }),
+        };
+      case z.ZodIssueCode.invalid_enum_value:
+      case z.ZodIssueCode.invalid_literal:
+      case z.ZodIssueCode.invalid_union_discriminator:
+        return { message: t('zod.invalidOption') };
+      case z.ZodIssueCode.too_small:
+        return {
+          message:
+            issue.type === 'string'
+              ? t('zod.tooShort', { minimum: Number(issue.minimum) })
+              : t('zod.tooSmall', { minimum: Number(issue.minimum) }),
+        };
+      case z.ZodIssueCode.too_big:
+        return {
+          message:
+            issue.type === 'string'
+              ? t('zod.tooLong', { maximum: Number(issue.maximum) })
+              : t('zod.tooBig', { maximum: Number(issue.maximum) }),
+        };
+      case z.ZodIssueCode.invalid_string:
+        return { message: t('zod.invalidString') };
+      case z.ZodIssueCode.custom:
+        return { message: t('zod.invalid') };
+      default:
+        return { message: ctx.defaultError };
+    }
+  };
+}
@@ -0,0 +1,182 @@
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import {
+  AdminSignupDocument,
+  AdminSignupListQuery,
+  AdminTerminalOrder,
+  AdminSignupSummary,
+  ApiResponse,
+  SignupStatus,
+  SignupStatusChange,
+  TerminalOrderStatus,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent,
+} from '../types';
+import { SignupStatusError } from '../utils/signupStatus';
+import { TerminalOrderError } from '../utils/terminalOrders';
+import { authService } from './auth';
+import { csrfService } from './csrf';
+
+/**
+ * Admin review console client service
+ * Calls /api/admin with the signed-in Supabase user's token
+ */
+
+export interface AdminSignupPage {
+  rows: AdminSignupSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type AdminSignupRecord = AdminSignupSummary &
+  Record<string, unknown> & {
+    latitude: number | null;
+    longitude: number | null;
+    country: string | null;
+    documents: AdminSignupDocument[];
+    status_history: SignupStatusChange[];
+  };
+
+export interface SignupStatusUpdate {
+  status: SignupStatus;
+  reason?: string;
+  // Status shown to the reviewer, so concurrent changes are rejected
+  from: SignupStatus;
+}
+
+export interface TerminalOrderPage {
+  rows: AdminTerminalOrder[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface TerminalOrderUpdate {
+  status: TerminalOrderStatus;
+  // Required when shipping, one per terminal
+  serial_numbers?: string[];
+  tracking_number?: string;
+  note?: string;
+  // Status shown to the admin, so concurrent changes are rejected
+  from: TerminalOrderStatus;
+}
+
+export interface WebhookDeliveryPage {
+  rows: WebhookDelivery[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+type AdminResponse<T> = ApiResponse<T> & {
+  status: number;
+  code?: SignupStatusError | TerminalOrderError;
+};
+
+const adminFetch = async <T>(path: string, init: RequestInit = {}): Promise<AdminResponse<T>> => {
+  try {
+    const authorization = await authService.getAuthorizationHeader();
+    if (!authorization) {
+      return { success: false, error: 'Please sign in', status: 401 };
+    }
+
+    const response = await fetch(`${config.api.baseUrl || ''}${path}`, {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        Authorization: authorization,
+      },
+      credentials: 'include',
+    });
+
+    return { ...(await response.json()), status: response.status };
+  } catch (error) {
+    logger.error('Admin API request failed', error);
+    return { success: false, error: 'Network error', status: 0 };
+  }
+};
+
+/**
+ * Admin service
+ */
+export const adminService = {
+  async listSignups(query: Partial<AdminSignupListQuery>) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    return adminFetch<AdminSignupPage>(`/api/admin/signups?${params.toString()}`);
+  },
+
+  async getSignup(id: string) {
+    return adminFetch<AdminSignupRecord>(`/api/admin/signups/${encodeURIComponent(id)}`);
+  },
+
+  async updateStatus(id: string, update: SignupStatusUpdate) {
+    return adminFetch<{ status: SignupStatus }>(
+      `/api/admin/signups/${encodeURIComponent(id)}/status`,
+      { method: 'POST', body: JSON.stringify(await csrfService.includeToken({ ...update })) }
+    );
+  },
+
+  async listTerminalOrders(query: { status?: TerminalOrderStatus; page?: number }) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+
+    return adminFetch<TerminalOrderPage>(`/api/admin/terminal-orders?${params.toString()}`);
+  },
+
+  async updateTerminalOrder(id: string, update: TerminalOrderUpdate) {
+    return adminFetch<{ status: TerminalOrderStatus }>(
+      `/api/admin/terminal-orders/${encodeURIComponent(id)}/status`,
+      { method: 'POST', body: JSON.stringify(await csrfService.includeToken({ ...update })) }
+    );
+  },
+
+  async listWebhooks() {
+    return adminFetch<WebhookEndpoint[]>('/api/admin/webhooks');
+  },
+
+  /**
+   * Register an endpoint - the response holds the signing secret, which isn't shown again
+   */
+  async createWebhook(input: { url: string; description?: string; events: WebhookEvent[] }) {
+    return adminFetch<{ endpoint: WebhookEndpoint; secret: string }>('/api/admin/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(await csrfService.includeToken({ ...input })),
+    });
+  },
+
+  async updateWebhook(id: string, update: { active?: boolean; events?: WebhookEvent[] }) {
+    return adminFetch<WebhookEndpoint>(`/api/admin/webhooks/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(await csrfService.includeToken({ ...update })),
+    });
+  },
+
+  async listWebhookDeliveries(query: {
+    status?: WebhookDeliveryStatus;
+    endpoint_id?: string;
+    page?: number;
+  }) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    return adminFetch<WebhookDeliveryPage>(`/api/admin/webhooks/deliveries?${params.toString()}`);
+  },
+
+  async retryWebhookDelivery(id: string) {
+    return adminFetch<void>(`/api/admin/webhooks/deliveries/${encodeURIComponent(id)}/retry`, {
+      method: 'POST',
+      body: JSON.stringify(await csrfService.includeToken({})),
+    });
+  },
+};
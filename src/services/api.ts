@@ -16,7 +16,10 @@ export const apiService = {
   async submitSignupForm(data: SignupFormData): Promise<ApiResponse> {
     console.log('API submitSignupForm called with data:', {
       ...data,
-      id_image_url: data.id_image_url ? '[REDACTED]' : null,
+      documents: data.documents?.map(document => ({
+        type: document.type,
+        file_path: '[REDACTED]',
+      })),
     });
     try {
       // More robust check for static build environment
@@ -37,8 +40,9 @@ export const apiService = {
       const baseUrl =
         config.api.baseUrl || (typeof window !== 'undefined' ? window.location.origin : '');
 
-      // For static builds, try direct Supabase connection first
-      if (isStaticBuild) {
+      // For static builds, try direct Supabase connection first - except with documents, which
+      // only a server running the API (NEXT_PUBLIC_API_BASE_URL) can attach
+      if (isStaticBuild && !(data.documents?.length && config.api.baseUrl)) {
         return await this.submitFormWithSupabaseDirect(data);
       }
 
@@ -63,7 +67,10 @@ export const apiService = {
     // Use enhanced logger for API requests
     logger.api.request('POST', submitUrl, {
       ...data,
-      id_image_url: data.id_image_url ? '[REDACTED]' : null,
+      documents: data.documents?.map(document => ({
+        type: document.type,
+        file_path: '[REDACTED]',
+      })),
     });
 
     try {
@@ -90,10 +97,10 @@ export const apiService = {
       };
 
       if (authToken) {
-        // If it's a phone auth token, it already includes the prefix
-        if (authToken.startsWith('PhoneAuth ')) {
+        // Phone and guest tokens already include their scheme prefix
+        if (/^(PhoneAuth|Guest) /.test(authToken)) {
           headers['Authorization'] = authToken;
-          logger.info('Including phone authentication token in API request');
+          logger.info('Including phone/guest authentication token in API request');
         } else {
           headers['Authorization'] = `Bearer ${authToken}`;
           logger.info('Including email authentication token in API request');
@@ -144,6 +151,10 @@ export const apiService = {
           error: result.error || 'An error occurred during form submission',
         };
       }
+
+      // The server rotated the CSRF cookie, so the token we sent can't be used again
+      csrfService.invalidate();
+
       return {
         success: true,
         message: result.message || 'Form submitted successfully',
@@ -163,6 +174,19 @@ export const apiService = {
    * Used as a fallback for static builds or when the API endpoint is not available
    */
   async submitFormWithSupabaseDirect(data: SignupFormData): Promise<ApiResponse> {
+    // Documents are only attached after /api/submit confirms their upload tickets, which the
+    // browser can't do on its own - a signup stored here would arrive without them
+    if (data.documents?.length) {
+      logger.warn('Signup with documents cannot be submitted without the API', {
+        count: data.documents.length,
+      });
+      return {
+        success: false,
+        error:
+          'We could not reach the signup service to attach your documents. Please try again in a few minutes.',
+      };
+    }
+
     logger.info('Submitting form directly to Supabase');
     console.log('Direct Supabase connection attempt...');
 
@@ -239,9 +263,13 @@ export const apiService = {
         email: data.email,
         account_type: data.account_type,
         terms_accepted: data.terms_accepted,
+        ...(data.country ? { country: data.country } : {}),
         // Include optional fields only if they have values
         ...(data.business_name ? { business_name: data.business_name } : {}),
         ...(data.business_address ? { business_address: data.business_address } : {}),
+        ...(data.business_type ? { business_type: data.business_type } : {}),
+        ...(data.business_description ? { business_description: data.business_description } : {}),
+        ...(data.merchant_type ? { merchant_type: data.merchant_type } : {}),
         // CRITICAL: Must use wants_terminal (not terminal_requested) to match DB schema
         ...(data.wants_terminal !== undefined ? { wants_terminal: !!data.wants_terminal } : {}),
         ...(data.bank_name ? { bank_name: data.bank_name } : {}),
@@ -249,7 +277,6 @@ export const apiService = {
         ...(data.bank_account_type ? { bank_account_type: data.bank_account_type } : {}),
         ...(data.account_currency ? { account_currency: data.account_currency } : {}),
         ...(data.bank_account_number ? { bank_account_number: data.bank_account_number } : {}),
-        ...(data.id_image_url ? { id_image_url: data.id_image_url } : {}),
         // created_at is added automatically by the database
       };
 
@@ -282,10 +309,14 @@ export const apiService = {
           email: data.email || null,
           account_type: data.account_type,
           terms_accepted: data.terms_accepted,
+          ...(data.country ? { country: data.country } : {}),
 
           // Optional business/merchant fields
           ...(data.business_name ? { business_name: data.business_name } : {}),
           ...(data.business_address ? { business_address: data.business_address } : {}),
+          ...(data.business_type ? { business_type: data.business_type } : {}),
+          ...(data.business_description ? { business_description: data.business_description } : {}),
+          ...(data.merchant_type ? { merchant_type: data.merchant_type } : {}),
 
           // Always include latitude and longitude if they are valid numbers or can be parsed
           ...(data.latitude !== undefined &&
@@ -334,7 +365,6 @@ export const apiService = {
           ...(data.bank_account_type ? { bank_account_type: data.bank_account_type } : {}),
           ...(data.account_currency ? { account_currency: data.account_currency } : {}),
           ...(data.bank_account_number ? { bank_account_number: data.bank_account_number } : {}),
-          ...(data.id_image_url ? { id_image_url: data.id_image_url } : {}),
 
           // Newly added metadata fields that were previously causing errors
           client_version:
@@ -0,0 +1,38 @@
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { ApiResponse, ApplicantSignupStatus } from '../types';
+import { authService } from './auth';
+
+/**
+ * Applicant status client service
+ * Loads the signed-in applicant's applications from /api/status
+ */
+export const applicantStatusService = {
+  /**
+   * Whether the current session can look up applications
+   * Guest (bot challenge) sessions don't identify an applicant
+   */
+  async hasApplicantSession(): Promise<boolean> {
+    const authorization = await authService.getAuthorizationHeader();
+    return !!authorization && !authorization.startsWith('Guest ');
+  },
+
+  async load(): Promise<ApiResponse<ApplicantSignupStatus[]> & { status: number }> {
+    try {
+      const authorization = await authService.getAuthorizationHeader();
+      if (!authorization) {
+        return { success: false, error: 'Please verify your phone number', status: 401 };
+      }
+
+      const response = await fetch(`${config.api.baseUrl || ''}/api/status`, {
+        headers: { Authorization: authorization },
+        credentials: 'include',
+      });
+
+      return { ...(await response.json()), status: response.status };
+    } catch (error) {
+      logger.error('Error loading application status', error);
+      return { success: false, error: 'Network error', status: 0 };
+    }
+  },
+};
@@ -310,8 +310,12 @@ export const authService = {
 
         // Check if the session is still valid
         if (storedAuth.expires > Date.now() && storedAuth.authenticated) {
-          // Format token for auth middleware compatibility
-          return `PhoneAuth ${storedAuth.userId}:${storedAuth.phoneNumber}:${storedAuth.authToken || 'phone_auth_token'}`;
+          // Signed tokens issued by the server, prefixed with their auth-middleware scheme
+          if (storedAuth.authToken) {
+            return storedAuth.method === 'captcha'
+              ? `Guest ${storedAuth.authToken}`
+              : `PhoneAuth ${storedAuth.authToken}`;
+          }
         } else {
           // Expired session, clean up
           localStorage.removeItem('authenticatedUser');
@@ -324,6 +328,15 @@ export const authService = {
     return null;
   },
 
+  /**
+   * Authorization header value for API requests, with the scheme auth-middleware expects
+   */
+  async getAuthorizationHeader(): Promise<string | null> {
+    const token = await this.getAuthToken();
+    if (!token) return null;
+    return /^(PhoneAuth|Guest) /.test(token) ? token : `Bearer ${token}`;
+  },
+
   /**
    * Check if user is authenticated - supports both email and phone auth
    */
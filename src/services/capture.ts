@@ -0,0 +1,106 @@
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { ApiResponse, CaptureSession, KycDocumentType } from '../types';
+import { authService } from './auth';
+import { csrfService } from './csrf';
+import { UploadTicket } from './uploads';
+
+/**
+ * Phone capture client service
+ *
+ * The desktop form opens a session (/api/capture-sessions), shows captureLink() as a QR code
+ * and polls the session until the phone has uploaded. The phone's capture page (app/capture)
+ * uses the secret from the link with /api/capture to get an upload ticket and, once the
+ * upload has finished, to complete the session.
+ */
+
+export interface OpenedCaptureSession extends CaptureSession {
+  // Goes in the link only - never stored or logged
+  secret: string;
+}
+
+// What the phone is told about its session
+export type CaptureRequest = Pick<CaptureSession, 'documentType' | 'status' | 'expiresAt'>;
+
+const apiUrl = (path: string) => `${config.api.baseUrl || ''}${path}`;
+
+const captureHeaders = (secret: string) => ({
+  'Content-Type': 'application/json',
+  Authorization: `Capture ${secret}`,
+});
+
+// Network failures look like any other failed response to callers
+const readResponse = async <T>(response: Promise<Response>): Promise<ApiResponse<T>> => {
+  try {
+    return await (await response).json();
+  } catch (error) {
+    logger.error('Phone capture request failed', error);
+    return { success: false, error: 'Network error' };
+  }
+};
+
+export const captureService = {
+  /**
+   * Link for the phone to open; the secret is in the fragment, so it never reaches a server
+   */
+  captureLink(secret: string): string {
+    return `${window.location.origin}/capture#${secret}`;
+  },
+
+  async open(documentType: KycDocumentType): Promise<ApiResponse<OpenedCaptureSession>> {
+    const authorization = await authService.getAuthorizationHeader();
+    if (!authorization) return { success: false, error: 'unauthenticated' };
+
+    return readResponse(
+      fetch(apiUrl('/api/capture-sessions'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        credentials: 'include', // Needed for the CSRF cookie
+        body: JSON.stringify(await csrfService.includeToken({ documentType })),
+      })
+    );
+  },
+
+  async check(id: string): Promise<ApiResponse<CaptureSession>> {
+    const authorization = await authService.getAuthorizationHeader();
+    if (!authorization) return { success: false, error: 'unauthenticated' };
+
+    return readResponse(
+      fetch(apiUrl(`/api/capture-sessions?id=${encodeURIComponent(id)}`), {
+        headers: { Authorization: authorization },
+        credentials: 'include',
+      })
+    );
+  },
+
+  /**
+   * Which document the phone should photograph
+   */
+  lookup(secret: string): Promise<ApiResponse<CaptureRequest>> {
+    return readResponse(fetch(apiUrl('/api/capture'), { headers: captureHeaders(secret) }));
+  },
+
+  async requestTicket(secret: string, file: Blob): Promise<ApiResponse<UploadTicket>> {
+    return readResponse(
+      fetch(apiUrl('/api/capture'), {
+        method: 'POST',
+        headers: captureHeaders(secret),
+        credentials: 'include', // Needed for the CSRF cookie
+        body: JSON.stringify(
+          await csrfService.includeToken({ contentType: file.type, size: file.size })
+        ),
+      })
+    );
+  },
+
+  async complete(secret: string): Promise<ApiResponse<Pick<CaptureSession, 'status'>>> {
+    return readResponse(
+      fetch(apiUrl('/api/capture'), {
+        method: 'PUT',
+        headers: captureHeaders(secret),
+        credentials: 'include',
+        body: JSON.stringify(await csrfService.includeToken({})),
+      })
+    );
+  },
+};
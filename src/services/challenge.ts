@@ -0,0 +1,84 @@
+import { logger } from '../utils/logger';
+import { leadingZeroBits } from '../utils/proofOfWork';
+import { config } from '../config';
+import { csrfService } from './csrf';
+
+/**
+ * Bot challenge client service
+ * Solves or collects the configured challenge and exchanges it for a guest token at /api/challenge
+ */
+
+interface ChallengeResponse<T> {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: T;
+}
+
+export interface GuestSession {
+  token: string;
+  userId: string;
+  expires: number;
+}
+
+const challengeUrl = () => `${config.api.baseUrl || ''}/api/challenge`;
+
+/**
+ * Challenge service
+ */
+export const challengeService = {
+  /**
+   * Fetch a proof-of-work puzzle and find a nonce that satisfies it
+   * Returns the response to pass to verify
+   */
+  async solveProofOfWork(onProgress?: (attempts: number) => void): Promise<string> {
+    const result: ChallengeResponse<{ challenge: string; difficulty: number }> = await (
+      await fetch(challengeUrl(), { method: 'GET', credentials: 'include' })
+    ).json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to load challenge');
+    }
+
+    const { challenge, difficulty } = result.data;
+    const encoder = new TextEncoder();
+
+    for (let nonce = 0; ; nonce++) {
+      const digest = new Uint8Array(
+        await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${nonce}`))
+      );
+      if (leadingZeroBits(digest) >= difficulty) {
+        return `${challenge}:${nonce}`;
+      }
+      if (onProgress && nonce % 5000 === 0) {
+        onProgress(nonce);
+      }
+    }
+  },
+
+  /**
+   * Verify a challenge response server-side and get a guest session
+   */
+  async verify(
+    response: string
+  ): Promise<{ success: boolean; session?: GuestSession; error?: string }> {
+    try {
+      const result: ChallengeResponse<GuestSession> = await (
+        await fetch(challengeUrl(), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include', // Needed for the CSRF cookie
+          body: JSON.stringify(await csrfService.includeToken({ response })),
+        })
+      ).json();
+
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error || 'Verification failed' };
+      }
+      return { success: true, session: result.data };
+    } catch (error) {
+      logger.error('Error verifying challenge', error);
+      return { success: false, error: 'Verification failed' };
+    }
+  },
+};
@@ -31,15 +31,35 @@ export const csrfService = {
   expires: 0,
 
   /**
-   * Fetch a new CSRF token from the server
+   * Token request in flight, shared by every caller that asks before it returns
+   * Each /api/csrf call sets a new cookie, so a second request would leave the first
+   * caller's token no longer matching the cookie.
+   */
+  pending: null as Promise<string> | null,
+
+  /**
+   * Get the cached CSRF token, or fetch a new one from the server
    */
   async getToken(): Promise<string> {
-    try {
-      // Check if we already have a valid token
-      if (this.token && this.expires > Date.now()) {
-        return this.token;
-      }
+    // Check if we already have a valid token
+    if (this.token && this.expires > Date.now()) {
+      return this.token;
+    }
+
+    if (!this.pending) {
+      const pending = this.fetchToken().finally(() => {
+        if (this.pending === pending) this.pending = null;
+      });
+      this.pending = pending;
+    }
+    return this.pending;
+  },
 
+  /**
+   * Fetch a new CSRF token from the server
+   */
+  async fetchToken(): Promise<string> {
+    try {
       // Fetch a new token
       const response = await fetch(`${config.api.baseUrl || ''}/api/csrf`, {
         method: 'GET',
@@ -65,6 +85,16 @@ export const csrfService = {
     }
   },
 
+  /**
+   * Forget the cached token
+   * Call after a successful submission - the server rotates the cookie, so the old token is spent
+   */
+  invalidate(): void {
+    this.token = null;
+    this.expires = 0;
+    this.pending = null;
+  },
+
   /**
    * Generate a fallback token
    * Less secure but prevents complete failure
@@ -0,0 +1,133 @@
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { SignupFormData } from '../types';
+import { createSignupDraft, isSignupDraft, SignupDraft } from '../utils/signupDraft';
+import { authService } from './auth';
+import { csrfService } from './csrf';
+import { pendingUploadStore } from './pendingUploads';
+
+/**
+ * Signup draft service
+ * Keeps the in-progress form in localStorage and, for phone-verified users, on the
+ * server (/api/drafts) so it can be resumed from another session or device.
+ */
+
+const STORAGE_KEY = 'signupDraft';
+
+const draftsUrl = () => `${config.api.baseUrl || ''}/api/drafts`;
+
+/**
+ * Authorization header for draft sync, or null when the user can't have server drafts
+ * Guests have no verified phone, so their drafts stay local
+ */
+const getSyncAuthorization = async (): Promise<string | null> => {
+  try {
+    const authorization = await authService.getAuthorizationHeader();
+    return authorization && !authorization.startsWith('Guest ') ? authorization : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Draft service
+ */
+export const draftService = {
+  loadLocal(): SignupDraft | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return null;
+
+      const draft = JSON.parse(stored);
+      if (isSignupDraft(draft)) return draft;
+
+      // Expired or corrupted
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      logger.warn('Unable to read local signup draft');
+    }
+    return null;
+  },
+
+  /**
+   * Load the most recent draft from localStorage or the server
+   */
+  async load(): Promise<SignupDraft | null> {
+    const local = this.loadLocal();
+    const authorization = await getSyncAuthorization();
+    if (!authorization) return local;
+
+    try {
+      const response = await fetch(draftsUrl(), {
+        method: 'GET',
+        headers: { Authorization: authorization },
+        credentials: 'include',
+      });
+      const result = await response.json();
+      const remote = result.success && isSignupDraft(result.data) ? result.data : null;
+
+      if (remote && (!local || remote.updatedAt > local.updatedAt)) {
+        return remote;
+      }
+    } catch (error) {
+      logger.warn('Unable to load server signup draft');
+    }
+
+    return local;
+  },
+
+  /**
+   * Save the form at the given step
+   * Excluded fields (bank account number) are stripped before anything is stored
+   */
+  async save(currentStep: number, values: Partial<SignupFormData>): Promise<SignupDraft> {
+    const draft = createSignupDraft(currentStep, values);
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+    } catch (error) {
+      logger.warn('Unable to save local signup draft');
+    }
+
+    const authorization = await getSyncAuthorization();
+    if (authorization) {
+      try {
+        await fetch(draftsUrl(), {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', Authorization: authorization },
+          credentials: 'include',
+          body: JSON.stringify(
+            await csrfService.includeToken({ currentStep: draft.currentStep, values: draft.values })
+          ),
+        });
+      } catch (error) {
+        logger.warn('Unable to save server signup draft');
+      }
+    }
+
+    return draft;
+  },
+
+  /**
+   * Delete the draft everywhere (explicit discard or after a successful submission), along
+   * with the document uploads kept for resuming it
+   */
+  async discard(): Promise<void> {
+    localStorage.removeItem(STORAGE_KEY);
+    await pendingUploadStore.clear();
+
+    const authorization = await getSyncAuthorization();
+    if (!authorization) return;
+
+    try {
+      await fetch(draftsUrl(), {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        credentials: 'include',
+        body: JSON.stringify(await csrfService.includeToken({})),
+      });
+    } catch (error) {
+      logger.warn('Unable to discard server signup draft');
+    }
+  },
+};
@@ -0,0 +1,135 @@
+import { logger } from '../utils/logger';
+import { KycDocumentType } from '../types';
+
+/**
+ * Document uploads still in progress, kept so they can carry on after a page reload
+ *
+ * One record per signed-in subject and document type, holding the prepared file, its upload
+ * ticket and the tus upload URL once the server has created it. IndexedDB is used because the
+ * files are too big for localStorage; where it isn't available nothing is kept and uploads just
+ * start over. The files are ID photos, so records are only handed back to the subject that made
+ * them, and expired or other subjects' records are deleted by `purge` (on startup) and `clear`
+ * (when the draft is discarded).
+ */
+
+export interface PendingUploadTicket {
+  path: string;
+  bucket: string;
+  resumableUrl: string;
+  token: string;
+  contentType: string;
+  expiresAt: string;
+}
+
+export interface PendingUpload {
+  // The authenticated caller the ticket was issued to (auth-middleware's subject)
+  subject: string;
+  documentType: KycDocumentType;
+  ticket: PendingUploadTicket;
+  uploadUrl: string | null;
+  file: Blob;
+}
+
+const DATABASE_NAME = 'signupUploads';
+const STORE_NAME = 'pendingUploads';
+// Version 2 keys records by subject as well; version 1 records are dropped
+const DATABASE_VERSION = 2;
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  if (!database) {
+    database = new Promise(resolve => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(STORE_NAME)) db.deleteObjectStore(STORE_NAME);
+        db.createObjectStore(STORE_NAME, { keyPath: ['subject', 'documentType'] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logger.warn('Unable to open pending upload storage');
+        resolve(null);
+      };
+    });
+  }
+  return database;
+};
+
+/**
+ * Run one request against the store, resolving to null when storage is unavailable
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logger.warn('Pending upload storage request failed');
+        resolve(null);
+      };
+    } catch (error) {
+      logger.warn('Pending upload storage request failed');
+      resolve(null);
+    }
+  });
+};
+
+const isExpired = (upload: PendingUpload) =>
+  new Date(upload.ticket.expiresAt).getTime() <= Date.now();
+
+/**
+ * Pending upload store
+ */
+export const pendingUploadStore = {
+  async save(upload: PendingUpload): Promise<void> {
+    await withStore('readwrite', store => store.put(upload));
+  },
+
+  /**
+   * The subject's unfinished upload for a document type, if its ticket is still valid
+   */
+  async load(subject: string, documentType: KycDocumentType): Promise<PendingUpload | null> {
+    const upload = await withStore<PendingUpload | undefined>('readonly', store =>
+      store.get([subject, documentType])
+    );
+    if (!upload) return null;
+
+    if (isExpired(upload)) {
+      await this.remove(subject, documentType);
+      return null;
+    }
+    return upload;
+  },
+
+  async remove(subject: string, documentType: KycDocumentType): Promise<void> {
+    await withStore('readwrite', store => store.delete([subject, documentType]));
+  },
+
+  /**
+   * Delete expired records and every record not made by this subject (all of them for null)
+   */
+  async purge(subject: string | null): Promise<void> {
+    const uploads = await withStore<PendingUpload[]>('readonly', store => store.getAll());
+    const stale = (uploads || []).filter(upload => upload.subject !== subject || isExpired(upload));
+
+    for (const upload of stale) {
+      await this.remove(upload.subject, upload.documentType);
+    }
+  },
+
+  /**
+   * Delete every record, e.g. when the draft they belong to is discarded
+   */
+  async clear(): Promise<void> {
+    await withStore('readwrite', store => store.clear());
+  },
+};
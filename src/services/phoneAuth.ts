@@ -0,0 +1,74 @@
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { csrfService } from './csrf';
+
+/**
+ * Phone authentication client service
+ * Requests and verifies SMS one-time codes through /api/phone-auth
+ */
+
+interface PhoneAuthResponse<T> {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: T;
+}
+
+export interface PhoneAuthSession {
+  token: string;
+  userId: string;
+  phone: string;
+  expires: number;
+}
+
+const post = async <T>(path: string, body: Record<string, unknown>) => {
+  const response = await fetch(`${config.api.baseUrl || ''}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include', // Needed for the CSRF cookie
+    body: JSON.stringify(await csrfService.includeToken(body)),
+  });
+
+  return (await response.json()) as PhoneAuthResponse<T>;
+};
+
+/**
+ * Phone auth service
+ */
+export const phoneAuthService = {
+  /**
+   * Ask the server to text a verification code to the phone number
+   */
+  async sendCode(phone: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const result = await post<{ phone: string; expires: number }>('/api/phone-auth/send', {
+        phone,
+      });
+      return result.success
+        ? { success: true }
+        : { success: false, error: result.error || 'Failed to send verification code' };
+    } catch (error) {
+      logger.error('Error requesting verification code', error);
+      return { success: false, error: 'Failed to send verification code' };
+    }
+  },
+
+  /**
+   * Verify the code and get a signed phone auth session
+   */
+  async verifyCode(
+    phone: string,
+    code: string
+  ): Promise<{ success: boolean; session?: PhoneAuthSession; error?: string }> {
+    try {
+      const result = await post<PhoneAuthSession>('/api/phone-auth/verify', { phone, code });
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error || 'Verification failed' };
+      }
+      return { success: true, session: result.data };
+    } catch (error) {
+      logger.error('Error verifying code', error);
+      return { success: false, error: 'Verification failed' };
+    }
+  },
+};
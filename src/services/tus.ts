@@ -0,0 +1,288 @@
+/**
+ * Minimal tus 1.0 client for resumable document uploads
+ *
+ * Creates an upload, sends the file in chunks and, after a failure or a pause, asks the server
+ * how much it already has (HEAD) and carries on from there. Enough for Supabase storage's
+ * resumable endpoint or the stand-in server (scripts/tus-server.js) - not a general tus library.
+ */
+
+export const TUS_VERSION = '1.0.0';
+// Supabase storage only accepts 6MB chunks (the last one can be smaller)
+export const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+// Wait before each retry of a failed request; the count resets whenever bytes get through
+export const TUS_RETRY_DELAYS = [0, 1000, 3000, 5000, 10000] as const;
+
+export interface TusRequest {
+  method: 'POST' | 'HEAD' | 'PATCH' | 'DELETE';
+  url: string;
+  headers: Record<string, string>;
+  body?: Blob;
+  // Bytes of the body sent so far
+  onProgress?: (loaded: number) => void;
+  signal: AbortSignal;
+}
+
+export interface TusResponse {
+  status: number;
+  getHeader(name: string): string | null;
+}
+
+/**
+ * Sends one request; rejects on network errors and when aborted
+ */
+export type TusTransport = (request: TusRequest) => Promise<TusResponse>;
+
+/**
+ * XMLHttpRequest reports upload progress within a chunk, which fetch can't
+ */
+export const xhrTransport: TusTransport = request =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method, request.url);
+    Object.keys(request.headers).forEach(name => {
+      xhr.setRequestHeader(name, request.headers[name] as string);
+    });
+
+    xhr.upload.onprogress = event => request.onProgress?.(event.loaded);
+    xhr.onload = () =>
+      resolve({ status: xhr.status, getHeader: name => xhr.getResponseHeader(name) });
+    xhr.onerror = () => reject(new Error('Network error'));
+    xhr.onabort = () => reject(new Error('Upload aborted'));
+    request.signal.addEventListener('abort', () => xhr.abort());
+
+    xhr.send(request.body || null);
+  });
+
+/**
+ * fetch-based transport, for environments without XMLHttpRequest; progress is per chunk
+ */
+export const fetchTransport: TusTransport = async request => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal,
+  });
+  return { status: response.status, getHeader: name => response.headers.get(name) };
+};
+
+export type TusUploadError = 'paused' | 'rejected' | 'failed';
+
+export type TusUploadResult = { success: true } | { success: false; error: TusUploadError };
+
+export interface TusUploadOptions {
+  endpoint: string;
+  file: Blob;
+  // Sent with every request, e.g. the signed upload token
+  headers?: Record<string, string>;
+  metadata?: Record<string, string>;
+  // Upload created earlier (e.g. before the page was reloaded), to continue
+  uploadUrl?: string | null;
+  chunkSize?: number;
+  retryDelays?: readonly number[];
+  transport?: TusTransport;
+  // Called once the server has created the upload, so it can be resumed later
+  onUploadUrl?: (url: string) => void;
+  onProgress?: (sent: number, total: number) => void;
+  // Called when the upload stops to wait for the connection to come back
+  onOffline?: () => void;
+}
+
+export interface TusUpload {
+  /**
+   * Upload from wherever the server has got to
+   * Resolves when the file is complete, the server refuses it, retries run out or pause()
+   * is called.
+   */
+  start(): Promise<TusUploadResult>;
+  // Abort the request in flight and stop; start() again to continue
+  pause(): void;
+  // Stop and ask the server to discard what it has
+  terminate(): Promise<void>;
+}
+
+// Statuses worth trying again: server errors, offset conflicts, locks and rate limits
+const isRetryable = (status: number) =>
+  status >= 500 || status === 409 || status === 423 || status === 429;
+
+const statusError = (status: number) =>
+  Object.assign(new Error(`Unexpected tus response ${status}`), { status });
+
+// Status of a response send() didn't expect, undefined for network errors
+const statusOf = (error: unknown): number | undefined =>
+  (error as { status?: number } | null)?.status;
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.keys(metadata)
+    .map(key => `${key} ${btoa(unescape(encodeURIComponent(metadata[key] as string)))}`)
+    .join(',');
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Resolves when the browser reports it is online again, or the signal aborts
+ */
+const waitForOnline = (signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const done = () => {
+      window.removeEventListener('online', done);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    window.addEventListener('online', done);
+    signal.addEventListener('abort', done);
+  });
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+/**
+ * Create a resumable upload of one file
+ */
+export function createTusUpload(options: TusUploadOptions): TusUpload {
+  const transport = options.transport || xhrTransport;
+  const chunkSize = options.chunkSize || TUS_CHUNK_SIZE;
+  const retryDelays = options.retryDelays || TUS_RETRY_DELAYS;
+  const total = options.file.size;
+  let uploadUrl = options.uploadUrl || null;
+  let controller = new AbortController();
+
+  const send = async (
+    request: Omit<TusRequest, 'signal' | 'headers'> & { headers?: Record<string, string> },
+    expected: number[]
+  ) => {
+    const response = await transport({
+      ...request,
+      headers: { ...options.headers, 'Tus-Resumable': TUS_VERSION, ...request.headers },
+      signal: controller.signal,
+    });
+    if (!expected.includes(response.status)) throw statusError(response.status);
+    return response;
+  };
+
+  const create = async () => {
+    const response = await send(
+      {
+        method: 'POST',
+        url: options.endpoint,
+        headers: {
+          'Upload-Length': String(total),
+          ...(options.metadata ? { 'Upload-Metadata': encodeMetadata(options.metadata) } : {}),
+        },
+      },
+      [201]
+    );
+    const location = response.getHeader('Location');
+    if (!location) throw new Error('tus server returned no upload URL');
+
+    uploadUrl = new URL(location, options.endpoint).toString();
+    options.onUploadUrl?.(uploadUrl);
+  };
+
+  // Offset the server has for the current upload, or null if it no longer knows it
+  const resumeOffset = async (url: string) => {
+    try {
+      const response = await send({ method: 'HEAD', url }, [200, 204]);
+      const offset = Number(response.getHeader('Upload-Offset'));
+      if (!Number.isInteger(offset) || offset < 0 || offset > total) {
+        throw new Error('tus server returned an invalid offset');
+      }
+      return offset;
+    } catch (error) {
+      const status = statusOf(error);
+      if (status === 403 || status === 404 || status === 410) return null;
+      throw error;
+    }
+  };
+
+  const uploadFromServerOffset = async (onBytesSent: () => void) => {
+    let offset = uploadUrl ? await resumeOffset(uploadUrl) : null;
+    if (offset === null) {
+      await create();
+      offset = 0;
+    }
+    options.onProgress?.(offset, total);
+
+    while (offset < total) {
+      const start = offset;
+      const end = Math.min(start + chunkSize, total);
+      const response = await send(
+        {
+          method: 'PATCH',
+          url: uploadUrl as string,
+          headers: {
+            'Upload-Offset': String(start),
+            'Content-Type': 'application/offset+octet-stream',
+          },
+          body: options.file.slice(start, end),
+          onProgress: loaded => options.onProgress?.(start + Math.min(loaded, end - start), total),
+        },
+        [204]
+      );
+
+      offset = Number(response.getHeader('Upload-Offset'));
+      if (!Number.isInteger(offset) || offset <= start || offset > total) {
+        throw new Error('tus server returned an invalid offset');
+      }
+      options.onProgress?.(offset, total);
+      onBytesSent();
+    }
+  };
+
+  return {
+    async start() {
+      controller = new AbortController();
+      const { signal } = controller;
+      let attempt = 0;
+
+      for (;;) {
+        try {
+          await uploadFromServerOffset(() => {
+            attempt = 0;
+          });
+          return { success: true };
+        } catch (error) {
+          if (signal.aborted) return { success: false, error: 'paused' };
+          const status = statusOf(error);
+          if (status !== undefined && !isRetryable(status)) {
+            return { success: false, error: 'rejected' };
+          }
+          if (isOffline()) {
+            options.onOffline?.();
+            await waitForOnline(signal);
+          } else if (attempt < retryDelays.length) {
+            await wait(retryDelays[attempt] as number, signal);
+            attempt += 1;
+          } else {
+            return { success: false, error: 'failed' };
+          }
+          if (signal.aborted) return { success: false, error: 'paused' };
+        }
+      }
+    },
+
+    pause() {
+      controller.abort();
+    },
+
+    async terminate() {
+      controller.abort();
+      if (!uploadUrl) return;
+
+      const url = uploadUrl;
+      uploadUrl = null;
+      controller = new AbortController();
+      try {
+        await send({ method: 'DELETE', url }, [204, 404, 410]);
+      } catch (error) {
+        // Unfinished uploads expire on the server anyway
+      }
+    },
+  };
+}
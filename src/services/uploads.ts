@@ -0,0 +1,265 @@
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { KycDocumentType } from '../types';
+import { authService } from './auth';
+import { csrfService } from './csrf';
+import { PendingUpload, pendingUploadStore } from './pendingUploads';
+import { createTusUpload, TusTransport } from './tus';
+
+/**
+ * Document upload service
+ *
+ * Asks /api/uploads for a one-time upload ticket and sends the file with the signed token in
+ * it, so the browser never needs storage credentials. Uploads are resumable (tus): they retry
+ * on their own, wait out a lost connection, can be paused, and pick up where they stopped
+ * after a page reload (pendingUploadStore). The returned path is what the form stores;
+ * /api/submit checks it against the ticket.
+ */
+
+export type DocumentUploadError =
+  'unauthenticated' | 'ticket_failed' | 'upload_failed' | 'cancelled';
+
+export type DocumentUploadResult =
+  { success: true; path: string } | { success: false; error: DocumentUploadError };
+
+export type DocumentUploadStatus = 'uploading' | 'paused' | 'offline';
+
+export interface DocumentUploadCallbacks {
+  onProgress?: (sent: number, total: number) => void;
+  onStatus?: (status: DocumentUploadStatus) => void;
+}
+
+export interface DocumentUpload {
+  // The prepared file being uploaded
+  file: Blob;
+  // Settles when the upload finishes, fails or is cancelled - not while it is paused
+  result: Promise<DocumentUploadResult>;
+  pause(): void;
+  resume(): void;
+  // Stop and discard the upload
+  cancel(): void;
+}
+
+export interface UploadTicket {
+  path: string;
+  bucket: string;
+  uploadUrl: string;
+  resumableUrl: string;
+  token: string;
+  contentType: string;
+  maxBytes: number;
+  expiresAt: string;
+}
+
+/**
+ * The signed-in caller's id, which /api/uploads records tickets against
+ */
+const getSubject = async (): Promise<string | null> => {
+  const user = await authService.getCurrentUser();
+  return typeof user?.id === 'string' ? user.id : null;
+};
+
+const toPendingUpload = (
+  subject: string,
+  documentType: KycDocumentType,
+  ticket: UploadTicket,
+  file: Blob
+): PendingUpload => ({
+  subject,
+  documentType,
+  ticket: {
+    path: ticket.path,
+    bucket: ticket.bucket,
+    resumableUrl: ticket.resumableUrl,
+    token: ticket.token,
+    contentType: ticket.contentType,
+    expiresAt: ticket.expiresAt,
+  },
+  uploadUrl: null,
+  file,
+});
+
+/**
+ * Upload a pending document over tus, keeping its record up to date until it finishes
+ * With `persist` off nothing is recorded, so the upload can't be resumed after a reload.
+ */
+const runUpload = (
+  pending: PendingUpload,
+  callbacks: DocumentUploadCallbacks,
+  transport?: TusTransport,
+  persist = true
+): DocumentUpload => {
+  const { subject, documentType, ticket } = pending;
+  const store = persist ? pendingUploadStore : null;
+  let status: DocumentUploadStatus | null = null;
+  let cancelled = false;
+  let resumeWaiter: (() => void) | null = null;
+
+  const setStatus = (next: DocumentUploadStatus) => {
+    if (next === status) return;
+    status = next;
+    callbacks.onStatus?.(next);
+  };
+
+  const tus = createTusUpload({
+    endpoint: ticket.resumableUrl,
+    file: pending.file,
+    uploadUrl: pending.uploadUrl,
+    transport,
+    headers: {
+      'x-signature': ticket.token,
+      // The token is single use - never replace an existing object
+      'x-upsert': 'false',
+    },
+    metadata: {
+      bucketName: ticket.bucket,
+      objectName: ticket.path,
+      contentType: ticket.contentType,
+      cacheControl: '3600',
+    },
+    onUploadUrl: uploadUrl => {
+      void store?.save({ ...pending, uploadUrl });
+    },
+    onProgress: (sent, total) => {
+      setStatus('uploading');
+      callbacks.onProgress?.(sent, total);
+    },
+    onOffline: () => setStatus('offline'),
+  });
+
+  const result = (async (): Promise<DocumentUploadResult> => {
+    for (;;) {
+      setStatus('uploading');
+      const outcome = await tus.start();
+      if (cancelled) return { success: false, error: 'cancelled' };
+
+      if (outcome.success) {
+        await store?.remove(subject, documentType);
+        logger.info('Document uploaded', { documentType });
+        return { success: true, path: ticket.path };
+      }
+      if (outcome.error !== 'paused') {
+        await store?.remove(subject, documentType);
+        logger.warn('Document upload failed', { documentType, reason: outcome.error });
+        return { success: false, error: 'upload_failed' };
+      }
+
+      setStatus('paused');
+      await new Promise<void>(resolve => {
+        resumeWaiter = resolve;
+      });
+      if (cancelled) return { success: false, error: 'cancelled' };
+    }
+  })();
+
+  const wake = () => {
+    const waiter = resumeWaiter;
+    resumeWaiter = null;
+    waiter?.();
+  };
+
+  return {
+    file: pending.file,
+    result,
+    pause: () => tus.pause(),
+    resume: wake,
+    cancel: () => {
+      cancelled = true;
+      void tus.terminate();
+      void store?.remove(subject, documentType);
+      wake();
+    },
+  };
+};
+
+export const uploadService = {
+  async requestTicket(documentType: KycDocumentType, file: Blob): Promise<UploadTicket | null> {
+    const authorization = await authService.getAuthorizationHeader();
+    if (!authorization) return null;
+
+    const response = await fetch(`${config.api.baseUrl || ''}/api/uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: authorization },
+      credentials: 'include', // Needed for the CSRF cookie
+      body: JSON.stringify(
+        await csrfService.includeToken({ documentType, contentType: file.type, size: file.size })
+      ),
+    });
+    const result = await response.json();
+
+    if (!result.success) {
+      logger.warn('Upload ticket refused', { status: response.status, error: result.error });
+      throw new Error(result.error || 'Upload ticket refused');
+    }
+    return result.data;
+  },
+
+  /**
+   * Start uploading a prepared document, replacing any unfinished upload of the same type
+   */
+  async startDocumentUpload(
+    documentType: KycDocumentType,
+    file: Blob,
+    callbacks: DocumentUploadCallbacks = {},
+    transport?: TusTransport
+  ): Promise<
+    { success: true; upload: DocumentUpload } | { success: false; error: DocumentUploadError }
+  > {
+    let ticket: UploadTicket | null;
+    try {
+      ticket = await this.requestTicket(documentType, file);
+    } catch (error) {
+      logger.error('Unable to get an upload ticket', error);
+      return { success: false, error: 'ticket_failed' };
+    }
+    if (!ticket) return { success: false, error: 'unauthenticated' };
+
+    // Without a known subject the upload isn't kept for resuming
+    const subject = await getSubject();
+    const pending = toPendingUpload(subject || '', documentType, ticket, file);
+    if (subject) await pendingUploadStore.save(pending);
+
+    return { success: true, upload: runUpload(pending, callbacks, transport, !!subject) };
+  },
+
+  /**
+   * Upload a prepared document with a ticket issued elsewhere, e.g. to a phone capture session
+   * Not kept for resuming: the ticket belongs to the form on another device.
+   */
+  uploadWithTicket(
+    documentType: KycDocumentType,
+    ticket: UploadTicket,
+    file: Blob,
+    callbacks: DocumentUploadCallbacks = {},
+    transport?: TusTransport
+  ): DocumentUpload {
+    return runUpload(toPendingUpload('', documentType, ticket, file), callbacks, transport, false);
+  },
+
+  /**
+   * Carry on with an upload of this document type left unfinished, e.g. by a page reload
+   * Only the signed-in caller's own uploads are picked up.
+   */
+  async resumePendingUpload(
+    documentType: KycDocumentType,
+    callbacks: DocumentUploadCallbacks = {},
+    transport?: TusTransport
+  ): Promise<DocumentUpload | null> {
+    const subject = await getSubject();
+    if (!subject) return null;
+
+    const pending = await pendingUploadStore.load(subject, documentType);
+    if (!pending) return null;
+
+    logger.info('Resuming document upload', { documentType });
+    return runUpload(pending, callbacks, transport);
+  },
+
+  /**
+   * Delete kept uploads that expired or belong to anyone but the signed-in caller
+   * Run on startup, so another applicant's ID photos don't stay on a shared device.
+   */
+  async purgePendingUploads(): Promise<void> {
+    await pendingUploadStore.purge(await getSubject());
+  },
+};
@@ -8,6 +8,97 @@ export interface ApiResponse<T = any> {
   data?: T;
 }
 
+/**
+ * Bot challenge providers supported by CaptchaAuth and lib/challenge
+ */
+export type ChallengeProviderName = 'pow' | 'hcaptcha' | 'turnstile';
+
+/**
+ * Review status of a signup
+ * Allowed transitions are in src/utils/signupStatus.ts
+ */
+export const SIGNUP_STATUSES = [
+  'submitted',
+  'under_review',
+  'needs_info',
+  'approved',
+  'rejected',
+  'onboarded',
+] as const;
+export type SignupStatus = (typeof SIGNUP_STATUSES)[number];
+
+/**
+ * Fulfillment status of a terminal order
+ * Allowed transitions are in src/utils/terminalOrders.ts
+ */
+export const TERMINAL_ORDER_STATUSES = [
+  'requested',
+  'approved',
+  'shipped',
+  'delivered',
+  'activated',
+] as const;
+export type TerminalOrderStatus = (typeof TERMINAL_ORDER_STATUSES)[number];
+
+/**
+ * How a business sells (signups.merchant_type)
+ * Labels and business categories are in src/utils/businessCategories.ts
+ */
+export const MERCHANT_TYPES = ['storefront', 'online', 'mobile', 'storefront_online'] as const;
+export type MerchantType = (typeof MERCHANT_TYPES)[number];
+
+/**
+ * Terminal models applicants can order
+ */
+export const TERMINAL_MODELS = ['flash-t1', 'flash-t1-printer'] as const;
+export type TerminalModel = (typeof TERMINAL_MODELS)[number];
+
+/**
+ * Markets the signup form runs in (signups.country), as ISO 3166-1 alpha-2 codes
+ * Each has a profile in src/utils/countryProfiles.ts
+ */
+export const SIGNUP_COUNTRIES = ['JM', 'KY', 'CW'] as const;
+export type SignupCountry = (typeof SIGNUP_COUNTRIES)[number];
+
+/**
+ * Documents applicants upload for verification (signup_documents.document_type)
+ * Which ones a signup needs is decided in src/utils/kycDocuments.ts
+ */
+export const KYC_DOCUMENT_TYPES = [
+  'national_id_front',
+  'national_id_back',
+  'passport',
+  'drivers_licence',
+  'utility_bill',
+  'business_registration',
+] as const;
+export type KycDocumentType = (typeof KYC_DOCUMENT_TYPES)[number];
+
+/**
+ * An uploaded verification document, one per type
+ */
+export interface SignupDocument {
+  type: KycDocumentType;
+  // Object path in the private documents bucket, never a URL
+  file_path: string;
+}
+
+// 'expired' is never stored - it is a pending session past its expiry
+export type CaptureSessionStatus = 'pending' | 'uploading' | 'completed' | 'expired';
+
+/**
+ * A phone capture session: one document photographed on the applicant's phone
+ * (lib/capture-sessions.ts)
+ */
+export interface CaptureSession {
+  id: string;
+  documentType: KycDocumentType;
+  status: CaptureSessionStatus;
+  // Object path of the captured document, once completed
+  path: string | null;
+  expiresAt: string;
+}
+
 /**
  * Form data structure
  */
@@ -19,25 +110,203 @@ export interface SignupFormData {
   phone: string;
   account_type: 'business' | 'merchant';
   terms_accepted: boolean;
+  // Market the applicant signed up in, see src/utils/countryProfiles.ts
+  country?: SignupCountry;
 
   // Business information
   business_name?: string;
   business_address?: string;
+  // Merchant category code from src/utils/businessCategories.ts
   business_type?: string;
   business_description?: string;
+  merchant_type?: MerchantType;
   latitude?: number;
   longitude?: number;
   wants_terminal?: boolean;
+  // Terminal order details, only used when wants_terminal is set
+  terminal_quantity?: number;
+  terminal_model?: TerminalModel;
+  // Empty means ship to business_address
+  terminal_shipping_address?: string;
 
   // Merchant information
-  merchant_type?: string;
   bank_name?: string;
   bank_branch?: string;
   bank_account_number?: string;
   bank_account_type?: string;
   account_currency?: string;
-  id_image_url?: string;
+  // Verification documents, stored in signup_documents
+  documents?: SignupDocument[];
 
   // Created timestamp - added by the server
   created_at?: string;
 }
+
+/**
+ * Filters, sorting and paging for the admin signup list
+ */
+export interface AdminSignupListQuery {
+  account_type?: 'personal' | 'business' | 'merchant';
+  wants_terminal?: boolean;
+  status?: SignupStatus;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+  sort: 'created_at' | 'name' | 'username' | 'account_type' | 'status';
+  order: 'asc' | 'desc';
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Row in the admin signup list
+ */
+export interface AdminSignupSummary {
+  id: string;
+  created_at: string;
+  username: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  account_type: string;
+  business_name: string | null;
+  wants_terminal: boolean | null;
+  status: SignupStatus;
+}
+
+/**
+ * Verification document in the admin signup detail
+ */
+export interface AdminSignupDocument {
+  id: string;
+  document_type: KycDocumentType;
+  file_path: string;
+  // Hex SHA-256 of the file, null for documents stored before it was recorded
+  sha256: string | null;
+  created_at: string;
+  // Short-lived signed URL, null when the file can't be signed
+  preview_url: string | null;
+  // Other signups with the same file - possible document fraud
+  reused_by: string[];
+}
+
+/**
+ * An application as shown to the applicant on /status
+ */
+export interface ApplicantSignupStatus {
+  id: string;
+  created_at: string;
+  account_type: string;
+  business_name: string | null;
+  status: SignupStatus;
+  // Reviewer requests for more information, newest first
+  info_requests: { reason: string; created_at: string }[];
+  terminal: {
+    requested: boolean;
+    order: ApplicantTerminalOrder | null;
+  };
+}
+
+/**
+ * Terminal order as shown to the applicant on /status
+ */
+export interface ApplicantTerminalOrder {
+  quantity: number;
+  model: TerminalModel;
+  shipping_address: string | null;
+  status: TerminalOrderStatus;
+  serial_numbers: string[];
+  tracking_number: string | null;
+  updated_at: string;
+}
+
+/**
+ * Entry in a terminal order's status history (terminal_order_events)
+ */
+export interface TerminalOrderStatusChange {
+  from_status: TerminalOrderStatus | null;
+  to_status: TerminalOrderStatus;
+  actor: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+/**
+ * Row in the admin terminal order list
+ */
+export interface AdminTerminalOrder {
+  id: string;
+  signup_id: string;
+  quantity: number;
+  model: TerminalModel;
+  shipping_address: string | null;
+  status: TerminalOrderStatus;
+  serial_numbers: string[];
+  tracking_number: string | null;
+  created_at: string;
+  updated_at: string;
+  signups: {
+    name: string;
+    phone: string;
+    business_name: string | null;
+    business_address: string | null;
+  } | null;
+  terminal_order_events: TerminalOrderStatusChange[];
+}
+
+/**
+ * Entry in a signup's status history (signup_logs)
+ */
+export interface SignupStatusChange {
+  from_status: SignupStatus | null;
+  to_status: SignupStatus;
+  actor: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Signup lifecycle events sent to webhook subscribers (db/webhooks.sql)
+ */
+export const WEBHOOK_EVENTS = [
+  'signup.created',
+  'signup.terminal_requested',
+  'signup.approved',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'processing' | 'delivered' | 'dead';
+
+/**
+ * Subscriber endpoint as shown in the admin console (the signing secret is only shown once)
+ */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number | null;
+  attempted_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_type: WebhookEvent;
+  signup_id: string | null;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  webhook_delivery_attempts: WebhookDeliveryAttempt[];
+}
@@ -0,0 +1,269 @@
+import { SignupCountry } from '../types';
+
+/**
+ * Well-known banks in each market, with some of their branches and the account currencies
+ * they offer
+ *
+ * This powers search and suggestions: applicants can enter a bank or branch that isn't
+ * listed, and the lists are not exhaustive. Transit codes and account number formats are not
+ * kept until they can be copied from each bank's published lists (docs/COUNTRY_PROFILES.md).
+ * signups.bank_name and signups.bank_branch store the names below, so rename with care -
+ * add the old name to `aliases` so existing records still resolve.
+ */
+
+export interface BankBranch {
+  name: string;
+}
+
+export interface Bank {
+  id: string;
+  name: string;
+  shortName: string;
+  country: SignupCountry;
+  // Other names applicants use for this bank, for search and for matching old records
+  aliases: string[];
+  currencies: string[];
+  branches: BankBranch[];
+}
+
+export const CURRENCY_LABELS: Record<string, string> = {
+  USD: 'US Dollar',
+  EUR: 'Euro',
+  JMD: 'Jamaican Dollar',
+  KYD: 'Cayman Islands Dollar',
+  ANG: 'Netherlands Antillean Guilder',
+  XCG: 'Caribbean Guilder',
+};
+
+export const BANKS: readonly Bank[] = [
+  {
+    id: 'ncb-jm',
+    name: 'National Commercial Bank Jamaica',
+    shortName: 'NCB',
+    country: 'JM',
+    aliases: ['NCB', 'National Commercial Bank', 'NCB Jamaica'],
+    currencies: ['JMD', 'USD'],
+    branches: [
+      { name: 'Half Way Tree' },
+      { name: 'Knutsford Boulevard' },
+      { name: 'Duke Street' },
+      { name: 'Portmore' },
+      { name: 'Spanish Town' },
+      { name: 'May Pen' },
+      { name: 'Mandeville' },
+      { name: 'Ocho Rios' },
+      { name: 'Montego Bay' },
+      { name: 'Savanna-la-Mar' },
+    ],
+  },
+  {
+    id: 'scotiabank-jm',
+    name: 'Scotiabank Jamaica',
+    shortName: 'Scotiabank',
+    country: 'JM',
+    aliases: ['Scotia', 'Bank of Nova Scotia Jamaica', 'BNS'],
+    currencies: ['JMD', 'USD'],
+    branches: [
+      { name: 'King Street' },
+      { name: 'New Kingston' },
+      { name: 'Half Way Tree' },
+      { name: 'Liguanea' },
+      { name: 'Portmore' },
+      { name: 'Spanish Town' },
+      { name: 'Mandeville' },
+      { name: 'Ocho Rios' },
+      { name: 'Montego Bay' },
+    ],
+  },
+  {
+    id: 'jn-jm',
+    name: 'JN Bank',
+    shortName: 'JN',
+    country: 'JM',
+    aliases: ['Jamaica National', 'JN Bank Jamaica', 'Jamaica National Building Society'],
+    currencies: ['JMD', 'USD'],
+    branches: [
+      { name: 'Half Way Tree' },
+      { name: 'New Kingston' },
+      { name: 'Portmore' },
+      { name: 'Spanish Town' },
+      { name: 'May Pen' },
+      { name: 'Mandeville' },
+      { name: 'Ocho Rios' },
+      { name: 'Montego Bay' },
+    ],
+  },
+  {
+    id: 'sagicor-jm',
+    name: 'Sagicor Bank Jamaica',
+    shortName: 'Sagicor',
+    country: 'JM',
+    aliases: ['Sagicor Bank', 'RBC Jamaica'],
+    currencies: ['JMD', 'USD'],
+    branches: [
+      { name: 'Knutsford Boulevard' },
+      { name: 'Half Way Tree' },
+      { name: 'Portmore' },
+      { name: 'Mandeville' },
+      { name: 'Montego Bay' },
+    ],
+  },
+  {
+    id: 'cibc-fcib-jm',
+    name: 'CIBC Caribbean Jamaica',
+    shortName: 'CIBC Caribbean',
+    country: 'JM',
+    aliases: ['CIBC FirstCaribbean', 'FirstCaribbean', 'FCIB'],
+    currencies: ['JMD', 'USD'],
+    branches: [
+      { name: 'New Kingston' },
+      { name: 'Half Way Tree' },
+      { name: 'Mandeville' },
+      { name: 'Montego Bay' },
+    ],
+  },
+  {
+    id: 'fgb-jm',
+    name: 'First Global Bank',
+    shortName: 'FGB',
+    country: 'JM',
+    aliases: ['FGB', 'First Global'],
+    currencies: ['JMD', 'USD'],
+    branches: [
+      { name: 'Barbados Avenue' },
+      { name: 'Half Way Tree' },
+      { name: 'Portmore' },
+      { name: 'Montego Bay' },
+    ],
+  },
+  {
+    id: 'butterfield-ky',
+    name: 'Butterfield Bank (Cayman)',
+    shortName: 'Butterfield',
+    country: 'KY',
+    aliases: ['Butterfield', 'Butterfield Cayman'],
+    currencies: ['KYD', 'USD'],
+    branches: [{ name: 'George Town' }, { name: 'Camana Bay' }],
+  },
+  {
+    id: 'cayman-national-ky',
+    name: 'Cayman National Bank',
+    shortName: 'Cayman National',
+    country: 'KY',
+    aliases: ['CNB', 'Cayman National'],
+    currencies: ['KYD', 'USD'],
+    branches: [{ name: 'George Town' }, { name: 'West Bay' }, { name: 'Cayman Brac' }],
+  },
+  {
+    id: 'mcb-cw',
+    name: 'Maduro & Curiel’s Bank',
+    shortName: 'MCB',
+    country: 'CW',
+    aliases: ['MCB', 'Maduro & Curiels Bank', 'Maduro and Curiel'],
+    currencies: ['XCG', 'ANG', 'USD', 'EUR'],
+    branches: [{ name: 'Punda' }, { name: 'Salinja' }, { name: 'Santa Rosa' }],
+  },
+  {
+    id: 'bdc-cw',
+    name: 'Banco di Caribe',
+    shortName: 'BdC',
+    country: 'CW',
+    aliases: ['BdC', 'Banco di Caribe Curacao'],
+    currencies: ['XCG', 'ANG', 'USD'],
+    branches: [{ name: 'Schottegatweg' }, { name: 'Punda' }],
+  },
+];
+
+// Ignores case, punctuation and company suffixes, so "N.C.B. Ltd" is NCB
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.,'’]/g, '')
+    .replace(/\b(limited|ltd|inc|plc|nv)\b/g, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+
+/**
+ * Find a bank by its name, short name or an alias, ignoring case and punctuation
+ */
+export function findBank(name: string | null | undefined): Bank | null {
+  if (!name) return null;
+  const wanted = normalize(name);
+  return (
+    BANKS.find(bank =>
+      [bank.name, bank.shortName, ...bank.aliases].some(
+        candidate => normalize(candidate) === wanted
+      )
+    ) || null
+  );
+}
+
+export function findBranch(bank: Bank | null, name: string | null | undefined): BankBranch | null {
+  if (!bank || !name) return null;
+  const wanted = normalize(name);
+  return bank.branches.find(branch => normalize(branch.name) === wanted) || null;
+}
+
+const matchesAll = (words: string[], values: string[]) => {
+  const haystack = normalize(values.join(' '));
+  return words.every(word => haystack.includes(word));
+};
+
+const toWords = (query: string) => normalize(query).split(' ').filter(Boolean);
+
+export function searchBanks(query: string, country?: SignupCountry): Bank[] {
+  const words = toWords(query);
+  return BANKS.filter(
+    bank =>
+      (!country || bank.country === country) &&
+      matchesAll(words, [bank.name, bank.shortName, ...bank.aliases])
+  );
+}
+
+export function searchBranches(bank: Bank, query: string): BankBranch[] {
+  const words = toWords(query);
+  return bank.branches.filter(branch => matchesAll(words, [branch.name]));
+}
+
+/**
+ * Currencies the form offers - those of the chosen bank that are also allowed, or every
+ * allowed currency before a bank is chosen
+ */
+export function getSupportedCurrencies(
+  bank: Bank | null,
+  allowed: readonly string[] = Object.keys(CURRENCY_LABELS)
+): string[] {
+  return bank ? bank.currencies.filter(currency => allowed.includes(currency)) : [...allowed];
+}
+
+// The caller words the message (lib/validators.ts translates it), so issues carry a code
+export type BankDetailsIssue =
+  | { field: 'bank_name'; code: 'listed_bank'; bank: Bank }
+  | { field: 'account_currency'; code: 'unsupported_currency'; bank: Bank };
+
+/**
+ * Check banking fields against the directory
+ * Listed banks are checked for the currencies they offer. A bank that isn't listed is accepted
+ * unless a search for its name finds a listed one - "National Commercial" must be picked as
+ * NCB, so one bank isn't stored under several names. Branches and account numbers are left
+ * to the schema's own checks and to review.
+ */
+export function validateBankDetails(
+  details: {
+    bank_name?: string;
+    account_currency?: string;
+  },
+  country?: SignupCountry
+): BankDetailsIssue[] {
+  const name = details.bank_name || '';
+  const bank = findBank(name);
+  if (!bank) {
+    const [listed] = toWords(name).length > 0 ? searchBanks(name, country) : [];
+    return listed ? [{ field: 'bank_name', code: 'listed_bank', bank: listed }] : [];
+  }
+  if (details.account_currency && !bank.currencies.includes(details.account_currency)) {
+    return [{ field: 'account_currency', code: 'unsupported_currency', bank }];
+  }
+  return [];
+}
@@ -0,0 +1,282 @@
+import { MERCHANT_TYPES, MerchantType } from '../types';
+
+/**
+ * Business categories for the signup form, keyed by ISO 18245 merchant category code (MCC)
+ *
+ * Only categories that small businesses signing up for Flash commonly fall into are listed.
+ * To add one, use the code from the card networks' MCC tables and a plain-language label;
+ * keywords are extra search terms applicants are likely to type. Codes are stored in
+ * signups.business_type, so never change the code of an existing entry.
+ */
+
+export interface BusinessCategory {
+  code: string;
+  label: string;
+  group: string;
+  keywords?: string[];
+}
+
+export const BUSINESS_CATEGORIES: readonly BusinessCategory[] = [
+  // Food and drink
+  {
+    code: '5411',
+    label: 'Grocery store or supermarket',
+    group: 'Food and drink',
+    keywords: ['shop', 'groceries', 'wholesale'],
+  },
+  {
+    code: '5462',
+    label: 'Bakery',
+    group: 'Food and drink',
+    keywords: ['pastry', 'bread', 'patty'],
+  },
+  {
+    code: '5499',
+    label: 'Specialty food store',
+    group: 'Food and drink',
+    keywords: ['market', 'produce', 'fish', 'meat'],
+  },
+  {
+    code: '5812',
+    label: 'Restaurant',
+    group: 'Food and drink',
+    keywords: ['dining', 'cafe', 'jerk'],
+  },
+  {
+    code: '5813',
+    label: 'Bar or lounge',
+    group: 'Food and drink',
+    keywords: ['pub', 'rum bar', 'nightclub'],
+  },
+  {
+    code: '5814',
+    label: 'Fast food or takeout',
+    group: 'Food and drink',
+    keywords: ['cookshop', 'food truck', 'street food'],
+  },
+  {
+    code: '5921',
+    label: 'Liquor store',
+    group: 'Food and drink',
+    keywords: ['wine', 'spirits', 'beer'],
+  },
+
+  // Retail
+  { code: '5311', label: 'Department store', group: 'Retail' },
+  {
+    code: '5331',
+    label: 'Variety or convenience store',
+    group: 'Retail',
+    keywords: ['corner shop', 'dollar store'],
+  },
+  {
+    code: '5399',
+    label: 'General merchandise',
+    group: 'Retail',
+    keywords: ['haberdashery', 'wholesale'],
+  },
+  {
+    code: '5651',
+    label: 'Clothing store',
+    group: 'Retail',
+    keywords: ['fashion', 'boutique', 'apparel'],
+  },
+  { code: '5661', label: 'Shoe store', group: 'Retail', keywords: ['footwear'] },
+  { code: '5732', label: 'Electronics store', group: 'Retail', keywords: ['phones', 'computers'] },
+  { code: '5944', label: 'Jewelry or watch store', group: 'Retail' },
+  { code: '5945', label: 'Toy or game store', group: 'Retail' },
+  {
+    code: '5977',
+    label: 'Cosmetics and beauty supply',
+    group: 'Retail',
+    keywords: ['hair', 'makeup'],
+  },
+  { code: '5992', label: 'Florist', group: 'Retail', keywords: ['flowers'] },
+  {
+    code: '5251',
+    label: 'Hardware store',
+    group: 'Retail',
+    keywords: ['building supplies', 'tools'],
+  },
+  { code: '5912', label: 'Pharmacy', group: 'Retail', keywords: ['drug store', 'chemist'] },
+  { code: '5999', label: 'Other retail', group: 'Retail', keywords: ['crafts', 'souvenirs'] },
+
+  // Services
+  {
+    code: '7230',
+    label: 'Barber or beauty salon',
+    group: 'Services',
+    keywords: ['hair', 'nails', 'spa'],
+  },
+  { code: '7298', label: 'Health and beauty spa', group: 'Services', keywords: ['massage'] },
+  { code: '7210', label: 'Laundry or dry cleaning', group: 'Services' },
+  {
+    code: '7299',
+    label: 'Other personal services',
+    group: 'Services',
+    keywords: ['tailor', 'photography'],
+  },
+  {
+    code: '7399',
+    label: 'Business services',
+    group: 'Services',
+    keywords: ['printing', 'marketing', 'consulting'],
+  },
+  {
+    code: '7538',
+    label: 'Auto repair',
+    group: 'Services',
+    keywords: ['mechanic', 'garage', 'tyres'],
+  },
+  { code: '7542', label: 'Car wash', group: 'Services' },
+  { code: '7622', label: 'Electronics repair', group: 'Services', keywords: ['phone repair'] },
+  {
+    code: '8999',
+    label: 'Professional services',
+    group: 'Services',
+    keywords: ['accountant', 'lawyer', 'freelance'],
+  },
+  {
+    code: '1520',
+    label: 'Construction or contracting',
+    group: 'Services',
+    keywords: ['builder', 'plumber', 'electrician'],
+  },
+
+  // Health and education
+  {
+    code: '8011',
+    label: 'Doctor or medical practice',
+    group: 'Health and education',
+    keywords: ['clinic'],
+  },
+  { code: '8021', label: 'Dentist', group: 'Health and education' },
+  {
+    code: '8099',
+    label: 'Other health services',
+    group: 'Health and education',
+    keywords: ['optician', 'therapy'],
+  },
+  {
+    code: '8211',
+    label: 'School',
+    group: 'Health and education',
+    keywords: ['basic school', 'prep school'],
+  },
+  {
+    code: '8299',
+    label: 'Tutoring or training',
+    group: 'Health and education',
+    keywords: ['lessons', 'classes'],
+  },
+
+  // Travel and transport
+  {
+    code: '4121',
+    label: 'Taxi or ride service',
+    group: 'Travel and transport',
+    keywords: ['route taxi', 'driver'],
+  },
+  {
+    code: '4214',
+    label: 'Delivery or courier',
+    group: 'Travel and transport',
+    keywords: ['shipping'],
+  },
+  {
+    code: '4722',
+    label: 'Travel agency or tours',
+    group: 'Travel and transport',
+    keywords: ['excursions'],
+  },
+  {
+    code: '7011',
+    label: 'Hotel or guest house',
+    group: 'Travel and transport',
+    keywords: ['villa', 'airbnb', 'lodging'],
+  },
+  {
+    code: '5541',
+    label: 'Gas station',
+    group: 'Travel and transport',
+    keywords: ['fuel', 'petrol'],
+  },
+
+  // Entertainment and other
+  {
+    code: '7922',
+    label: 'Events and entertainment',
+    group: 'Entertainment and other',
+    keywords: ['promoter', 'dj', 'tickets'],
+  },
+  {
+    code: '7997',
+    label: 'Gym or sports club',
+    group: 'Entertainment and other',
+    keywords: ['fitness'],
+  },
+  {
+    code: '8398',
+    label: 'Charity or non-profit',
+    group: 'Entertainment and other',
+    keywords: ['ngo'],
+  },
+  { code: '8661', label: 'Church or religious organization', group: 'Entertainment and other' },
+  {
+    code: '5968',
+    label: 'Online store or subscriptions',
+    group: 'Entertainment and other',
+    keywords: ['ecommerce', 'website'],
+  },
+];
+
+export const MERCHANT_TYPE_LABELS: Record<MerchantType, string> = {
+  storefront: 'Physical store or office',
+  online: 'Online only',
+  mobile: 'Mobile (market, events, deliveries)',
+  storefront_online: 'Store and online',
+};
+
+export const BUSINESS_DESCRIPTION_MAX_LENGTH = 500;
+
+const CATEGORIES_BY_CODE = new Map(BUSINESS_CATEGORIES.map(category => [category.code, category]));
+
+export function getBusinessCategory(code: string | null | undefined): BusinessCategory | null {
+  return (code && CATEGORIES_BY_CODE.get(code)) || null;
+}
+
+export function isBusinessCategoryCode(value: unknown): value is string {
+  return typeof value === 'string' && CATEGORIES_BY_CODE.has(value);
+}
+
+export function isMerchantType(value: unknown): value is MerchantType {
+  return typeof value === 'string' && (MERCHANT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * "5812 - Restaurant", for reviewers
+ */
+export function formatBusinessCategory(code: string | null | undefined): string | null {
+  const category = getBusinessCategory(code);
+  return category ? `${category.code} - ${category.label}` : code || null;
+}
+
+/**
+ * Categories matching every word of the query in their label, group, keywords or code
+ * Label matches are listed before keyword-only matches
+ */
+export function searchBusinessCategories(query: string): BusinessCategory[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [...BUSINESS_CATEGORIES];
+
+  const matches = BUSINESS_CATEGORIES.filter(category => {
+    const haystack = [category.code, category.label, category.group, ...(category.keywords || [])]
+      .join(' ')
+      .toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+
+  const inLabel = (category: BusinessCategory) =>
+    words.every(word => category.label.toLowerCase().includes(word));
+  return [...matches.filter(inLabel), ...matches.filter(category => !inLabel(category))];
+}
@@ -0,0 +1,116 @@
+import {
+  fitDocumentGuide,
+  findDocumentEdges,
+  IMAGE_ANALYSIS_DIMENSION,
+  IMAGE_MAX_DIMENSION,
+  ImageRect,
+} from './imageProcessing';
+import { encodeJpeg, readPixels } from './imageUpload';
+
+/**
+ * Photograph a document with this device's camera (CameraCapture)
+ *
+ * Streams the rear camera where there is one. A captured frame is cropped to the document's
+ * edges when findDocumentEdges finds them near the on-screen guide, and to the guide when it
+ * doesn't. The result goes through prepareImageForUpload like a picked file.
+ */
+
+export type CameraError = 'unsupported' | 'denied' | 'unavailable';
+
+export type OpenedCamera =
+  { success: true; stream: MediaStream } | { success: false; error: CameraError };
+
+export interface CapturedDocument {
+  file: File;
+  // Whether the crop follows the document's edges rather than the guide
+  edgesFound: boolean;
+}
+
+// Cropped frames are recompressed by prepareImageForUpload, so keep this one close to lossless
+const CAPTURE_QUALITY = 0.92;
+
+/**
+ * Whether the browser can stream a camera at all - it can't outside a secure context
+ */
+export function isCameraSupported(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export async function openCamera(): Promise<OpenedCamera> {
+  if (!isCameraSupported()) return { success: false, error: 'unsupported' };
+
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: {
+        facingMode: { ideal: 'environment' },
+        width: { ideal: 1920 },
+        height: { ideal: 1080 },
+      },
+    });
+    return { success: true, stream };
+  } catch (error) {
+    // DOMExceptions - NotAllowedError when the applicant or a policy blocks the camera
+    const name = (error as { name?: string } | null)?.name;
+    return {
+      success: false,
+      error: name === 'NotAllowedError' || name === 'SecurityError' ? 'denied' : 'unavailable',
+    };
+  }
+}
+
+export function stopCamera(stream: MediaStream): void {
+  stream.getTracks().forEach(track => track.stop());
+}
+
+/**
+ * The current video frame, cropped to the document shown inside the guide
+ */
+export async function captureDocument(
+  video: HTMLVideoElement,
+  aspectRatio: number
+): Promise<CapturedDocument> {
+  const { videoWidth: width, videoHeight: height } = video;
+  const frame = document.createElement('canvas');
+  frame.width = width;
+  frame.height = height;
+  const context = frame.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+  context.drawImage(video, 0, 0, width, height);
+
+  // Edges are looked for on a small copy, then the full frame is cropped
+  const analysis = readPixels(frame, IMAGE_ANALYSIS_DIMENSION);
+  const guide = fitDocumentGuide(analysis.width, analysis.height, aspectRatio);
+  const edges = findDocumentEdges(analysis, guide);
+  const scale = width / analysis.width;
+  const area: ImageRect = edges || guide;
+  const crop = {
+    x: Math.max(0, Math.round(area.x * scale)),
+    y: Math.max(0, Math.round(area.y * scale)),
+    width: Math.min(width, Math.round(area.width * scale)),
+    height: Math.min(height, Math.round(area.height * scale)),
+  };
+
+  const cropped = document.createElement('canvas');
+  cropped.width = crop.width;
+  cropped.height = crop.height;
+  const croppedContext = cropped.getContext('2d');
+  if (!croppedContext) throw new Error('Canvas 2D context unavailable');
+  croppedContext.drawImage(
+    frame,
+    crop.x,
+    crop.y,
+    crop.width,
+    crop.height,
+    0,
+    0,
+    crop.width,
+    crop.height
+  );
+
+  const blob = await encodeJpeg(readPixels(cropped, IMAGE_MAX_DIMENSION), CAPTURE_QUALITY);
+  return {
+    file: new File([blob], 'camera.jpg', { type: 'image/jpeg' }),
+    edgesFound: !!edges,
+  };
+}
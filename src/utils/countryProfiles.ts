@@ -0,0 +1,154 @@
+import { parsePhoneNumberFromString, CountryCode } from 'libphonenumber-js';
+import { SIGNUP_COUNTRIES, SignupCountry, SignupFormData } from '../types';
+import { Bank, BANKS } from './bankDirectory';
+
+/**
+ * What changes between the markets the signup form runs in
+ *
+ * The form, lib/validators (getSignupFormSchema) and the submit route all read the active
+ * profile, so adding a market means adding its code to SIGNUP_COUNTRIES, a profile here and
+ * its banks to src/utils/bankDirectory.ts.
+ */
+
+// Optional everywhere unless a profile requires them
+export type ProfileRequiredField = 'email' | 'bank_branch' | 'bank_account_type';
+
+// Forms of ID an applicant can prove their identity with, see src/utils/kycDocuments.ts
+export type IdDocumentType = 'national_id' | 'passport' | 'drivers_licence';
+
+// What a signup has to be backed by, each met by one or more uploaded documents
+export type DocumentRequirement = 'identity' | 'proof_of_address' | 'business_registration';
+
+export interface CountryProfile {
+  code: SignupCountry;
+  name: string;
+  flag: string;
+  phone: {
+    // Region used to read numbers typed without a country code
+    defaultRegion: CountryCode;
+    // Preselected in PhoneInput
+    callingCode: string;
+  };
+  requiredFields: readonly ProfileRequiredField[];
+  // Account currencies merchants can be paid out in; banks narrow this further
+  currencies: readonly string[];
+  // Accepted forms of ID, in the order they are offered
+  idDocumentTypes: readonly IdDocumentType[];
+  // Documents each account type must upload before submitting
+  requiredDocuments: Record<SignupFormData['account_type'], readonly DocumentRequirement[]>;
+  map: {
+    // Fallback pin for addresses without coordinates
+    center: { lat: number; lng: number };
+    zoom: number;
+    // Address suggestions are restricted to this box
+    bounds: { north: number; south: number; east: number; west: number };
+  };
+}
+
+export const DEFAULT_COUNTRY: SignupCountry = 'JM';
+
+export const COUNTRY_PROFILES: Record<SignupCountry, CountryProfile> = {
+  JM: {
+    code: 'JM',
+    name: 'Jamaica',
+    flag: '🇯🇲',
+    phone: { defaultRegion: 'JM', callingCode: '+1876' },
+    requiredFields: ['bank_branch', 'bank_account_type'],
+    currencies: ['JMD', 'USD'],
+    idDocumentTypes: ['drivers_licence', 'passport', 'national_id'],
+    requiredDocuments: {
+      business: [],
+      merchant: ['identity', 'proof_of_address', 'business_registration'],
+    },
+    map: {
+      center: { lat: 18.1096, lng: -77.2975 },
+      zoom: 9,
+      bounds: { north: 18.53, south: 17.7, east: -76.18, west: -78.37 },
+    },
+  },
+  KY: {
+    code: 'KY',
+    name: 'Cayman Islands',
+    flag: '🇰🇾',
+    phone: { defaultRegion: 'KY', callingCode: '+1345' },
+    // Cayman banks route by account number alone, and review happens by email
+    requiredFields: ['email', 'bank_account_type'],
+    currencies: ['KYD', 'USD'],
+    idDocumentTypes: ['passport', 'drivers_licence'],
+    requiredDocuments: {
+      business: [],
+      merchant: ['identity', 'proof_of_address', 'business_registration'],
+    },
+    map: {
+      center: { lat: 19.3133, lng: -81.2546 },
+      zoom: 10,
+      bounds: { north: 19.76, south: 19.26, east: -79.72, west: -81.43 },
+    },
+  },
+  CW: {
+    code: 'CW',
+    name: 'Curaçao',
+    flag: '🇨🇼',
+    phone: { defaultRegion: 'CW', callingCode: '+599' },
+    requiredFields: ['email', 'bank_branch', 'bank_account_type'],
+    currencies: ['XCG', 'ANG', 'USD', 'EUR'],
+    idDocumentTypes: ['national_id', 'passport', 'drivers_licence'],
+    // The Chamber of Commerce extract already shows the registered business address
+    requiredDocuments: {
+      business: [],
+      merchant: ['identity', 'business_registration'],
+    },
+    map: {
+      center: { lat: 12.1696, lng: -68.99 },
+      zoom: 10,
+      bounds: { north: 12.4, south: 12.03, east: -68.73, west: -69.17 },
+    },
+  },
+};
+
+export function isSignupCountry(value: unknown): value is SignupCountry {
+  return typeof value === 'string' && (SIGNUP_COUNTRIES as readonly string[]).includes(value);
+}
+
+/**
+ * Profile for a country code, falling back to the default market
+ */
+export function getCountryProfile(code: unknown): CountryProfile {
+  const country = typeof code === 'string' ? code.toUpperCase() : code;
+  return COUNTRY_PROFILES[isSignupCountry(country) ? country : DEFAULT_COUNTRY];
+}
+
+export function isFieldRequired(profile: CountryProfile, field: ProfileRequiredField): boolean {
+  return profile.requiredFields.includes(field);
+}
+
+export function getProfileBanks(profile: CountryProfile): Bank[] {
+  return BANKS.filter(bank => bank.country === profile.code);
+}
+
+/**
+ * Market a phone number belongs to, or null for numbers outside our markets
+ */
+export function countryFromPhone(phone: string | null | undefined): SignupCountry | null {
+  if (!phone) return null;
+  try {
+    const country = parsePhoneNumberFromString(phone)?.country;
+    return isSignupCountry(country) ? country : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Pick the market for a signup
+ * A country in the URL (?country=KY) wins, then the country of the applicant's phone number,
+ * then the default market.
+ */
+export function resolveSignupCountry(
+  requested: string | null | undefined,
+  phone?: string | null
+): SignupCountry {
+  const fromUrl = requested?.toUpperCase();
+  if (isSignupCountry(fromUrl)) return fromUrl;
+  return countryFromPhone(phone) || DEFAULT_COUNTRY;
+}
@@ -0,0 +1,435 @@
+/**
+ * Image checks and transforms used before a document photo is uploaded
+ *
+ * Everything here works on plain byte and pixel buffers so it can run (and be tested) without
+ * a browser; src/utils/imageUpload.ts does the decoding and encoding with a canvas.
+ */
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'heic';
+
+// Decoded RGBA pixels, the same layout as canvas ImageData
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type ImageQualityIssue = 'too_dark' | 'too_bright' | 'blurry';
+
+// Pixel rectangle within an image
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageQuality {
+  // Mean luminance, 0-255
+  brightness: number;
+  // Variance of the Laplacian - low means few edges, i.e. blur
+  sharpness: number;
+  issues: ImageQualityIssue[];
+}
+
+// Photos bigger than this are refused before decoding
+export const IMAGE_MAX_INPUT_BYTES = 25 * 1024 * 1024;
+// Longest side after downscaling - enough to read the smallest print on an ID
+export const IMAGE_MAX_DIMENSION = 2000;
+// Recompression stops at the first quality that fits
+export const IMAGE_TARGET_BYTES = 1024 * 1024;
+export const JPEG_QUALITIES = [0.9, 0.8, 0.7, 0.6, 0.5] as const;
+
+// Tuned on photos scaled to IMAGE_ANALYSIS_DIMENSION
+export const IMAGE_ANALYSIS_DIMENSION = 512;
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 235;
+const MIN_SHARPNESS = 60;
+
+// Share of the camera frame the document guide fills along its tighter side
+export const DOCUMENT_GUIDE_FILL = 0.8;
+// How far either side of the guide a document edge is looked for, as a share of the guide
+const EDGE_SEARCH_MARGIN = 0.15;
+// Mean luminance step across a document edge for it to count
+const MIN_EDGE_CONTRAST = 12;
+// Edges further than this from the guide's shape are more likely a table edge or a shadow
+const MAX_ASPECT_DEVIATION = 0.15;
+
+// ISO BMFF brands used by HEIC/HEIF files from phones
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode.apply(null, Array.from(bytes.subarray(start, start + length)));
+
+/**
+ * Format from the file's magic bytes - browsers often report HEIC with an empty MIME type
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 4, 4) === 'ftyp' && HEIC_BRANDS.includes(ascii(bytes, 8, 4))) return 'heic';
+  return null;
+}
+
+interface JpegSegment {
+  marker: number;
+  // Offset of the 0xFF byte
+  start: number;
+  // Offset just past the segment
+  end: number;
+}
+
+/**
+ * Marker segments before the image data (SOS), or null if this isn't a well-formed JPEG
+ */
+function readJpegSegments(
+  bytes: Uint8Array
+): { segments: JpegSegment[]; scanStart: number } | null {
+  if (detectImageFormat(bytes) !== 'jpeg') return null;
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1] as number;
+    if (marker === 0xff) {
+      // Fill byte
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xda) return { segments, scanStart: offset };
+
+    const length = ((bytes[offset + 2] as number) << 8) | (bytes[offset + 3] as number);
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) return null;
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+  return null;
+}
+
+/**
+ * EXIF orientation (1-8) of a JPEG, 1 when there is none
+ */
+export function readJpegOrientation(bytes: Uint8Array): number {
+  const parsed = readJpegSegments(bytes);
+  const exif = parsed?.segments.find(
+    segment => segment.marker === 0xe1 && ascii(bytes, segment.start + 4, 6) === 'Exif\0\0'
+  );
+  if (!exif) return 1;
+
+  const tiff = exif.start + 10;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const byteOrder = ascii(bytes, tiff, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return 1;
+  const little = byteOrder === 'II';
+
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > exif.end) return 1;
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > exif.end) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const orientation = view.getUint16(entry + 8, little);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Stored width and height of a JPEG, before any EXIF rotation
+ */
+export function readJpegDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  const frame = readJpegSegments(bytes)?.segments.find(
+    ({ marker }) =>
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+  );
+  if (!frame) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { height: view.getUint16(frame.start + 5), width: view.getUint16(frame.start + 7) };
+}
+
+// APP0 (JFIF), APP2 (ICC colour profile) and APP14 (Adobe colour transform) are needed to
+// show the image correctly; every other APPn and comment can carry EXIF, GPS, XMP or IPTC
+const KEPT_JPEG_APP_MARKERS = [0xe0, 0xe2, 0xee];
+
+/**
+ * Copy of a JPEG without EXIF (including GPS), XMP, IPTC or comments
+ * Returns null if the bytes aren't a JPEG it can read.
+ */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array | null {
+  const parsed = readJpegSegments(bytes);
+  if (!parsed) return null;
+
+  const kept = parsed.segments.filter(
+    ({ marker }) =>
+      marker !== 0xfe &&
+      !(marker >= 0xe0 && marker <= 0xef && !KEPT_JPEG_APP_MARKERS.includes(marker))
+  );
+  const length =
+    2 +
+    kept.reduce((total, segment) => total + segment.end - segment.start, 0) +
+    (bytes.length - parsed.scanStart);
+
+  const output = new Uint8Array(length);
+  output.set(bytes.subarray(0, 2));
+  let offset = 2;
+  kept.forEach(segment => {
+    output.set(bytes.subarray(segment.start, segment.end), offset);
+    offset += segment.end - segment.start;
+  });
+  output.set(bytes.subarray(parsed.scanStart), offset);
+  return output;
+}
+
+/**
+ * Whether the decoder already rotated the image for its EXIF orientation
+ * Current browsers do, older ones don't. Only orientations that swap width and height can be
+ * told apart; for the others the decoder is assumed to have applied them.
+ */
+export function isOrientationApplied(
+  orientation: number,
+  stored: { width: number; height: number },
+  decoded: { width: number; height: number }
+): boolean {
+  if (orientation < 5 || stored.width === stored.height) return true;
+  return decoded.width === stored.height && decoded.height === stored.width;
+}
+
+/**
+ * Rotate and/or mirror pixels so EXIF orientation 1 shows them the right way up
+ */
+export function orientPixels(image: PixelBuffer, orientation: number): PixelBuffer {
+  if (orientation < 2 || orientation > 8) return image;
+
+  const { width, height, data } = image;
+  const swap = orientation >= 5;
+  const outWidth = swap ? height : width;
+  const outHeight = swap ? width : height;
+  const out = new Uint8ClampedArray(data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let dx: number;
+      let dy: number;
+      switch (orientation) {
+        case 2:
+          dx = width - 1 - x;
+          dy = y;
+          break;
+        case 3:
+          dx = width - 1 - x;
+          dy = height - 1 - y;
+          break;
+        case 4:
+          dx = x;
+          dy = height - 1 - y;
+          break;
+        case 5:
+          dx = y;
+          dy = x;
+          break;
+        case 6:
+          dx = height - 1 - y;
+          dy = x;
+          break;
+        case 7:
+          dx = height - 1 - y;
+          dy = width - 1 - x;
+          break;
+        default:
+          dx = y;
+          dy = width - 1 - x;
+      }
+      const from = (y * width + x) * 4;
+      const to = (dy * outWidth + dx) * 4;
+      out[to] = data[from] as number;
+      out[to + 1] = data[from + 1] as number;
+      out[to + 2] = data[from + 2] as number;
+      out[to + 3] = data[from + 3] as number;
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * Size that fits within maxDimension on both sides, never upscaling
+ */
+export function fitWithin(
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+const lumaOf = ({ width, height, data }: PixelBuffer) => {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] =
+      0.299 * (data[i * 4] as number) +
+      0.587 * (data[i * 4 + 1] as number) +
+      0.114 * (data[i * 4 + 2] as number);
+  }
+  return luma;
+};
+
+/**
+ * Brightness and sharpness of a photo, with the problems worth telling the applicant about
+ * Expects pixels scaled to about IMAGE_ANALYSIS_DIMENSION so the thresholds hold.
+ */
+export function assessImageQuality(image: PixelBuffer): ImageQuality {
+  const { width, height } = image;
+  const luma = lumaOf(image);
+  let total = 0;
+  for (let i = 0; i < luma.length; i++) total += luma[i] as number;
+  const brightness = luma.length ? total / luma.length : 0;
+
+  // 4-neighbour Laplacian over the interior
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        (luma[i - 1] as number) +
+        (luma[i + 1] as number) +
+        (luma[i - width] as number) +
+        (luma[i + width] as number) -
+        4 * (luma[i] as number);
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const sharpness = count ? sumSquares / count - (sum / count) ** 2 : 0;
+
+  const issues: ImageQualityIssue[] = [];
+  if (brightness < MIN_BRIGHTNESS) issues.push('too_dark');
+  if (brightness > MAX_BRIGHTNESS) issues.push('too_bright');
+  // Dark photos have weak edges anyway, so only call out blur in usable light
+  if (sharpness < MIN_SHARPNESS && !issues.includes('too_dark')) issues.push('blurry');
+
+  return { brightness, sharpness, issues };
+}
+
+/**
+ * Where the camera guide for a document sits in a frame
+ * Centred, in the document's aspect ratio (width / height) and as large as
+ * DOCUMENT_GUIDE_FILL allows.
+ */
+export function fitDocumentGuide(width: number, height: number, aspectRatio: number): ImageRect {
+  let guideWidth = width * DOCUMENT_GUIDE_FILL;
+  let guideHeight = guideWidth / aspectRatio;
+  if (guideHeight > height * DOCUMENT_GUIDE_FILL) {
+    guideHeight = height * DOCUMENT_GUIDE_FILL;
+    guideWidth = guideHeight * aspectRatio;
+  }
+  return {
+    x: Math.round((width - guideWidth) / 2),
+    y: Math.round((height - guideHeight) / 2),
+    width: Math.round(guideWidth),
+    height: Math.round(guideHeight),
+  };
+}
+
+/**
+ * Edges of a document photographed inside the camera guide
+ * Takes the strongest straight brightness step near each side of the guide. Returns null when
+ * a side has none or the edges found aren't the guide's shape; callers crop to the guide then.
+ * Expects pixels scaled to about IMAGE_ANALYSIS_DIMENSION, like assessImageQuality.
+ */
+export function findDocumentEdges(image: PixelBuffer, guide: ImageRect): ImageRect | null {
+  const { width, height } = image;
+  const luma = lumaOf(image);
+  const at = (x: number, y: number) => luma[y * width + x] as number;
+
+  // Only the middle of the guide's span counts, so the document's corners and whatever lies
+  // beside it don't blur the step
+  const span = (start: number, length: number, limit: number) => [
+    Math.max(0, start + Math.round(length * 0.2)),
+    Math.min(limit, start + Math.round(length * 0.8)),
+  ];
+  const [top, bottom] = span(guide.y, guide.height, height) as [number, number];
+  const [left, right] = span(guide.x, guide.width, width) as [number, number];
+
+  // Mean step between column x - 1 and x, and between row y - 1 and y
+  const columnStep = (x: number) => {
+    let sum = 0;
+    for (let y = top; y < bottom; y++) sum += Math.abs(at(x, y) - at(x - 1, y));
+    return sum / Math.max(1, bottom - top);
+  };
+  const rowStep = (y: number) => {
+    let sum = 0;
+    for (let x = left; x < right; x++) sum += Math.abs(at(x, y) - at(x, y - 1));
+    return sum / Math.max(1, right - left);
+  };
+
+  const strongest = (
+    expected: number,
+    margin: number,
+    limit: number,
+    step: (position: number) => number
+  ) => {
+    let found: number | null = null;
+    let strength = MIN_EDGE_CONTRAST;
+    const from = Math.max(1, expected - margin);
+    const to = Math.min(limit - 1, expected + margin);
+    for (let position = from; position <= to; position++) {
+      const value = step(position);
+      if (value > strength) {
+        found = position;
+        strength = value;
+      }
+    }
+    return found;
+  };
+
+  const marginX = Math.round(guide.width * EDGE_SEARCH_MARGIN);
+  const marginY = Math.round(guide.height * EDGE_SEARCH_MARGIN);
+  const edgeLeft = strongest(guide.x, marginX, width, columnStep);
+  const edgeRight = strongest(guide.x + guide.width, marginX, width, columnStep);
+  const edgeTop = strongest(guide.y, marginY, height, rowStep);
+  const edgeBottom = strongest(guide.y + guide.height, marginY, height, rowStep);
+  if (edgeLeft === null || edgeRight === null || edgeTop === null || edgeBottom === null) {
+    return null;
+  }
+
+  const found = {
+    x: edgeLeft,
+    y: edgeTop,
+    width: edgeRight - edgeLeft,
+    height: edgeBottom - edgeTop,
+  };
+  const deviation = found.width / found.height / (guide.width / guide.height) - 1;
+  return Math.abs(deviation) <= MAX_ASPECT_DEVIATION ? found : null;
+}
+
+/**
+ * Encode at decreasing qualities until the result fits targetBytes
+ * Returns the smallest attempt if none fits.
+ */
+export async function encodeWithinSize<T extends { size: number }>(
+  encode: (quality: number) => Promise<T>,
+  targetBytes: number = IMAGE_TARGET_BYTES,
+  qualities: readonly number[] = JPEG_QUALITIES
+): Promise<T> {
+  let smallest: T | null = null;
+  for (const quality of qualities) {
+    const encoded = await encode(quality);
+    if (encoded.size <= targetBytes) return encoded;
+    if (!smallest || encoded.size < smallest.size) smallest = encoded;
+  }
+  if (!smallest) throw new Error('No qualities to try');
+  return smallest;
+}
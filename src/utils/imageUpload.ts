@@ -0,0 +1,163 @@
+import {
+  assessImageQuality,
+  detectImageFormat,
+  encodeWithinSize,
+  fitWithin,
+  IMAGE_ANALYSIS_DIMENSION,
+  IMAGE_MAX_DIMENSION,
+  IMAGE_MAX_INPUT_BYTES,
+  IMAGE_TARGET_BYTES,
+  ImageQualityIssue,
+  isOrientationApplied,
+  orientPixels,
+  PixelBuffer,
+  readJpegDimensions,
+  readJpegOrientation,
+  stripJpegMetadata,
+} from './imageProcessing';
+
+/**
+ * Prepare a document photo for upload in the browser (FileUpload)
+ *
+ * Decodes with the browser - which is also what turns HEIC into JPEG, on browsers that can
+ * read HEIC, with heic2any's libheif build standing in on the others - then fixes the
+ * orientation, downscales and recompresses. Re-encoding drops all metadata; photos that are
+ * already small and upright keep their bytes minus the metadata. PDFs, for the documents in
+ * PDF_DOCUMENT_TYPES, are sent as they are and checked on the server.
+ */
+
+export type ImageUploadError =
+  'too_large' | 'pdf_too_large' | 'unsupported_format' | 'heic_unsupported' | 'unreadable';
+
+// UPLOAD_MAX_BYTES in lib/upload-tickets.ts - PDFs aren't recompressed, so this is the file
+export const PDF_MAX_BYTES = 10 * 1024 * 1024;
+
+export type PreparedImage =
+  | { success: true; file: File; issues: ImageQualityIssue[] }
+  | { success: false; error: ImageUploadError };
+
+const jpegName = (name: string) => `${name.replace(/\.[^.]*$/, '') || 'document'}.jpg`;
+
+/**
+ * Pixels of a decoded image or a canvas, scaled to fit within maxDimension
+ */
+export function readPixels(
+  bitmap: ImageBitmap | HTMLCanvasElement,
+  maxDimension: number
+): PixelBuffer {
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+  context.drawImage(bitmap, 0, 0, width, height);
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+}
+
+export function encodeJpeg(pixels: PixelBuffer, quality: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Canvas 2D context unavailable'));
+  context.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('JPEG encoding failed'))),
+      'image/jpeg',
+      quality
+    )
+  );
+}
+
+/**
+ * Decode a HEIC photo the browser can't read itself
+ * heic2any bundles a 1.3MB build of libheif, so it is only loaded for those photos.
+ */
+async function decodeHeic(file: File): Promise<ImageBitmap> {
+  const { default: heic2any } = await import('heic2any');
+  // PNG so the photo is only compressed once, when it is re-encoded below
+  const converted = await heic2any({ blob: file, toType: 'image/png' });
+  const image = Array.isArray(converted) ? converted[0] : converted;
+  if (!image) throw new Error('HEIC file has no images');
+  return createImageBitmap(image);
+}
+
+export async function prepareImageForUpload(file: File): Promise<PreparedImage> {
+  if (file.size > IMAGE_MAX_INPUT_BYTES) return { success: false, error: 'too_large' };
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectImageFormat(bytes);
+  if (!format) return { success: false, error: 'unsupported_format' };
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    if (format !== 'heic') return { success: false, error: 'unreadable' };
+    try {
+      bitmap = await decodeHeic(file);
+    } catch (heicError) {
+      return { success: false, error: 'heic_unsupported' };
+    }
+  }
+
+  try {
+    const { issues } = assessImageQuality(readPixels(bitmap, IMAGE_ANALYSIS_DIMENSION));
+
+    const orientation = format === 'jpeg' ? readJpegOrientation(bytes) : 1;
+    const stored = format === 'jpeg' ? readJpegDimensions(bytes) : null;
+
+    // Already small and stored upright - keep the original compression
+    if (
+      format === 'jpeg' &&
+      orientation === 1 &&
+      file.size <= IMAGE_TARGET_BYTES &&
+      Math.max(bitmap.width, bitmap.height) <= IMAGE_MAX_DIMENSION
+    ) {
+      const stripped = stripJpegMetadata(bytes);
+      if (stripped) {
+        return {
+          success: true,
+          file: new File([stripped], jpegName(file.name), { type: 'image/jpeg' }),
+          issues,
+        };
+      }
+    }
+
+    const rotation = stored && !isOrientationApplied(orientation, stored, bitmap) ? orientation : 1;
+    const pixels = orientPixels(readPixels(bitmap, IMAGE_MAX_DIMENSION), rotation);
+    const blob = await encodeWithinSize(quality => encodeJpeg(pixels, quality));
+
+    return {
+      success: true,
+      file: new File([blob], jpegName(file.name), { type: 'image/jpeg' }),
+      issues,
+    };
+  } catch (error) {
+    return { success: false, error: 'unreadable' };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Whether a file is a PDF, going by its first bytes rather than its name or type
+ */
+export async function isPdfFile(file: Blob): Promise<boolean> {
+  const start = new Uint8Array(await file.slice(0, 5).arrayBuffer());
+  return String.fromCharCode(...Array.from(start)) === '%PDF-';
+}
+
+/**
+ * Prepare a PDF for upload - it goes as it is, so only its size is checked here
+ */
+export async function preparePdfForUpload(file: File): Promise<PreparedImage> {
+  if (file.size > PDF_MAX_BYTES) return { success: false, error: 'pdf_too_large' };
+  if (!(await isPdfFile(file))) return { success: false, error: 'unsupported_format' };
+
+  const name = `${file.name.replace(/\.[^.]*$/, '') || 'document'}.pdf`;
+  return { success: true, file: new File([file], name, { type: 'application/pdf' }), issues: [] };
+}
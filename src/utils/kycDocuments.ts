@@ -0,0 +1,152 @@
+import { KYC_DOCUMENT_TYPES, KycDocumentType, SignupDocument, SignupFormData } from '../types';
+import { CountryProfile, DocumentRequirement, IdDocumentType } from './countryProfiles';
+
+/**
+ * Verification documents shared by the signup form, lib/validators and the admin console
+ *
+ * A country profile lists the requirements (identity, proof of address, business
+ * registration) each account type has to meet. A requirement is met by any one of its
+ * options, and an option by uploading every document in it - a national ID needs both sides.
+ */
+
+export const KYC_DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  national_id_front: 'National ID (front)',
+  national_id_back: 'National ID (back)',
+  passport: 'Passport',
+  drivers_licence: "Driver's licence",
+  utility_bill: 'Utility bill',
+  business_registration: 'Business registration certificate',
+};
+
+export const DOCUMENT_REQUIREMENT_LABELS: Record<DocumentRequirement, string> = {
+  identity: 'Proof of identity',
+  proof_of_address: 'Proof of address',
+  business_registration: 'Business registration',
+};
+
+// Documents an applicant uploads for each form of ID
+export const ID_DOCUMENT_SIDES: Record<IdDocumentType, readonly KycDocumentType[]> = {
+  national_id: ['national_id_front', 'national_id_back'],
+  passport: ['passport'],
+  drivers_licence: ['drivers_licence'],
+};
+
+// Width over height of each document, for the camera guide: ID-1 cards, an ID-3 passport
+// page and portrait A4 paper
+export const DOCUMENT_ASPECT_RATIOS: Record<KycDocumentType, number> = {
+  national_id_front: 85.6 / 53.98,
+  national_id_back: 85.6 / 53.98,
+  passport: 125 / 88,
+  drivers_licence: 85.6 / 53.98,
+  utility_bill: 210 / 297,
+  business_registration: 210 / 297,
+};
+
+// Documents that can also be sent as a PDF - bills and certificates are often downloaded
+// rather than printed. Everything else is a photo, re-encoded as JPEG before upload.
+export const PDF_DOCUMENT_TYPES: readonly KycDocumentType[] = [
+  'utility_bill',
+  'business_registration',
+];
+
+export function acceptsPdf(type: KycDocumentType): boolean {
+  return PDF_DOCUMENT_TYPES.includes(type);
+}
+
+export interface DocumentOption {
+  // Form of ID for identity, otherwise the document type
+  value: IdDocumentType | KycDocumentType;
+  documents: readonly KycDocumentType[];
+}
+
+export interface DocumentRequirementOptions {
+  requirement: DocumentRequirement;
+  required: boolean;
+  options: DocumentOption[];
+}
+
+export function isKycDocumentType(value: unknown): value is KycDocumentType {
+  return typeof value === 'string' && (KYC_DOCUMENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a value is an object path in the documents bucket, as FileUpload stores it
+ * URLs are refused so a publicly addressable file can't be attached to a signup.
+ */
+export function isDocumentPath(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    /^[\w-]+(\/[\w-]+)*\.[a-z0-9]+$/i.test(value) &&
+    value.length <= 255
+  );
+}
+
+const requirementOptions = (
+  profile: CountryProfile,
+  requirement: DocumentRequirement
+): DocumentOption[] => {
+  switch (requirement) {
+    case 'identity':
+      return profile.idDocumentTypes.map(value => ({ value, documents: ID_DOCUMENT_SIDES[value] }));
+    case 'proof_of_address':
+      return [{ value: 'utility_bill', documents: ['utility_bill'] }];
+    case 'business_registration':
+      return [{ value: 'business_registration', documents: ['business_registration'] }];
+  }
+};
+
+/**
+ * Documents to ask an applicant for, in the order the form shows them
+ * Identity is always offered, but only required when the profile says so.
+ */
+export function getDocumentRequirements(
+  profile: CountryProfile,
+  accountType: SignupFormData['account_type'] | undefined
+): DocumentRequirementOptions[] {
+  const required = accountType ? profile.requiredDocuments[accountType] : [];
+  const requirements: DocumentRequirement[] = required.includes('identity')
+    ? [...required]
+    : ['identity', ...required];
+
+  return requirements.map(requirement => ({
+    requirement,
+    required: required.includes(requirement),
+    options: requirementOptions(profile, requirement),
+  }));
+}
+
+/**
+ * Option of a requirement the uploaded documents complete, if any
+ */
+export function findMetOption(
+  requirement: DocumentRequirementOptions,
+  documents: readonly SignupDocument[] | undefined
+): DocumentOption | undefined {
+  const uploaded = new Set(
+    (documents || []).filter(document => document.file_path).map(document => document.type)
+  );
+  return requirement.options.find(option => option.documents.every(type => uploaded.has(type)));
+}
+
+/**
+ * Required documents the applicant hasn't uploaded yet
+ */
+export function getMissingDocuments(
+  profile: CountryProfile,
+  accountType: SignupFormData['account_type'] | undefined,
+  documents: readonly SignupDocument[] | undefined
+): DocumentRequirement[] {
+  return getDocumentRequirements(profile, accountType)
+    .filter(requirement => requirement.required && !findMetOption(requirement, documents))
+    .map(requirement => requirement.requirement);
+}
+
+/**
+ * Add or replace the document of one type
+ */
+export function upsertDocument(
+  documents: readonly SignupDocument[] | undefined,
+  document: SignupDocument
+): SignupDocument[] {
+  return [...(documents || []).filter(existing => existing.type !== document.type), document];
+}
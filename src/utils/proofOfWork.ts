@@ -0,0 +1,21 @@
+/**
+ * Proof-of-work scoring shared by the challenge solver (src/services/challenge.ts) and its
+ * verifier (lib/challenge.ts), so both sides count a digest the same way
+ */
+
+/**
+ * Count leading zero bits of a digest
+ */
+export function leadingZeroBits(digest: Uint8Array): number {
+  let bits = 0;
+  for (let i = 0; i < digest.length; i++) {
+    const byte = digest[i] as number;
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
@@ -0,0 +1,345 @@
+/**
+ * Minimal QR code encoder for phone capture links (app/form/components/PhoneCapture.tsx)
+ *
+ * Byte mode at error correction level M, versions 1-10 (up to 213 bytes) - plenty for a link
+ * with a session secret. Returns the module matrix; the caller draws it with a quiet zone of
+ * QR_QUIET_ZONE modules around it.
+ */
+
+// Dark modules by row, then column
+export type QrMatrix = boolean[][];
+
+export const QR_QUIET_ZONE = 4;
+
+interface QrVersion {
+  // Error correction codewords per block
+  ecPerBlock: number;
+  // Data codewords in each block
+  blocks: number[];
+}
+
+// Level M block structure for versions 1-10 (ISO/IEC 18004 table 9)
+const VERSIONS: QrVersion[] = [
+  { ecPerBlock: 10, blocks: [16] },
+  { ecPerBlock: 16, blocks: [28] },
+  { ecPerBlock: 26, blocks: [44] },
+  { ecPerBlock: 18, blocks: [32, 32] },
+  { ecPerBlock: 24, blocks: [43, 43] },
+  { ecPerBlock: 16, blocks: [27, 27, 27, 27] },
+  { ecPerBlock: 18, blocks: [31, 31, 31, 31] },
+  { ecPerBlock: 22, blocks: [38, 38, 39, 39] },
+  { ecPerBlock: 22, blocks: [36, 36, 36, 37, 37] },
+  { ecPerBlock: 26, blocks: [43, 43, 43, 43, 44] },
+];
+
+// Alignment pattern centres per version
+const ALIGNMENT_POSITIONS: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const bit = (value: number, index: number) => ((value >>> index) & 1) === 1;
+
+/**
+ * Multiply in GF(256) with the QR code polynomial x^8 + x^4 + x^3 + x^2 + 1
+ */
+const gfMultiply = (x: number, y: number) => {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+};
+
+/**
+ * Reed-Solomon error correction codewords for one block of data
+ */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  // Generator polynomial (x - 1)(x - 2)(x - 4)..., leading coefficient dropped
+  const divisor: number[] = new Array(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j] as number, root) ^ (divisor[j + 1] ?? 0);
+    }
+    root = gfMultiply(root, 0x02);
+  }
+
+  const remainder: number[] = new Array(degree).fill(0);
+  data.forEach(codeword => {
+    const factor = codeword ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] = (remainder[i] as number) ^ gfMultiply(coefficient, factor);
+    });
+  });
+  return remainder;
+}
+
+/**
+ * Mode indicator, length, data, terminator and padding, as codewords for a version
+ */
+const encodeData = (bytes: number[], version: number, capacity: number) => {
+  const bits: boolean[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push(bit(value, i));
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, set) => (byte << 1) | (set ? 1 : 0), 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+/**
+ * Split data into blocks, add error correction and interleave them
+ */
+const addErrorCorrection = (data: number[], { ecPerBlock, blocks }: QrVersion) => {
+  let offset = 0;
+  const dataBlocks = blocks.map(length => data.slice(offset, (offset += length)));
+  const ecBlocks = dataBlocks.map(block => reedSolomonRemainder(block, ecPerBlock));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks);
+  for (let i = 0; i < longest; i++) {
+    dataBlocks.forEach(block => {
+      if (i < block.length) result.push(block[i] as number);
+    });
+  }
+  for (let i = 0; i < ecPerBlock; i++) {
+    ecBlocks.forEach(block => result.push(block[i] as number));
+  }
+  return result;
+};
+
+/**
+ * Penalty for a masked matrix (ISO/IEC 18004 7.8.3); the lowest scoring mask is used
+ */
+const penalty = (modules: QrMatrix) => {
+  const size = modules.length;
+  const at = (x: number, y: number) => (modules[y] as boolean[])[x] as boolean;
+  let score = 0;
+  let dark = 0;
+
+  // Finder-like 1:1:3:1:1 runs with four light modules on one side
+  const finderLike = [true, false, true, true, true, false, true, false, false, false, false];
+  const matchesAt = (get: (i: number) => boolean, start: number) =>
+    finderLike.every((value, i) => get(start + i) === value) ||
+    finderLike.every((value, i) => get(start + 10 - i) === value);
+
+  for (let line = 0; line < size; line++) {
+    const directions = [(i: number) => at(i, line), (i: number) => at(line, i)];
+    directions.forEach(get => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          run += 1;
+        } else {
+          if (run >= 5) score += run - 2;
+          run = 1;
+        }
+      }
+      for (let i = 0; i + 10 < size; i++) {
+        if (matchesAt(get, i)) score += 40;
+      }
+    });
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (at(x, y)) dark += 1;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        at(x, y) === at(x + 1, y) &&
+        at(x, y) === at(x, y + 1) &&
+        at(x, y) === at(x + 1, y + 1)
+      ) {
+        score += 3;
+      }
+    }
+  }
+
+  // 10 points for every 5% the dark share is away from half
+  score += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+  return score;
+};
+
+/**
+ * Encode text (as UTF-8) into a QR code matrix
+ * Returns null if it is too long for version 10.
+ */
+export function createQrCode(text: string): QrMatrix | null {
+  const bytes = unescape(encodeURIComponent(text))
+    .split('')
+    .map(char => char.charCodeAt(0));
+
+  const index = VERSIONS.findIndex(
+    (candidate, i) => sum(candidate.blocks) * 8 >= 4 + (i + 1 < 10 ? 8 : 16) + bytes.length * 8
+  );
+  const spec = VERSIONS[index];
+  if (!spec) return null;
+
+  const version = index + 1;
+  const size = version * 4 + 17;
+  const codewords = addErrorCorrection(encodeData(bytes, version, sum(spec.blocks)), spec);
+
+  const modules: QrMatrix = [];
+  const reserved: boolean[][] = [];
+  for (let y = 0; y < size; y++) {
+    modules.push(new Array(size).fill(false));
+    reserved.push(new Array(size).fill(false));
+  }
+  const set = (x: number, y: number, dark: boolean) => {
+    (modules[y] as boolean[])[x] = dark;
+    (reserved[y] as boolean[])[x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = (cx as number) + dx;
+        const y = (cy as number) + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  // Alignment patterns, except where they would overlap the finders
+  const positions = ALIGNMENT_POSITIONS[index] as number[];
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Version information, from version 7
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, bit(bits, i));
+      set(b, a, bit(bits, i));
+    }
+  }
+
+  // Format information for level M (00) and a mask
+  const drawFormat = (mask: number) => {
+    let remainder = mask;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((mask << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) set(8, i, bit(bits, i));
+    set(8, 7, bit(bits, 6));
+    set(8, 8, bit(bits, 7));
+    set(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) set(14 - i, 8, bit(bits, i));
+
+    for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(bits, i));
+    set(8, size - 8, true);
+  };
+  drawFormat(0);
+
+  // Codewords in two-module columns, zigzagging up and down from the bottom right
+  const isData = reserved.map(row => row.map(isReserved => !isReserved));
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if ((isData[y] as boolean[])[x] && bitIndex < codewords.length * 8) {
+          (modules[y] as boolean[])[x] = bit(
+            codewords[bitIndex >>> 3] as number,
+            7 - (bitIndex & 7)
+          );
+          bitIndex += 1;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    const flip = MASKS[mask] as (x: number, y: number) => boolean;
+    isData.forEach((row, y) =>
+      row.forEach((data, x) => {
+        if (data && flip(x, y)) (modules[y] as boolean[])[x] = !(modules[y] as boolean[])[x];
+      })
+    );
+  };
+
+  // Masks are their own inverse, so each one is tried and then undone
+  let best = 0;
+  let bestScore = Infinity;
+  MASKS.forEach((_mask, mask) => {
+    applyMask(mask);
+    drawFormat(mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      best = mask;
+      bestScore = score;
+    }
+    applyMask(mask);
+  });
+  applyMask(best);
+  drawFormat(best);
+
+  return modules;
+}
@@ -0,0 +1,124 @@
+import { KYC_DOCUMENT_TYPES, SignupDocument, SignupFormData } from '../types';
+import { isDocumentPath, isKycDocumentType } from './kycDocuments';
+
+/**
+ * Shared rules for saved signup drafts (client localStorage and /api/drafts)
+ */
+
+export const SIGNUP_DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const SIGNUP_DRAFT_MAX_STEP = 6;
+
+// Never persisted - the applicant re-enters these when resuming
+export const DRAFT_EXCLUDED_FIELDS = ['bank_account_number'] as const;
+
+export type SignupDraftValues = Partial<
+  Omit<SignupFormData, (typeof DRAFT_EXCLUDED_FIELDS)[number]>
+>;
+
+// Longest text kept per field - the longest form fields (addresses, descriptions) allow 500
+export const DRAFT_STRING_MAX_LENGTH = 500;
+
+type DraftFieldType = 'string' | 'number' | 'boolean';
+
+// Every field a draft may hold and its type; anything else sent as a draft is dropped.
+// Documents are checked separately.
+const DRAFT_FIELDS: Record<
+  Exclude<keyof SignupDraftValues, 'documents' | 'created_at'>,
+  DraftFieldType
+> = {
+  username: 'string',
+  name: 'string',
+  email: 'string',
+  phone: 'string',
+  account_type: 'string',
+  terms_accepted: 'boolean',
+  country: 'string',
+  business_name: 'string',
+  business_address: 'string',
+  business_type: 'string',
+  business_description: 'string',
+  merchant_type: 'string',
+  latitude: 'number',
+  longitude: 'number',
+  wants_terminal: 'boolean',
+  terminal_quantity: 'number',
+  terminal_model: 'string',
+  terminal_shipping_address: 'string',
+  bank_name: 'string',
+  bank_branch: 'string',
+  bank_account_type: 'string',
+  account_currency: 'string',
+};
+
+const isDraftField = (key: string): key is keyof typeof DRAFT_FIELDS =>
+  Object.prototype.hasOwnProperty.call(DRAFT_FIELDS, key);
+
+export interface SignupDraft {
+  currentStep: number;
+  values: SignupDraftValues;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Keep the known form fields of the right type, without excluded and empty ones, and cut
+ * long text down to DRAFT_STRING_MAX_LENGTH
+ * Also used on drafts sent to /api/drafts, so it can't assume the values came from the form.
+ */
+export function sanitizeDraftValues(values: Partial<SignupFormData>): SignupDraftValues {
+  const sanitized: Record<string, unknown> = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (key === 'documents') {
+      // Uploaded documents are only storage paths, so they survive a resume
+      const uploaded = (Array.isArray(value) ? (value as SignupDocument[]) : [])
+        .filter(document => isKycDocumentType(document?.type) && isDocumentPath(document.file_path))
+        .slice(0, KYC_DOCUMENT_TYPES.length)
+        .map(document => ({ type: document.type, file_path: document.file_path }));
+      if (uploaded.length > 0) sanitized[key] = uploaded;
+      return;
+    }
+    // Excluded fields aren't in DRAFT_FIELDS; a File selected for upload isn't of a field type
+    if (!isDraftField(key) || typeof value !== DRAFT_FIELDS[key]) return;
+    if (typeof value === 'number' && !Number.isFinite(value)) return;
+    sanitized[key] = typeof value === 'string' ? value.slice(0, DRAFT_STRING_MAX_LENGTH) : value;
+  });
+
+  return sanitized as SignupDraftValues;
+}
+
+/**
+ * Build a draft for the current step and values
+ */
+export function createSignupDraft(
+  currentStep: number,
+  values: Partial<SignupFormData>,
+  now: number = Date.now()
+): SignupDraft {
+  return {
+    currentStep,
+    values: sanitizeDraftValues(values),
+    updatedAt: now,
+    expiresAt: now + SIGNUP_DRAFT_TTL_MS,
+  };
+}
+
+/**
+ * Check that stored data is a well-formed, unexpired draft
+ */
+export function isSignupDraft(value: unknown, now: number = Date.now()): value is SignupDraft {
+  if (!value || typeof value !== 'object') return false;
+  const draft = value as SignupDraft;
+
+  return (
+    Number.isInteger(draft.currentStep) &&
+    draft.currentStep >= 1 &&
+    draft.currentStep <= SIGNUP_DRAFT_MAX_STEP &&
+    !!draft.values &&
+    typeof draft.values === 'object' &&
+    typeof draft.updatedAt === 'number' &&
+    typeof draft.expiresAt === 'number' &&
+    draft.expiresAt > now
+  );
+}
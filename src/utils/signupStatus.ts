@@ -0,0 +1,50 @@
+import { SIGNUP_STATUSES, SignupStatus } from '../types';
+
+/**
+ * Signup status workflow shared by the admin console and lib/signup-status
+ * The database enforces the same transitions (db/signup-status.sql).
+ */
+
+export const SIGNUP_STATUS_TRANSITIONS: Record<SignupStatus, readonly SignupStatus[]> = {
+  submitted: ['under_review'],
+  under_review: ['needs_info', 'approved', 'rejected'],
+  needs_info: ['under_review', 'rejected'],
+  approved: ['onboarded'],
+  rejected: [],
+  onboarded: [],
+};
+
+// Applicants see the reason for these, so reviewers must give one
+export const REASON_REQUIRED_STATUSES: readonly SignupStatus[] = ['needs_info', 'rejected'];
+
+export const SIGNUP_STATUS_REASON_MAX_LENGTH = 1000;
+
+export type SignupStatusError =
+  'invalid_status' | 'invalid_transition' | 'reason_required' | 'stale_status' | 'not_found';
+
+export function isSignupStatus(value: unknown): value is SignupStatus {
+  return typeof value === 'string' && (SIGNUP_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: SignupStatus, to: SignupStatus): boolean {
+  return SIGNUP_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check a requested transition before applying it
+ * Returns null when the transition is allowed
+ */
+export function validateTransition(
+  from: SignupStatus,
+  to: unknown,
+  reason?: string | null
+): SignupStatusError | null {
+  if (!isSignupStatus(to)) return 'invalid_status';
+  if (!canTransition(from, to)) return 'invalid_transition';
+  if (REASON_REQUIRED_STATUSES.includes(to) && !reason?.trim()) return 'reason_required';
+  return null;
+}
+
+export function formatSignupStatus(status: SignupStatus): string {
+  return status.replace(/_/g, ' ');
+}
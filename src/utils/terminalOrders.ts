@@ -0,0 +1,101 @@
+import {
+  TERMINAL_MODELS,
+  TERMINAL_ORDER_STATUSES,
+  TerminalModel,
+  TerminalOrderStatus,
+} from '../types';
+
+/**
+ * Terminal order workflow shared by the signup form, the admin console and lib/terminal-orders
+ * The database enforces the same transitions (db/terminal-orders.sql).
+ */
+
+export const TERMINAL_ORDER_TRANSITIONS: Record<
+  TerminalOrderStatus,
+  readonly TerminalOrderStatus[]
+> = {
+  requested: ['approved'],
+  approved: ['shipped'],
+  shipped: ['delivered'],
+  delivered: ['activated'],
+  activated: [],
+};
+
+export const TERMINAL_MODEL_LABELS: Record<TerminalModel, string> = {
+  'flash-t1': 'Flash T1',
+  'flash-t1-printer': 'Flash T1 with receipt printer',
+};
+
+export const DEFAULT_TERMINAL_MODEL: TerminalModel = 'flash-t1';
+
+export const TERMINAL_ORDER_MAX_QUANTITY = 10;
+
+export const TERMINAL_SHIPPING_ADDRESS_MAX_LENGTH = 500;
+
+// Manufacturer serials are letters, digits and dashes
+const SERIAL_NUMBER_PATTERN = /^[A-Z0-9-]{4,40}$/;
+
+export type TerminalOrderError =
+  | 'invalid_status'
+  | 'invalid_transition'
+  | 'serials_required'
+  | 'invalid_serials'
+  | 'serial_in_use'
+  | 'stale_status'
+  | 'not_found';
+
+export function isTerminalOrderStatus(value: unknown): value is TerminalOrderStatus {
+  return (
+    typeof value === 'string' && (TERMINAL_ORDER_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+export function isTerminalModel(value: unknown): value is TerminalModel {
+  return typeof value === 'string' && (TERMINAL_MODELS as readonly string[]).includes(value);
+}
+
+export function canTransitionTerminalOrder(
+  from: TerminalOrderStatus,
+  to: TerminalOrderStatus
+): boolean {
+  return TERMINAL_ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Trim, uppercase and drop empty serial numbers
+ */
+export function normalizeSerialNumbers(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  return values
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+/**
+ * Check a requested transition before applying it
+ * Shipping needs one distinct serial number per terminal in the order.
+ * Returns null when the transition is allowed
+ */
+export function validateTerminalOrderTransition(
+  order: { status: TerminalOrderStatus; quantity: number },
+  to: unknown,
+  serialNumbers: string[] = []
+): TerminalOrderError | null {
+  if (!isTerminalOrderStatus(to)) return 'invalid_status';
+  if (!canTransitionTerminalOrder(order.status, to)) return 'invalid_transition';
+  if (to !== 'shipped') return null;
+
+  if (serialNumbers.length !== order.quantity) return 'serials_required';
+  if (
+    new Set(serialNumbers).size !== serialNumbers.length ||
+    serialNumbers.some(serial => !SERIAL_NUMBER_PATTERN.test(serial))
+  ) {
+    return 'invalid_serials';
+  }
+  return null;
+}
+
+export function formatTerminalOrderStatus(status: TerminalOrderStatus): string {
+  return status.replace(/_/g, ' ');
+}
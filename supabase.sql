@@ -30,6 +30,8 @@ CREATE POLICY "Allow authenticated uploads" ON storage.objects
   FOR INSERT
   WITH CHECK (bucket_id = 'id_uploads' AND auth.role() = 'authenticated');
 
-CREATE POLICY "Allow public read" ON storage.objects
-  FOR SELECT
-  USING (bucket_id = 'id_uploads');
+-- Documents are private: applicants read their own, reviewers get signed URLs
+-- (db/document-storage.sql)
+CREATE POLICY "Allow owner read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'id_uploads' AND auth.uid() = owner);